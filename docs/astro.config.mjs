@@ -82,6 +82,10 @@ export default defineConfig({
 							label: 'Word Wrap',
 							link: '/key-features/word-wrap/',
 						},
+						{
+							label: 'Tabbed Groups',
+							link: '/key-features/tabbed-groups/',
+						},
 						{
 							label: 'Code Component',
 							link: '/key-features/code-component/',
@@ -91,14 +95,38 @@ export default defineConfig({
 				{
 					label: 'Optional Plugins',
 					items: [
+						{
+							label: 'Callouts',
+							link: '/plugins/callouts/',
+						},
 						{
 							label: 'Collapsible Sections',
 							link: '/plugins/collapsible-sections/',
 						},
+						{
+							label: 'File Imports',
+							link: '/plugins/file-imports/',
+						},
+						{
+							label: 'Line Anchors',
+							link: '/plugins/line-anchors/',
+						},
 						{
 							label: 'Line Numbers',
 							link: '/plugins/line-numbers/',
 						},
+						{
+							label: 'Tree-sitter',
+							link: '/plugins/tree-sitter/',
+						},
+						{
+							label: 'Twoslash',
+							link: '/plugins/twoslash/',
+						},
+						{
+							label: 'SVG Renderer',
+							link: '/plugins/svg-renderer/',
+						},
 					],
 				},
 				{
@@ -9,7 +9,13 @@ const packages = [
 	'@expressive-code/plugin-line-numbers',
 	'@expressive-code/plugin-shiki',
 	'@expressive-code/plugin-text-markers',
+	'@expressive-code/plugin-callouts',
 	'@expressive-code/plugin-collapsible-sections',
+	'@expressive-code/plugin-file-imports',
+	'@expressive-code/plugin-line-anchors',
+	'@expressive-code/plugin-tree-sitter',
+	'@expressive-code/plugin-twoslash',
+	'@expressive-code/svg-renderer',
 	'expressive-code',
 	'rehype-expressive-code',
 	'astro-expressive-code',
@@ -13,8 +13,15 @@ const changelogPaths = [
 
 const nonDefaultPackages = [
 	// All packages that are not included by default
+	'@expressive-code/plugin-callouts',
 	'@expressive-code/plugin-collapsible-sections',
+	'@expressive-code/plugin-file-imports',
+	'@expressive-code/plugin-line-anchors',
 	'@expressive-code/plugin-line-numbers',
+	'@expressive-code/plugin-tree-sitter',
+	'@expressive-code/plugin-twoslash',
+	'@expressive-code/svg-renderer',
+	'expressive-code-cli',
 ]
 
 // Load all changelogs
@@ -1,10 +1,20 @@
 import { mkdirSync, writeFileSync } from 'fs'
 import { join, dirname } from 'path'
-import { ExpressiveCodeEngine, ExpressiveCodeEngineConfig, ExpressiveCodePlugin, ExpressiveCodeTheme, StyleVariant } from '@expressive-code/core'
+import { ExpressiveCodeDiagnostic, ExpressiveCodeEngine, ExpressiveCodeEngineConfig, ExpressiveCodePlugin, ExpressiveCodeTheme, StyleVariant } from '@expressive-code/core'
 import type { Element } from '@expressive-code/core/hast'
 import { toHtml } from '@expressive-code/core/hast'
 
-export type BlockValidationFn = ({ renderedGroupAst, baseStyles, styleVariants }: { renderedGroupAst: Element; baseStyles: string; styleVariants: StyleVariant[] }) => void
+export type BlockValidationFn = ({
+	renderedGroupAst,
+	baseStyles,
+	styleVariants,
+	diagnostics,
+}: {
+	renderedGroupAst: Element
+	baseStyles: string
+	styleVariants: StyleVariant[]
+	diagnostics: ExpressiveCodeDiagnostic[]
+}) => void
 
 export type TestFixture = {
 	fixtureName: string
@@ -35,7 +45,7 @@ async function renderFixture({ fixtureName, code, language = 'js', meta = '', th
 	const baseStyles = await engine.getBaseStyles()
 	const themeStyles = await engine.getThemeStyles()
 	const jsModules = await engine.getJsModules()
-	const { renderedGroupAst, styles } = await engine.render({
+	const { renderedGroupAst, styles, diagnostics } = await engine.render({
 		code,
 		language,
 		meta,
@@ -50,6 +60,7 @@ async function renderFixture({ fixtureName, code, language = 'js', meta = '', th
 		styleVariants: engine.styleVariants,
 		styles,
 		styleOverrides: engine.styleOverrides,
+		diagnostics,
 		blockValidationFn,
 	}
 }
@@ -70,6 +70,15 @@ export interface ExpressiveCodeBlockOptions {
 							totalGroups?: number | undefined
 					  }
 					| undefined
+				/**
+				 * An optional function that plugins can call to register an additional file
+				 * that the rendered code block depends on (e.g. a source file that its code
+				 * was imported from).
+				 *
+				 * Integrations can use this information to re-render the parent document
+				 * when the registered file changes.
+				 */
+				addWatchFile?: ((filePath: string) => void) | undefined
 		  }
 		| undefined
 }
@@ -110,6 +119,43 @@ export interface ExpressiveCodeBlockProps {
 	 * @default true
 	 */
 	preserveIndent: boolean
+	/**
+	 * An optional group key that allows integrations to combine multiple adjacent
+	 * code blocks into a single group (e.g. the same command for different package managers).
+	 *
+	 * If a group contains more than one code block, it will be rendered as a set of tabs.
+	 * Selecting a tab also selects the tab with the same label in all other groups
+	 * on the page that share the same group key.
+	 */
+	group: string
+	/**
+	 * The label of the tab that represents this code block if it is rendered
+	 * as part of a tabbed group.
+	 *
+	 * If not set, the `title` meta option or the code block's language will be used.
+	 */
+	tab: string
+	/**
+	 * The name of a configured theme that the code block should always be rendered in,
+	 * regardless of the theme selected by the page or the user's system preferences.
+	 *
+	 * The name must match the `name` of one of the themes passed to the engine's `themes`
+	 * config option. Unknown theme names are reported as warnings and ignored.
+	 *
+	 * If set, this takes precedence over the `themes` prop.
+	 */
+	theme: string
+	/**
+	 * The names of the configured themes that the code block is allowed to switch between.
+	 *
+	 * If the theme selected by the page or the user's system preferences is included,
+	 * the code block uses it. Otherwise, it falls back to the first allowed theme
+	 * in the order of the engine's `themes` config option.
+	 *
+	 * When set through the meta string, the theme names are separated by commas,
+	 * e.g. `themes="github-dark,github-light"`.
+	 */
+	themes: string[]
 }
 
 /**
@@ -140,6 +186,15 @@ export class ExpressiveCodeBlock {
 		// Transfer core meta options to props
 		this.props.wrap = this.metaOptions.getBoolean('wrap') ?? this.props.wrap
 		this.props.preserveIndent = this.metaOptions.getBoolean('preserveIndent') ?? this.props.preserveIndent
+		this.props.group = this.metaOptions.getString('group') ?? this.props.group
+		this.props.tab = this.metaOptions.getString('tab') ?? this.props.tab
+		this.props.theme = this.metaOptions.getString('theme') ?? this.props.theme
+		const themes = this.metaOptions.getString('themes')
+		if (themes !== undefined)
+			this.props.themes = themes
+				.split(',')
+				.map((theme) => theme.trim())
+				.filter((theme) => theme)
 	}
 
 	/**
@@ -0,0 +1,96 @@
+import { ExpressiveCodeBlock } from './block'
+
+export type ExpressiveCodeDiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export type ExpressiveCodeDiagnosticLocation = {
+	/**
+	 * The part of the code block that the location refers to.
+	 *
+	 * - `meta`: The meta string of the code block (e.g. the text following the language
+	 *   in the opening code fence of a Markdown code block)
+	 * - `code`: The code contents of the code block
+	 */
+	source: 'meta' | 'code'
+	/**
+	 * The 1-based line number inside the source. Meta strings only have a single line.
+	 *
+	 * @default 1
+	 */
+	line?: number | undefined
+	/**
+	 * The 1-based column number inside the line.
+	 *
+	 * @default 1
+	 */
+	column?: number | undefined
+}
+
+/**
+ * A problem found while rendering a code block that can be reported by plugins
+ * using the `addDiagnostic` hook context function.
+ */
+export type ExpressiveCodeDiagnosticInput = {
+	/**
+	 * The severity of the problem. Integrations are expected to fail on errors,
+	 * and to report warnings and infos without failing by default.
+	 *
+	 * @default 'warning'
+	 */
+	severity?: ExpressiveCodeDiagnosticSeverity | undefined
+	message: string
+	/**
+	 * The location of the problem inside the code block, if known.
+	 */
+	location?: ExpressiveCodeDiagnosticLocation | undefined
+}
+
+/**
+ * A problem found while rendering a code block, as returned by the engine's `render` method.
+ */
+export type ExpressiveCodeDiagnostic = Required<Pick<ExpressiveCodeDiagnosticInput, 'severity' | 'message'>> &
+	Pick<ExpressiveCodeDiagnosticInput, 'location'> & {
+		/**
+		 * The name of the plugin that reported the problem,
+		 * or `undefined` if it was reported by the engine itself.
+		 */
+		pluginName?: string | undefined
+		/**
+		 * The code block that the problem was found in.
+		 */
+		codeBlock: ExpressiveCodeBlock
+	}
+
+/**
+ * Converts the location of a diagnostic inside a code block to a position inside
+ * the Markdown document containing the code block.
+ *
+ * Integrations can use this to report diagnostics at their source positions.
+ *
+ * @param fenceStart
+ * The 1-based start position of the code block's opening code fence in the document.
+ *
+ * @param fenceLineText
+ * The full text of the document line containing the opening code fence. If given,
+ * it is used to determine the exact position of meta string locations.
+ */
+export function getDiagnosticDocumentPosition({
+	diagnostic,
+	fenceStart,
+	fenceLineText,
+}: {
+	diagnostic: ExpressiveCodeDiagnostic
+	fenceStart: { line: number; column: number }
+	fenceLineText?: string | undefined
+}): { line: number; column: number } {
+	const { location, codeBlock } = diagnostic
+	if (!location) return { ...fenceStart }
+	const { source, line = 1, column = 1 } = location
+	if (source === 'code') {
+		// The code starts on the line following the opening fence and shares its indentation
+		return { line: fenceStart.line + line, column: fenceStart.column + column - 1 }
+	}
+	// Locate the meta string inside the fence line if possible
+	const metaIndex = codeBlock.meta && fenceLineText ? fenceLineText.indexOf(codeBlock.meta, fenceStart.column - 1) : -1
+	if (metaIndex === -1) return { ...fenceStart }
+	return { line: fenceStart.line, column: metaIndex + column }
+}
@@ -4,7 +4,7 @@ import { ExpressiveCodePlugin, ResolverContext } from './plugin'
 import { renderGroup, RenderInput, RenderOptions } from '../internal/render-group'
 import { ExpressiveCodeTheme } from './theme'
 import { PluginStyles, scopeAndMinifyNestedCss, processPluginStyles, wrapInCascadeLayer } from '../internal/css'
-import { getCoreBaseStyles, getCoreThemeStyles } from '../internal/core-styles'
+import { getCoreBaseStyles, getCoreForcedColorsStyles, getCorePrintStyles, getCoreThemeStyles } from '../internal/core-styles'
 import { StyleVariant, resolveStyleVariants } from './style-variants'
 import { StyleOverrides, StyleSettingPath, getCssVarName } from './style-settings'
 import { ExpressiveCodeLogger, ExpressiveCodeLoggerOptions } from './logger'
@@ -131,6 +131,36 @@ export interface ExpressiveCodeEngineConfig {
 	 * using the `styleOverrides` option.
 	 */
 	useThemedSelectionColors?: boolean | undefined
+	/**
+	 * Determines if CSS code is generated that optimizes code blocks for printing.
+	 * Defaults to `true`.
+	 *
+	 * When printing, code blocks use the first light theme in your `themes` option,
+	 * long lines are wrapped instead of being cut off, and interactive controls like
+	 * copy buttons are hidden. Plugins can contribute additional print styles,
+	 * e.g. to expand collapsed sections.
+	 *
+	 * You can set this to `false` to disable all print styles, or to an object containing
+	 * an `excludePlugins` array to only disable the print styles of specific plugins
+	 * by their name (e.g. `{ excludePlugins: ['Frames'] }`). To exclude the print styles
+	 * of the core engine, add `'core'` to the array.
+	 */
+	usePrintStyles?: boolean | { excludePlugins: string[] } | undefined
+	/**
+	 * Determines if CSS code is generated that keeps code blocks usable when the browser
+	 * enforces a limited color palette chosen by the user, e.g. in Windows High Contrast mode.
+	 * Defaults to `true`.
+	 *
+	 * In this mode, the generated styles use system colors to render borders, text markers,
+	 * and other visual indicators that would otherwise disappear. You can customize
+	 * the system colors using the `forcedColors*` style settings.
+	 *
+	 * You can set this to `false` to disable all forced colors styles, or to an object
+	 * containing an `excludePlugins` array to only disable the forced colors styles
+	 * of specific plugins by their name (e.g. `{ excludePlugins: ['TextMarkers'] }`).
+	 * To exclude the forced colors styles of the core engine, add `'core'` to the array.
+	 */
+	useForcedColorsStyles?: boolean | { excludePlugins: string[] } | undefined
 	/**
 	 * An optional set of style overrides that can be used to customize the appearance of
 	 * the rendered code blocks without having to write custom CSS.
@@ -244,6 +274,8 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 		this.customizeTheme = config.customizeTheme
 		this.useThemedScrollbars = config.useThemedScrollbars ?? true
 		this.useThemedSelectionColors = config.useThemedSelectionColors ?? false
+		this.usePrintStyles = config.usePrintStyles ?? true
+		this.useForcedColorsStyles = config.useForcedColorsStyles ?? true
 		this.styleOverrides = { ...config.styleOverrides }
 		this.defaultLocale = config.defaultLocale || 'en-US'
 		this.defaultProps = config.defaultProps || {}
@@ -283,7 +315,8 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 	/**
 	 * Renders the given code block(s) and returns the rendered group & block ASTs,
 	 * the rendered code block contents after all transformations have been applied,
-	 * and a set of non-global CSS styles required by the rendered code blocks.
+	 * a set of non-global CSS styles required by the rendered code blocks,
+	 * and a list of diagnostics containing all problems reported while rendering.
 	 *
 	 * In Expressive Code, all processing of your code blocks and their metadata
 	 * is performed by plugins. To render markup around lines or inline ranges of characters,
@@ -324,24 +357,33 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 	async getBaseStyles(): Promise<string> {
 		const pluginStyles: PluginStyles[] = []
 		const resolverContext = this.getResolverContext()
-		// Add core base styles
-		pluginStyles.push({
-			pluginName: 'core',
-			styles: getCoreBaseStyles({
+		const resolveStyles = async (styles: ExpressiveCodePlugin['baseStyles']) => (typeof styles === 'function' ? await styles(resolverContext) : styles) || ''
+		// Treat core styles like a plugin to allow excluding their print and forced colors styles
+		const coreStyles: ExpressiveCodePlugin = {
+			name: 'core',
+			baseStyles: getCoreBaseStyles({
 				...resolverContext,
 				useStyleReset: this.useStyleReset,
 				useThemedScrollbars: this.useThemedScrollbars,
 				useThemedSelectionColors: this.useThemedSelectionColors,
 			}),
-		})
-		// Add plugin base styles
-		for (const plugin of this.plugins) {
-			if (!plugin.baseStyles) continue
-			const resolvedStyles = typeof plugin.baseStyles === 'function' ? await plugin.baseStyles(resolverContext) : plugin.baseStyles
-			if (!resolvedStyles) continue
+			printStyles: getCorePrintStyles(resolverContext),
+			forcedColorsStyles: getCoreForcedColorsStyles(resolverContext),
+		}
+		// Collect core and plugin base styles
+		for (const plugin of [coreStyles, ...this.plugins]) {
+			// Core plugins can only be excluded together with the core styles
+			const excludableName = corePlugins.includes(plugin) ? 'core' : plugin.name
+			const baseStyles = await resolveStyles(plugin.baseStyles)
+			const printStyles = isMediaStylesOptionEnabled(this.usePrintStyles, excludableName) ? await resolveStyles(plugin.printStyles) : ''
+			const forcedColorsStyles = isMediaStylesOptionEnabled(this.useForcedColorsStyles, excludableName) ? await resolveStyles(plugin.forcedColorsStyles) : ''
+			const styles = [baseStyles, printStyles && `@media print { ${printStyles} }`, forcedColorsStyles && `@media (forced-colors: active) { ${forcedColorsStyles} }`]
+				.filter((part) => part)
+				.join('\n')
+			if (!styles) continue
 			pluginStyles.push({
 				pluginName: plugin.name,
-				styles: resolvedStyles,
+				styles,
 			})
 		}
 		// Process styles (scoping, minifying, etc.)
@@ -364,6 +406,9 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 	 * their values differ from the base theme, and scoped to theme-specific selectors that are
 	 * generated by combining `themeCssRoot` with the theme selector specified by this option.
 	 *
+	 * Unless disabled by the {@link ExpressiveCodeEngineConfig.usePrintStyles usePrintStyles}
+	 * config option, a print media query is also generated that selects the first light theme.
+	 *
 	 * The calling code must take care of actually adding the returned styles to the page.
 	 *
 	 * Please note that these styles must be added to the page together with the base styles
@@ -470,6 +515,33 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 				)
 			}
 		}
+
+		// Unless disabled, generate a media query to print code blocks using the first light theme,
+		// regardless of the theme selected by the user or the system preferences
+		const printVariantIndex = this.styleVariants.findIndex((styleVariant) => styleVariant.theme.type === 'light')
+		if (isMediaStylesOptionEnabled(this.usePrintStyles, 'core') && printVariantIndex > -1 && this.styleVariants.length > 1) {
+			// Declare all variables that differ between the themes with increased priority
+			// to override any theme selectors
+			const printVars = new Map<string, string>()
+			this.styleVariants[printVariantIndex].cssVarDeclarations.forEach((varValue, varName) => {
+				if (this.styleVariants.some((styleVariant) => styleVariant.cssVarDeclarations.get(varName) !== varValue)) {
+					printVars.set(varName, `${varValue} !important`)
+				}
+			})
+			themeStyles.push(
+				await scopeAndMinifyNestedCss(`
+					@media print {
+						${this.themeCssRoot}, & {
+							${renderDeclarations(printVars)};
+						}
+						& {
+							${getCoreThemeStyles(printVariantIndex, { important: true })}
+						}
+					}
+				`)
+			)
+		}
+
 		return wrapInCascadeLayer(themeStyles.join(''), this.cascadeLayer)
 	}
 
@@ -519,6 +591,8 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 	readonly customizeTheme: ExpressiveCodeEngineConfig['customizeTheme']
 	readonly useThemedScrollbars: boolean
 	readonly useThemedSelectionColors: boolean
+	readonly usePrintStyles: NonNullable<ExpressiveCodeEngineConfig['usePrintStyles']>
+	readonly useForcedColorsStyles: NonNullable<ExpressiveCodeEngineConfig['useForcedColorsStyles']>
 	readonly styleOverrides: StyleOverrides
 	readonly styleVariants: StyleVariant[]
 	readonly defaultLocale: string
@@ -526,3 +600,12 @@ export class ExpressiveCodeEngine implements ResolvedExpressiveCodeEngineConfig
 	readonly plugins: readonly ExpressiveCodePlugin[]
 	readonly logger: ExpressiveCodeLogger
 }
+
+/**
+ * Checks if the given `usePrintStyles` or `useForcedColorsStyles` config option
+ * enables the media-specific styles of the plugin with the given name.
+ */
+function isMediaStylesOptionEnabled(option: boolean | { excludePlugins: string[] }, pluginName: string) {
+	if (typeof option === 'boolean') return option
+	return !option.excludePlugins.includes(pluginName)
+}
@@ -6,6 +6,7 @@ import { ExpressiveCodeLine } from './line'
 import { ExpressiveCodePlugin, ResolverContext } from './plugin'
 import { ResolvedExpressiveCodeEngineConfig } from './engine'
 import { GutterElement } from './gutter'
+import { ExpressiveCodeDiagnosticInput } from './diagnostics'
 import { logErrorDetails } from './logger'
 
 export interface ExpressiveCodeHookContextBase extends ResolverContext {
@@ -42,6 +43,16 @@ export interface ExpressiveCodeHookContext extends ExpressiveCodeHookContextBase
 	 * to optionally extract these styles into a separate CSS file.
 	 */
 	addStyles: (css: string) => void
+	/**
+	 * Reports a problem found in the current code block, e.g. an invalid meta option
+	 * or an unknown language.
+	 *
+	 * Plugins should prefer this over logging warnings or throwing errors for problems
+	 * caused by user input. The engine's `render` function returns all reported diagnostics
+	 * along with the rendering results, allowing integrations to show them at their
+	 * source positions in the document.
+	 */
+	addDiagnostic: (diagnostic: ExpressiveCodeDiagnosticInput) => void
 	/**
 	 * Registers a gutter element for the current code block.
 	 *
@@ -37,6 +37,33 @@ export interface ExpressiveCodePlugin {
 	 * and insert a link to it, or it could insert the base styles into a `<style>` element.
 	 */
 	baseStyles?: string | BaseStylesResolverFn | undefined
+	/**
+	 * Additional CSS styles that should only be applied when printing a page containing
+	 * code blocks, e.g. to hide interactive controls or to expand collapsed content.
+	 *
+	 * The engine's `getBaseStyles` function wraps these styles in an `@media print` rule
+	 * and adds them after the plugin's base styles, unless print styles have been disabled
+	 * for the plugin using the engine config option `usePrintStyles`.
+	 *
+	 * Just like `baseStyles`, this can either be a string or a resolver function.
+	 */
+	printStyles?: string | BaseStylesResolverFn | undefined
+	/**
+	 * Additional CSS styles that should only be applied when the browser enforces
+	 * a limited color palette chosen by the user, e.g. in Windows High Contrast mode.
+	 *
+	 * In this mode, browsers replace most colors with system colors, which can cause
+	 * visual indicators based on background colors or images to disappear. These styles
+	 * allow plugins to restore such indicators using system colors.
+	 *
+	 * The engine's `getBaseStyles` function wraps these styles in an
+	 * `@media (forced-colors: active)` rule and adds them after the plugin's base styles,
+	 * unless forced colors styles have been disabled for the plugin using the engine config
+	 * option `useForcedColorsStyles`.
+	 *
+	 * Just like `baseStyles`, this can either be a string or a resolver function.
+	 */
+	forcedColorsStyles?: string | BaseStylesResolverFn | undefined
 	/**
 	 * JavaScript modules (pure code without any wrapping `script` tags) that should be added
 	 * to every page containing code blocks.
@@ -130,3 +130,9 @@ export function getCssVarName(styleSetting: StyleSettingPath) {
 }
 
 export const codeLineClass = 'ec-line'
+
+/**
+ * The class name added to the group wrapper of syntax-highlighted inline code
+ * (e.g. inline code with a language hint rendered by the rehype integration).
+ */
+export const inlineCodeClass = 'ec-inline'
@@ -10,6 +10,7 @@ import stripJsonComments from 'strip-json-comments'
 import type { ThemeRegistration } from 'shiki'
 import { chromaticRecolor, ChromaticRecolorTarget, ensureColorContrastOnBackground, onBackground } from '../helpers/color-transforms'
 import { StyleOverrides } from './style-settings'
+import { getOppositePalette, getPaletteType, getThemeInputFromPalette } from '../internal/theme-palette'
 
 export class ExpressiveCodeTheme implements Omit<ThemeRegistration, 'type' | 'colors' | 'settings'> {
 	name: string
@@ -179,6 +180,74 @@ export class ExpressiveCodeTheme implements Omit<ThemeRegistration, 'type' | 'co
 	static fromJSONString(json: string) {
 		return new ExpressiveCodeTheme(JSON.parse(stripJsonComments(json, { trailingCommas: true })) as Partial<ExpressiveCodeTheme>)
 	}
+
+	/**
+	 * Creates a new theme from a small palette of brand colors, allowing you to match
+	 * the colors of your website without having to write a full VS Code theme.
+	 *
+	 * The palette's background and foreground colors are used for the editor and its
+	 * surrounding frame. The accent colors are assigned to groups of common syntax
+	 * highlighting scopes (keywords, strings, functions, types, constants and so on)
+	 * in the given order, reusing them if there are more groups than accents.
+	 *
+	 * All text colors are adjusted to ensure a minimum contrast ratio of `minContrast`
+	 * (default: 5.5) on the background color.
+	 */
+	static fromPalette(palette: ExpressiveCodeThemePalette) {
+		return new ExpressiveCodeTheme(getThemeInputFromPalette(palette))
+	}
+
+	/**
+	 * Creates a matching pair of dark and light themes from the given palette.
+	 *
+	 * The palette is used as-is for its own theme type (either given by `type` or guessed
+	 * from its colors). For the other theme type, the luminance values of the background
+	 * and foreground colors are swapped while keeping their hues, and the accent colors
+	 * are adjusted to ensure the minimum contrast on the new background.
+	 *
+	 * If the palette has a name, the themes will be named `<name>-dark` and `<name>-light`.
+	 *
+	 * Returns an array containing the dark theme first and the light theme second,
+	 * which can be passed directly to the `themes` option.
+	 */
+	static fromPalettePair(palette: ExpressiveCodeThemePalette): [dark: ExpressiveCodeTheme, light: ExpressiveCodeTheme] {
+		const oppositePalette = getOppositePalette(palette)
+		const [darkPalette, lightPalette] = getPaletteType(palette) === 'dark' ? [palette, oppositePalette] : [oppositePalette, palette]
+		const withName = (p: ExpressiveCodeThemePalette, type: VSCodeThemeType) => ({ ...p, type, ...(palette.name ? { name: `${palette.name}-${type}` } : {}) })
+		return [ExpressiveCodeTheme.fromPalette(withName(darkPalette, 'dark')), ExpressiveCodeTheme.fromPalette(withName(lightPalette, 'light'))]
+	}
+}
+
+export type ExpressiveCodeThemePalette = {
+	/**
+	 * The name of the theme. Defaults to `palette-dark` or `palette-light`,
+	 * depending on the theme type.
+	 */
+	name?: string | undefined
+	/**
+	 * The type of the theme. If not given, it is guessed from the luminance
+	 * of the background and foreground colors.
+	 */
+	type?: VSCodeThemeType | undefined
+	/**
+	 * The background color of the code editor.
+	 */
+	background: string
+	/**
+	 * The default text color of the code editor.
+	 */
+	foreground: string
+	/**
+	 * One or more accent colors, ordered by importance. The first one is also used
+	 * for UI elements like the active tab indicator, links and selections.
+	 */
+	accents: string[]
+	/**
+	 * The minimum contrast ratio of all text colors on the background color.
+	 *
+	 * @default 5.5
+	 */
+	minContrast?: number | undefined
 }
 
 export type ExpressiveCodeThemeInput = Partial<Omit<ExpressiveCodeTheme | ThemeRegistration, 'type'>> & {
@@ -8,14 +8,23 @@ export class MetaOptions {
 	}
 
 	#parsedOptions: MetaOption[]
-	#errors: string[] | undefined
+	#errors: MetaOptionsError[] | undefined
 
 	/**
 	 * A list of error messages that occurred when parsing the meta string,
 	 * or `undefined` if no errors occurred.
 	 */
 	get errors() {
-		return this.#errors
+		return this.#errors?.map(({ message }) => message)
+	}
+
+	/**
+	 * A list of errors that occurred when parsing the meta string, including the
+	 * 0-based index of the failed option in the meta string,
+	 * or `undefined` if no errors occurred.
+	 */
+	get errorDetails() {
+		return this.#errors?.map((error) => ({ ...error }))
 	}
 
 	/**
@@ -140,15 +149,23 @@ export type MetaOption = MetaOptionString | MetaOptionRange | MetaOptionRegExp |
 
 export type MetaOptionKind = MetaOption['kind']
 
+export type MetaOptionsError = {
+	message: string
+	/**
+	 * The 0-based index of the option that caused the error inside the meta string.
+	 */
+	index: number
+}
+
 function parseOptions(
 	input: string,
 	syntax: DelimitedValuesSyntax = {
 		valueDelimiters: ["'", '"', '/', '{...}'],
 		keyValueSeparator: '=',
 	}
-): { options: MetaOption[]; errors: string[] } {
+): { options: MetaOption[]; errors: MetaOptionsError[] } {
 	const options: MetaOption[] = []
-	const errors: string[] = []
+	const errors: MetaOptionsError[] = []
 
 	// Parse delimited values first and remove them from the input string
 	const delimitedValues = parseDelimitedValues(input, syntax)
@@ -168,7 +185,7 @@ function parseOptions(
 				} catch (error) {
 					/* c8 ignore next */
 					const msg = error instanceof Error ? error.message : (error as string)
-					errors.push(`Failed to parse option \`${raw.trim()}\`: ${msg}`)
+					errors.push({ message: `Failed to parse option \`${raw.trim()}\`: ${msg}`, index: index + raw.length - raw.trimStart().length })
 					return
 				}
 			}
@@ -1,5 +1,6 @@
 export * from './common/annotation'
 export * from './common/block'
+export * from './common/diagnostics'
 export * from './common/engine'
 export * from './common/gutter'
 export * from './common/line'
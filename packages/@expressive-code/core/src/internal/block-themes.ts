@@ -0,0 +1,119 @@
+import type { Element } from '../hast'
+import { addClassName } from '../hast'
+import { ExpressiveCodeBlock } from '../common/block'
+import { ExpressiveCodeDiagnosticInput } from '../common/diagnostics'
+import { ExpressiveCodeHookContextBase } from '../common/plugin-hooks'
+import { StyleVariant } from '../common/style-variants'
+import { getCoreThemeStyles } from './core-styles'
+
+/**
+ * Restricts the given code block to the themes selected by its `theme` or `themes` props.
+ *
+ * Adds a class name to the rendered block AST and returns the per-block styles that
+ * override the page-level theme styles, or `undefined` if the block is not restricted.
+ * Any theme names that do not match a configured theme are reported as diagnostics.
+ */
+export function applyBlockThemes({
+	codeBlock,
+	blockAst,
+	config,
+	styleVariants,
+	addDiagnostic,
+}: {
+	codeBlock: ExpressiveCodeBlock
+	blockAst: Element
+	config: ExpressiveCodeHookContextBase['config']
+	styleVariants: StyleVariant[]
+	addDiagnostic: (diagnostic: ExpressiveCodeDiagnosticInput) => void
+}): string | undefined {
+	const { theme, themes } = codeBlock.props
+	const propName = theme ? 'theme' : 'themes'
+	const themeNames = theme ? [theme] : themes ?? []
+	if (!themeNames.length) return
+
+	// Resolve the theme names to style variant indices
+	const themeIndices: number[] = []
+	themeNames.forEach((themeName) => {
+		const styleVariantIndex = styleVariants.findIndex((styleVariant) => styleVariant.theme.name === themeName)
+		if (styleVariantIndex > -1) {
+			if (!themeIndices.includes(styleVariantIndex)) themeIndices.push(styleVariantIndex)
+			return
+		}
+		const metaOption = codeBlock.metaOptions.list(propName, 'string').pop()
+		addDiagnostic({
+			message: [
+				`The ${propName} "${themeName}" selected by the code block is not configured and will be ignored.`,
+				`Available themes: ${styleVariants.map((styleVariant) => styleVariant.theme.name).join(', ')}`,
+			].join(' '),
+			location: metaOption?.value.includes(themeName) ? { source: 'meta', column: metaOption.index + metaOption.raw.length - metaOption.raw.trimStart().length + 1 } : undefined,
+		})
+	})
+
+	// Skip blocks that are not restricted to a subset of the configured themes
+	if (!themeIndices.length || themeIndices.length === styleVariants.length) return
+	themeIndices.sort((a, b) => a - b)
+	const blockClassName = `ec-themes-${themeIndices.join('-')}`
+	addClassName(blockAst, blockClassName)
+
+	return getBlockThemeStyles({ blockClassName, themeIndices, config, styleVariants })
+}
+
+/**
+ * Generates the styles of a code block restricted to the given style variants.
+ *
+ * By default, the block uses the base theme if allowed, or the first allowed theme otherwise.
+ * Any other allowed themes are only used if they get selected by the page-level
+ * theme selectors or the dark mode media query.
+ */
+function getBlockThemeStyles({
+	blockClassName,
+	themeIndices,
+	config,
+	styleVariants,
+}: {
+	blockClassName: string
+	themeIndices: number[]
+	config: ExpressiveCodeHookContextBase['config']
+	styleVariants: StyleVariant[]
+}) {
+	const { themeCssRoot, themeCssSelector, useDarkModeMediaQuery } = config
+	const getThemeSelector = (styleVariantIndex: number) => themeCssSelector && themeCssSelector(styleVariants[styleVariantIndex].theme, { styleVariants })
+	const baseThemeSelector = getThemeSelector(0)
+	const notBaseThemeSelector = baseThemeSelector ? `:not(${baseThemeSelector})` : ''
+	const renderThemeStyles = (styleVariantIndex: number) => {
+		// Declare all variables that differ between the configured themes
+		const cssVars: string[] = []
+		styleVariants[styleVariantIndex].cssVarDeclarations.forEach((varValue, varName) => {
+			if (styleVariants.some((styleVariant) => styleVariant.cssVarDeclarations.get(varName) !== varValue)) {
+				cssVars.push(`${varName}:${varValue}`)
+			}
+		})
+		return `${cssVars.join(';')};${getCoreThemeStyles(styleVariantIndex, { important: true })}`
+	}
+
+	const styles: string[] = [
+		`& .${blockClassName} {
+			${renderThemeStyles(themeIndices[0])}
+		}`,
+	]
+
+	// Allow switching to the other allowed themes using the page-level theme selectors
+	const altType = styleVariants[0].theme.type === 'dark' ? 'light' : 'dark'
+	const mediaQueryVariantIndex = useDarkModeMediaQuery ? styleVariants.findIndex((styleVariant) => styleVariant.theme.type === altType) : -1
+	themeIndices.slice(1).forEach((styleVariantIndex) => {
+		if (styleVariantIndex === mediaQueryVariantIndex) {
+			styles.push(`@media (prefers-color-scheme: ${altType}) {
+				${themeCssRoot}${notBaseThemeSelector} & .${blockClassName} {
+					${renderThemeStyles(styleVariantIndex)}
+				}
+			}`)
+		}
+		const themeSelector = getThemeSelector(styleVariantIndex)
+		if (!themeSelector) return
+		styles.push(`${themeCssRoot}${themeSelector} & .${blockClassName}, &${themeSelector} .${blockClassName} {
+			${renderThemeStyles(styleVariantIndex)}
+		}`)
+	})
+
+	return styles.join('\n')
+}
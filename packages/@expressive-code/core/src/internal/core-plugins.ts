@@ -1,7 +1,9 @@
 import { AnnotationRenderOptions, ExpressiveCodeAnnotation, isInlineStyleAnnotation } from '../common/annotation'
 import { ExpressiveCodePlugin } from '../common/plugin'
 import { h } from '../hast'
+import { getGroupTabsBaseStyles, getGroupTabsForcedColorsStyles, getGroupTabsPrintStyles, renderGroupTabs } from './group-tabs'
 import tabindexJsModule from './tabindex-js-module.min'
+import tabsJsModule from './tabs-js-module.min'
 
 export const corePlugins: ExpressiveCodePlugin[] = [
 	{
@@ -35,6 +37,16 @@ export const corePlugins: ExpressiveCodePlugin[] = [
 		name: 'Scrollable block tabindex',
 		jsModules: [tabindexJsModule],
 	},
+	{
+		name: 'Group tabs',
+		baseStyles: getGroupTabsBaseStyles,
+		printStyles: getGroupTabsPrintStyles,
+		forcedColorsStyles: getGroupTabsForcedColorsStyles,
+		jsModules: [tabsJsModule],
+		hooks: {
+			postprocessRenderedBlockGroup: renderGroupTabs,
+		},
+	},
 ]
 
 class IndentAnnotation extends ExpressiveCodeAnnotation {
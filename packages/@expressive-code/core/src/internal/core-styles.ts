@@ -1,7 +1,7 @@
 import { lighten, ensureColorContrastOnBackground, setAlpha } from '../helpers/color-transforms'
 import { ResolverContext } from '../common/plugin'
 import { PluginStyleSettings } from '../common/plugin-style-settings'
-import { UnresolvedStyleSettings, codeLineClass } from '../common/style-settings'
+import { UnresolvedStyleSettings, codeLineClass, inlineCodeClass } from '../common/style-settings'
 
 export interface CoreStyleSettings {
 	/**
@@ -167,6 +167,33 @@ export interface CoreStyleSettings {
 	 * ({ theme }) => theme.colors['scrollbarSlider.hoverBackground']
 	 */
 	scrollbarThumbHoverColor: string
+	/**
+	 * Font size of code content when printing.
+	 * @default
+	 * ({ resolveSetting }) => resolveSetting('codeFontSize')
+	 */
+	printCodeFontSize: string
+	/**
+	 * Color of borders, icons and other visual indicators when the browser enforces
+	 * a limited color palette (e.g. in Windows High Contrast mode), unless disabled
+	 * by the option `useForcedColorsStyles`.
+	 * @default 'CanvasText'
+	 */
+	forcedColorsForeground: string
+	/**
+	 * Background color of highlighted elements like text markers and selected tabs
+	 * when the browser enforces a limited color palette, unless disabled
+	 * by the option `useForcedColorsStyles`.
+	 * @default 'Highlight'
+	 */
+	forcedColorsHighlightBackground: string
+	/**
+	 * Foreground color of highlighted elements like text marker labels
+	 * when the browser enforces a limited color palette, unless disabled
+	 * by the option `useForcedColorsStyles`.
+	 * @default 'HighlightText'
+	 */
+	forcedColorsHighlightForeground: string
 }
 
 export const coreStyleSettings = new PluginStyleSettings({
@@ -213,6 +240,12 @@ export const coreStyleSettings = new PluginStyleSettings({
 		scrollbarThumbColor: ({ theme, resolveSetting }) => ensureColorContrastOnBackground(theme.colors['scrollbarSlider.background'], resolveSetting('codeBackground'), 1, 2),
 		scrollbarThumbHoverColor: ({ theme, resolveSetting }) =>
 			ensureColorContrastOnBackground(theme.colors['scrollbarSlider.hoverBackground'], resolveSetting('codeBackground'), 2.5, 3.5),
+		// Print
+		printCodeFontSize: ({ resolveSetting }) => resolveSetting('codeFontSize'),
+		// Forced colors
+		forcedColorsForeground: 'CanvasText',
+		forcedColorsHighlightBackground: 'Highlight',
+		forcedColorsHighlightForeground: 'HighlightText',
 	} satisfies UnresolvedStyleSettings,
 })
 
@@ -371,6 +404,28 @@ export function getCoreBaseStyles({
 			padding-inline-end: calc(2rem + ${cssVar('codePaddingInline')});
 		}
 
+		/* Syntax-highlighted inline code */
+		&.${inlineCodeClass} {
+			display: inline;
+			font-size: inherit;
+			font-weight: inherit;
+			line-height: inherit;
+
+			& > .${codeLineClass} {
+				display: inline;
+				padding: 0.1em 0.35em;
+				border-radius: ${cssVar('borderRadius')};
+				background: ${cssVar('codeBackground')};
+				color: ${cssVar('codeForeground')};
+				font-family: ${cssVar('codeFontFamily')};
+				font-size: 0.9em;
+				white-space: pre-wrap;
+				overflow-wrap: break-word;
+				-webkit-box-decoration-break: clone;
+				box-decoration-break: clone;
+			}
+		}
+
 		/* Common style to hide elements from screen readers */
 		.sr-only {
 			position: absolute;
@@ -386,14 +441,56 @@ export function getCoreBaseStyles({
 	`
 }
 
-export function getCoreThemeStyles(styleVariantIndex: number) {
+export function getCorePrintStyles({ cssVar }: ResolverContext) {
+	return `
+		pre {
+			/* Wrap long lines instead of cutting them off at the page edge */
+			overflow: visible;
+
+			& > code {
+				font-size: ${cssVar('printCodeFontSize')};
+			}
+
+			.${codeLineClass} {
+				break-inside: avoid;
+
+				.code {
+					white-space: pre-wrap;
+					overflow-wrap: break-word;
+					& span.indent {
+						white-space: pre;
+					}
+				}
+			}
+		}
+
+		/* Print backgrounds of highlighted code */
+		print-color-adjust: exact;
+		-webkit-print-color-adjust: exact;
+	`
+}
+
+export function getCoreForcedColorsStyles({ cssVar }: ResolverContext) {
+	return `
+		pre {
+			border-color: ${cssVar('forcedColorsForeground')};
+
+			&:focus-visible {
+				outline-color: ${cssVar('forcedColorsHighlightBackground')};
+			}
+		}
+	`
+}
+
+export function getCoreThemeStyles(styleVariantIndex: number, { important = false }: { important?: boolean | undefined } = {}) {
+	const priority = important ? ' !important' : ''
 	return `
 		/* Theme-dependent styles for InlineStyleAnnotation */
 		.${codeLineClass} :where(span[style^='--']:not([class])) {
-			color: var(--${styleVariantIndex}, inherit);
-			font-style: var(--${styleVariantIndex}fs, inherit);
-			font-weight: var(--${styleVariantIndex}fw, inherit);
-			text-decoration: var(--${styleVariantIndex}td, inherit);
+			color: var(--${styleVariantIndex}, inherit)${priority};
+			font-style: var(--${styleVariantIndex}fs, inherit)${priority};
+			font-weight: var(--${styleVariantIndex}fw, inherit)${priority};
+			text-decoration: var(--${styleVariantIndex}td, inherit)${priority};
 		}
 	`
 }
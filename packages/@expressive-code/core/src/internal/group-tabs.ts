@@ -0,0 +1,135 @@
+import type { Element } from '../hast'
+import { addClassName, h } from '../hast'
+import { ResolverContext } from '../common/plugin'
+import { PostprocessRenderedBlockGroupContext } from '../common/plugin-hooks'
+import { getStableObjectHash } from '../helpers/objects'
+
+/**
+ * Renders code block groups containing more than one code block as a set of accessible tabs
+ * if their blocks have a `group` key.
+ *
+ * Every code block is wrapped in a `tabpanel` element, and a `tablist` containing one `tab`
+ * button per code block is added to the start of the group. The first tab is selected
+ * by default. The tabs JS module takes care of switching between tabs at runtime.
+ */
+export function renderGroupTabs({ renderedGroupContents, renderData }: Pick<PostprocessRenderedBlockGroupContext, 'renderedGroupContents' | 'renderData'>) {
+	if (renderedGroupContents.length < 2) return
+	const groupKey = renderedGroupContents.find(({ codeBlock }) => codeBlock.props.group)?.codeBlock.props.group
+	if (!groupKey) return
+
+	// Generate a stable ID prefix for all tabs and panels of this group
+	const firstBlock = renderedGroupContents[0].codeBlock
+	const idPrefix = `ec-tabs-${getStableObjectHash({
+		groupKey,
+		groupIndex: firstBlock.parentDocument?.positionInDocument?.groupIndex,
+		blocks: renderedGroupContents.map(({ codeBlock }) => [codeBlock.language, codeBlock.meta, codeBlock.code]),
+	})}`
+
+	const tabs: Element[] = []
+	const panels: Element[] = []
+	renderedGroupContents.forEach(({ codeBlock, renderedBlockAst }, index) => {
+		const tabId = `${idPrefix}-tab-${index}`
+		const panelId = `${idPrefix}-panel-${index}`
+		const isSelected = index === 0
+		const label = codeBlock.props.tab || codeBlock.metaOptions.getString('title') || codeBlock.language || `${index + 1}`
+		tabs.push(
+			h(
+				'button',
+				{
+					type: 'button',
+					role: 'tab',
+					id: tabId,
+					ariaSelected: isSelected ? 'true' : 'false',
+					ariaControls: panelId,
+					tabIndex: isSelected ? 0 : -1,
+					dataTab: label,
+				},
+				label
+			)
+		)
+		panels.push(
+			h(
+				'div.ec-tab-panel',
+				{
+					role: 'tabpanel',
+					id: panelId,
+					ariaLabelledby: tabId,
+					hidden: !isSelected,
+				},
+				renderedBlockAst
+			)
+		)
+	})
+
+	const groupAst = renderData.groupAst
+	addClassName(groupAst, 'has-tabs')
+	groupAst.properties.dataTabGroup = groupKey
+	groupAst.children = [h('div.ec-tabs', { role: 'tablist' }, tabs), ...panels]
+}
+
+export function getGroupTabsBaseStyles({ cssVar }: ResolverContext) {
+	return `
+		.ec-tabs {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 0.25rem;
+			margin-bottom: 0.5rem;
+
+			[role='tab'] {
+				padding: ${cssVar('uiPaddingBlock')} ${cssVar('uiPaddingInline')};
+				border: ${cssVar('borderWidth')} solid transparent;
+				border-radius: ${cssVar('borderRadius')};
+				background: transparent;
+				color: inherit;
+				font-family: ${cssVar('uiFontFamily')};
+				font-size: ${cssVar('uiFontSize')};
+				font-weight: ${cssVar('uiFontWeight')};
+				line-height: ${cssVar('uiLineHeight')};
+				opacity: 0.75;
+				cursor: pointer;
+
+				&:hover {
+					opacity: 1;
+				}
+
+				&[aria-selected='true'] {
+					border-color: ${cssVar('borderColor')};
+					background: ${cssVar('codeBackground')};
+					color: ${cssVar('codeForeground')};
+					opacity: 1;
+				}
+
+				&:focus-visible {
+					outline: 3px solid ${cssVar('focusBorder')};
+					outline-offset: -3px;
+				}
+			}
+		}
+
+		.ec-tab-panel[hidden] {
+			display: none;
+		}
+	`
+}
+
+export function getGroupTabsPrintStyles() {
+	return `
+		.ec-tabs {
+			display: none;
+		}
+
+		.ec-tab-panel[hidden] {
+			/* Print the contents of all tabs one after another */
+			display: block;
+			margin-top: 0.5rem;
+		}
+	`
+}
+
+export function getGroupTabsForcedColorsStyles({ cssVar }: ResolverContext) {
+	return `
+		.ec-tabs [role='tab'][aria-selected='true'] {
+			border-color: ${cssVar('forcedColorsHighlightBackground')};
+		}
+	`
+}
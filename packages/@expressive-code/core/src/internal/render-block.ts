@@ -6,8 +6,10 @@ import { PluginStyles } from './css'
 import { PluginGutterElement, getRenderEmptyLineFn, renderLineToAst } from './render-line'
 import { isBoolean, isHastElement, newTypeError } from './type-checks'
 import { AnnotationRenderPhaseOrder } from '../common/annotation'
-import { ExpressiveCodeBlock } from '../common/block'
+import { ExpressiveCodeBlock, ExpressiveCodeBlockProps } from '../common/block'
 import { GutterElement } from '../common/gutter'
+import { ExpressiveCodeDiagnostic, ExpressiveCodeDiagnosticInput } from '../common/diagnostics'
+import { applyBlockThemes } from './block-themes'
 
 export async function renderBlock({
 	codeBlock,
@@ -30,13 +32,23 @@ export async function renderBlock({
 	codeBlock.state = state
 
 	const blockStyles: PluginStyles[] = []
+	const blockDiagnostics: ExpressiveCodeDiagnostic[] = []
 	const gutterElements: PluginGutterElement[] = []
 
+	const addDiagnostic = ({ severity = 'warning', message, location }: ExpressiveCodeDiagnosticInput, pluginName?: string) => {
+		blockDiagnostics.push({ severity, message, location, pluginName, codeBlock })
+	}
+
+	// Report any errors that occurred when parsing the meta string
+	codeBlock.metaOptions.errorDetails?.forEach(({ message, index }) => {
+		addDiagnostic({ message, location: { source: 'meta', column: index + 1 } })
+	})
+
 	const runHooksContext = {
 		plugins,
 		config,
 	}
-	const baseContext: Omit<ExpressiveCodeHookContext, 'addStyles' | 'addGutterElement'> = {
+	const baseContext: Omit<ExpressiveCodeHookContext, 'addStyles' | 'addDiagnostic' | 'addGutterElement'> = {
 		codeBlock,
 		groupContents,
 		locale,
@@ -51,6 +63,7 @@ export async function renderBlock({
 			await hookFn({
 				...baseContext,
 				addStyles: (styles: string) => blockStyles.push({ pluginName: plugin.name, styles }),
+				addDiagnostic: (diagnostic: ExpressiveCodeDiagnosticInput) => addDiagnostic(diagnostic, plugin.name),
 				addGutterElement: (gutterElement: GutterElement) => {
 					if (!gutterElement || typeof gutterElement !== 'object') throw newTypeError('object', gutterElement, 'gutterElement')
 					if (typeof gutterElement.renderLine !== 'function') throw newTypeError('"function" type', typeof gutterElement.renderLine, 'gutterElement.renderLine')
@@ -105,6 +118,7 @@ export async function renderBlock({
 			await hookFn({
 				...baseContext,
 				addStyles: (styles: string) => blockStyles.push({ pluginName: plugin.name, styles }),
+				addDiagnostic: (diagnostic: ExpressiveCodeDiagnosticInput) => addDiagnostic(diagnostic, plugin.name),
 				line,
 				lineIndex,
 				renderData: lineRenderData,
@@ -126,6 +140,7 @@ export async function renderBlock({
 		await hookFn({
 			...baseContext,
 			addStyles: (styles: string) => blockStyles.push({ pluginName: plugin.name, styles }),
+			addDiagnostic: (diagnostic: ExpressiveCodeDiagnosticInput) => addDiagnostic(diagnostic, plugin.name),
 			renderData: blockRenderData,
 			renderEmptyLine,
 		})
@@ -134,9 +149,14 @@ export async function renderBlock({
 		}
 	})
 
+	// Restrict the block to the themes selected by its props
+	const blockThemeStyles = applyBlockThemes({ codeBlock, blockAst: blockRenderData.blockAst, config, styleVariants, addDiagnostic })
+	if (blockThemeStyles) blockStyles.push({ pluginName: 'core', styles: blockThemeStyles })
+
 	return {
 		renderedBlockAst: blockRenderData.blockAst,
 		blockStyles,
+		blockDiagnostics,
 	}
 }
 
@@ -162,10 +182,11 @@ function applyDefaultProps(codeBlock: ExpressiveCodeBlock, config: ExpressiveCod
 		}
 	})
 	// Apply the merged defaults to the code block
-	const defaultKeys = Object.keys(mergedDefaults) as (keyof ExpressiveCodeBlock['props'])[]
-	defaultKeys.forEach((key) => {
+	const applyDefault = <K extends keyof ExpressiveCodeBlockProps>(key: K) => {
 		if (codeBlock.props[key] === undefined) codeBlock.props[key] = mergedDefaults[key]
-	})
+	}
+	const defaultKeys = Object.keys(mergedDefaults) as (keyof ExpressiveCodeBlockProps)[]
+	defaultKeys.forEach(applyDefault)
 }
 
 export interface ExpressiveCodeProcessingState {
@@ -4,6 +4,7 @@ import { ExpressiveCodeBlock, ExpressiveCodeBlockOptions } from '../common/block
 import { ExpressiveCodePlugin, ResolverContext } from '../common/plugin'
 import { ResolvedExpressiveCodeEngineConfig } from '../common/engine'
 import { runHooks } from '../common/plugin-hooks'
+import { ExpressiveCodeDiagnostic } from '../common/diagnostics'
 import { groupWrapperClassName, groupWrapperElement, PluginStyles, processPluginStyles } from './css'
 import { renderBlock } from './render-block'
 import { isHastElement, newTypeError } from './type-checks'
@@ -22,6 +23,16 @@ export interface RenderOptions {
 	 * calls `myPluginData.setFor(group, { ...data... })`.
 	 */
 	onInitGroup?: ((groupContents: GroupContents) => void) | undefined
+	/**
+	 * Determines if errors and warnings reported while rendering are logged
+	 * using the configured logger.
+	 *
+	 * Integrations that report the returned diagnostics themselves (e.g. as messages
+	 * of the processed file) can set this to `false` to prevent them from being logged twice.
+	 *
+	 * @default true
+	 */
+	logDiagnostics?: boolean | undefined
 }
 
 export type GroupContents = readonly { codeBlock: ExpressiveCodeBlock }[]
@@ -64,9 +75,10 @@ export async function renderGroup({
 	// Render all blocks
 	const renderedGroupContents = groupContents as RenderedGroupContents
 	const pluginStyles: PluginStyles[] = []
+	const diagnostics: ExpressiveCodeDiagnostic[] = []
 	for (const groupContent of renderedGroupContents) {
 		// Render the current block
-		const { renderedBlockAst, blockStyles } = await renderBlock({
+		const { renderedBlockAst, blockStyles, blockDiagnostics } = await renderBlock({
 			codeBlock: groupContent.codeBlock,
 			groupContents,
 			locale: groupContent.codeBlock.locale || defaultLocale,
@@ -82,6 +94,9 @@ export async function renderGroup({
 
 		// Add the returned block styles to the group styles
 		pluginStyles.push(...blockStyles)
+
+		// Collect all problems reported while rendering the block
+		diagnostics.push(...blockDiagnostics)
 	}
 
 	// Combine rendered blocks into a group AST
@@ -107,13 +122,29 @@ export async function renderGroup({
 		}
 	})
 
+	// Unless the caller reports the diagnostics itself, log all errors and warnings
+	// to prevent them from going unnoticed
+	if (options?.logDiagnostics !== false) {
+		diagnostics.forEach((diagnostic) => logDiagnostic(diagnostic, config.logger))
+	}
+
 	return {
 		renderedGroupAst: groupRenderData.groupAst,
 		renderedGroupContents,
 		styles: await processPluginStyles(pluginStyles),
+		diagnostics,
 	}
 }
 
+function logDiagnostic({ severity, message, pluginName, codeBlock }: ExpressiveCodeDiagnostic, logger: ResolvedExpressiveCodeEngineConfig['logger']) {
+	if (severity === 'info') return
+	const sourceFilePath = codeBlock.parentDocument?.sourceFilePath
+	const details = `${pluginName ? `reported by plugin "${pluginName}" for` : 'found in'} a code block with language "${codeBlock.language}" in ${
+		sourceFilePath ? `document "${sourceFilePath}"` : 'markdown/MDX document'
+	}`
+	logger[severity === 'error' ? 'error' : 'warn'](`${message} (${details})`)
+}
+
 /**
  * Creates the group AST wrapper element with a class,
  * allowing us to scope CSS styles that are added by plugins.
@@ -0,0 +1,8 @@
+/*
+	GENERATED FILE - DO NOT EDIT
+	----------------------------
+	This JS module code was built from the source file "tabs-js-module.ts".
+	To change it, modify the source file and then re-run the build script.
+*/
+
+export default 'try{(()=>{var d="ec-tab-group:";function c(t){return[...t.querySelectorAll(\':scope > [role="tab"]\')]}function l(t){let e=t.closest(\'[role="tablist"]\');e&&c(e).forEach(n=>{let o=n===t;n.setAttribute("aria-selected",o?"true":"false"),n.setAttribute("tabindex",o?"0":"-1");let r=n.getAttribute("aria-controls"),a=r&&document.getElementById(r);a&&(a.hidden=!o)})}function g(t,e){document.querySelectorAll(".expressive-code[data-tab-group]").forEach(n=>{if(n.getAttribute("data-tab-group")!==t)return;let o=n.querySelector(\':scope > [role="tablist"]\'),r=o&&c(o).find(a=>a.getAttribute("data-tab")===e);r&&l(r)})}function b(t){let e=t.closest(".expressive-code")?.getAttribute("data-tab-group"),n=t.getAttribute("data-tab");if(!e||n===null){l(t);return}let o=t.getBoundingClientRect().top;g(e,n),window.scrollBy(0,t.getBoundingClientRect().top-o);try{localStorage.setItem(`${d}${e}`,n)}catch{}}function f(t){let e=t.target?.closest?.(\'.expressive-code [role="tab"]\');e&&b(e)}function p(t){let e=t.target?.closest?.(\'.expressive-code [role="tab"]\'),n=e?.closest(\'[role="tablist"]\');if(!e||!n)return;let o=c(n),r=o.indexOf(e),a=getComputedStyle(n).direction==="rtl",s;switch(t.key){case"ArrowLeft":s=r+(a?1:-1);break;case"ArrowRight":s=r+(a?-1:1);break;case"Home":s=0;break;case"End":s=o.length-1;break;default:return}t.preventDefault();let u=o[(s+o.length)%o.length];u.focus(),b(u)}function i(t){t.querySelectorAll?.(".expressive-code[data-tab-group]").forEach(e=>{let n=e.getAttribute("data-tab-group");if(!n)return;let o=null;try{o=localStorage.getItem(`${d}${n}`)}catch{}let r=e.querySelector(\':scope > [role="tablist"]\'),a=o!==null&&r&&c(r).find(s=>s.getAttribute("data-tab")===o);a&&l(a)})}document.addEventListener("click",f);document.addEventListener("keydown",p);i(document);var m=new MutationObserver(t=>t.forEach(e=>e.addedNodes.forEach(n=>{i(n)})));m.observe(document.body,{childList:!0,subtree:!0});document.addEventListener("astro:page-load",()=>{i(document)});})();}catch(e){console.error("[EC] tabs-js-module failed:",e)}'
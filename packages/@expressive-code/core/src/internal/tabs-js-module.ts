@@ -0,0 +1,144 @@
+const storageKeyPrefix = 'ec-tab-group:'
+
+/**
+ * Returns all tab buttons contained in the given tab list.
+ */
+function getTabs(tabList: Element) {
+	return [...tabList.querySelectorAll<HTMLElement>(':scope > [role="tab"]')]
+}
+
+/**
+ * Selects the given tab in its tab list, updates the ARIA attributes of all tabs
+ * and shows the associated tab panel while hiding all others.
+ */
+function selectTab(tab: Element) {
+	const tabList = tab.closest('[role="tablist"]')
+	if (!tabList) return
+	getTabs(tabList).forEach((otherTab) => {
+		const isSelected = otherTab === tab
+		otherTab.setAttribute('aria-selected', isSelected ? 'true' : 'false')
+		otherTab.setAttribute('tabindex', isSelected ? '0' : '-1')
+		const panelId = otherTab.getAttribute('aria-controls')
+		const panel = panelId && document.getElementById(panelId)
+		if (panel) panel.hidden = !isSelected
+	})
+}
+
+/**
+ * Selects the tab with the given label in all tab groups on the page
+ * that share the given group key.
+ */
+function selectTabInGroups(groupKey: string, label: string) {
+	document.querySelectorAll('.expressive-code[data-tab-group]').forEach((group) => {
+		if (group.getAttribute('data-tab-group') !== groupKey) return
+		const tabList = group.querySelector(':scope > [role="tablist"]')
+		const tab = tabList && getTabs(tabList).find((tab) => tab.getAttribute('data-tab') === label)
+		if (tab) selectTab(tab)
+	})
+}
+
+/**
+ * Selects the given tab, syncs the selection with all other tab groups that share
+ * the same group key, and remembers the selection for future page loads.
+ */
+function activateTab(tab: HTMLElement) {
+	const groupKey = tab.closest('.expressive-code')?.getAttribute('data-tab-group')
+	const label = tab.getAttribute('data-tab')
+	if (!groupKey || label === null) {
+		selectTab(tab)
+		return
+	}
+	// Keep the activated tab at the same viewport position while other groups change their size
+	const prevTop = tab.getBoundingClientRect().top
+	selectTabInGroups(groupKey, label)
+	window.scrollBy(0, tab.getBoundingClientRect().top - prevTop)
+	try {
+		localStorage.setItem(`${storageKeyPrefix}${groupKey}`, label)
+	} catch (error) {
+		// Ignore errors caused by disabled storage
+	}
+}
+
+/**
+ * Handles clicks on tabs.
+ */
+function onClick(event: Event) {
+	const tab = (event.target as Element | null)?.closest?.<HTMLElement>('.expressive-code [role="tab"]')
+	if (tab) activateTab(tab)
+}
+
+/**
+ * Provides keyboard navigation inside tab lists as recommended by the
+ * WAI-ARIA Authoring Practices (arrow keys, Home and End).
+ */
+function onKeyDown(event: KeyboardEvent) {
+	const tab = (event.target as Element | null)?.closest?.<HTMLElement>('.expressive-code [role="tab"]')
+	const tabList = tab?.closest('[role="tablist"]')
+	if (!tab || !tabList) return
+	const tabs = getTabs(tabList)
+	const index = tabs.indexOf(tab)
+	const isRtl = getComputedStyle(tabList).direction === 'rtl'
+	let newIndex: number
+	switch (event.key) {
+		case 'ArrowLeft':
+			newIndex = index + (isRtl ? 1 : -1)
+			break
+		case 'ArrowRight':
+			newIndex = index + (isRtl ? -1 : 1)
+			break
+		case 'Home':
+			newIndex = 0
+			break
+		case 'End':
+			newIndex = tabs.length - 1
+			break
+		default:
+			return
+	}
+	event.preventDefault()
+	const newTab = tabs[(newIndex + tabs.length) % tabs.length]
+	newTab.focus()
+	activateTab(newTab)
+}
+
+/**
+ * Searches a node for tab groups and restores any tab selections
+ * that were remembered from previous page loads.
+ */
+function initTabGroups(container: ParentNode | Document) {
+	container.querySelectorAll?.('.expressive-code[data-tab-group]').forEach((group) => {
+		const groupKey = group.getAttribute('data-tab-group')
+		if (!groupKey) return
+		let label: string | null = null
+		try {
+			label = localStorage.getItem(`${storageKeyPrefix}${groupKey}`)
+		} catch (error) {
+			// Ignore errors caused by disabled storage
+		}
+		const tabList = group.querySelector(':scope > [role="tablist"]')
+		const tab = label !== null && tabList && getTabs(tabList).find((tab) => tab.getAttribute('data-tab') === label)
+		if (tab) selectTab(tab)
+	})
+}
+
+// Use event delegation to handle all current and future tab groups
+document.addEventListener('click', onClick)
+document.addEventListener('keydown', onKeyDown)
+
+// Initialize all tab groups that exist right now
+initTabGroups(document)
+
+// Register a MutationObserver to initialize any new tab groups added later
+const tabGroupsMutationObserver = new MutationObserver((mutations) =>
+	mutations.forEach((mutation) =>
+		mutation.addedNodes.forEach((node) => {
+			initTabGroups(node as ParentNode)
+		})
+	)
+)
+tabGroupsMutationObserver.observe(document.body, { childList: true, subtree: true })
+
+// Also re-initialize all tab groups after view transitions initiated by popular frameworks
+document.addEventListener('astro:page-load', () => {
+	initTabGroups(document)
+})
@@ -0,0 +1,117 @@
+import type { ExpressiveCodeThemeInput, ExpressiveCodeThemePalette, ThemeSetting } from '../common/theme'
+import { ensureColorContrastOnBackground, getLuminance, mix, setAlpha, setLuminance } from '../helpers/color-transforms'
+import { guessThemeTypeFromEditorColors, VSCodeThemeType } from './vscode-colors'
+
+/**
+ * Groups of TextMate scopes that receive the palette's accent colors.
+ *
+ * The groups are ordered by importance. If the palette contains fewer accents than groups,
+ * the accents are reused in the same order.
+ */
+const accentScopeGroups: { scope: string[]; fontStyle?: string | undefined }[] = [
+	{ scope: ['keyword', 'storage.type', 'storage.modifier', 'keyword.control', 'variable.language'] },
+	{ scope: ['string', 'string.quoted', 'string.template', 'markup.inline.raw', 'markup.fenced_code'] },
+	{ scope: ['entity.name.function', 'support.function', 'meta.function-call.generic', 'meta.method-call'] },
+	{ scope: ['entity.name.type', 'entity.name.class', 'entity.other.inherited-class', 'support.type', 'support.class'] },
+	{ scope: ['constant', 'constant.numeric', 'constant.language', 'support.constant', 'variable.other.constant'] },
+	{ scope: ['entity.name.tag', 'entity.other.attribute-name', 'meta.decorator', 'entity.name.namespace'] },
+	{ scope: ['variable.other.property', 'support.variable.property', 'meta.object-literal.key', 'variable.parameter'] },
+	{ scope: ['string.regexp', 'constant.character.escape', 'constant.other.placeholder'] },
+	{ scope: ['markup.heading', 'entity.name.section'], fontStyle: 'bold' },
+]
+
+/**
+ * Creates the input of an `ExpressiveCodeTheme` from the given palette.
+ *
+ * All syntax highlighting colors are adjusted to reach the palette's minimum contrast
+ * on its background color.
+ */
+export function getThemeInputFromPalette(palette: ExpressiveCodeThemePalette): ExpressiveCodeThemeInput {
+	const { background: bg, accents, minContrast = 5.5 } = palette
+	if (!accents.length) throw new Error('Failed to create theme from palette: The palette must contain at least one accent color.')
+	const type = getPaletteType(palette)
+	const fg = ensureColorContrastOnBackground(palette.foreground, bg, minContrast)
+	const onBg = (color: string) => ensureColorContrastOnBackground(color, bg, minContrast)
+	const muted = onBg(mix(fg, bg, 0.4))
+	const subtle = mix(fg, bg, 0.65)
+	const border = mix(bg, fg, 0.15)
+	const chromeBg = mix(bg, fg, type === 'dark' ? 0.05 : 0.04)
+	const primaryAccent = onBg(accents[0])
+
+	const settings: ThemeSetting[] = [
+		{ settings: { foreground: fg } },
+		{ scope: ['comment', 'punctuation.definition.comment'], settings: { foreground: muted, fontStyle: 'italic' } },
+		{ scope: ['punctuation', 'keyword.operator', 'meta.brace'], settings: { foreground: onBg(mix(fg, bg, 0.2)) } },
+		...accentScopeGroups.map(({ scope, fontStyle }, index) => ({
+			scope,
+			settings: {
+				foreground: onBg(accents[index % accents.length]),
+				...(fontStyle ? { fontStyle } : {}),
+			},
+		})),
+		{ scope: ['variable', 'variable.other.readwrite', 'meta.embedded'], settings: { foreground: fg } },
+		{ scope: ['markup.italic'], settings: { fontStyle: 'italic' } },
+		{ scope: ['markup.bold'], settings: { fontStyle: 'bold' } },
+		{ scope: ['markup.underline.link'], settings: { foreground: primaryAccent, fontStyle: 'underline' } },
+	]
+
+	return {
+		name: palette.name || `palette-${type}`,
+		type,
+		fg,
+		bg,
+		colors: {
+			foreground: fg,
+			descriptionForeground: muted,
+			focusBorder: primaryAccent,
+			'editor.background': bg,
+			'editor.foreground': fg,
+			'editor.selectionBackground': setAlpha(accents[0], 0.3),
+			'editorLineNumber.foreground': subtle,
+			'editorLineNumber.activeForeground': fg,
+			'editorGroupHeader.tabsBackground': chromeBg,
+			'editorGroupHeader.tabsBorder': border,
+			'tab.activeBackground': bg,
+			'tab.activeForeground': fg,
+			'tab.activeBorder': bg,
+			'tab.activeBorderTop': primaryAccent,
+			'tab.inactiveBackground': chromeBg,
+			'tab.inactiveForeground': muted,
+			'tab.border': border,
+			'titleBar.activeBackground': chromeBg,
+			'titleBar.activeForeground': muted,
+			'titleBar.border': border,
+			'panel.background': chromeBg,
+			'panel.border': border,
+			'terminal.background': bg,
+			'terminal.foreground': fg,
+			'textLink.foreground': primaryAccent,
+			'textLink.activeForeground': primaryAccent,
+			'textBlockQuote.border': primaryAccent,
+			'scrollbarSlider.background': setAlpha(fg, 0.15),
+			'scrollbarSlider.hoverBackground': setAlpha(fg, 0.25),
+			'scrollbarSlider.activeBackground': setAlpha(fg, 0.35),
+		},
+		settings,
+	}
+}
+
+/**
+ * Returns a palette of the opposite theme type that matches the given palette.
+ *
+ * The background and foreground colors keep their hue, but swap their luminance values.
+ * The accent colors are kept as-is because their contrast gets adjusted anyway.
+ */
+export function getOppositePalette(palette: ExpressiveCodeThemePalette): ExpressiveCodeThemePalette {
+	const { background, foreground } = palette
+	return {
+		...palette,
+		type: getPaletteType(palette) === 'dark' ? 'light' : 'dark',
+		background: setLuminance(background, getLuminance(foreground)),
+		foreground: setLuminance(foreground, getLuminance(background)),
+	}
+}
+
+export function getPaletteType(palette: ExpressiveCodeThemePalette): VSCodeThemeType {
+	return palette.type ?? guessThemeTypeFromEditorColors({ 'editor.background': palette.background, 'editor.foreground': palette.foreground })
+}
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeEngine } from '../src/common/engine'
+import { ExpressiveCodeBlock } from '../src/common/block'
+import { ExpressiveCodeDiagnostic, getDiagnosticDocumentPosition } from '../src/common/diagnostics'
+
+describe('Collects diagnostics while rendering', () => {
+	test('Returns diagnostics reported by plugins', async () => {
+		const engine = new ExpressiveCodeEngine({
+			plugins: [
+				{
+					name: 'Reporter',
+					hooks: {
+						preprocessMetadata: ({ addDiagnostic }) => {
+							addDiagnostic({ message: 'Something looks odd' })
+						},
+						postprocessRenderedLine: ({ addDiagnostic, lineIndex }) => {
+							addDiagnostic({ severity: 'info', message: `Rendered line`, location: { source: 'code', line: lineIndex + 1, column: 3 } })
+						},
+					},
+				},
+			],
+		})
+		const codeBlock = new ExpressiveCodeBlock({ code: 'line 1\nline 2', language: 'txt', meta: '' })
+		const { diagnostics } = await engine.render(codeBlock)
+		expect(diagnostics).toEqual<ExpressiveCodeDiagnostic[]>([
+			{ severity: 'warning', message: 'Something looks odd', location: undefined, pluginName: 'Reporter', codeBlock },
+			{ severity: 'info', message: 'Rendered line', location: { source: 'code', line: 1, column: 3 }, pluginName: 'Reporter', codeBlock },
+			{ severity: 'info', message: 'Rendered line', location: { source: 'code', line: 2, column: 3 }, pluginName: 'Reporter', codeBlock },
+		])
+	})
+	test('Associates diagnostics with the code block they were reported for', async () => {
+		const engine = new ExpressiveCodeEngine({
+			plugins: [
+				{
+					name: 'Reporter',
+					hooks: {
+						postprocessRenderedBlock: ({ codeBlock, addDiagnostic }) => {
+							addDiagnostic({ severity: 'error', message: `Invalid block: ${codeBlock.code}` })
+						},
+					},
+				},
+			],
+		})
+		const { diagnostics, renderedGroupContents } = await engine.render([
+			{ code: 'a', language: 'txt' },
+			{ code: 'b', language: 'txt' },
+		])
+		expect(diagnostics.map(({ message }) => message)).toEqual(['Invalid block: a', 'Invalid block: b'])
+		expect(diagnostics.map(({ codeBlock }) => codeBlock)).toEqual(renderedGroupContents.map(({ codeBlock }) => codeBlock))
+	})
+	test('Reports meta string parsing errors as warnings', async () => {
+		const engine = new ExpressiveCodeEngine({})
+		const { diagnostics } = await engine.render({ code: 'test', language: 'txt', meta: `title="Test" pattern=/(\\d+/` })
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0]).toMatchObject({
+			severity: 'warning',
+			pluginName: undefined,
+			location: { source: 'meta', column: 14 },
+		})
+		expect(diagnostics[0].message).toContain('pattern=/(\\d+/')
+	})
+})
+
+describe('Logs diagnostics', () => {
+	const getLoggingEngine = (messages: string[]) =>
+		new ExpressiveCodeEngine({
+			plugins: [
+				{
+					name: 'Reporter',
+					hooks: {
+						preprocessMetadata: ({ addDiagnostic }) => {
+							addDiagnostic({ severity: 'error', message: 'Broken' })
+							addDiagnostic({ severity: 'warning', message: 'Odd' })
+							addDiagnostic({ severity: 'info', message: 'Fine' })
+						},
+					},
+				},
+			],
+			logger: {
+				info: (message) => messages.push(`info: ${message}`),
+				warn: (message) => messages.push(`warn: ${message}`),
+				error: (message) => messages.push(`error: ${message}`),
+			},
+		})
+	test('Logs errors and warnings by default', async () => {
+		const messages: string[] = []
+		await getLoggingEngine(messages).render({ code: 'test', language: 'txt', parentDocument: { sourceFilePath: 'docs/test.md' } })
+		expect(messages).toEqual([
+			'error: Broken (reported by plugin "Reporter" for a code block with language "txt" in document "docs/test.md")',
+			'warn: Odd (reported by plugin "Reporter" for a code block with language "txt" in document "docs/test.md")',
+		])
+	})
+	test('Does not log anything if the caller reports diagnostics itself', async () => {
+		const messages: string[] = []
+		const { diagnostics } = await getLoggingEngine(messages).render({ code: 'test', language: 'txt' }, { logDiagnostics: false })
+		expect(diagnostics).toHaveLength(3)
+		expect(messages).toEqual([])
+	})
+})
+
+describe('getDiagnosticDocumentPosition()', () => {
+	const codeBlock = new ExpressiveCodeBlock({ code: 'const a = 1\nconst b = 2', language: 'js', meta: 'title="test.js" {2}' })
+	const fenceStart = { line: 10, column: 3 }
+	const fenceLineText = '  ```js title="test.js" {2}'
+	const getPosition = (location: ExpressiveCodeDiagnostic['location'], withFenceLineText = true) =>
+		getDiagnosticDocumentPosition({
+			diagnostic: { severity: 'warning', message: 'Test', location, codeBlock },
+			fenceStart,
+			fenceLineText: withFenceLineText ? fenceLineText : undefined,
+		})
+
+	test('Uses the fence position for diagnostics without location', () => {
+		expect(getPosition(undefined)).toEqual({ line: 10, column: 3 })
+	})
+	test('Maps code locations to the lines following the fence', () => {
+		expect(getPosition({ source: 'code', line: 2, column: 7 })).toEqual({ line: 12, column: 9 })
+		expect(getPosition({ source: 'code' })).toEqual({ line: 11, column: 3 })
+	})
+	test('Maps meta locations to the meta string inside the fence line', () => {
+		expect(getPosition({ source: 'meta', column: 17 })).toEqual({ line: 10, column: 25 })
+		expect(getPosition({ source: 'meta' })).toEqual({ line: 10, column: 9 })
+	})
+	test('Falls back to the fence position if the fence line is unknown', () => {
+		expect(getPosition({ source: 'meta', column: 17 }, false)).toEqual({ line: 10, column: 3 })
+	})
+})
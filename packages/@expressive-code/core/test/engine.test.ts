@@ -8,11 +8,12 @@ import { WrapperAnnotation, getHookTestResult, getMultiPluginTestResult, lineCod
 import { ExpressiveCodeEngine, ExpressiveCodeEngineConfig } from '../src/common/engine'
 import { ExpressiveCodeBlock } from '../src/common/block'
 import { StyleVariant } from '../src/common/style-variants'
-import { findDeclsBySelectorAndProperty, findDeclsByStyleSetting, parseCss, getCoreJsModules } from '../../../../internal/test-utils'
+import { findDeclsBySelectorAndProperty, findDeclsByStyleSetting, findRulesBySelector, parseCss, getCoreJsModules } from '../../../../internal/test-utils'
 import { ExpressiveCodeTheme } from '../src/common/theme'
 import { groupWrapperClassName } from '../src/internal/css'
 import { codeLineClass } from '../src/common/style-settings'
 import { escapeRegExp } from '../src/internal/escaping'
+import { getClassNames, select, selectAll, toText } from '../src/hast'
 
 const githubDark = githubDarkRaw as Required<ThemeRegistration>
 const githubLight = githubLightRaw as Required<ThemeRegistration>
@@ -116,6 +117,52 @@ describe('ExpressiveCodeEngine', () => {
 				expect(html).toEqual(`<pre data-language="plaintext"><code><div>${lineCodeHtml[0]}</div><div>${lineCodeHtml[1]}</div></code></pre>`)
 			})
 		})
+		describe('Renders groups containing multiple blocks as tabs', () => {
+			test('Single blocks are not rendered as tabs', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [] })
+				const { renderedGroupAst } = await engine.render({ code: 'npm install', language: 'sh', meta: 'group="install" tab="npm"' })
+				expect(getClassNames(renderedGroupAst)).not.toContain('has-tabs')
+				expect(select('[role="tablist"]', renderedGroupAst)).toBeUndefined()
+			})
+			test('Adds an accessible tab list and one tab panel per block', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [] })
+				const { renderedGroupAst } = await engine.render([
+					{ code: 'npm install', language: 'sh', meta: 'group="install" tab="npm"' },
+					{ code: 'pnpm install', language: 'sh', meta: 'group="install" tab="pnpm"' },
+				])
+				expect(getClassNames(renderedGroupAst)).toContain('has-tabs')
+				expect(renderedGroupAst.properties.dataTabGroup).toEqual('install')
+				const tabs = selectAll('[role="tablist"] > [role="tab"]', renderedGroupAst)
+				const panels = selectAll('[role="tabpanel"]', renderedGroupAst)
+				expect(tabs.map((tab) => toText(tab))).toEqual(['npm', 'pnpm'])
+				expect(tabs.map((tab) => tab.properties.ariaSelected)).toEqual(['true', 'false'])
+				expect(tabs.map((tab) => tab.properties.tabIndex)).toEqual([0, -1])
+				expect(panels.map((panel) => panel.properties.hidden)).toEqual([false, true])
+				tabs.forEach((tab, index) => {
+					expect(tab.properties.ariaControls).toEqual([panels[index].properties.id])
+					expect(panels[index].properties.ariaLabelledBy).toEqual([tab.properties.id])
+					expect(select('pre', panels[index])).toBeDefined()
+				})
+			})
+			test('Groups without a group key are not rendered as tabs', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [] })
+				const { renderedGroupAst } = await engine.render([
+					{ code: 'npm install', language: 'sh', meta: '' },
+					{ code: 'pnpm install', language: 'sh', meta: '' },
+				])
+				expect(getClassNames(renderedGroupAst)).not.toContain('has-tabs')
+				expect(select('[role="tablist"]', renderedGroupAst)).toBeUndefined()
+			})
+			test('Uses the title or language as tab label if no tab label is given', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [] })
+				const { renderedGroupAst } = await engine.render([
+					{ code: 'const a = 1', language: 'js', meta: 'group="lang" title="test.js"' },
+					{ code: 'const a: number = 1', language: 'ts', meta: 'group="lang"' },
+				])
+				const tabs = selectAll('[role="tab"]', renderedGroupAst)
+				expect(tabs.map((tab) => toText(tab))).toEqual(['test.js', 'ts'])
+			})
+		})
 		describe('Allows plugin hooks to access theme colors', () => {
 			test('Default themes (github-dark, github-light)', async () => {
 				let extractedStyleVariants: StyleVariant[] = []
@@ -136,6 +183,70 @@ describe('ExpressiveCodeEngine', () => {
 				expect(extractedLight.colors['editor.background']).toEqual(githubLight.colors['editor.background'].toLowerCase())
 			})
 		})
+		describe('Supports restricting blocks to specific themes', () => {
+			const themes = [new ExpressiveCodeTheme(githubDark), new ExpressiveCodeTheme(dracula), new ExpressiveCodeTheme(githubLight)]
+			const inlineStyleSelector = `.${codeLineClass} :where(span[style^='--']:not([class]))`
+			test('Blocks without theme props are not restricted', async () => {
+				const engine = new ExpressiveCodeEngine({ themes })
+				const { renderedGroupAst, styles } = await engine.render({ code: 'test', language: 'js' })
+				expect(select('[class*="ec-themes-"]', renderedGroupAst)).toBeUndefined()
+				expect(styles.size).toEqual(0)
+			})
+			test('The `theme` meta option pins the block to a single theme', async () => {
+				const engine = new ExpressiveCodeEngine({ themes })
+				const { renderedGroupAst, styles, diagnostics } = await engine.render({ code: 'test', language: 'js', meta: 'theme="dracula"' })
+				expect(diagnostics).toEqual([])
+				expect(select('pre', renderedGroupAst)?.properties.className).toContain('ec-themes-1')
+				const parsedStyles = parseCss([...styles].join(''))
+				expect(findDeclsByStyleSetting(parsedStyles, 'codeBackground')).toMatchObject([
+					{ value: dracula.colors['editor.background'].toLowerCase(), nestedSelectors: [`.${groupWrapperClassName} .ec-themes-1`] },
+				])
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} .ec-themes-1 ${inlineStyleSelector}`, 'color')).toMatchObject([
+					{ value: 'var(--1, inherit)' },
+				])
+				// Expect pinned blocks to ignore theme selectors and media queries
+				expect([...styles].join('')).not.toMatch(/@media|data-theme/)
+			})
+			test('The `themes` meta option restricts the themes the block can switch between', async () => {
+				const engine = new ExpressiveCodeEngine({ themes, useDarkModeMediaQuery: true })
+				const { renderedGroupAst, styles } = await engine.render({ code: 'test', language: 'js', meta: 'themes="github-light, dracula"' })
+				expect(select('pre', renderedGroupAst)?.properties.className).toContain('ec-themes-1-2')
+				const parsedStyles = parseCss([...styles].join(''))
+				expect(findDeclsByStyleSetting(parsedStyles, 'codeBackground')).toMatchObject([
+					// Expect the first allowed theme to be used by default
+					{ value: dracula.colors['editor.background'].toLowerCase(), nestedSelectors: [`.${groupWrapperClassName} .ec-themes-1-2`] },
+					// Expect the other allowed theme to be selectable by media query and theme selector
+					{
+						value: githubLight.colors['editor.background'].toLowerCase(),
+						nestedSelectors: ['@media (prefers-color-scheme: light)', `:root:not([data-theme='github-dark']) .${groupWrapperClassName} .ec-themes-1-2`],
+					},
+					{
+						value: githubLight.colors['editor.background'].toLowerCase(),
+						nestedSelectors: [`:root[data-theme='github-light'] .${groupWrapperClassName} .ec-themes-1-2,.${groupWrapperClassName}[data-theme='github-light'] .ec-themes-1-2`],
+					},
+				])
+			})
+			test('Supports setting the theme props programmatically', async () => {
+				const engine = new ExpressiveCodeEngine({ themes })
+				const { renderedGroupAst } = await engine.render({ code: 'test', language: 'js', props: { themes: ['github-dark', 'github-light'] } })
+				expect(select('pre', renderedGroupAst)?.properties.className).toContain('ec-themes-0-2')
+			})
+			test('Blocks allowing all configured themes are not restricted', async () => {
+				const engine = new ExpressiveCodeEngine({ themes })
+				const { renderedGroupAst, styles } = await engine.render({ code: 'test', language: 'js', meta: 'themes="github-dark,dracula,github-light"' })
+				expect(select('[class*="ec-themes-"]', renderedGroupAst)).toBeUndefined()
+				expect(styles.size).toEqual(0)
+			})
+			test('Reports unknown theme names as warnings', async () => {
+				const engine = new ExpressiveCodeEngine({ themes })
+				const { renderedGroupAst, styles, diagnostics } = await engine.render({ code: 'test', language: 'js', meta: 'title="test.js" theme="monokai"' })
+				expect(diagnostics).toMatchObject([{ severity: 'warning', location: { source: 'meta', column: 17 } }])
+				expect(diagnostics[0].message).toContain('"monokai"')
+				expect(diagnostics[0].pluginName).toBeUndefined()
+				expect(select('[class*="ec-themes-"]', renderedGroupAst)).toBeUndefined()
+				expect(styles.size).toEqual(0)
+			})
+		})
 	})
 	describe('getBaseStyles()', () => {
 		test('Selection styles are disabled by default', async () => {
@@ -154,6 +265,57 @@ describe('ExpressiveCodeEngine', () => {
 			const engine = new ExpressiveCodeEngine({ useThemedScrollbars: false })
 			expect(await engine.getBaseStyles()).not.toMatch(/::-webkit-scrollbar/)
 		})
+		describe('Supports generating print and forced colors styles', () => {
+			const testPlugin = {
+				name: 'Test plugin',
+				baseStyles: '.test { color: red }',
+				printStyles: '.test { display: none }',
+				forcedColorsStyles: () => '.test { color: CanvasText }',
+			}
+			test('Media-specific styles of core and plugins are present by default', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [testPlugin] })
+				const parsedStyles = parseCss(await engine.getBaseStyles())
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} pre`, 'overflow')).toMatchObject([
+					{ value: 'visible', nestedSelectors: ['@media print', `.${groupWrapperClassName} pre`] },
+				])
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} pre`, 'border-color')).toMatchObject([
+					{ value: 'var(--ec-forcedColorsFg)', nestedSelectors: ['@media (forced-colors: active)', `.${groupWrapperClassName} pre`] },
+				])
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} .test`, /^(display|color)$/)).toMatchObject([
+					{ value: 'red', nestedSelectors: [`.${groupWrapperClassName} .test`] },
+					{ value: 'none', nestedSelectors: ['@media print', `.${groupWrapperClassName} .test`] },
+					{ value: 'CanvasText', nestedSelectors: ['@media (forced-colors: active)', `.${groupWrapperClassName} .test`] },
+				])
+			})
+			test('Print styles can be disabled by setting `usePrintStyles` to false', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [testPlugin], usePrintStyles: false })
+				const styles = await engine.getBaseStyles()
+				expect(styles).not.toContain('@media print')
+				expect(styles).toContain('@media (forced-colors: active)')
+			})
+			test('Forced colors styles can be disabled by setting `useForcedColorsStyles` to false', async () => {
+				const engine = new ExpressiveCodeEngine({ plugins: [testPlugin], useForcedColorsStyles: false })
+				const styles = await engine.getBaseStyles()
+				expect(styles).not.toContain('@media (forced-colors: active)')
+				expect(styles).toContain('@media print')
+			})
+			test('Allows excluding the styles of individual plugins', async () => {
+				const engine = new ExpressiveCodeEngine({
+					plugins: [testPlugin],
+					usePrintStyles: { excludePlugins: ['Test plugin'] },
+					useForcedColorsStyles: { excludePlugins: ['core'] },
+				})
+				const parsedStyles = parseCss(await engine.getBaseStyles())
+				// Expect the core print styles, but not the plugin print styles
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} pre`, 'overflow')).toHaveLength(1)
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} .test`, 'display')).toHaveLength(0)
+				// Expect the plugin forced colors styles, but not the ones of core and core plugins
+				expect(findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} .test`, 'color')).toHaveLength(2)
+				expect(findDeclsBySelectorAndProperty(parsedStyles, /pre$|aria-selected='true'\]$/, 'border-color')).toMatchObject([
+					{ nestedSelectors: [expect.not.stringContaining('@media') as unknown as string] },
+				])
+			})
+		})
 		test('Base styles do not contain unexpected newlines', async () => {
 			const engine = new ExpressiveCodeEngine({})
 			const styles = await engine.getBaseStyles()
@@ -183,6 +345,10 @@ describe('ExpressiveCodeEngine', () => {
 					value: githubLight.colors['editor.foreground'],
 					nestedSelectors: [expect.stringContaining('github-light') as boolean],
 				},
+				{
+					value: githubLight.colors['editor.foreground'],
+					nestedSelectors: ['@media print', `:root,.${groupWrapperClassName}`],
+				},
 			])
 			expect(findDeclsByStyleSetting(parsedStyles, 'codeBackground')).toMatchObject([
 				{
@@ -197,6 +363,10 @@ describe('ExpressiveCodeEngine', () => {
 					value: githubLight.colors['editor.background'],
 					nestedSelectors: [expect.stringContaining('github-light') as boolean],
 				},
+				{
+					value: githubLight.colors['editor.background'],
+					nestedSelectors: ['@media print', `:root,.${groupWrapperClassName}`],
+				},
 			])
 		})
 		test('Contains properly scoped core theme styles for inline annotations', async () => {
@@ -221,6 +391,10 @@ describe('ExpressiveCodeEngine', () => {
 						`:root[data-theme='github-light'] .${groupWrapperClassName}:not([data-theme='github-dark']) ${inlineStyleSelector},.${groupWrapperClassName}[data-theme='github-light'] ${inlineStyleSelector}`,
 					],
 				},
+				{
+					value: 'var(--1, inherit)',
+					nestedSelectors: ['@media print', `.${groupWrapperClassName} ${inlineStyleSelector}`],
+				},
 			])
 		})
 		describe('Supports generating CSS rules to select a theme', () => {
@@ -273,6 +447,10 @@ describe('ExpressiveCodeEngine', () => {
 								`body[data-theme='github-light'] .${groupWrapperClassName}:not([data-theme='github-dark']) ${inlineStyleSelector},.${groupWrapperClassName}[data-theme='github-light'] ${inlineStyleSelector}`,
 							],
 						},
+						{
+							value: 'var(--1, inherit)',
+							nestedSelectors: ['@media print', `.${groupWrapperClassName} ${inlineStyleSelector}`],
+						},
 					])
 				})
 			})
@@ -314,6 +492,10 @@ describe('ExpressiveCodeEngine', () => {
 								`:root.theme-github-light .${groupWrapperClassName}:not(.theme-github-dark) ${inlineStyleSelector},.${groupWrapperClassName}.theme-github-light ${inlineStyleSelector}`,
 							],
 						},
+						{
+							value: 'var(--1, inherit)',
+							nestedSelectors: ['@media print', `.${groupWrapperClassName} ${inlineStyleSelector}`],
+						},
 					])
 				})
 			})
@@ -335,6 +517,10 @@ describe('ExpressiveCodeEngine', () => {
 						nestedSelectors: ['@media (prefers-color-scheme: light)', ':root'],
 					},
 					// Do not expect the theme selector
+					{
+						value: githubLight.colors['editor.foreground'],
+						nestedSelectors: ['@media print', `:root,.${groupWrapperClassName}`],
+					},
 				])
 				expect(findDeclsByStyleSetting(parsedStyles, 'codeBackground')).toMatchObject([
 					{
@@ -348,6 +534,10 @@ describe('ExpressiveCodeEngine', () => {
 						nestedSelectors: ['@media (prefers-color-scheme: light)', ':root'],
 					},
 					// Do not expect the theme selector
+					{
+						value: githubLight.colors['editor.background'],
+						nestedSelectors: ['@media print', `:root,.${groupWrapperClassName}`],
+					},
 				])
 			})
 		})
@@ -491,6 +681,45 @@ describe('ExpressiveCodeEngine', () => {
 				})
 			})
 		})
+		describe('Supports generating a print media query', () => {
+			test('First light theme is used when printing', async () => {
+				const engine = new ExpressiveCodeEngine({
+					themes: [new ExpressiveCodeTheme(githubDark), new ExpressiveCodeTheme(dracula), new ExpressiveCodeTheme(solarizedLight), new ExpressiveCodeTheme(githubLight)],
+				})
+				const parsedStyles = parseCss(await engine.getThemeStyles())
+				expect(findDeclsByStyleSetting(parsedStyles, 'codeBackground')).toContainEqual(
+					expect.objectContaining({
+						value: solarizedLight.colors['editor.background'].toLowerCase(),
+						nestedSelectors: ['@media print', `:root,.${groupWrapperClassName}`],
+					})
+				)
+				const printDecls = findDeclsBySelectorAndProperty(parsedStyles, `.${groupWrapperClassName} ${inlineStyleSelector}`, 'color')
+				expect(printDecls).toMatchObject([{ value: 'var(--2, inherit)', nestedSelectors: ['@media print', `.${groupWrapperClassName} ${inlineStyleSelector}`] }])
+			})
+			test('Variables are declared with increased priority if they differ between themes', async () => {
+				const engine = new ExpressiveCodeEngine({})
+				const parsedStyles = parseCss(await engine.getThemeStyles())
+				const printDecls = findRulesBySelector(parsedStyles, `:root,.${groupWrapperClassName}`).flatMap((rule) => rule.nodes)
+				expect(printDecls.length).toBeGreaterThan(0)
+				printDecls.forEach((decl) => expect(decl).toMatchObject({ type: 'decl', important: true }))
+				// Expect variables with identical values in all themes to be omitted
+				expect(findDeclsByStyleSetting(parsedStyles, 'codeFontFamily')).toHaveLength(1)
+			})
+			test('Media query is not present if there are no light themes', async () => {
+				const engine = new ExpressiveCodeEngine({
+					themes: [new ExpressiveCodeTheme(githubDark), new ExpressiveCodeTheme(dracula)],
+				})
+				expect(await engine.getThemeStyles()).not.toContain('@media print')
+			})
+			test('Media query can be disabled by setting `usePrintStyles` to false', async () => {
+				const engine = new ExpressiveCodeEngine({ usePrintStyles: false })
+				expect(await engine.getThemeStyles()).not.toContain('@media print')
+			})
+			test('Media query can be disabled by excluding the core print styles', async () => {
+				const engine = new ExpressiveCodeEngine({ usePrintStyles: { excludePlugins: ['core'] } })
+				expect(await engine.getThemeStyles()).not.toContain('@media print')
+			})
+		})
 		test('Theme styles do not contain unexpected newlines', async () => {
 			const engine = new ExpressiveCodeEngine({})
 			const styles = await engine.getThemeStyles()
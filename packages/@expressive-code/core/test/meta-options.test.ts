@@ -10,6 +10,11 @@ describe('MetaOptions', () => {
 			expect(options.errors).toHaveLength(1)
 			expect(options.errors?.[0]).toContain(`pattern=/(\\d+/`)
 		})
+		test('Error details include the option index', () => {
+			const options = new MetaOptions(`Oh pattern=/(\\d+/ hi!`)
+			expect(options.errorDetails).toEqual([{ message: options.errors?.[0], index: 3 }])
+			expect(new MetaOptions('title="Valid"').errorDetails).toBeUndefined()
+		})
 	})
 
 	describe('Throws on invalid value getter calls', () => {
@@ -4,6 +4,7 @@ import path from 'path'
 import { bundledThemes, type BuiltinTheme } from 'shiki'
 import { ExpressiveCodeTheme } from '../src/common/theme'
 import { ExpressiveCodeEngine } from '../src/common/engine'
+import { getColorContrast } from '../src/helpers/color-transforms'
 
 const dracula = await getBundledShikiTheme('dracula')
 const githubLight = await getBundledShikiTheme('github-light')
@@ -244,6 +245,82 @@ describe('ExpressiveCodeTheme', () => {
 		})
 	})
 
+	describe('Can create themes from palettes', () => {
+		const brandPalette = {
+			name: 'brand',
+			background: '#0b1b33',
+			foreground: '#e6edf7',
+			accents: ['#ff7a59', '#3ddc97', '#4ea8ff', '#c58fff'],
+		}
+		test('Synthesizes workbench colors and token settings', () => {
+			const theme = ExpressiveCodeTheme.fromPalette(brandPalette)
+			expect(theme.name).toBe('brand')
+			expect(theme.type).toBe('dark')
+			expect(theme.bg).toBe('#0b1b33')
+			expect(theme.colors['editor.background']).toBe('#0b1b33')
+			expect(theme.colors['editor.foreground']).toBe(theme.fg)
+
+			// Expect the first accent to be used for keywords and UI elements
+			const keywordSetting = theme.settings.find((s) => s.scope?.includes('keyword'))
+			expect(keywordSetting?.settings.foreground).toBe('#ff7a59')
+			expect(theme.colors['tab.activeBorderTop']).toBe('#ff7a59')
+
+			// Expect the other accents to be assigned in order and reused if required
+			const getScopeColor = (scope: string) => theme.settings.find((s) => s.scope?.includes(scope))?.settings.foreground
+			expect(getScopeColor('string')).toBe('#3ddc97')
+			expect(getScopeColor('entity.name.function')).toBe('#4ea8ff')
+			expect(getScopeColor('entity.name.type')).toBe('#c58fff')
+			expect(getScopeColor('constant.numeric')).toBe(getScopeColor('keyword'))
+
+			// Expect comments to be styled
+			const commentSetting = theme.settings.find((s) => s.scope?.includes('comment'))
+			expect(commentSetting?.settings.fontStyle).toBe('italic')
+		})
+		test('Ensures the minimum contrast of all text colors', () => {
+			const lowContrastPalette = { background: '#ffffff', foreground: '#999999', accents: ['#ffd700', '#87ceeb'], minContrast: 6 }
+			const theme = ExpressiveCodeTheme.fromPalette(lowContrastPalette)
+			expect(theme.type).toBe('light')
+			expect(theme.name).toBe('palette-light')
+			// Allow for minor rounding differences caused by the conversion to hex colors
+			expect(getColorContrast(theme.fg, theme.bg)).toBeGreaterThan(5.95)
+			theme.settings.forEach(({ settings: { foreground } }) => {
+				if (!foreground) return
+				expect(getColorContrast(foreground, theme.bg)).toBeGreaterThan(5.95)
+			})
+		})
+		test('Throws if the palette has no accent colors', () => {
+			expect(() => ExpressiveCodeTheme.fromPalette({ ...brandPalette, accents: [] })).toThrow(/at least one accent color/)
+		})
+		test('Can create a matching pair of dark and light themes', () => {
+			const [dark, light] = ExpressiveCodeTheme.fromPalettePair(brandPalette)
+			expect(dark.name).toBe('brand-dark')
+			expect(dark.type).toBe('dark')
+			expect(dark.bg).toBe('#0b1b33')
+			expect(light.name).toBe('brand-light')
+			expect(light.type).toBe('light')
+
+			// Expect the light theme to use the luminance of the dark theme's foreground
+			// as background, and vice versa
+			expect(getColorContrast(light.bg, '#e6edf7')).toBeLessThan(1.1)
+			light.settings.forEach(({ settings: { foreground } }) => {
+				if (!foreground) return
+				expect(getColorContrast(foreground, light.bg)).toBeGreaterThan(5.45)
+			})
+
+			// Expect the same result when starting from the light palette
+			const [darkFromLight, lightFromLight] = ExpressiveCodeTheme.fromPalettePair({ ...brandPalette, background: light.bg, foreground: light.fg })
+			expect(darkFromLight.type).toBe('dark')
+			expect(lightFromLight.bg).toBe(light.bg)
+		})
+		test('Can be passed to the engine', async () => {
+			const engine = new ExpressiveCodeEngine({ themes: ExpressiveCodeTheme.fromPalettePair(brandPalette) })
+			expect(engine.styleVariants.map(({ theme }) => theme.name)).toEqual(['brand-dark', 'brand-light'])
+			expect(engine.styleVariants[0].resolvedStyleSettings.get('codeBackground')).toBe('#0b1b33')
+			const themeStyles = await engine.getThemeStyles()
+			expect(themeStyles).toContain('#0b1b33')
+		})
+	})
+
 	describe('Can override core styles using the "styleOverrides" property', () => {
 		test('Themes can override the default styles', async () => {
 			const theme = new ExpressiveCodeTheme(githubDark)
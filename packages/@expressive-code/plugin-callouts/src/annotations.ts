@@ -0,0 +1,43 @@
+import { AnnotationBaseOptions, AnnotationRenderOptions, ExpressiveCodeAnnotation } from '@expressive-code/core'
+import type { Element } from '@expressive-code/core/hast'
+import { h, select } from '@expressive-code/core/hast'
+
+/**
+ * Renders a numbered callout badge at the position of a removed callout comment.
+ *
+ * If the annotation has an inline range, the badge is rendered after the range
+ * (or before it if `placeBefore` is `true`). Otherwise, it is inserted
+ * at the beginning of the line's code.
+ */
+export class CalloutAnnotation extends ExpressiveCodeAnnotation {
+	readonly name = 'Callout badge'
+	calloutNumber: number
+	placeBefore: boolean
+
+	constructor({ calloutNumber, placeBefore = false, ...baseOptions }: { calloutNumber: number; placeBefore?: boolean | undefined } & AnnotationBaseOptions) {
+		super({ renderPhase: 'latest', ...baseOptions })
+		this.calloutNumber = calloutNumber
+		this.placeBefore = placeBefore
+	}
+
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		const badge = renderCalloutBadge(this.calloutNumber)
+		if (!this.inlineRange) {
+			return nodesToTransform.map((node) => {
+				const code = node.type === 'element' ? select('.code', node) : undefined
+				code?.children.unshift(badge)
+				return node
+			})
+		}
+		const lastIndex = nodesToTransform.length - 1
+		return nodesToTransform.map((node, idx) => {
+			if (this.placeBefore && idx === 0) return h(null, [badge, node])
+			if (!this.placeBefore && idx === lastIndex) return h(null, [node, badge])
+			return node
+		})
+	}
+}
+
+export function renderCalloutBadge(calloutNumber: number): Element {
+	return h('span', { className: 'callout-badge', dataCallout: `${calloutNumber}` }, `${calloutNumber}`)
+}
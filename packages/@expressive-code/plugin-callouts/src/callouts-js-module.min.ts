@@ -0,0 +1,8 @@
+/*
+	GENERATED FILE - DO NOT EDIT
+	----------------------------
+	This JS module code was built from the source file "callouts-js-module.ts".
+	To change it, modify the source file and then re-run the build script.
+*/
+
+export default 'try{(()=>{function e(t,a){let o=t.target?.closest?.(".expressive-code .callouts [data-callout]"),l=o?.closest(".callouts");if(!o||!l)return;let u=o.getAttribute("data-callout");l.querySelectorAll(`[data-callout="${u}"]`).forEach(n=>n.classList.toggle("highlighted",a))}document.addEventListener("mouseover",t=>e(t,!0));document.addEventListener("mouseout",t=>e(t,!1));document.addEventListener("focusin",t=>e(t,!0));document.addEventListener("focusout",t=>e(t,!1));})();}catch(e){console.error("[EC] callouts-js-module failed:",e)}'
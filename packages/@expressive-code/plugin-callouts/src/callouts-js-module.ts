@@ -0,0 +1,20 @@
+/**
+ * Highlights or unhighlights all callout badges and explanations sharing the number
+ * of the callout element related to the given event.
+ *
+ * This allows users to hover over a badge in the code to see its explanation highlighted,
+ * and vice versa.
+ */
+function toggleCalloutHighlight(event: Event, highlight: boolean) {
+	const callout = (event.target as Element | null)?.closest?.('.expressive-code .callouts [data-callout]')
+	const container = callout?.closest('.callouts')
+	if (!callout || !container) return
+	const calloutNumber = callout.getAttribute('data-callout')
+	container.querySelectorAll(`[data-callout="${calloutNumber}"]`).forEach((element) => element.classList.toggle('highlighted', highlight))
+}
+
+// Use event delegation to handle all current and future code blocks
+document.addEventListener('mouseover', (event) => toggleCalloutHighlight(event, true))
+document.addEventListener('mouseout', (event) => toggleCalloutHighlight(event, false))
+document.addEventListener('focusin', (event) => toggleCalloutHighlight(event, true))
+document.addEventListener('focusout', (event) => toggleCalloutHighlight(event, false))
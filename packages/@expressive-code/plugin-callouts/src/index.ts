@@ -0,0 +1,119 @@
+import { ExpressiveCodePlugin, getStableObjectHash } from '@expressive-code/core'
+import type { ElementContent } from '@expressive-code/core/hast'
+import { h, selectAll } from '@expressive-code/core/hast'
+import { CalloutAnnotation } from './annotations'
+import { calloutsStyleSettings, getCalloutsBaseStyles } from './styles'
+import calloutsJsModule from './callouts-js-module.min'
+export type { CalloutsStyleSettings } from './styles'
+
+/**
+ * The explanation of a callout. This can either be a plain text string,
+ * or an array of HTML AST nodes (e.g. the contents of a Markdown list item).
+ */
+export type CalloutExplanation = string | ElementContent[]
+
+/**
+ * Matches callout comments like `// (1)`, `# (1)`, `-- (1)`, `/* (1) *\/` or `<!-- (1) -->`
+ * at the end of a line, including any whitespace before them.
+ */
+export const defaultCalloutPatterns = [/\s*(?:\/\/|#|--|\/\*|<!--)\s*\((\d+)\)\s*(?:\*\/|-->)?\s*$/]
+
+export interface PluginCalloutsOptions {
+	/**
+	 * The regular expressions used to find callout comments in the code.
+	 *
+	 * Each expression must contain a capture group that matches the callout number.
+	 * The full match is removed from the code and replaced with a numbered badge.
+	 * Only the first match per line is used.
+	 *
+	 * @default
+	 * [/\s*(?:\/\/|#|--|\/\*|<!--)\s*\((\d+)\)\s*(?:\*\/|-->)?\s*$/]
+	 */
+	patterns?: RegExp[] | undefined
+}
+
+export interface PluginCalloutsProps {
+	/**
+	 * The explanations of the numbered callouts in the code block.
+	 * The first item explains the callout with the number `1`, the second one
+	 * the callout with the number `2`, and so on.
+	 *
+	 * The explanations are rendered as an ordered list below the code block.
+	 * Hovering over a callout badge or its explanation highlights both.
+	 *
+	 * When using `rehype-expressive-code`, you can also add the `callouts` attribute
+	 * to the opening code fence to use the ordered Markdown list directly following
+	 * the code block as explanations.
+	 */
+	callouts: CalloutExplanation[]
+}
+
+declare module '@expressive-code/core' {
+	export interface ExpressiveCodeBlockProps extends PluginCalloutsProps {}
+}
+
+export function pluginCallouts(options: PluginCalloutsOptions = {}): ExpressiveCodePlugin {
+	const { patterns = defaultCalloutPatterns } = options
+	return {
+		name: 'Callouts',
+		styleSettings: calloutsStyleSettings,
+		baseStyles: (context) => getCalloutsBaseStyles(context),
+		jsModules: [calloutsJsModule],
+		hooks: {
+			preprocessCode: ({ codeBlock }) => {
+				codeBlock.getLines().forEach((line) => {
+					// Find the first callout comment on the line
+					let match: RegExpExecArray | null = null
+					for (const pattern of patterns) {
+						match = new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(line.text)
+						if (match) break
+					}
+					const calloutNumber = Number(match?.slice(1).find((group) => group !== undefined))
+					if (!match || !Number.isInteger(calloutNumber)) return
+
+					// Remove the comment from the code and render a badge in its place
+					const columnStart = match.index
+					line.editText(columnStart, columnStart + match[0].length, '')
+					if (!line.text.length) {
+						line.addAnnotation(new CalloutAnnotation({ calloutNumber }))
+					} else if (columnStart > 0) {
+						line.addAnnotation(new CalloutAnnotation({ calloutNumber, inlineRange: { columnStart: columnStart - 1, columnEnd: columnStart } }))
+					} else {
+						line.addAnnotation(new CalloutAnnotation({ calloutNumber, placeBefore: true, inlineRange: { columnStart: 0, columnEnd: 1 } }))
+					}
+				})
+			},
+			postprocessRenderedBlock: ({ codeBlock, groupContents, renderData }) => {
+				const { callouts } = codeBlock.props
+				if (!callouts?.length) return
+
+				// Generate stable IDs for the explanations that are unique for all blocks of the document,
+				// including identical blocks in the same group
+				const idPrefix = `ec-callout-${getStableObjectHash({
+					groupIndex: codeBlock.parentDocument?.positionInDocument?.groupIndex,
+					blockIndex: groupContents.findIndex((item) => item.codeBlock === codeBlock),
+					block: [codeBlock.language, codeBlock.meta, codeBlock.code],
+				})}`
+				const getExplanationId = (calloutNumber: number) => `${idPrefix}-${calloutNumber}`
+
+				// Turn all badges that have an explanation into links to it, which makes them
+				// focusable and allows assistive technologies to read the explanation
+				selectAll('.callout-badge', renderData.blockAst).forEach((badge) => {
+					const calloutNumber = Number(badge.properties.dataCallout)
+					if (!(calloutNumber >= 1 && calloutNumber <= callouts.length)) return
+					badge.tagName = 'a'
+					badge.properties.href = `#${getExplanationId(calloutNumber)}`
+					badge.properties.ariaDescribedBy = getExplanationId(calloutNumber)
+				})
+
+				// Render the explanations as an ordered list below the code block
+				const explanations = h(
+					'ol',
+					{ className: 'callout-list' },
+					callouts.map((explanation, idx) => h('li', { id: getExplanationId(idx + 1), dataCallout: `${idx + 1}` }, explanation))
+				)
+				renderData.blockAst = h('div', { className: 'callouts' }, [renderData.blockAst, explanations])
+			},
+		},
+	}
+}
@@ -0,0 +1,102 @@
+import { PluginStyleSettings, ResolverContext, setAlpha } from '@expressive-code/core'
+
+export interface CalloutsStyleSettings {
+	/**
+	 * The background color of callout badges.
+	 * @default
+	 * ({ theme }) => theme.colors['badge.background']
+	 */
+	badgeBackground: string
+	/**
+	 * The text color of callout badges.
+	 * @default
+	 * ({ theme }) => theme.colors['badge.foreground']
+	 */
+	badgeForeground: string
+	/**
+	 * The font size of callout badges.
+	 * @default '0.75em'
+	 */
+	badgeFontSize: string
+	/**
+	 * The color used to outline highlighted callout badges and explanations.
+	 * @default
+	 * ({ theme }) => theme.colors['focusBorder']
+	 */
+	highlightBorderColor: string
+	/**
+	 * The background color of highlighted callout explanations.
+	 * @default
+	 * ({ resolveSetting }) => setAlpha(resolveSetting('callouts.highlightBorderColor'), 0.15)
+	 */
+	highlightBackground: string
+}
+
+declare module '@expressive-code/core' {
+	export interface StyleSettings {
+		callouts: CalloutsStyleSettings
+	}
+}
+
+export const calloutsStyleSettings = new PluginStyleSettings({
+	defaultValues: {
+		callouts: {
+			badgeBackground: ({ theme }) => theme.colors['badge.background'],
+			badgeForeground: ({ theme }) => theme.colors['badge.foreground'],
+			badgeFontSize: '0.75em',
+			highlightBorderColor: ({ theme }) => theme.colors['focusBorder'],
+			highlightBackground: ({ resolveSetting }) => setAlpha(resolveSetting('callouts.highlightBorderColor'), 0.15),
+		},
+	},
+})
+
+export function getCalloutsBaseStyles({ cssVar }: ResolverContext) {
+	const result = `
+		.callout-badge {
+			display: inline-flex;
+			align-items: center;
+			justify-content: center;
+			min-width: 1.6em;
+			height: 1.6em;
+			margin-inline: 0.5ch;
+			padding-inline: 0.3em;
+			box-sizing: border-box;
+			border-radius: 0.8em;
+			vertical-align: text-top;
+			background: ${cssVar('callouts.badgeBackground')};
+			color: ${cssVar('callouts.badgeForeground')};
+			font-family: ${cssVar('uiFontFamily')};
+			font-size: ${cssVar('callouts.badgeFontSize')};
+			font-weight: 600;
+			line-height: 1;
+			text-decoration: none;
+			user-select: none;
+			-webkit-user-select: none;
+		}
+
+		.callout-list {
+			margin: 0.75rem 0 0;
+			padding-inline-start: 2rem;
+			font-family: ${cssVar('uiFontFamily')};
+
+			& li {
+				padding: 0.125rem 0.5rem;
+				border-radius: ${cssVar('borderRadius')};
+				border-inline-start: 2px solid transparent;
+			}
+		}
+
+		.callouts .highlighted {
+			&.callout-badge {
+				outline: 2px solid ${cssVar('callouts.highlightBorderColor')};
+			}
+
+			&:is(li) {
+				background: ${cssVar('callouts.highlightBackground')};
+				border-inline-start-color: ${cssVar('callouts.highlightBorderColor')};
+			}
+		}
+	`
+
+	return result
+}
@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeEngine, ExpressiveCodePlugin } from '@expressive-code/core'
+import type { Element } from '@expressive-code/core/hast'
+import { h, select, selectAll, toText } from '@expressive-code/core/hast'
+import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes } from '@internal/test-utils'
+import { pluginFrames } from '@expressive-code/plugin-frames'
+import { CalloutExplanation, pluginCallouts } from '../src'
+
+const exampleCode = `
+import { defineConfig } from 'astro/config' // (1)
+
+export default defineConfig({
+  integrations: [], /* (2) */
+})
+`.trim()
+
+const exampleCodeWithoutCallouts = `
+import { defineConfig } from 'astro/config'
+
+export default defineConfig({
+  integrations: [],
+})
+`.trim()
+
+describe('Renders callouts', async () => {
+	const themes = await loadTestThemes()
+
+	test('Replaces callout comments with badges', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				language: 'js',
+				plugins: [pluginFrames(), pluginCallouts()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						badges: [
+							{ lineIndex: 0, calloutNumber: '1', precedingText: `import { defineConfig } from 'astro/config'` },
+							{ lineIndex: 3, calloutNumber: '2', precedingText: `  integrations: [],` },
+						],
+						explanations: [],
+					})
+				},
+			}),
+		})
+	})
+	test('Renders explanations given in the callouts prop', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				language: 'js',
+				plugins: [
+					pluginFrames(),
+					pluginCallouts(),
+					getCalloutsPropPlugin(['Imports the config helper.', [h('code', 'integrations'), { type: 'text', value: ' lists all integrations.' }]]),
+				],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						badges: [
+							{ lineIndex: 0, calloutNumber: '1', precedingText: `import { defineConfig } from 'astro/config'` },
+							{ lineIndex: 3, calloutNumber: '2', precedingText: `  integrations: [],` },
+						],
+						explanations: ['Imports the config helper.', 'integrations lists all integrations.'],
+					})
+				},
+			}),
+		})
+	})
+	test('Supports badges on empty lines and custom patterns', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: ['[1] echo "Hello"', 'echo "World" # (2)', '[3]'].join('\n'),
+				language: 'sh',
+				plugins: [pluginFrames(), pluginCallouts({ patterns: [/^\[(\d+)\]\s*/] })],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						badges: [
+							{ lineIndex: 0, calloutNumber: '1', precedingText: '' },
+							{ lineIndex: 2, calloutNumber: '3', precedingText: '' },
+						],
+						explanations: [],
+					})
+				},
+			}),
+		})
+	})
+})
+
+describe('Makes callouts accessible', () => {
+	test('Badges with explanations link to and are described by their explanation', async () => {
+		const engine = new ExpressiveCodeEngine({ plugins: [pluginCallouts(), getCalloutsPropPlugin(['Imports the config helper.'])] })
+		const { renderedGroupAst } = await engine.render({ code: exampleCode, language: 'js' })
+		const [firstBadge, secondBadge] = selectAll('.callout-badge', renderedGroupAst)
+		const item = select('.callout-list > li', renderedGroupAst)
+		expect(item?.properties.id).toMatch(/^ec-callout-[0-9a-z]+-1$/)
+		expect(firstBadge.tagName).toBe('a')
+		expect(firstBadge.properties).toMatchObject({ href: `#${String(item?.properties.id)}`, ariaDescribedBy: item?.properties.id })
+
+		// Expect badges without explanation to stay non-interactive
+		expect(secondBadge.tagName).toBe('span')
+		expect(secondBadge.properties.href).toBeUndefined()
+	})
+	test('Identical blocks in the same group get unique explanation ids', async () => {
+		const engine = new ExpressiveCodeEngine({ plugins: [pluginCallouts(), getCalloutsPropPlugin(['Imports the config helper.'])] })
+		const { renderedGroupAst } = await engine.render([
+			{ code: exampleCode, language: 'js' },
+			{ code: exampleCode, language: 'js' },
+		])
+		const ids = selectAll('.callout-list > li', renderedGroupAst).map((item) => item.properties.id)
+		expect(ids).toHaveLength(2)
+		expect(new Set(ids).size).toBe(2)
+	})
+})
+
+describe('Removes callout comments from the code', () => {
+	test('Copied code does not contain callout comments', async () => {
+		const engine = new ExpressiveCodeEngine({ plugins: [pluginCallouts()] })
+		const { renderedGroupContents } = await engine.render({ code: exampleCode, language: 'js' })
+		expect(renderedGroupContents[0].codeBlock.code).toEqual(exampleCodeWithoutCallouts)
+	})
+})
+
+function getCalloutsPropPlugin(callouts: CalloutExplanation[]): ExpressiveCodePlugin {
+	return {
+		name: 'TestCalloutsProp',
+		hooks: {
+			preprocessMetadata: ({ codeBlock }) => {
+				codeBlock.props.callouts = callouts
+			},
+		},
+	}
+}
+
+function validateBlockAst({
+	renderedGroupAst,
+	badges,
+	explanations,
+}: {
+	renderedGroupAst: Element
+	badges: { lineIndex: number; calloutNumber: string; precedingText: string }[]
+	explanations: string[]
+}) {
+	// Expect the badges to be rendered on the expected lines after the expected text
+	const lines = selectAll('.ec-line', renderedGroupAst)
+	const actualBadges = lines.flatMap((line, lineIndex) => {
+		const code = select('.code', line)
+		if (!code) return []
+		const lineText = toText(code, { whitespace: 'pre' })
+		return selectAll('.callout-badge', code).map((badge) => {
+			const calloutNumber = toText(badge)
+			return {
+				lineIndex,
+				calloutNumber,
+				precedingText: lineText.slice(0, lineText.indexOf(calloutNumber)),
+			}
+		})
+	})
+	expect(actualBadges).toEqual(badges)
+
+	// Expect the explanations to be rendered in an ordered list after the frame
+	const items = selectAll('.callouts > .frame + ol.callout-list > li', renderedGroupAst)
+	expect(items.map((item) => toText(item))).toEqual(explanations)
+	expect(items.map((item) => item.properties?.dataCallout)).toEqual(explanations.map((_, idx) => `${idx + 1}`))
+}
@@ -2,7 +2,13 @@ import { AttachedPluginData, ExpressiveCodePlugin, PluginTexts, cssVarReplacemen
 import { select } from '@expressive-code/core/hast'
 import { Section, parseSections } from './utils'
 import { sectionizeAst } from './ast'
-import { CollapsibleSectionsStyleSettings, collapsibleSectionsStyleSettings, getCollapsibleSectionsBaseStyles } from './styles'
+import {
+	CollapsibleSectionsStyleSettings,
+	collapsibleSectionsStyleSettings,
+	getCollapsibleSectionsBaseStyles,
+	getCollapsibleSectionsForcedColorsStyles,
+	getCollapsibleSectionsPrintStyles,
+} from './styles'
 
 export { CollapsibleSectionsStyleSettings }
 
@@ -44,6 +50,8 @@ export function pluginCollapsibleSections(): ExpressiveCodePlugin {
 		name: 'Collapsible sections',
 		styleSettings: collapsibleSectionsStyleSettings,
 		baseStyles: (context) => getCollapsibleSectionsBaseStyles(context),
+		printStyles: getCollapsibleSectionsPrintStyles,
+		forcedColorsStyles: getCollapsibleSectionsForcedColorsStyles,
 		hooks: {
 			preprocessMetadata: ({ codeBlock }) => {
 				const toArray = (value: string | string[] | undefined) => {
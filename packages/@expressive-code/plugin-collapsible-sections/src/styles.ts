@@ -160,3 +160,29 @@ export function getCollapsibleSectionsBaseStyles({ cssVar }: ResolverContext) {
 
 	return result
 }
+
+export function getCollapsibleSectionsPrintStyles() {
+	return `
+		@supports selector(::details-content) {
+			.${collapsibleSectionClass}:not([open]) {
+				/* Expand collapsed sections in browsers that support styling their contents */
+				& summary {
+					display: none;
+				}
+				&::details-content {
+					display: block;
+					content-visibility: visible;
+				}
+			}
+		}
+	`
+}
+
+export function getCollapsibleSectionsForcedColorsStyles({ cssVar }: ResolverContext) {
+	return `
+		.${collapsibleSectionClass} summary {
+			/* Replace the shadow-based borders that are removed in this mode */
+			border-block: var(--border-width) solid ${cssVar('forcedColorsForeground')};
+		}
+	`
+}
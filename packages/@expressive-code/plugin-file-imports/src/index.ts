@@ -0,0 +1,157 @@
+import { readFile, realpath } from 'node:fs/promises'
+import { basename, dirname, isAbsolute, relative, resolve, sep } from 'node:path'
+import { ExpressiveCodePlugin } from '@expressive-code/core'
+// Load the props of the Frames plugin to allow setting the code block title
+import type {} from '@expressive-code/plugin-frames'
+import { dedentLines, extractRegion, getLanguageFromFilePath, removeRegionMarkers, selectLines } from './utils'
+
+export interface PluginFileImportsOptions {
+	/**
+	 * If `true`, code blocks that import their code from a file will use the file name
+	 * as their title, unless a title was already given.
+	 *
+	 * @default true
+	 */
+	useFileNameAsTitle?: boolean | undefined
+	/**
+	 * The directory that all imported files must be located in. Imports of files outside
+	 * this directory (e.g. using absolute paths or `../` segments) are rejected, preventing
+	 * code blocks from including arbitrary files of the machine building your site.
+	 *
+	 * Relative paths are resolved relative to the current working directory.
+	 *
+	 * @default process.cwd()
+	 */
+	rootDir?: string | undefined
+}
+
+export interface PluginFileImportsProps {
+	/**
+	 * The path to a source file that the code block's code should be imported from.
+	 *
+	 * Relative paths are resolved relative to the document containing the code block.
+	 * If the source file path of the document is unknown, they are resolved relative
+	 * to the current working directory.
+	 *
+	 * The file must be located inside the `rootDir` configured in the plugin options.
+	 *
+	 * In the meta string, you can also use the alias `file` instead of `src`.
+	 */
+	src: string
+	/**
+	 * The line ranges to import from the source file, e.g. `10-40` or `1-3, 7`.
+	 *
+	 * If `region` is also given, the line numbers are relative to the start of the region.
+	 */
+	lines: string
+	/**
+	 * The name of a region to import from the source file.
+	 *
+	 * Regions are defined using comment lines containing `#region name` and `#endregion`,
+	 * e.g. `// #region setup` and `// #endregion`.
+	 */
+	region: string
+}
+
+declare module '@expressive-code/core' {
+	export interface ExpressiveCodeBlockProps extends PluginFileImportsProps {}
+}
+
+export function pluginFileImports(options: PluginFileImportsOptions = {}): ExpressiveCodePlugin {
+	// Apply default settings
+	options = {
+		useFileNameAsTitle: true,
+		...options,
+	}
+	return {
+		name: 'File imports',
+		hooks: {
+			preprocessLanguage: ({ codeBlock }) => {
+				const { metaOptions, props } = codeBlock
+				// Transfer meta options (if any) to props
+				props.src = metaOptions.getString('src') ?? metaOptions.getString('file') ?? props.src
+				props.lines = metaOptions.getString('lines') ?? metaOptions.getRange('lines') ?? props.lines
+				props.region = metaOptions.getString('region') ?? props.region
+				// If no language was given, infer it from the file extension
+				if (props.src && !codeBlock.language) codeBlock.language = getLanguageFromFilePath(props.src)
+			},
+			preprocessMetadata: ({ codeBlock: { props } }) => {
+				if (props.src && props.title === undefined && options.useFileNameAsTitle) {
+					props.title = basename(props.src)
+				}
+			},
+			preprocessCode: async ({ codeBlock, addDiagnostic }) => {
+				const { src, lines: lineRanges, region } = codeBlock.props
+				if (!src) return
+
+				// Locate the last option with one of the given keys in the meta string,
+				// which is the one taking effect
+				const getMetaLocation = (keys: string[]) => {
+					const option = codeBlock.metaOptions.list(keys).pop()
+					return option ? { source: 'meta' as const, column: option.index + option.raw.length - option.raw.trimStart().length + 1 } : undefined
+				}
+				const reportError = (message: string, keys: string[]) => addDiagnostic({ severity: 'error', message, location: getMetaLocation(keys) })
+
+				// Resolve the file path relative to the document containing the code block
+				// and ensure that it is located inside the root directory
+				const sourceFilePath = codeBlock.parentDocument?.sourceFilePath
+				const filePath = resolve(sourceFilePath ? dirname(sourceFilePath) : process.cwd(), src)
+				const rootDir = resolve(options.rootDir ?? process.cwd())
+				if (!isInsideDir(filePath, rootDir)) {
+					reportError(`Failed to import code from file "${src}" (resolved to "${filePath}"): The file is located outside the root directory "${rootDir}".`, ['src', 'file'])
+					return
+				}
+
+				// Allow integrations to re-render the document when the imported file changes
+				// (this also covers the file being created after a failed import)
+				codeBlock.parentDocument?.addWatchFile?.(filePath)
+
+				let contents: string
+				try {
+					// Also prevent symlinks from pointing to files outside the root directory
+					if (!isInsideDir(await realpath(filePath), await realpath(rootDir))) {
+						throw new Error(`The file is a symbolic link to a location outside the root directory "${rootDir}".`)
+					}
+					contents = await readFile(filePath, 'utf8')
+				} catch (error) {
+					const msg = error instanceof Error ? error.message : (error as string)
+					reportError(`Failed to import code from file "${src}" (resolved to "${filePath}"): ${msg}`, ['src', 'file'])
+					return
+				}
+
+				// Select the requested region and lines, and remove any remaining region markers
+				let lines = contents.replace(/\r?\n$/, '').split(/\r?\n/)
+				const isPartialImport = region !== undefined || lineRanges !== undefined
+				try {
+					if (region !== undefined) lines = extractRegion(lines, region, filePath)
+				} catch (error) {
+					reportError(error instanceof Error ? error.message : String(error), ['region'])
+					return
+				}
+				try {
+					if (lineRanges !== undefined) lines = selectLines(lines, lineRanges, filePath)
+				} catch (error) {
+					reportError(error instanceof Error ? error.message : String(error), ['lines'])
+					return
+				}
+				lines = removeRegionMarkers(lines)
+				if (isPartialImport) lines = dedentLines(lines)
+
+				// Remove whitespace from the end of all lines and fully empty lines from the start and end
+				lines = lines.map((line) => line.trimEnd())
+				while (lines.length && !lines[0].length) lines.shift()
+				while (lines.length && !lines[lines.length - 1].length) lines.pop()
+
+				// Replace the code block's code with the imported lines
+				const lineCount = codeBlock.getLines().length
+				if (lineCount) codeBlock.deleteLines([...Array(lineCount).keys()])
+				if (lines.length) codeBlock.insertLines(0, lines)
+			},
+		},
+	}
+}
+
+function isInsideDir(filePath: string, dir: string) {
+	const relativePath = relative(dir, filePath)
+	return relativePath !== '' && relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath)
+}
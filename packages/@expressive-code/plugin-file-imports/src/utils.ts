@@ -0,0 +1,90 @@
+import { basename, extname } from 'node:path'
+import rangeParser from 'parse-numeric-range'
+
+/**
+ * Maps file extensions to language identifiers in cases where the extension
+ * itself is not a supported language identifier.
+ */
+const languagesByExtension: Record<string, string> = {
+	cjs: 'js',
+	mjs: 'js',
+	cts: 'ts',
+	mts: 'ts',
+	htm: 'html',
+	markdown: 'md',
+	yml: 'yaml',
+}
+
+/**
+ * Matches lines containing region markers like `// #region name` or `<!-- #endregion -->`.
+ *
+ * The first capture group contains `end` for end markers, and the second capture group
+ * contains the optional region name.
+ */
+const regionMarkerRegExp = /^\s*(?:\/\/|\/\*|#|<!--|--|;|')?\s*#(end)?region\b(?:[ \t]+([^\s*]+?))?\s*(?:\*\/|-->)?\s*$/
+
+/**
+ * Infers the language of the given file from its extension. If the file has no extension
+ * (e.g. `Dockerfile`), its lowercased file name is used instead.
+ */
+export function getLanguageFromFilePath(filePath: string) {
+	const extension = extname(filePath).slice(1).toLowerCase()
+	if (!extension) return basename(filePath).toLowerCase()
+	return languagesByExtension[extension] ?? extension
+}
+
+/**
+ * Extracts the lines between the start and end markers of the region with the given name.
+ *
+ * Nested regions are supported. The markers of the requested region are not included
+ * in the returned lines.
+ */
+export function extractRegion(lines: string[], regionName: string, filePath: string) {
+	const startIndex = lines.findIndex((line) => {
+		const match = line.match(regionMarkerRegExp)
+		return match && !match[1] && match[2] === regionName
+	})
+	if (startIndex === -1) throw new Error(`Region "${regionName}" was not found in file "${filePath}".`)
+
+	let depth = 0
+	for (let index = startIndex + 1; index < lines.length; index++) {
+		const match = lines[index].match(regionMarkerRegExp)
+		if (!match) continue
+		if (!match[1]) {
+			depth++
+			continue
+		}
+		if (depth === 0) return lines.slice(startIndex + 1, index)
+		depth--
+	}
+	throw new Error(`Region "${regionName}" in file "${filePath}" is missing its #endregion marker.`)
+}
+
+/**
+ * Selects the given line ranges (e.g. `10-40` or `1-3, 7`) from the given lines.
+ * Line numbers start at 1.
+ */
+export function selectLines(lines: string[], lineRanges: string, filePath: string) {
+	const lineNumbers = rangeParser(lineRanges)
+	if (!lineNumbers.length) throw new Error(`Invalid line ranges "${lineRanges}" given for file "${filePath}".`)
+	const outOfRange = lineNumbers.find((lineNumber) => lineNumber < 1 || lineNumber > lines.length)
+	if (outOfRange !== undefined) throw new Error(`Line ${outOfRange} is out of range for file "${filePath}", which only has ${lines.length} lines.`)
+	return lineNumbers.map((lineNumber) => lines[lineNumber - 1])
+}
+
+/**
+ * Removes all lines containing region markers.
+ */
+export function removeRegionMarkers(lines: string[]) {
+	return lines.filter((line) => !regionMarkerRegExp.test(line))
+}
+
+/**
+ * Removes the common leading whitespace from all non-empty lines.
+ */
+export function dedentLines(lines: string[]) {
+	const indentLengths = lines.filter((line) => line.trim().length).map((line) => line.match(/^\s*/)?.[0].length ?? 0)
+	const minIndent = indentLengths.length ? Math.min(...indentLengths) : 0
+	if (!minIndent) return lines
+	return lines.map((line) => line.slice(minIndent))
+}
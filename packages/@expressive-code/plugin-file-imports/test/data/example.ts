@@ -0,0 +1,12 @@
+import { readFile } from 'node:fs/promises'
+
+// #region setup
+export async function loadConfig(path: string) {
+	// #region parse
+	const contents = await readFile(path, 'utf8')
+	return JSON.parse(contents) as unknown
+	// #endregion
+}
+// #endregion
+
+export const answer = 42
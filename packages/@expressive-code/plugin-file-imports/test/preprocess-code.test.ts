@@ -0,0 +1,236 @@
+import { describe, expect, test } from 'vitest'
+import { fileURLToPath } from 'node:url'
+import { ExpressiveCodeEngine } from '@expressive-code/core'
+import { pluginFrames } from '@expressive-code/plugin-frames'
+import { pluginFileImports, PluginFileImportsOptions } from '../src'
+
+const sourceFilePath = fileURLToPath(import.meta.url)
+
+describe('Imports code from source files', () => {
+	test('Imports the full file', async () => {
+		await expectCodeResult({
+			meta: 'src="data/example.ts"',
+			expected: {
+				title: 'example.ts',
+				language: 'ts',
+				code: `
+import { readFile } from 'node:fs/promises'
+
+export async function loadConfig(path: string) {
+	const contents = await readFile(path, 'utf8')
+	return JSON.parse(contents) as unknown
+}
+
+export const answer = 42
+				`,
+			},
+		})
+	})
+
+	test('Supports the `file` alias', async () => {
+		await expectCodeResult({
+			meta: 'file="./data/example.ts" lines="12"',
+			expected: {
+				title: 'example.ts',
+				code: 'export const answer = 42',
+			},
+		})
+	})
+
+	test('Imports line ranges and removes their common indentation', async () => {
+		await expectCodeResult({
+			meta: 'src="data/example.ts" lines="6-7"',
+			expected: {
+				code: `
+const contents = await readFile(path, 'utf8')
+return JSON.parse(contents) as unknown
+				`,
+			},
+		})
+		await expectCodeResult({
+			meta: 'src="data/example.ts" lines={1, 12}',
+			expected: {
+				code: `
+import { readFile } from 'node:fs/promises'
+export const answer = 42
+				`,
+			},
+		})
+	})
+
+	test('Imports named regions', async () => {
+		await expectCodeResult({
+			meta: 'src="data/example.ts" region="setup"',
+			expected: {
+				code: `
+export async function loadConfig(path: string) {
+	const contents = await readFile(path, 'utf8')
+	return JSON.parse(contents) as unknown
+}
+				`,
+			},
+		})
+		await expectCodeResult({
+			meta: 'src="data/example.ts" region="parse"',
+			expected: {
+				code: `
+const contents = await readFile(path, 'utf8')
+return JSON.parse(contents) as unknown
+				`,
+			},
+		})
+	})
+
+	test('Applies line ranges relative to the region', async () => {
+		await expectCodeResult({
+			meta: 'src="data/example.ts" region="setup" lines="1"',
+			expected: {
+				code: 'export async function loadConfig(path: string) {',
+			},
+		})
+	})
+
+	test('Keeps the given language and title', async () => {
+		await expectCodeResult({
+			language: 'js',
+			meta: 'src="data/example.ts" lines="12" title="answer.js"',
+			expected: {
+				title: 'answer.js',
+				language: 'js',
+			},
+		})
+	})
+
+	test('Infers the language of files without extension from their name', async () => {
+		await expectCodeResult({
+			meta: 'src="data/Dockerfile"',
+			expected: {
+				title: 'Dockerfile',
+				language: 'dockerfile',
+				code: `
+FROM node:20
+RUN npm install
+				`,
+			},
+		})
+	})
+
+	test('Does not set a title if `useFileNameAsTitle` is false', async () => {
+		await expectCodeResult({
+			meta: 'src="data/example.ts" lines="12"',
+			options: { useFileNameAsTitle: false },
+			expected: {
+				title: undefined,
+			},
+		})
+	})
+
+	test('Registers the imported file as a watch dependency', async () => {
+		const watchFiles: string[] = []
+		await expectCodeResult({
+			meta: 'src="data/example.ts"',
+			addWatchFile: (filePath) => watchFiles.push(filePath),
+			expected: {},
+		})
+		expect(watchFiles).toEqual([fileURLToPath(new URL('./data/example.ts', import.meta.url))])
+	})
+
+	test('Leaves code blocks without `src` unchanged', async () => {
+		await expectCodeResult({
+			code: 'console.log("Hello!")',
+			language: 'js',
+			expected: {
+				title: undefined,
+				language: 'js',
+				code: 'console.log("Hello!")',
+			},
+		})
+	})
+})
+
+describe('Reports helpful errors', () => {
+	test('When the file does not exist', async () => {
+		const { diagnostics } = await expectCodeResult({ code: 'placeholder', meta: 'title="a.ts" src="data/missing.ts"', expected: { code: 'placeholder' } })
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0]).toMatchObject({ severity: 'error', pluginName: 'File imports', location: { source: 'meta', column: 14 } })
+		expect(diagnostics[0].message).toMatch(/Failed to import code from file "data\/missing.ts"/)
+	})
+
+	test('When the region does not exist', async () => {
+		const { diagnostics } = await expectCodeResult({ meta: 'src="data/example.ts" region="missing"', expected: {} })
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0]).toMatchObject({ severity: 'error', location: { source: 'meta', column: 23 } })
+		expect(diagnostics[0].message).toMatch(/Region "missing" was not found/)
+	})
+
+	test('When the line range is out of range', async () => {
+		const { diagnostics } = await expectCodeResult({ meta: 'src="data/example.ts" lines="10-20"', expected: {} })
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0]).toMatchObject({ severity: 'error', location: { source: 'meta', column: 23 } })
+		expect(diagnostics[0].message).toMatch(/Line 13 is out of range/)
+	})
+})
+
+describe('Restricts imports to the root directory', () => {
+	test('Rejects relative paths outside the root directory', async () => {
+		const { diagnostics } = await expectCodeResult({ code: 'placeholder', meta: 'src="../../plugin-frames/package.json"', expected: { code: 'placeholder' } })
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0].message).toMatch(/outside the root directory/)
+	})
+
+	test('Rejects absolute paths outside the root directory', async () => {
+		const watchFiles: string[] = []
+		const { diagnostics } = await expectCodeResult({
+			meta: `file="${fileURLToPath(new URL('../../core/package.json', import.meta.url))}"`,
+			addWatchFile: (filePath) => watchFiles.push(filePath),
+			expected: { code: '' },
+		})
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0].message).toMatch(/outside the root directory/)
+		expect(watchFiles).toEqual([])
+	})
+
+	test('Allows changing the root directory', async () => {
+		const { diagnostics } = await expectCodeResult({
+			meta: 'src="../../plugin-frames/package.json" lines="2"',
+			options: { rootDir: '..' },
+			expected: { code: '"name": "@expressive-code/plugin-frames",' },
+		})
+		expect(diagnostics).toEqual([])
+	})
+})
+
+async function expectCodeResult({
+	code = '',
+	language = '',
+	meta = '',
+	options,
+	addWatchFile,
+	expected,
+}: {
+	code?: string | undefined
+	language?: string | undefined
+	meta?: string | undefined
+	options?: PluginFileImportsOptions | undefined
+	addWatchFile?: ((filePath: string) => void) | undefined
+	expected: {
+		title?: string | undefined
+		language?: string | undefined
+		code?: string | undefined
+	}
+}) {
+	// Create an Expressive Code instance with our plugin
+	// and use it to render the test code
+	const engine = new ExpressiveCodeEngine({
+		plugins: [pluginFrames(), pluginFileImports(options)],
+	})
+	const { renderedGroupContents, diagnostics } = await engine.render({ code, language, meta, parentDocument: { sourceFilePath, addWatchFile } }, { logDiagnostics: false })
+	expect(renderedGroupContents).toHaveLength(1)
+	const codeBlock = renderedGroupContents[0].codeBlock
+
+	if ('title' in expected) expect(codeBlock.props.title).toEqual(expected.title)
+	if (expected.language !== undefined) expect(codeBlock.language).toEqual(expected.language)
+	if (expected.code !== undefined) expect(codeBlock.code).toEqual(expected.code.trim())
+
+	return { diagnostics }
+}
@@ -5,4 +5,4 @@
 	To change it, modify the source file and then re-run the build script.
 */
 
-export default 'try{(()=>{function i(o){let e=document.createElement("pre");Object.assign(e.style,{opacity:"0",pointerEvents:"none",position:"absolute",overflow:"hidden",left:"0",top:"0",width:"20px",height:"20px",webkitUserSelect:"auto",userSelect:"all"}),e.ariaHidden="true",e.textContent=o,document.body.appendChild(e);let a=document.createRange();a.selectNode(e);let n=getSelection();if(!n)return!1;n.removeAllRanges(),n.addRange(a);let r=!1;try{r=document.execCommand("copy")}finally{n.removeAllRanges(),document.body.removeChild(e)}return r}async function l(o){let e=o.currentTarget,a=e.dataset,n=!1,r=a.code.replace(/\\u007f/g,`\n`);try{await navigator.clipboard.writeText(r),n=!0}catch{n=i(r)}if(!n||e.parentNode?.querySelector(".feedback"))return;let t=document.createElement("div");t.classList.add("feedback"),t.append(a.copied),e.before(t),t.offsetWidth,requestAnimationFrame(()=>t?.classList.add("show"));let c=()=>!t||t.classList.remove("show"),d=()=>{!t||parseFloat(getComputedStyle(t).opacity)>0||(t.remove(),t=void 0)};setTimeout(c,1500),setTimeout(d,2500),e.addEventListener("blur",c),t.addEventListener("transitioncancel",d),t.addEventListener("transitionend",d)}function s(o){o.querySelectorAll?.("[SELECTOR]").forEach(e=>e.addEventListener("click",l))}s(document);var u=new MutationObserver(o=>o.forEach(e=>e.addedNodes.forEach(a=>{s(a)})));u.observe(document.body,{childList:!0,subtree:!0});document.addEventListener("astro:page-load",()=>{s(document)});})();}catch(e){console.error("[EC] copy-js-module failed:",e)}'
+export default 'try{(()=>{function m(n){let e=document.createElement("pre");Object.assign(e.style,{opacity:"0",pointerEvents:"none",position:"absolute",overflow:"hidden",left:"0",top:"0",width:"20px",height:"20px",webkitUserSelect:"auto",userSelect:"all"}),e.ariaHidden="true",e.textContent=n,document.body.appendChild(e);let o=document.createRange();o.selectNode(e);let r=getSelection();if(!r)return!1;r.removeAllRanges(),r.addRange(o);let i=!1;try{i=document.execCommand("copy")}finally{r.removeAllRanges(),document.body.removeChild(e)}return i}function f(n){let e=n.closest(".frame")?.querySelector("pre");if(!e)return;let o=d=>{let{color:c,backgroundColor:t,fontStyle:l,fontWeight:a}=getComputedStyle(d),s=t!=="rgba(0, 0, 0, 0)"&&t!=="transparent"?`background-color:${t};`:"";return`color:${c};${s}font-style:${l};font-weight:${a}`},r=[...e.querySelectorAll(".ec-line > .code")].map(d=>{let c=d.cloneNode(!0),t=[...d.querySelectorAll("*")];return[...c.querySelectorAll("*")].forEach((a,s)=>{[...a.attributes].forEach(({name:p})=>a.removeAttribute(p)),a.setAttribute("style",o(t[s]))}),c.textContent===`\n`?"":c.innerHTML}),{fontFamily:i}=getComputedStyle(e);return`<pre style="${o(e)};font-family:${i.replace(/"/g,"\'")}"><code>${r.join(`\n`)}</code></pre>`}async function y(n,e){if(e!==void 0&&typeof ClipboardItem<"u"){await navigator.clipboard.write([new ClipboardItem({"text/plain":new Blob([n],{type:"text/plain"}),"text/html":new Blob([e],{type:"text/html"})})]);return}await navigator.clipboard.writeText(n)}async function g(n){let e=n.currentTarget,o=e.dataset,r=e.closest(".copy")?.querySelector(":scope > button")??e,i=(o.code??r.dataset.code??"").replace(/\\u007f/g,`\n`),d=o.copyMode==="formatted"?f(e):void 0,c=!1;try{await y(i,d),c=!0}catch{c=m(i)}if(!c||r.parentNode?.querySelector(":scope > .feedback"))return;let t=document.createElement("div");t.classList.add("feedback"),t.append(o.copied),r.before(t),t.offsetWidth,requestAnimationFrame(()=>t?.classList.add("show"));let l=()=>!t||t.classList.remove("show"),a=()=>{!t||parseFloat(getComputedStyle(t).opacity)>0||(t.remove(),t=void 0)};setTimeout(l,1500),setTimeout(a,2500),e.addEventListener("blur",l),t.addEventListener("transitioncancel",a),t.addEventListener("transitionend",a)}function u(n){n.querySelectorAll?.("[SELECTOR]").forEach(e=>e.addEventListener("click",g))}u(document);var b=new MutationObserver(n=>n.forEach(e=>e.addedNodes.forEach(o=>{u(o)})));b.observe(document.body,{childList:!0,subtree:!0});document.addEventListener("astro:page-load",()=>{u(document)});})();}catch(e){console.error("[EC] copy-js-module failed:",e)}'
@@ -44,31 +44,86 @@ function domCopy(text: string) {
 	return ok
 }
 
+/**
+ * Returns the rendered lines of the code block containing the given button as HTML.
+ *
+ * The computed colors and font styles of all elements are inlined, allowing applications
+ * supporting rich text to paste the code as displayed.
+ */
+function getFormattedCode(button: Element) {
+	const pre = button.closest('.frame')?.querySelector('pre')
+	if (!pre) return undefined
+	const getInlineStyle = (element: Element) => {
+		const { color, backgroundColor, fontStyle, fontWeight } = getComputedStyle(element)
+		const background = backgroundColor !== 'rgba(0, 0, 0, 0)' && backgroundColor !== 'transparent' ? `background-color:${backgroundColor};` : ''
+		return `color:${color};${background}font-style:${fontStyle};font-weight:${fontWeight}`
+	}
+	const lines = [...pre.querySelectorAll('.ec-line > .code')].map((code) => {
+		// Copy the code of the line and inline the styles of the original elements
+		const clone = code.cloneNode(true) as Element
+		const originalElements = [...code.querySelectorAll('*')]
+		const clonedElements = [...clone.querySelectorAll('*')]
+		clonedElements.forEach((element, index) => {
+			;[...element.attributes].forEach(({ name }) => element.removeAttribute(name))
+			element.setAttribute('style', getInlineStyle(originalElements[index]))
+		})
+		// Empty lines only contain a line break to ensure that they get rendered
+		return clone.textContent === '\n' ? '' : clone.innerHTML
+	})
+	const { fontFamily } = getComputedStyle(pre)
+	return `<pre style="${getInlineStyle(pre)};font-family:${fontFamily.replace(/"/g, "'")}"><code>${lines.join('\n')}</code></pre>`
+}
+
+/**
+ * Copies the given code to the clipboard using the Clipboard API.
+ * If formatted code is given and supported by the browser, it is copied as well.
+ */
+async function writeToClipboard(code: string, formattedCode: string | undefined) {
+	if (formattedCode !== undefined && typeof ClipboardItem !== 'undefined') {
+		await navigator.clipboard.write([
+			new ClipboardItem({
+				'text/plain': new Blob([code], { type: 'text/plain' }),
+				'text/html': new Blob([formattedCode], { type: 'text/html' }),
+			}),
+		])
+		return
+	}
+	await navigator.clipboard.writeText(code)
+}
+
 /**
  * Handles clicks on a single copy button.
  */
 async function clickHandler(event: Event) {
+	const button = event.currentTarget as HTMLButtonElement
+	const dataset = button.dataset as { code?: string | undefined; copied: string; copyMode: string }
+
+	// Buttons of the copy modes menu omit their code if it matches the code
+	// of the main copy button, so fall back to its code
+	const mainButton = button.closest('.copy')?.querySelector<HTMLButtonElement>(':scope > button') ?? button
+	const code = (dataset.code ?? mainButton.dataset.code ?? '').replace(/\u007f/g, '\n')
+	const formattedCode = dataset.copyMode === 'formatted' ? getFormattedCode(button) : undefined
+
 	// Attempt to perform the copy operation, first using the Clipboard API,
 	// and then falling back to a DOM-based approach
-	const button = event.currentTarget as HTMLButtonElement
-	const dataset = button.dataset as { code: string; copied: string }
 	let ok = false
-	const code = dataset.code.replace(/\u007f/g, '\n')
 	try {
-		await navigator.clipboard.writeText(code)
+		await writeToClipboard(code, formattedCode)
 		ok = true
 	} catch (err) {
 		ok = domCopy(code)
 	}
 
 	// Exit if the copy operation failed or there is already a tooltip present
-	if (!ok || button.parentNode?.querySelector('.feedback')) return
+	// (the feedback is shown next to the main copy button, even if the code was copied
+	// using a button of the copy modes menu)
+	if (!ok || mainButton.parentNode?.querySelector(':scope > .feedback')) return
 
 	// Show feedback tooltip
 	let tooltip: HTMLDivElement | undefined = document.createElement('div')
 	tooltip.classList.add('feedback')
 	tooltip.append(dataset.copied)
-	button.before(tooltip)
+	mainButton.before(tooltip)
 
 	// Use offsetWidth and requestAnimationFrame to opt out of DOM batching,
 	// which helps to ensure that the transition on 'show' works
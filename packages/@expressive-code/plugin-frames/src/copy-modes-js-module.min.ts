@@ -0,0 +1,8 @@
+/*
+	GENERATED FILE - DO NOT EDIT
+	----------------------------
+	This JS module code was built from the source file "copy-modes-js-module.ts".
+	To change it, modify the source file and then re-run the build script.
+*/
+
+export default 'try{(()=>{function d(e,n){let t=e.nextElementSibling;t&&(t.hidden=!n,e.setAttribute("aria-expanded",n?"true":"false"))}function l(e){return[...e.nextElementSibling?.querySelectorAll("button")??[]]}function E(e){let n=e.currentTarget,t=n.getAttribute("aria-expanded")!=="true";d(n,t),t&&l(n)[0]?.focus()}var c=new WeakSet;function f(e){let n=e.nextElementSibling;if(!n||c.has(n))return;c.add(n);let t=s=>{d(e,!1),s&&e.focus()};n.addEventListener("click",()=>t(!0)),n.addEventListener("keydown",s=>{let{key:o}=s,i=l(e),u=i.indexOf(document.activeElement),r=-1;o==="ArrowDown"&&(r=(u+1)%i.length),o==="ArrowUp"&&(r=(u-1+i.length)%i.length),o==="Home"&&(r=0),o==="End"&&(r=i.length-1),o==="Escape"&&t(!0),r>-1&&i[r].focus(),(r>-1||o==="Escape")&&s.preventDefault()}),e.parentElement?.addEventListener("focusout",s=>{let o=s.relatedTarget;(!o||!e.parentElement?.contains(o))&&t(!1)})}function a(e){e.querySelectorAll?.("[SELECTOR]").forEach(n=>{n.addEventListener("click",E),f(n)})}a(document);var m=new MutationObserver(e=>e.forEach(n=>n.addedNodes.forEach(t=>{a(t)})));m.observe(document.body,{childList:!0,subtree:!0});document.addEventListener("astro:page-load",()=>{a(document)});})();}catch(e){console.error("[EC] copy-modes-js-module failed:",e)}'
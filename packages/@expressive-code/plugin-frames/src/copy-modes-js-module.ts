@@ -0,0 +1,91 @@
+/**
+ * Opens or closes the copy modes menu belonging to the given toggle button.
+ */
+function setMenuOpen(toggle: Element, open: boolean) {
+	const menu = toggle.nextElementSibling as HTMLElement | null
+	if (!menu) return
+	menu.hidden = !open
+	toggle.setAttribute('aria-expanded', open ? 'true' : 'false')
+}
+
+/**
+ * Returns all buttons of the copy modes menu belonging to the given toggle button.
+ */
+function getMenuItems(toggle: Element) {
+	return [...(toggle.nextElementSibling?.querySelectorAll<HTMLButtonElement>('button') ?? [])]
+}
+
+/**
+ * Handles clicks on a single copy modes toggle button. When opening the menu,
+ * the first menu item gets focused to allow choosing a copy mode using the keyboard.
+ */
+function copyModesToggleClickHandler(event: Event) {
+	const toggle = event.currentTarget as HTMLButtonElement
+	const open = toggle.getAttribute('aria-expanded') !== 'true'
+	setMenuOpen(toggle, open)
+	if (open) getMenuItems(toggle)[0]?.focus()
+}
+
+const initializedMenus = new WeakSet<Element>()
+
+/**
+ * Closes the menu after choosing a copy mode and supports navigating the menu
+ * using the arrow keys, <kbd>Home</kbd>, <kbd>End</kbd> and <kbd>Escape</kbd>.
+ */
+function initMenu(toggle: Element) {
+	const menu = toggle.nextElementSibling
+	if (!menu || initializedMenus.has(menu)) return
+	initializedMenus.add(menu)
+	const closeMenu = (focusToggle: boolean) => {
+		setMenuOpen(toggle, false)
+		if (focusToggle) (toggle as HTMLElement).focus()
+	}
+	menu.addEventListener('click', () => closeMenu(true))
+	menu.addEventListener('keydown', (event) => {
+		const { key } = event as KeyboardEvent
+		const items = getMenuItems(toggle)
+		const currentIndex = items.indexOf(document.activeElement as HTMLButtonElement)
+		let nextIndex = -1
+		if (key === 'ArrowDown') nextIndex = (currentIndex + 1) % items.length
+		if (key === 'ArrowUp') nextIndex = (currentIndex - 1 + items.length) % items.length
+		if (key === 'Home') nextIndex = 0
+		if (key === 'End') nextIndex = items.length - 1
+		if (key === 'Escape') closeMenu(true)
+		if (nextIndex > -1) items[nextIndex].focus()
+		if (nextIndex > -1 || key === 'Escape') event.preventDefault()
+	})
+	// Close the menu when the focus moves outside of the copy buttons
+	toggle.parentElement?.addEventListener('focusout', (event) => {
+		const nextFocus = event.relatedTarget as Node | null
+		if (!nextFocus || !toggle.parentElement?.contains(nextFocus)) closeMenu(false)
+	})
+}
+
+/**
+ * Searches a node for matching toggle buttons and initializes them
+ * unless the node does not support querySelectorAll (e.g. a text node).
+ */
+function initCopyModesToggles(container: ParentNode | Document) {
+	container.querySelectorAll?.('[SELECTOR]').forEach((toggle) => {
+		toggle.addEventListener('click', copyModesToggleClickHandler)
+		initMenu(toggle)
+	})
+}
+
+// Use the function to initialize all buttons that exist right now
+initCopyModesToggles(document)
+
+// Register a MutationObserver to initialize any new buttons added later
+const newCopyModesTogglesObserver = new MutationObserver((mutations) =>
+	mutations.forEach((mutation) =>
+		mutation.addedNodes.forEach((node) => {
+			initCopyModesToggles(node as ParentNode)
+		})
+	)
+)
+newCopyModesTogglesObserver.observe(document.body, { childList: true, subtree: true })
+
+// Also re-initialize all buttons after view transitions initiated by popular frameworks
+document.addEventListener('astro:page-load', () => {
+	initCopyModesToggles(document)
+})
@@ -0,0 +1,99 @@
+import { ExpressiveCodeAnnotation, ExpressiveCodeBlock, ExpressiveCodeLine } from '@expressive-code/core'
+
+export const copyModes = ['final', 'original', 'diff', 'all', 'formatted'] as const
+
+/**
+ * Defines which lines and inline ranges of code blocks containing inserted (`ins`)
+ * or deleted (`del`) text markers are copied by the "Copy to clipboard" button:
+ *
+ * - `final`: Copies the code after applying the changes, omitting deleted lines
+ *   and removing deleted inline ranges.
+ * - `original`: Copies the code before applying the changes, omitting inserted lines
+ *   and removing inserted inline ranges.
+ * - `diff`: Copies the code as a diff, prefixing inserted lines with `+`,
+ *   deleted lines with `-`, and all other lines with a space.
+ * - `all`: Copies all lines as they are displayed.
+ * - `formatted`: Copies all lines as they are displayed, including their syntax highlighting
+ *   colors and font styles. Applications supporting rich text (e.g. word processors or
+ *   email clients) paste the formatted code, all others paste the plain text.
+ */
+export type CopyMode = (typeof copyModes)[number]
+
+/**
+ * If the given input string represents a valid copy mode,
+ * converts it to a {@link CopyMode} and returns it.
+ *
+ * Otherwise, returns `undefined`.
+ */
+export function copyModeFromString(input: string) {
+	const copyMode = input as CopyMode
+	return copyModes.includes(copyMode) ? copyMode : undefined
+}
+
+type ChangeType = 'ins' | 'del'
+
+/**
+ * Returns the change type of the given annotation if it is an inserted or deleted text marker.
+ *
+ * Uses duck typing to support the annotations of the text markers plugin
+ * without depending on it.
+ */
+function getChangeType(annotation: ExpressiveCodeAnnotation): ChangeType | undefined {
+	const markerType = (annotation as { markerType?: unknown | undefined }).markerType
+	return markerType === 'ins' || markerType === 'del' ? markerType : undefined
+}
+
+/**
+ * Returns the change type of the given line if it has a full-line `ins` or `del` marker.
+ * Inserted lines take precedence over deleted lines.
+ */
+function getLineChangeType(line: ExpressiveCodeLine) {
+	const changeTypes = line
+		.getAnnotations()
+		.filter((annotation) => !annotation.inlineRange)
+		.map(getChangeType)
+	if (changeTypes.includes('ins')) return 'ins'
+	if (changeTypes.includes('del')) return 'del'
+	return undefined
+}
+
+/**
+ * Returns the text of the given line without the inline ranges marked with the given change type.
+ */
+function removeInlineChanges(line: ExpressiveCodeLine, changeType: ChangeType) {
+	const removedColumns = new Set<number>()
+	line.getAnnotations().forEach((annotation) => {
+		if (!annotation.inlineRange || getChangeType(annotation) !== changeType) return
+		const { columnStart, columnEnd } = annotation.inlineRange
+		for (let column = columnStart; column < columnEnd; column++) removedColumns.add(column)
+	})
+	if (!removedColumns.size) return line.text
+	return line.text
+		.split('')
+		.filter((_, column) => !removedColumns.has(column))
+		.join('')
+}
+
+/**
+ * Returns `true` if the given code block contains any inserted or deleted text markers.
+ */
+export function hasChangeMarkers(codeBlock: ExpressiveCodeBlock) {
+	return codeBlock.getLines().some((line) => line.getAnnotations().some((annotation) => getChangeType(annotation)))
+}
+
+/**
+ * Returns the code of the given code block that should be copied in the given copy mode.
+ */
+export function getCodeForCopyMode(codeBlock: ExpressiveCodeBlock, copyMode: CopyMode) {
+	// Formatted code is taken from the rendered code block at runtime,
+	// so only its plain text version is returned here
+	if (copyMode === 'all' || copyMode === 'formatted') return codeBlock.code
+	const lines = codeBlock.getLines().flatMap((line) => {
+		const lineChangeType = getLineChangeType(line)
+		if (copyMode === 'diff') return [`${lineChangeType === 'ins' ? '+' : lineChangeType === 'del' ? '-' : ' '}${line.text}`]
+		const omittedChangeType = copyMode === 'final' ? 'del' : 'ins'
+		if (lineChangeType === omittedChangeType) return []
+		return [removeInlineChanges(line, omittedChangeType)]
+	})
+	return lines.join('\n')
+}
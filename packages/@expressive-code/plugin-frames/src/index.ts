@@ -1,7 +1,16 @@
-import { ExpressiveCodePlugin, PluginTexts } from '@expressive-code/core'
+import { AttachedPluginData, ExpressiveCodePlugin, PluginTexts } from '@expressive-code/core'
 import type { Element } from '@expressive-code/core/hast'
-import { h } from '@expressive-code/core/hast'
-import { framesStyleSettings, getFramesBaseStyles } from './styles'
+import { addClassName, getClassNames, h, setInlineStyle } from '@expressive-code/core/hast'
+import { framesStyleSettings, getFramesBaseStyles, getFramesForcedColorsStyles, getFramesPrintStyles } from './styles'
+import {
+	defaultShellSessionPrompts,
+	getShellSessionCommands,
+	isShellSession,
+	isTerminalFrame,
+	parseShellSession,
+	ShellOutputAnnotation,
+	ShellPromptAnnotation,
+} from './shell-session'
 import {
 	extractFileNameFromCodeBlock,
 	FrameType,
@@ -12,8 +21,14 @@ import {
 	LanguageGroups,
 	LanguagesWithFencedFrontmatter,
 } from './utils'
+import { CopyMode, copyModeFromString, copyModes, getCodeForCopyMode, hasChangeMarkers } from './copy-modes'
+import { findPlaygroundTemplate, getPlaygroundAction, PlaygroundAction, PlaygroundTemplate } from './playgrounds'
 import copyJsModule from './copy-js-module.min'
+import copyModesJsModule from './copy-modes-js-module.min'
+import wrapJsModule from './wrap-js-module.min'
 export type { FramesStyleSettings } from './styles'
+export type { CopyMode } from './copy-modes'
+export type { PlaygroundTemplate } from './playgrounds'
 
 export interface PluginFramesOptions {
 	/**
@@ -30,6 +45,27 @@ export interface PluginFramesOptions {
 	 * @default true
 	 */
 	showCopyToClipboardButton?: boolean | undefined
+	/**
+	 * If `true`, code blocks containing inserted (`ins`) or deleted (`del`) text markers
+	 * get a menu next to the "Copy to clipboard" button that allows readers to choose
+	 * what to copy, e.g. the final code, the original code, or a diff.
+	 *
+	 * The default choice of the button itself is defined by the `copyMode` prop.
+	 *
+	 * @default true
+	 */
+	showCopyModesMenu?: boolean | undefined
+	/**
+	 * If `true`, a word wrap toggle button will be shown next to the "Copy to clipboard" button
+	 * of each code block.
+	 *
+	 * This allows readers to switch word wrapping on and off at runtime, no matter if
+	 * the code block's `wrap` prop was set. The chosen state is applied to all code blocks
+	 * on the page and remembered across the site using `localStorage`.
+	 *
+	 * @default false
+	 */
+	showWrapToggleButton?: boolean | undefined
 	/**
 	 * If `true`, the "Copy to clipboard" button of terminal window frames
 	 * will remove comment lines starting with `#` from the copied text.
@@ -40,6 +76,30 @@ export interface PluginFramesOptions {
 	 * @default true
 	 */
 	removeCommentsWhenCopyingTerminalFrames?: boolean | undefined
+	/**
+	 * The prompts that indicate command lines in terminal frames rendered in shell session mode
+	 * (see the `shellSession` prop).
+	 *
+	 * Lines starting with any of these prompts are treated as commands. Their prompts
+	 * are not selectable, and only the commands are copied by the "Copy to clipboard" button.
+	 * All other lines are treated as command output and rendered in a muted color.
+	 *
+	 * Continuation lines of multi-line commands may additionally start with the
+	 * secondary prompt `> `, which is not treated as a command prompt on other lines.
+	 *
+	 * @default ['$ ', 'PS> ']
+	 */
+	shellSessionPrompts?: string[] | undefined
+	/**
+	 * A list of online playgrounds that code blocks can be opened in.
+	 *
+	 * Code blocks with a language matching one of the playgrounds get an "Open in playground"
+	 * link in their frame header. The first matching playground is used.
+	 * See {@link PlaygroundTemplate} for the available URL and form field placeholders.
+	 *
+	 * @default []
+	 */
+	playgrounds?: PlaygroundTemplate[] | undefined
 }
 
 export interface PluginFramesProps {
@@ -60,6 +120,38 @@ export interface PluginFramesProps {
 	 * @default `auto`
 	 */
 	frame: FrameType
+	/**
+	 * Allows you to enable or disable shell session mode for terminal frames.
+	 *
+	 * In shell session mode, lines starting with a prompt (see the `shellSessionPrompts` option)
+	 * are treated as commands, and all other lines as command output. Prompts are not selectable,
+	 * output lines are rendered in a muted color, and the "Copy to clipboard" button only copies
+	 * the commands, joining any continuation lines ending with `\` or a backtick.
+	 *
+	 * By default, shell session mode is enabled for terminal frames using
+	 * the `shellsession` or `console` languages.
+	 */
+	shellSession: boolean
+	/**
+	 * Defines what the "Copy to clipboard" button copies if the code block contains
+	 * inserted (`ins`) or deleted (`del`) text markers.
+	 *
+	 * The supported values are `final` (omits deleted lines and inline ranges),
+	 * `original` (omits inserted lines and inline ranges), `diff` (prefixes inserted
+	 * lines with `+` and deleted lines with `-`), `all` (copies all lines as displayed),
+	 * and `formatted` (copies all lines as displayed, including their syntax highlighting
+	 * colors and font styles for pasting into rich text editors).
+	 *
+	 * @default `final`
+	 */
+	copyMode: CopyMode
+	/**
+	 * If `false`, the "Open in playground" link is not rendered for the code block,
+	 * even if its language matches one of the configured `playgrounds`.
+	 *
+	 * @default true
+	 */
+	playground: boolean
 }
 
 declare module '@expressive-code/core' {
@@ -70,42 +162,96 @@ export const pluginFramesTexts = new PluginTexts({
 	terminalWindowFallbackTitle: 'Terminal window',
 	copyButtonTooltip: 'Copy to clipboard',
 	copyButtonCopied: 'Copied!',
+	copyModesButtonTooltip: 'More copy options',
+	copyModeFinal: 'Copy final code',
+	copyModeOriginal: 'Copy original code',
+	copyModeDiff: 'Copy as diff',
+	copyModeAll: 'Copy all lines',
+	copyModeFormatted: 'Copy with formatting',
+	wrapButtonTooltip: 'Toggle word wrap',
+	playgroundLinkText: 'Open in {name}',
+	opensInNewTab: '(opens in a new tab)',
 })
 
 pluginFramesTexts.addLocale('de', {
 	terminalWindowFallbackTitle: 'Terminal-Fenster',
 	copyButtonTooltip: 'In die Zwischenablage kopieren',
 	copyButtonCopied: 'Kopiert!',
+	copyModesButtonTooltip: 'Weitere Kopieroptionen',
+	copyModeFinal: 'Endgültigen Code kopieren',
+	copyModeOriginal: 'Ursprünglichen Code kopieren',
+	copyModeDiff: 'Als Diff kopieren',
+	copyModeAll: 'Alle Zeilen kopieren',
+	copyModeFormatted: 'Mit Formatierung kopieren',
+	wrapButtonTooltip: 'Zeilenumbruch umschalten',
+	playgroundLinkText: 'In {name} öffnen',
+	opensInNewTab: '(öffnet in einem neuen Tab)',
 })
 
+/**
+ * Remembers the locale of each code block for hooks that do not provide it.
+ */
+const pluginFramesData = new AttachedPluginData<{ locale?: string | undefined }>(() => ({}))
+
 export function pluginFrames(options: PluginFramesOptions = {}): ExpressiveCodePlugin {
 	// Apply default settings
 	options = {
 		extractFileNameFromCode: true,
 		showCopyToClipboardButton: true,
+		showCopyModesMenu: true,
+		showWrapToggleButton: false,
 		removeCommentsWhenCopyingTerminalFrames: true,
+		shellSessionPrompts: defaultShellSessionPrompts,
+		playgrounds: [],
 		...options,
 	}
 	return {
 		name: 'Frames',
 		styleSettings: framesStyleSettings,
 		baseStyles: (context) => getFramesBaseStyles(context, options),
-		jsModules: options.showCopyToClipboardButton ? [copyJsModule.replace(/\[SELECTOR\]/g, '.expressive-code .copy button')] : undefined,
+		printStyles: getFramesPrintStyles,
+		forcedColorsStyles: getFramesForcedColorsStyles,
+		jsModules: [
+			...(options.showCopyToClipboardButton ? [copyJsModule.replace(/\[SELECTOR\]/g, '.expressive-code .copy button[data-copy-mode]')] : []),
+			...(options.showCopyToClipboardButton && options.showCopyModesMenu ? [copyModesJsModule.replace(/\[SELECTOR\]/g, '.expressive-code .copy .copy-modes-toggle')] : []),
+			...(options.showWrapToggleButton ? [wrapJsModule.replace(/\[SELECTOR\]/g, '.expressive-code .wrap-toggle button')] : []),
+		],
 		hooks: {
-			preprocessMetadata: ({ codeBlock }) => {
+			preprocessMetadata: ({ codeBlock, addDiagnostic }) => {
 				// Transfer meta options (if any) to props
 				const { metaOptions, props } = codeBlock
+				// Locate the last option with the given key in the meta string, which is the one taking effect
+				const getMetaLocation = (key: string) => {
+					const option = metaOptions.list(key, 'string').pop()
+					return option ? { source: 'meta' as const, column: option.index + option.raw.length - option.raw.trimStart().length + 1 } : undefined
+				}
 				props.title = metaOptions.getString('title') ?? props.title
 				const frame = metaOptions.getString('frame')
 				if (frame !== undefined) {
 					const frameType = frameTypeFromString(frame)
-					if (frameType === undefined)
-						throw new Error(
-							`Invalid frame type \`${frame}\` found in code block meta string.
-							Valid frame types are: ${frameTypes.join(', ')}.`.replace(/\s+/g, ' ')
-						)
-					props.frame = frameType
+					if (frameType === undefined) {
+						addDiagnostic({
+							severity: 'error',
+							message: `Invalid frame type \`${frame}\` found in code block meta string. Valid frame types are: ${frameTypes.join(', ')}.`,
+							location: getMetaLocation('frame'),
+						})
+					}
+					props.frame = frameType ?? 'auto'
+				}
+				props.shellSession = metaOptions.getBoolean('shellSession') ?? props.shellSession
+				const copyMode = metaOptions.getString('copyMode')
+				if (copyMode !== undefined) {
+					const parsedCopyMode = copyModeFromString(copyMode)
+					if (parsedCopyMode === undefined) {
+						addDiagnostic({
+							severity: 'error',
+							message: `Invalid copy mode \`${copyMode}\` found in code block meta string. Valid copy modes are: ${copyModes.join(', ')}.`,
+							location: getMetaLocation('copyMode'),
+						})
+					}
+					props.copyMode = parsedCopyMode ?? props.copyMode
 				}
+				props.playground = metaOptions.getBoolean('playground') ?? props.playground
 			},
 			preprocessCode: ({ codeBlock }) => {
 				const { props, language } = codeBlock
@@ -131,13 +277,40 @@ export function pluginFrames(options: PluginFramesOptions = {}): ExpressiveCodeP
 					}
 				}
 			},
+			annotateCode: ({ codeBlock }) => {
+				if (!isShellSession(codeBlock)) return
+
+				// Mark the prompts of commands and all output lines of shell sessions
+				const lines = codeBlock.getLines()
+				const parsedLines = parseShellSession(
+					lines.map((line) => line.text),
+					options.shellSessionPrompts ?? []
+				)
+				parsedLines.forEach(({ type, promptLength }, idx) => {
+					const line = lines[idx]
+					if (type === 'output') {
+						line.addAnnotation(new ShellOutputAnnotation({}))
+					} else if (promptLength) {
+						line.addAnnotation(new ShellPromptAnnotation({ inlineRange: { columnStart: 0, columnEnd: promptLength } }))
+					}
+				})
+			},
+			postprocessRenderedLine: ({ codeBlock, line, renderData }) => {
+				// If word wrap can be toggled at runtime, add the indent information
+				// that the engine only adds to code blocks with build-time wrapping
+				const { wrap, preserveIndent } = codeBlock.props
+				if (!options.showWrapToggleButton || wrap || preserveIndent === false) return
+				const indent = line.text.match(/^\s*/)?.[0].length ?? 0
+				if (indent > 0) setInlineStyle(renderData.lineAst, '--ecIndent', `${indent}ch`)
+			},
 			postprocessRenderedBlock: ({ codeBlock, renderData, locale }) => {
 				// Get text strings for the current locale
 				const texts = pluginFramesTexts.get(locale)
+				pluginFramesData.getOrCreateFor(codeBlock).locale = locale
 
 				// Retrieve information about the current block
 				const { title: titleText, frame = 'auto' } = codeBlock.props
-				const isTerminal = frame === 'terminal' || (frame === 'auto' && isTerminalLanguage(codeBlock.language))
+				const isTerminal = isTerminalFrame(codeBlock)
 
 				// TODO: Improve the ability to wrap long file paths into multiple lines
 				// by inserting a line break opportunity after each slash
@@ -154,33 +327,109 @@ export function pluginFrames(options: PluginFramesOptions = {}): ExpressiveCodeP
 
 				const extraElements: Element[] = []
 
+				// If enabled, create a button to toggle word wrap at runtime
+				if (options.showWrapToggleButton) {
+					if (!codeBlock.props.wrap) {
+						// Add the maximum line length that the engine only adds to code blocks
+						// with build-time wrapping
+						const maxLineLength = codeBlock.getLines().reduce((max, line) => Math.max(max, line.text.length), 0)
+						setInlineStyle(renderData.blockAst, '--ecMaxLine', `${maxLineLength}ch`)
+					}
+					extraElements.push(
+						h('div', { className: 'wrap-toggle' }, [
+							h(
+								'button',
+								{
+									title: texts.wrapButtonTooltip,
+									'aria-pressed': codeBlock.props.wrap ? 'true' : 'false',
+								},
+								[h('div')]
+							),
+						])
+					)
+				}
+
 				// If enabled, create a button to copy the code to the clipboard
 				if (options.showCopyToClipboardButton) {
-					let codeToCopy = codeBlock.code
+					const copyMode = codeBlock.props.copyMode ?? 'final'
+					const getCodeToCopy = (mode: CopyMode) => {
+						let codeToCopy = getCodeForCopyMode(codeBlock, mode)
 
-					// If enabled, remove comment lines starting with `#` from terminal frames
-					if (options.removeCommentsWhenCopyingTerminalFrames && isTerminal) {
-						codeToCopy = codeToCopy.replace(/(?<=^|\n)\s*#.*($|\n+)/g, '').trim()
+						// Diffs and formatted code are copied as displayed
+						if (mode !== 'diff' && mode !== 'formatted') {
+							if (isShellSession(codeBlock)) {
+								// In shell session mode, only copy the commands without prompts and output
+								codeToCopy = getShellSessionCommands(codeToCopy.split('\n'), options.shellSessionPrompts ?? [])
+							} else if (options.removeCommentsWhenCopyingTerminalFrames && isTerminal) {
+								// If enabled, remove comment lines starting with `#` from terminal frames
+								codeToCopy = codeToCopy.replace(/(?<=^|\n)\s*#.*($|\n+)/g, '').trim()
+							}
+						}
+
+						// Replace all line breaks with a special character
+						// because HAST does not encode them in attribute values
+						// (which seems to work, but looks ugly in the HTML source)
+						return codeToCopy.replace(/\n/g, '\u007f')
 					}
 
-					// Replace all line breaks with a special character
-					// because HAST does not encode them in attribute values
-					// (which seems to work, but looks ugly in the HTML source)
-					codeToCopy = codeToCopy.replace(/\n/g, '\u007f')
+					const mainCodeToCopy = getCodeToCopy(copyMode)
+					const copyButtons: Element[] = [
+						h(
+							'button',
+							{
+								title: texts.copyButtonTooltip,
+								'data-copied': texts.copyButtonCopied,
+								'data-code': mainCodeToCopy,
+								'data-copy-mode': copyMode,
+							},
+							[h('div')]
+						),
+					]
 
-					extraElements.push(
-						h('div', { className: 'copy' }, [
+					// If enabled, allow choosing a different copy mode for blocks containing changes
+					if (options.showCopyModesMenu && hasChangeMarkers(codeBlock)) {
+						const copyModeTexts: { [K in CopyMode]: string } = {
+							final: texts.copyModeFinal,
+							original: texts.copyModeOriginal,
+							diff: texts.copyModeDiff,
+							all: texts.copyModeAll,
+							formatted: texts.copyModeFormatted,
+						}
+						copyButtons.push(
 							h(
 								'button',
 								{
-									title: texts.copyButtonTooltip,
-									'data-copied': texts.copyButtonCopied,
-									'data-code': codeToCopy,
+									className: 'copy-modes-toggle',
+									title: texts.copyModesButtonTooltip,
+									'aria-haspopup': 'menu',
+									'aria-expanded': 'false',
 								},
 								[h('div')]
 							),
-						])
-					)
+							h(
+								'div',
+								{ className: 'copy-modes', role: 'menu', hidden: true },
+								copyModes.map((mode) => {
+									// Only include the code of modes that differ from the main button
+									// to keep the HTML small, the client script falls back to its code
+									const codeToCopy = getCodeToCopy(mode)
+									return h(
+										'button',
+										{
+											role: 'menuitem',
+											tabindex: '-1',
+											'data-copied': texts.copyButtonCopied,
+											'data-code': codeToCopy !== mainCodeToCopy ? codeToCopy : undefined,
+											'data-copy-mode': mode,
+										},
+										copyModeTexts[mode]
+									)
+								})
+							)
+						)
+					}
+
+					extraElements.push(h('div', { className: 'copy' }, copyButtons))
 				}
 
 				// Wrap the code block in a figure element with helpful classes for styling
@@ -199,13 +448,42 @@ export function pluginFrames(options: PluginFramesOptions = {}): ExpressiveCodeP
 						h('figcaption', { className: 'header' }, [...visibleTitle, ...screenReaderTitle]),
 						// Render the original code block
 						renderData.blockAst,
-						// Add any extra elements (e.g. copy button)
+						// Add any extra elements (e.g. wrap toggle and copy buttons)
 						...extraElements,
 					]
 				)
 			},
+			postprocessRenderedBlockGroup: ({ renderedGroupContents }) => {
+				const playgrounds = options.playgrounds ?? []
+				if (!playgrounds.length) return
+
+				// Add playground actions now that all code blocks of the group have been processed,
+				// allowing them to be sent to the playground as multiple files
+				const groupCodeBlocks = renderedGroupContents.map(({ codeBlock }) => codeBlock)
+				renderedGroupContents.forEach(({ codeBlock, renderedBlockAst }) => {
+					const { frame = 'auto', playground: showPlayground = true } = codeBlock.props
+					if (!showPlayground || frame === 'none' || !getClassNames(renderedBlockAst).includes('frame')) return
+					const playground = findPlaygroundTemplate(codeBlock, playgrounds)
+					if (!playground) return
+					const action = getPlaygroundAction({ codeBlock, groupCodeBlocks, playground })
+					addClassName(renderedBlockAst, 'has-header-actions')
+					const texts = pluginFramesTexts.get(pluginFramesData.getOrCreateFor(codeBlock).locale ?? 'en-US')
+					renderedBlockAst.children.push(h('div', { className: 'header-actions' }, [renderPlaygroundAction(action, texts)]))
+				})
+			},
 		},
 	}
 }
 
+function renderPlaygroundAction(action: PlaygroundAction, texts: ReturnType<typeof pluginFramesTexts.get>) {
+	const contents = [texts.playgroundLinkText.replace('{name}', action.name), h('span', { className: 'sr-only' }, ` ${texts.opensInNewTab}`)]
+	if (action.type === 'link') {
+		return h('a', { className: 'playground', href: action.url, target: '_blank', rel: 'noopener noreferrer' }, contents)
+	}
+	return h('form', { className: 'playground', action: action.url, method: 'post', target: '_blank' }, [
+		...action.fields.map(({ name, value }) => h('input', { type: 'hidden', name, value })),
+		h('button', { type: 'submit' }, contents),
+	])
+}
+
 export { LanguageGroups, LanguagesWithFencedFrontmatter }
@@ -0,0 +1,93 @@
+const uriSafeChars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+-$'
+
+/**
+ * Compresses the given string into a URL-safe string.
+ *
+ * The output is compatible with `compressToEncodedURIComponent` of the popular
+ * [lz-string](https://github.com/pieroxy/lz-string) library, which is used by many online
+ * playgrounds (e.g. the TypeScript playground) to store code in their URLs.
+ */
+export function compressToEncodedURIComponent(input: string) {
+	const bitsPerChar = 6
+	const dictionary = new Map<string, number>()
+	const charsToCreate = new Set<string>()
+	const output: string[] = []
+	let dictSize = 3
+	let numBits = 2
+	let enlargeIn = 2
+	let outputValue = 0
+	let outputPosition = 0
+
+	// Writes the given number of bits of the value, starting with the least significant bit
+	const writeBits = (value: number, bitCount: number) => {
+		for (let i = 0; i < bitCount; i++) {
+			outputValue = (outputValue << 1) | (value & 1)
+			if (outputPosition === bitsPerChar - 1) {
+				output.push(uriSafeChars.charAt(outputValue))
+				outputPosition = 0
+				outputValue = 0
+			} else {
+				outputPosition++
+			}
+			value >>= 1
+		}
+	}
+
+	const decreaseEnlargeIn = () => {
+		enlargeIn--
+		if (enlargeIn === 0) {
+			enlargeIn = Math.pow(2, numBits)
+			numBits++
+		}
+	}
+
+	// Writes the given phrase, either as a new character or as a dictionary reference
+	const writePhrase = (phrase: string) => {
+		if (charsToCreate.has(phrase)) {
+			const charCode = phrase.charCodeAt(0)
+			if (charCode < 256) {
+				writeBits(0, numBits)
+				writeBits(charCode, 8)
+			} else {
+				writeBits(1, numBits)
+				writeBits(charCode, 16)
+			}
+			decreaseEnlargeIn()
+			charsToCreate.delete(phrase)
+		} else {
+			writeBits(dictionary.get(phrase) ?? 0, numBits)
+		}
+		decreaseEnlargeIn()
+	}
+
+	let phrase = ''
+	for (let i = 0; i < input.length; i++) {
+		const char = input.charAt(i)
+		if (!dictionary.has(char)) {
+			dictionary.set(char, dictSize++)
+			charsToCreate.add(char)
+		}
+		const extendedPhrase = phrase + char
+		if (dictionary.has(extendedPhrase)) {
+			phrase = extendedPhrase
+			continue
+		}
+		writePhrase(phrase)
+		dictionary.set(extendedPhrase, dictSize++)
+		phrase = char
+	}
+	if (phrase !== '') writePhrase(phrase)
+
+	// Mark the end of the stream and flush the last character
+	writeBits(2, numBits)
+	for (;;) {
+		outputValue = outputValue << 1
+		if (outputPosition === bitsPerChar - 1) {
+			output.push(uriSafeChars.charAt(outputValue))
+			break
+		}
+		outputPosition++
+	}
+
+	return output.join('')
+}
@@ -0,0 +1,158 @@
+import { ExpressiveCodeBlock } from '@expressive-code/core'
+import { compressToEncodedURIComponent } from './lz-string'
+
+/**
+ * Defines an online playground that code blocks of the given languages can be opened in.
+ *
+ * The playground is opened by a link in the frame header. All URLs and form fields
+ * are computed at build time, so no external service is contacted while rendering.
+ *
+ * The `url` and `formFields` values can contain the following placeholders:
+ *
+ * - `{code}`: The plaintext code of the code block
+ * - `{lzCode}`: The code compressed using the lz-string algorithm (URL-safe),
+ *   as expected by the TypeScript playground and many others
+ * - `{base64Code}`: The UTF-8 encoded code as a Base64 string
+ * - `{language}`: The language of the code block
+ * - `{title}`: The title of the code block (empty if not set)
+ * - `{fileName}`: The title of the code block, or a generated file name like `file-1.js`
+ *
+ * When used in `url`, the values of `{code}`, `{language}`, `{title}` and `{fileName}`
+ * are URI-encoded.
+ *
+ * @example
+ * ```js
+ * {
+ *   name: 'TypeScript Playground',
+ *   languages: ['ts', 'typescript'],
+ *   url: 'https://www.typescriptlang.org/play#code/{lzCode}',
+ * }
+ * ```
+ */
+export interface PlaygroundTemplate {
+	/**
+	 * The name of the playground that is displayed in the link text,
+	 * e.g. "Open in TypeScript Playground".
+	 */
+	name: string
+	/**
+	 * The languages of the code blocks that can be opened in this playground.
+	 */
+	languages: string[]
+	/**
+	 * The URL of the playground. If `formFields` is set, the form is submitted to this URL.
+	 */
+	url: string
+	/**
+	 * If set, the playground is opened by submitting a form with the given fields
+	 * to the URL using the POST method instead of following a link.
+	 *
+	 * Fields with a name containing the `{fileName}` placeholder are repeated for all
+	 * code blocks in the same group that match the playground's languages, allowing you
+	 * to send multiple files at once.
+	 *
+	 * @example
+	 * ```js
+	 * {
+	 *   'project[title]': '{title}',
+	 *   'project[template]': 'node',
+	 *   'project[files][{fileName}]': '{code}',
+	 * }
+	 * ```
+	 */
+	formFields?: { [name: string]: string } | undefined
+}
+
+export type PlaygroundAction =
+	| { type: 'link'; name: string; url: string }
+	| {
+			type: 'form'
+			name: string
+			url: string
+			fields: { name: string; value: string }[]
+	  }
+
+/**
+ * Returns the first playground template matching the language of the given code block.
+ */
+export function findPlaygroundTemplate(codeBlock: ExpressiveCodeBlock, playgrounds: PlaygroundTemplate[]) {
+	return playgrounds.find((playground) => playground.languages.includes(codeBlock.language))
+}
+
+/**
+ * Builds the action that opens the given code block in the given playground.
+ *
+ * The `groupCodeBlocks` are used to fill form fields repeated per file.
+ */
+export function getPlaygroundAction({
+	codeBlock,
+	groupCodeBlocks,
+	playground,
+}: {
+	codeBlock: ExpressiveCodeBlock
+	groupCodeBlocks: ExpressiveCodeBlock[]
+	playground: PlaygroundTemplate
+}): PlaygroundAction {
+	const { name, url, formFields } = playground
+	if (!formFields) {
+		return { type: 'link', name, url: fillPlaceholders(url, getPlaceholderValues(codeBlock, groupCodeBlocks), encodeURIComponent) }
+	}
+	const fileBlocks = groupCodeBlocks.filter((groupCodeBlock) => playground.languages.includes(groupCodeBlock.language))
+	const fields = Object.entries(formFields).flatMap(([fieldName, fieldValue]) => {
+		const blocks = fieldName.includes('{fileName}') ? fileBlocks : [codeBlock]
+		return blocks.map((block) => {
+			const values = getPlaceholderValues(block, groupCodeBlocks)
+			return { name: fillPlaceholders(fieldName, values), value: fillPlaceholders(fieldValue, values) }
+		})
+	})
+	return { type: 'form', name, url: fillPlaceholders(url, getPlaceholderValues(codeBlock, groupCodeBlocks), encodeURIComponent), fields }
+}
+
+type PlaceholderValues = { [placeholder: string]: () => string }
+
+function getPlaceholderValues(codeBlock: ExpressiveCodeBlock, groupCodeBlocks: ExpressiveCodeBlock[]): PlaceholderValues {
+	const { code, language } = codeBlock
+	const title = codeBlock.props.title ?? ''
+	const fileIndex = Math.max(groupCodeBlocks.indexOf(codeBlock), 0)
+	return {
+		code: () => code,
+		lzCode: () => compressToEncodedURIComponent(code),
+		base64Code: () => toBase64(code),
+		language: () => language,
+		title: () => title,
+		fileName: () => title || `file-${fileIndex + 1}.${language}`,
+	}
+}
+
+/**
+ * Values that are already URL-safe and must not be encoded again.
+ */
+const urlSafePlaceholders = ['lzCode']
+
+function fillPlaceholders(template: string, values: PlaceholderValues, encode?: (value: string) => string) {
+	return template.replace(/\{(\w+)\}/g, (match, placeholder: string) => {
+		const getValue = values[placeholder]
+		if (!getValue) return match
+		const value = getValue()
+		return encode && !urlSafePlaceholders.includes(placeholder) ? encode(value) : value
+	})
+}
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * Encodes the given text as UTF-8 and returns it as base64 without depending on
+ * Node.js or browser APIs.
+ */
+function toBase64(text: string) {
+	const data = new TextEncoder().encode(text)
+	let result = ''
+	for (let i = 0; i < data.length; i += 3) {
+		const [a, b = 0, c = 0] = [data[i], data[i + 1], data[i + 2]]
+		const triplet = (a << 16) | (b << 8) | c
+		result += base64Chars[(triplet >> 18) & 63] + base64Chars[(triplet >> 12) & 63]
+		result += i + 1 < data.length ? base64Chars[(triplet >> 6) & 63] : '='
+		result += i + 2 < data.length ? base64Chars[triplet & 63] : '='
+	}
+	return result
+}
@@ -0,0 +1,122 @@
+import type { AnnotationRenderOptions, ExpressiveCodeBlock } from '@expressive-code/core'
+import { ExpressiveCodeAnnotation } from '@expressive-code/core'
+import { addClassName, h } from '@expressive-code/core/hast'
+import { isTerminalLanguage } from './utils'
+
+export const defaultShellSessionPrompts = ['$ ', 'PS> ']
+
+/**
+ * The secondary prompt that shells display at the beginning of continuation lines.
+ * It is only recognized on continuation lines, as lines starting with `> ` are also
+ * common in command output (e.g. the script banners of package managers).
+ */
+const continuationPrompt = '> '
+
+/**
+ * Languages that represent interactive shell sessions. Terminal frames using these languages
+ * are rendered in shell session mode unless the `shellSession` prop is set to `false`.
+ */
+export const shellSessionLanguages = ['console', 'shellsession']
+
+export type ShellSessionLineType = 'command' | 'continuation' | 'output'
+
+export type ShellSessionLine = {
+	type: ShellSessionLineType
+	/**
+	 * The length of the prompt at the beginning of the line, or `0` if the line has no prompt.
+	 */
+	promptLength: number
+}
+
+/**
+ * Determines if the given code block is rendered in a terminal frame.
+ */
+export function isTerminalFrame(codeBlock: ExpressiveCodeBlock) {
+	const { frame = 'auto' } = codeBlock.props
+	return frame === 'terminal' || (frame === 'auto' && isTerminalLanguage(codeBlock.language))
+}
+
+/**
+ * Determines if the given code block should be rendered in shell session mode.
+ *
+ * This is the case for terminal frames that either have their `shellSession` prop set to `true`,
+ * or use a shell session language like `shellsession` or `console` and don't have
+ * the prop set to `false`.
+ */
+export function isShellSession(codeBlock: ExpressiveCodeBlock) {
+	if (!isTerminalFrame(codeBlock)) return false
+	return codeBlock.props.shellSession ?? shellSessionLanguages.includes(codeBlock.language)
+}
+
+/**
+ * Classifies the given lines of a shell session:
+ * - Lines starting with one of the given prompts are commands.
+ * - Lines following a command that ends with a line continuation character
+ *   (`\` or a PowerShell backtick) are continuations of that command.
+ *   They may start with one of the given prompts or the secondary prompt `> `.
+ * - All other lines are considered command output.
+ */
+export function parseShellSession(lines: string[], prompts: string[]): ShellSessionLine[] {
+	const getPromptLength = (text: string, allowedPrompts: string[]) => allowedPrompts.find((prompt) => prompt.length && text.startsWith(prompt))?.length ?? 0
+	const parsedLines: ShellSessionLine[] = []
+	let continuesCommand = false
+	lines.forEach((text) => {
+		const promptLength = getPromptLength(text, continuesCommand ? [...prompts, continuationPrompt] : prompts)
+		const type: ShellSessionLineType = continuesCommand ? 'continuation' : promptLength ? 'command' : 'output'
+		parsedLines.push({ type, promptLength: type === 'output' ? 0 : promptLength })
+		continuesCommand = type !== 'output' && endsWithLineContinuation(text)
+	})
+	return parsedLines
+}
+
+/**
+ * Returns the commands contained in the given shell session lines, one per line.
+ *
+ * Prompts and output lines are removed, and continuation lines are joined
+ * with the command they belong to.
+ */
+export function getShellSessionCommands(lines: string[], prompts: string[]) {
+	const commands: string[] = []
+	const parsedLines = parseShellSession(lines, prompts)
+	parsedLines.forEach(({ type, promptLength }, idx) => {
+		if (type === 'output') return
+		let text = lines[idx].slice(promptLength)
+		if (endsWithLineContinuation(text)) text = text.trimEnd().slice(0, -1)
+		if (type === 'command') {
+			commands.push(text.trimEnd())
+			return
+		}
+		const command = [commands.pop() ?? '', text.trim()].filter((part) => part.length).join(' ')
+		commands.push(command)
+	})
+	return commands.join('\n').trim()
+}
+
+function endsWithLineContinuation(text: string) {
+	return /(?:\\|`)\s*$/.test(text)
+}
+
+/**
+ * Wraps the prompt of a shell session command in an unselectable `span` element.
+ */
+export class ShellPromptAnnotation extends ExpressiveCodeAnnotation {
+	readonly name = 'Shell session prompt'
+
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		return nodesToTransform.map((node) => h('span', { className: 'prompt' }, node))
+	}
+}
+
+/**
+ * Marks a shell session line as command output by adding the `output` class to it.
+ */
+export class ShellOutputAnnotation extends ExpressiveCodeAnnotation {
+	readonly name = 'Shell session output'
+
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		return nodesToTransform.map((node) => {
+			if (node.type === 'element') addClassName(node, 'output')
+			return node
+		})
+	}
+}
@@ -1,4 +1,4 @@
-import { PluginStyleSettings, ResolverContext, multiplyAlpha, onBackground, setLuminance } from '@expressive-code/core'
+import { PluginStyleSettings, ResolverContext, codeLineClass, ensureColorContrastOnBackground, multiplyAlpha, onBackground, setLuminance } from '@expressive-code/core'
 import { PluginFramesOptions } from '.'
 
 export interface FramesStyleSettings {
@@ -136,6 +136,13 @@ export interface FramesStyleSettings {
 	 * ({ theme }) => theme.colors['terminal.background']
 	 */
 	terminalBackground: string
+	/**
+	 * The foreground color of command output lines in terminal frames
+	 * rendered in shell session mode.
+	 * @default
+	 * ({ resolveSetting }) => ensureColorContrastOnBackground(multiplyAlpha(resolveSetting('codeForeground'), 0.7), resolveSetting('frames.terminalBackground'), 4.5)
+	 */
+	terminalOutputForeground: string
 	/**
 	 * The background color of the copy button.
 	 * This color is modified by the state-dependent opacity values specified in
@@ -221,6 +228,8 @@ export const framesStyleSettings = new PluginStyleSettings({
 			terminalTitlebarBorderBottomColor: ({ theme, resolveSetting }) =>
 				theme.colors['titleBar.border'] || onBackground(resolveSetting('borderColor'), theme.type === 'dark' ? '#000000bf' : '#ffffffbf'),
 			terminalBackground: ({ theme }) => theme.colors['terminal.background'],
+			terminalOutputForeground: ({ resolveSetting }) =>
+				ensureColorContrastOnBackground(multiplyAlpha(resolveSetting('codeForeground'), 0.7), resolveSetting('frames.terminalBackground'), 4.5),
 			inlineButtonBackground: ({ resolveSetting }) => resolveSetting('frames.inlineButtonForeground'),
 			inlineButtonBackgroundIdleOpacity: '0',
 			inlineButtonBackgroundHoverOrFocusOpacity: '0.2',
@@ -254,6 +263,19 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 	const escapedCopySvg = copySvg.replace(/</g, '%3C').replace(/>/g, '%3E')
 	const copyToClipboard = `url("data:image/svg+xml,${escapedCopySvg}")`
 
+	const chevronSvg = [`<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='black' stroke-width='1.75'>`, `<path d='m6 9 6 6 6-6'/>`, `</svg>`].join('')
+	const escapedChevronSvg = chevronSvg.replace(/</g, '%3C').replace(/>/g, '%3E')
+	const chevronDown = `url("data:image/svg+xml,${escapedChevronSvg}")`
+
+	const wrapSvg = [
+		`<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='black' stroke-width='1.75'>`,
+		`<path d='M3 6h18M3 12h15a3 3 0 0 1 0 6h-4M3 18h7'/>`,
+		`<path d='m16 16-2 2 2 2'/>`,
+		`</svg>`,
+	].join('')
+	const escapedWrapSvg = wrapSvg.replace(/</g, '%3C').replace(/>/g, '%3E')
+	const wrapToggle = `url("data:image/svg+xml,${escapedWrapSvg}")`
+
 	const tabBarBackground = [
 		`linear-gradient(to top, ${cssVar('frames.editorTabBarBorderBottomColor')} ${cssVar('borderWidth')}, transparent ${cssVar('borderWidth')})`,
 		`linear-gradient(${cssVar('frames.editorTabBarBackground')}, ${cssVar('frames.editorTabBarBackground')})`,
@@ -280,7 +302,8 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 
 		/* Styles to apply if we have a title bar or tab bar */
 		&.has-title,
-		&.is-terminal {
+		&.is-terminal,
+		&.has-header-actions {
 			& pre, & code {
 				border-top: none;
 				border-top-left-radius: 0;
@@ -293,8 +316,9 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 			content: '\\a0';
 		}
 
-		/* Editor tab bar */
-		&.has-title:not(.is-terminal) {
+		/* Editor tab bar (also shown without a title to make room for header actions) */
+		&.has-title:not(.is-terminal),
+		&.has-header-actions:not(.is-terminal) {
 			--button-spacing: calc(1.9rem + 2 * (${cssVar('uiPaddingBlock')} + ${cssVar('frames.editorActiveTabIndicatorHeight')}));
 
 			/* Active editor tab */
@@ -388,6 +412,21 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 					border-bottom: ${cssVar('borderWidth')} solid ${cssVar('frames.terminalTitlebarBorderBottomColor')};
 				}
 			}
+
+			/* Shell session prompts */
+			& .prompt {
+				user-select: none;
+				-webkit-user-select: none;
+			}
+
+			/* Shell session output lines */
+			& .${codeLineClass}.output .code {
+				color: ${cssVar('frames.terminalOutputForeground')};
+
+				& span[style^='--']:not([class]) {
+					color: inherit;
+				}
+			}
 		}
 
 		/* Code */
@@ -396,20 +435,23 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 		}
 	}`
 
-	const copyButtonStyles = `.copy {
+	const inlineButtonContainerStyles = `
 		display: flex;
 		gap: 0.25rem;
 		flex-direction: row;
 		position: absolute;
 		inset-block-start: calc(${cssVar('borderWidth')} + var(--button-spacing));
 		inset-inline-end: calc(${cssVar('borderWidth')} + ${cssVar('uiPaddingInline')} / 2);
+		--button-size: 2.5rem;
 
-		/* RTL support: Code is always LTR, so the inline copy button
+		/* RTL support: Code is always LTR, so the inline buttons
 		   must match this to avoid overlapping the start of lines */
 		direction: ltr;
 		unicode-bidi: isolate;
+	`
 
-		button {
+	const getInlineButtonStyles = (icon: string) => `
+		> button {
 			position: relative;
 			align-self: flex-end;
 			margin: 0;
@@ -424,8 +466,8 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 			transition-timing-function: cubic-bezier(0.25, 0.46, 0.45, 0.94);
 
 			/* Mobile-first styles: Make the button visible and tappable */
-			width: 2.5rem;
-			height: 2.5rem;
+			width: var(--button-size);
+			height: var(--button-size);
 			background: var(--code-background);
 			opacity: 0.75;
 
@@ -458,9 +500,9 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 				pointer-events: none;
 				inset: 0;
 				background-color: ${cssVar('frames.inlineButtonForeground')};
-				-webkit-mask-image: ${copyToClipboard};
+				-webkit-mask-image: ${icon};
 				-webkit-mask-repeat: no-repeat;
-				mask-image: ${copyToClipboard};
+				mask-image: ${icon};
 				mask-repeat: no-repeat;
 				margin: 0.475rem;
 				line-height: 0;
@@ -485,6 +527,12 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 				}
 			}
 		}
+	`
+
+	const copyButtonStyles = `.copy {
+		${inlineButtonContainerStyles}
+
+		${getInlineButtonStyles(copyToClipboard)}
 
 		.feedback {
 			--tooltip-arrow-size: 0.35rem;
@@ -522,24 +570,144 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 			}
 		}
 
+		/* Split button that opens the copy modes menu */
+		> .copy-modes-toggle {
+			width: calc(var(--button-size) * 0.6);
+
+			&::after {
+				-webkit-mask-image: ${chevronDown};
+				-webkit-mask-position: center;
+				mask-image: ${chevronDown};
+				mask-position: center;
+				margin: 0.25rem 0;
+			}
+		}
+
+		.copy-modes {
+			position: absolute;
+			inset-block-start: calc(100% + 0.25rem);
+			inset-inline-end: 0;
+			z-index: 2;
+			display: flex;
+			flex-direction: column;
+			min-width: max-content;
+			padding: 0.25rem;
+			border: ${cssVar('borderWidth')} solid ${cssVar('borderColor')};
+			border-radius: 0.2rem;
+			background: ${cssVar('codeBackground')};
+			font-family: ${cssVar('uiFontFamily')};
+			font-size: ${cssVar('uiFontSize')};
+
+			&[hidden] {
+				display: none;
+			}
+
+			button {
+				padding: 0.25rem 0.5rem;
+				border: none;
+				border-radius: 0.2rem;
+				background: none;
+				color: ${cssVar('codeForeground')};
+				text-align: start;
+				cursor: pointer;
+
+				&:hover,
+				&:focus {
+					background: ${cssVar('codeSelectionBackground')};
+				}
+			}
+		}
 	}
 
 	@media (hover: hover) {
 		/* If a mouse is available, hide the button by default and make it smaller */
-		.copy button {
+		.copy {
+			--button-size: 2rem;
+		}
+		.copy > button {
 			opacity: 0;
-			width: 2rem;
-			height: 2rem;
 		}
 
 		/* Reveal the non-hovered button in the following cases:
 			- when the frame is hovered
 			- when a sibling inside the frame is focused
 			- when the copy button shows a visible feedback message
+			- when the copy modes menu is open
 		*/
-		.frame:hover .copy button:not(:hover),
-		.frame:focus-within :focus-visible ~ .copy button:not(:hover),
-		.frame .copy .feedback.show ~ button:not(:hover) {
+		.frame:hover .copy > button:not(:hover),
+		.frame:focus-within :focus-visible ~ .copy > button:not(:hover),
+		.frame .copy .feedback.show ~ button:not(:hover),
+		.frame .copy > .copy-modes-toggle[aria-expanded='true'] {
+			opacity: 0.75;
+		}
+	}`
+
+	const headerActionStyles = `.header-actions {
+		position: absolute;
+		inset-block-start: 0;
+		inset-inline-end: calc(${cssVar('borderWidth')} + ${cssVar('uiPaddingInline')} / 2);
+		z-index: 2;
+		display: flex;
+		align-items: center;
+		gap: 0.5rem;
+		height: var(--button-spacing);
+		font-family: ${cssVar('uiFontFamily')};
+		font-size: ${cssVar('uiFontSize')};
+		line-height: 1;
+
+		a,
+		button {
+			padding: 0.25rem 0.5rem;
+			border: none;
+			background: none;
+			color: ${cssVar('frames.inlineButtonForeground')};
+			font: inherit;
+			text-decoration: none;
+			cursor: pointer;
+
+			&:hover,
+			&:focus-visible {
+				text-decoration: underline;
+			}
+		}
+	}
+
+	/* Make the empty tab bar of code frames without a title tall enough for header actions */
+	.has-header-actions:not(.has-title):not(.is-terminal) .header {
+		min-height: var(--button-spacing);
+	}`
+
+	const wrapToggleButtonStyles = `.wrap-toggle {
+		${inlineButtonContainerStyles}
+
+		${getInlineButtonStyles(wrapToggle)}
+
+		/* Keep the button background visible while word wrap is enabled */
+		button[aria-pressed='true'] div {
+			opacity: ${cssVar('frames.inlineButtonBackgroundHoverOrFocusOpacity')};
+		}
+	}
+
+	/* Make room for the wrap toggle if both buttons are shown */
+	.wrap-toggle ~ .copy {
+		inset-inline-end: calc(${cssVar('borderWidth')} + ${cssVar('uiPaddingInline')} / 2 + var(--button-size) + 0.25rem);
+	}
+
+	@media (hover: hover) {
+		/* If a mouse is available, hide the button by default and make it smaller */
+		.wrap-toggle {
+			--button-size: 2rem;
+		}
+		.wrap-toggle button {
+			opacity: 0;
+		}
+
+		/* Reveal the non-hovered button in the following cases:
+			- when the frame is hovered
+			- when a sibling inside the frame is focused
+		*/
+		.frame:hover .wrap-toggle button:not(:hover),
+		.frame:focus-within :focus-visible ~ .wrap-toggle button:not(:hover) {
 			opacity: 0.75;
 		}
 	}`
@@ -549,7 +717,82 @@ export function getFramesBaseStyles({ cssVar }: ResolverContext, options: Plugin
 		frameStyles,
 		// Add copy button styles if enabled
 		options.showCopyToClipboardButton ? copyButtonStyles : '',
+		// Add wrap toggle button styles if enabled
+		options.showWrapToggleButton ? wrapToggleButtonStyles : '',
+		// Add header action styles if any playgrounds are configured
+		options.playgrounds?.length ? headerActionStyles : '',
 	]
 
 	return styles.join('\n')
 }
+
+export function getFramesPrintStyles() {
+	return `
+		.frame {
+			box-shadow: none;
+		}
+
+		.copy,
+		.wrap-toggle,
+		.header-actions {
+			/* Hide interactive controls */
+			display: none;
+		}
+	`
+}
+
+export function getFramesForcedColorsStyles({ cssVar }: ResolverContext) {
+	return `
+		.frame {
+			/* Keep the active editor tab indicator visible */
+			&.has-title:not(.is-terminal) .title::after {
+				border-top-color: ${cssVar('forcedColorsHighlightBackground')};
+			}
+
+			/* Draw the terminal title bar dots using a system color */
+			&.is-terminal .header::before {
+				forced-color-adjust: none;
+				background-color: ${cssVar('forcedColorsForeground')};
+			}
+		}
+
+		.copy,
+		.wrap-toggle {
+			> button {
+				&::before {
+					border-color: ${cssVar('forcedColorsForeground')};
+					opacity: 1;
+				}
+
+				/* Draw the button icons using a system color */
+				&::after {
+					forced-color-adjust: none;
+					background-color: ${cssVar('forcedColorsForeground')};
+				}
+			}
+		}
+
+		.wrap-toggle button[aria-pressed='true']::before {
+			/* Indicate the pressed state of the wrap toggle */
+			border-color: ${cssVar('forcedColorsHighlightBackground')};
+		}
+
+		.copy .copy-modes {
+			border-color: ${cssVar('forcedColorsForeground')};
+
+			/* Indicate the hovered or focused copy mode */
+			button:hover,
+			button:focus {
+				forced-color-adjust: none;
+				background: ${cssVar('forcedColorsHighlightBackground')};
+				color: ${cssVar('forcedColorsHighlightForeground')};
+			}
+		}
+
+		.copy .feedback {
+			forced-color-adjust: none;
+			--tooltip-bg: ${cssVar('forcedColorsHighlightBackground')};
+			color: ${cssVar('forcedColorsHighlightForeground')};
+		}
+	`
+}
@@ -0,0 +1,8 @@
+/*
+	GENERATED FILE - DO NOT EDIT
+	----------------------------
+	This JS module code was built from the source file "wrap-js-module.ts".
+	To change it, modify the source file and then re-run the build script.
+*/
+
+export default 'try{(()=>{var a="ec-wrap";function c(r,t){let e=r.closest(".frame")?.querySelector("pre");e&&(e.classList.toggle("wrap",t),r.setAttribute("aria-pressed",t?"true":"false"))}function s(r){let e=r.currentTarget.getAttribute("aria-pressed")!=="true";document.querySelectorAll("[SELECTOR]").forEach(n=>c(n,e));try{localStorage.setItem(a,e?"true":"false")}catch{}}function o(r){let t=null;try{t=localStorage.getItem(a)}catch{}r.querySelectorAll?.("[SELECTOR]").forEach(e=>{t!==null&&c(e,t==="true"),e.addEventListener("click",s)})}o(document);var l=new MutationObserver(r=>r.forEach(t=>t.addedNodes.forEach(e=>{o(e)})));l.observe(document.body,{childList:!0,subtree:!0});document.addEventListener("astro:page-load",()=>{o(document)});})();}catch(e){console.error("[EC] wrap-js-module failed:",e)}'
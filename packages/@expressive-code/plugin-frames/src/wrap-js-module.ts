@@ -0,0 +1,62 @@
+const storageKey = 'ec-wrap'
+
+/**
+ * Enables or disables word wrap for the code block belonging to the given toggle button
+ * and updates the button's pressed state.
+ */
+function setWrap(button: Element, wrap: boolean) {
+	const pre = button.closest('.frame')?.querySelector('pre')
+	if (!pre) return
+	pre.classList.toggle('wrap', wrap)
+	button.setAttribute('aria-pressed', wrap ? 'true' : 'false')
+}
+
+/**
+ * Handles clicks on a single wrap toggle button. The new state is applied to all
+ * code blocks with a wrap toggle on the page and remembered across the site.
+ */
+function toggleClickHandler(event: Event) {
+	const button = event.currentTarget as HTMLButtonElement
+	const wrap = button.getAttribute('aria-pressed') !== 'true'
+	document.querySelectorAll('[SELECTOR]').forEach((otherButton) => setWrap(otherButton, wrap))
+	try {
+		localStorage.setItem(storageKey, wrap ? 'true' : 'false')
+	} catch (error) {
+		// Ignore errors caused by disabled storage
+	}
+}
+
+/**
+ * Searches a node for matching buttons, applies the stored wrap preference (if any)
+ * and initializes them unless the node does not support querySelectorAll (e.g. a text node).
+ */
+function initToggleButtons(container: ParentNode | Document) {
+	let storedWrap: string | null = null
+	try {
+		storedWrap = localStorage.getItem(storageKey)
+	} catch (error) {
+		// Ignore errors caused by disabled storage
+	}
+	container.querySelectorAll?.('[SELECTOR]').forEach((btn) => {
+		if (storedWrap !== null) setWrap(btn, storedWrap === 'true')
+		btn.addEventListener('click', toggleClickHandler)
+	})
+}
+
+// Use the function to initialize all buttons that exist right now
+initToggleButtons(document)
+
+// Register a MutationObserver to initialize any new buttons added later
+const newToggleButtonsObserver = new MutationObserver((mutations) =>
+	mutations.forEach((mutation) =>
+		mutation.addedNodes.forEach((node) => {
+			initToggleButtons(node as ParentNode)
+		})
+	)
+)
+newToggleButtonsObserver.observe(document.body, { childList: true, subtree: true })
+
+// Also re-initialize all buttons after view transitions initiated by popular frameworks
+document.addEventListener('astro:page-load', () => {
+	initToggleButtons(document)
+})
@@ -1,6 +1,7 @@
 import { describe, expect, test } from 'vitest'
+import { AnnotationRenderOptions, ExpressiveCodeAnnotation, ExpressiveCodeEngine, ExpressiveCodeInlineRange, ExpressiveCodePlugin } from '@expressive-code/core'
 import type { Element } from '@expressive-code/core/hast'
-import { select } from '@expressive-code/core/hast'
+import { select, selectAll, toText } from '@expressive-code/core/hast'
 import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes } from '@internal/test-utils'
 import { pluginFrames } from '../src'
 
@@ -82,3 +83,119 @@ function validateBlockAst({ renderedGroupAst, codeToCopy }: { renderedGroupAst:
 	const actualCode = copyButton?.properties?.dataCode?.toString().replace(/\u007f/g, '\n')
 	expect(actualCode).toBe(codeToCopy)
 }
+
+const exampleDiffCode = `
+function greet(name) {
+  console.log('Hello ' + name)
+  console.log(\`Hello \${name}!\`)
+}
+`.trim()
+
+/**
+ * A minimal stand-in for the annotations of the text markers plugin.
+ */
+class TestMarkerAnnotation extends ExpressiveCodeAnnotation {
+	constructor(
+		readonly markerType: string,
+		inlineRange?: ExpressiveCodeInlineRange
+	) {
+		super({ inlineRange })
+	}
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		return nodesToTransform
+	}
+}
+
+/**
+ * Marks line 2 as deleted and line 3 as inserted, and optionally adds
+ * an inline `del` marker to line 1.
+ */
+function testMarkersPlugin({ inlineDel = false } = {}): ExpressiveCodePlugin {
+	return {
+		name: 'Test markers',
+		hooks: {
+			annotateCode: ({ codeBlock }) => {
+				codeBlock.getLine(1)?.addAnnotation(new TestMarkerAnnotation('del'))
+				codeBlock.getLine(2)?.addAnnotation(new TestMarkerAnnotation('ins'))
+				if (inlineDel) codeBlock.getLine(0)?.addAnnotation(new TestMarkerAnnotation('del', { columnStart: 15, columnEnd: 19 }))
+			},
+		},
+	}
+}
+
+async function renderCopyButtons({ meta, plugins }: { meta?: string | undefined; plugins: ExpressiveCodePlugin[] }) {
+	const engine = new ExpressiveCodeEngine({ plugins })
+	const { renderedGroupAst, diagnostics } = await engine.render({ code: exampleDiffCode, language: 'js', meta })
+	const getCode = (button: Element | undefined) => button?.properties.dataCode?.toString().replace(/\u007f/g, '\n')
+	return {
+		renderedGroupAst,
+		diagnostics,
+		mainCode: getCode(select('.copy > button[data-code]', renderedGroupAst)),
+		menuItems: selectAll('.copy-modes button', renderedGroupAst).map((button) => [toText(button), getCode(button)]),
+	}
+}
+
+describe('Supports copy modes for code blocks containing changes', () => {
+	test('Deleted lines are not copied by default', async () => {
+		const { mainCode } = await renderCopyButtons({ plugins: [pluginFrames(), testMarkersPlugin()] })
+		expect(mainCode).toBe(['function greet(name) {', '  console.log(`Hello ${name}!`)', '}'].join('\n'))
+	})
+	test('Inline deleted ranges are removed by default', async () => {
+		const { mainCode } = await renderCopyButtons({ plugins: [pluginFrames(), testMarkersPlugin({ inlineDel: true })] })
+		expect(mainCode?.split('\n')[0]).toBe('function greet() {')
+	})
+	test('The copy mode can be changed using meta information', async () => {
+		const plugins = [pluginFrames(), testMarkersPlugin()]
+		expect((await renderCopyButtons({ meta: 'copyMode="original"', plugins })).mainCode).toBe(['function greet(name) {', "  console.log('Hello ' + name)", '}'].join('\n'))
+		expect((await renderCopyButtons({ meta: 'copyMode="diff"', plugins })).mainCode).toBe(
+			[' function greet(name) {', "-  console.log('Hello ' + name)", '+  console.log(`Hello ${name}!`)', ' }'].join('\n')
+		)
+		expect((await renderCopyButtons({ meta: 'copyMode="all"', plugins })).mainCode).toBe(exampleDiffCode)
+	})
+	test('Reports an error on invalid copy modes and uses the default mode', async () => {
+		const { diagnostics, mainCode } = await renderCopyButtons({ meta: 'title="a.js" copyMode="unknown"', plugins: [pluginFrames(), testMarkersPlugin()] })
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0]).toMatchObject({ severity: 'error', pluginName: 'Frames', location: { source: 'meta', column: 14 } })
+		expect(diagnostics[0].message).toMatch(/Invalid copy mode `unknown`/)
+		expect(mainCode?.split('\n')).toHaveLength(3)
+	})
+	test('Renders a copy modes menu', async () => {
+		const { renderedGroupAst, menuItems } = await renderCopyButtons({ plugins: [pluginFrames(), testMarkersPlugin()] })
+		const toggle = select('.copy > .copy-modes-toggle', renderedGroupAst)
+		expect(toggle?.properties.ariaExpanded).toBe('false')
+		expect(select('.copy-modes', renderedGroupAst)?.properties.hidden).toBe(true)
+		expect(menuItems.map(([label]) => label)).toEqual(['Copy final code', 'Copy original code', 'Copy as diff', 'Copy all lines', 'Copy with formatting'])
+		expect(menuItems[3][1]).toBe(exampleDiffCode)
+	})
+	test('Menu items only contain code that differs from the main button', async () => {
+		const { menuItems } = await renderCopyButtons({ meta: 'copyMode="all"', plugins: [pluginFrames(), testMarkersPlugin()] })
+		expect(menuItems.map(([, code]) => code)).toEqual([
+			['function greet(name) {', '  console.log(`Hello ${name}!`)', '}'].join('\n'),
+			['function greet(name) {', "  console.log('Hello ' + name)", '}'].join('\n'),
+			[' function greet(name) {', "-  console.log('Hello ' + name)", '+  console.log(`Hello ${name}!`)', ' }'].join('\n'),
+			undefined,
+			undefined,
+		])
+	})
+	test('Supports copying with formatting', async () => {
+		const { renderedGroupAst, mainCode } = await renderCopyButtons({ meta: 'copyMode="formatted"', plugins: [pluginFrames(), testMarkersPlugin()] })
+		expect(mainCode).toBe(exampleDiffCode)
+		expect(select('.copy > button[data-code]', renderedGroupAst)?.properties.dataCopyMode).toBe('formatted')
+	})
+	test('The menu is not rendered for code blocks without changes', async () => {
+		const { renderedGroupAst } = await renderCopyButtons({ plugins: [pluginFrames()] })
+		expect(select('.copy-modes-toggle', renderedGroupAst)).toBeUndefined()
+		expect(select('.copy-modes', renderedGroupAst)).toBeUndefined()
+	})
+	test('The menu can be disabled through options', async () => {
+		const { renderedGroupAst, mainCode } = await renderCopyButtons({ plugins: [pluginFrames({ showCopyModesMenu: false }), testMarkersPlugin()] })
+		expect(select('.copy-modes', renderedGroupAst)).toBeUndefined()
+		expect(mainCode?.split('\n')).toHaveLength(3)
+	})
+	test('The JS module is only added if the menu is enabled', async () => {
+		const jsModulesWith = await new ExpressiveCodeEngine({ plugins: [pluginFrames()] }).getJsModules()
+		const jsModulesWithout = await new ExpressiveCodeEngine({ plugins: [pluginFrames({ showCopyModesMenu: false })] }).getJsModules()
+		expect(jsModulesWith.some((jsModule) => jsModule.includes('.expressive-code .copy .copy-modes-toggle'))).toBe(true)
+		expect(jsModulesWithout.some((jsModule) => jsModule.includes('.copy-modes-toggle'))).toBe(false)
+	})
+})
@@ -0,0 +1,183 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeBlockOptions, ExpressiveCodeEngine } from '@expressive-code/core'
+import { getClassNames, select, selectAll, toText } from '@expressive-code/core/hast'
+import { PluginFramesOptions, PlaygroundTemplate, pluginFrames } from '../src'
+import { compressToEncodedURIComponent } from '../src/lz-string'
+
+const tsPlayground: PlaygroundTemplate = {
+	name: 'TypeScript Playground',
+	languages: ['ts'],
+	url: 'https://www.typescriptlang.org/play#code/{lzCode}',
+}
+
+const queryPlayground: PlaygroundTemplate = {
+	name: 'Query Playground',
+	languages: ['js'],
+	url: 'https://example.com/run?lang={language}&title={title}&code={code}&b64={base64Code}',
+}
+
+const formPlayground: PlaygroundTemplate = {
+	name: 'Form Playground',
+	languages: ['js', 'json'],
+	url: 'https://example.com/run',
+	formFields: {
+		'project[title]': '{title}',
+		'project[files][{fileName}]': '{code}',
+	},
+}
+
+const exampleCode = `const greeting = 'Hello world!'
+console.log(greeting)`
+
+async function renderGroup(input: ExpressiveCodeBlockOptions[], options: PluginFramesOptions = {}, locale?: string) {
+	const engine = new ExpressiveCodeEngine({
+		plugins: [pluginFrames({ playgrounds: [tsPlayground, queryPlayground, formPlayground], ...options })],
+		...(locale ? { defaultLocale: locale } : {}),
+	})
+	const { renderedGroupAst } = await engine.render(input)
+	return renderedGroupAst
+}
+
+describe('Renders "Open in playground" actions', () => {
+	test('Renders a link with lz-string compressed code', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'ts', meta: 'title="app.ts"' }])
+		const link = select('.frame > .header-actions > a.playground', ast)
+		expect(link?.properties.href).toBe(`https://www.typescriptlang.org/play#code/${compressToEncodedURIComponent(exampleCode)}`)
+		expect(link?.properties.target).toBe('_blank')
+		expect(link?.properties.rel).toEqual(['noopener', 'noreferrer'])
+		expect(toText(link!)).toBe('Open in TypeScript Playground (opens in a new tab)')
+		expect(toText(select('.sr-only', link)!)).toBe(' (opens in a new tab)')
+	})
+	test('Encodes placeholder values in URLs', async () => {
+		const ast = await renderGroup([{ code: 'let a = "ä & b"', language: 'js', meta: 'title="My app.js"' }])
+		const href = select('a.playground', ast)?.properties.href?.toString() ?? ''
+		const query = new URL(href).searchParams
+		expect(query.get('lang')).toBe('js')
+		expect(query.get('title')).toBe('My app.js')
+		expect(query.get('code')).toBe('let a = "ä & b"')
+		expect(Buffer.from(query.get('b64') ?? '', 'base64').toString('utf8')).toBe('let a = "ä & b"')
+	})
+	test('Submits a form containing all files of the group', async () => {
+		const ast = await renderGroup(
+			[
+				{ code: 'console.log(1)', language: 'js', meta: 'title="index.js"' },
+				{ code: '{ "name": "test" }', language: 'json', meta: 'title="package.json"' },
+				{ code: 'npm start', language: 'sh' },
+			],
+			{ playgrounds: [formPlayground] }
+		)
+		const forms = selectAll('form.playground', ast)
+		// Expect the shell block to have no playground action
+		expect(forms).toHaveLength(2)
+		expect(forms[0].properties).toMatchObject({ action: 'https://example.com/run', method: 'post', target: '_blank' })
+		const fields = selectAll('input', forms[0]).map(({ properties }) => [properties.type, properties.name, properties.value])
+		expect(fields).toEqual([
+			['hidden', 'project[title]', 'index.js'],
+			['hidden', 'project[files][index.js]', 'console.log(1)'],
+			['hidden', 'project[files][package.json]', '{ "name": "test" }'],
+		])
+		expect(toText(select('button[type="submit"]', forms[0])!)).toBe('Open in Form Playground (opens in a new tab)')
+	})
+	test('Generates file names for code blocks without title', async () => {
+		const ast = await renderGroup([{ code: 'console.log(1)', language: 'js' }], { playgrounds: [formPlayground] })
+		expect(selectAll('input', ast).map(({ properties }) => properties.name)).toEqual(['project[title]', 'project[files][file-1.js]'])
+	})
+	test('Shows a header in code frames without title', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'ts' }])
+		expect(getClassNames(select('.frame', ast)!)).toContain('has-header-actions')
+	})
+	test('The link text is localized', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'ts' }], {}, 'de')
+		expect(toText(select('a.playground', ast)!)).toBe('In TypeScript Playground öffnen (öffnet in einem neuen Tab)')
+	})
+})
+
+describe('Does not render "Open in playground" actions if not applicable', () => {
+	test('When no playgrounds are configured', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'ts' }], { playgrounds: [] })
+		expect(select('.header-actions', ast)).toBeUndefined()
+		expect(getClassNames(select('.frame', ast)!)).not.toContain('has-header-actions')
+	})
+	test('When no playground matches the language', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'py' }])
+		expect(select('.header-actions', ast)).toBeUndefined()
+	})
+	test('When disabled using meta information', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'ts', meta: 'playground=false' }])
+		expect(select('.header-actions', ast)).toBeUndefined()
+	})
+	test('When the frame type is "none"', async () => {
+		const ast = await renderGroup([{ code: exampleCode, language: 'ts', meta: 'frame="none"' }])
+		expect(select('.header-actions', ast)).toBeUndefined()
+	})
+})
+
+describe('Compresses code using the lz-string algorithm', () => {
+	test('Output can be decompressed by the lz-string decompression algorithm', () => {
+		const inputs = ['', 'a', exampleCode, 'Unicode: äöü € 你好 🚀', 'abcabcabcabcabcabcabcabcabcabcabcabc'.repeat(20), exampleCode.repeat(50)]
+		inputs.forEach((input) => {
+			const compressed = compressToEncodedURIComponent(input)
+			expect(compressed).toMatch(/^[A-Za-z0-9+\-$]*$/)
+			expect(decompressFromEncodedURIComponent(compressed)).toBe(input)
+		})
+	})
+})
+
+/**
+ * A port of the lz-string decompression algorithm used to verify the compressed output.
+ */
+function decompressFromEncodedURIComponent(input: string) {
+	const uriSafeChars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+-$'
+	const getValue = (index: number) => uriSafeChars.indexOf(input.charAt(index))
+	const dictionary: string[] = ['', '', '']
+	let enlargeIn = 4
+	let numBits = 3
+	let dataValue = getValue(0)
+	let dataPosition = 32
+	let dataIndex = 1
+
+	const readBits = (bitCount: number) => {
+		let bits = 0
+		for (let power = 1; power < 1 << bitCount; power <<= 1) {
+			const bit = dataValue & dataPosition
+			dataPosition >>= 1
+			if (dataPosition === 0) {
+				dataPosition = 32
+				dataValue = getValue(dataIndex++)
+			}
+			if (bit) bits |= power
+		}
+		return bits
+	}
+	const decreaseEnlargeIn = () => {
+		enlargeIn--
+		if (enlargeIn === 0) {
+			enlargeIn = Math.pow(2, numBits)
+			numBits++
+		}
+	}
+
+	const first = readBits(2)
+	if (first === 2) return ''
+	let previous = String.fromCharCode(readBits(first === 0 ? 8 : 16))
+	dictionary.push(previous)
+	const result = [previous]
+	for (;;) {
+		let code = readBits(numBits)
+		if (code === 2) return result.join('')
+		if (code === 0 || code === 1) {
+			dictionary.push(String.fromCharCode(readBits(code === 0 ? 8 : 16)))
+			code = dictionary.length - 1
+			enlargeIn--
+		}
+		if (enlargeIn === 0) {
+			enlargeIn = Math.pow(2, numBits)
+			numBits++
+		}
+		const entry = code < dictionary.length ? dictionary[code] : previous + previous.charAt(0)
+		result.push(entry)
+		dictionary.push(previous + entry.charAt(0))
+		decreaseEnlargeIn()
+		previous = entry
+	}
+}
@@ -3,11 +3,30 @@ import { ExpressiveCodeEngine } from '@expressive-code/core'
 import { pluginFrames } from '../src'
 
 describe('Handles invalid options', () => {
-	test('Throws an error on invalid frame types', async () => {
-		const testFunc = async () => {
-			await getMetaResult('something frame="totally-invalid" "else"')
-		}
-		await expect(testFunc()).rejects.toThrowError(/frame type.*totally-invalid/)
+	test('Reports an error on invalid frame types', async () => {
+		const { diagnostics } = await getMetaResult('something frame="totally-invalid" "else"')
+		expect(diagnostics).toHaveLength(1)
+		expect(diagnostics[0]).toMatchObject({
+			severity: 'error',
+			pluginName: 'Frames',
+			location: { source: 'meta', column: 11 },
+		})
+		expect(diagnostics[0].message).toMatch(/frame type.*totally-invalid/)
+	})
+	test('Falls back to automatic frame type detection on invalid frame types', async () => {
+		const { props } = await getMetaResult('frame="totally-invalid"')
+		expect(props.frame).toBe('auto')
+	})
+	test('Logs an error on invalid frame types when rendering directly', async () => {
+		const { loggedErrors } = await getMetaResult('frame="totally-invalid"')
+		expect(loggedErrors).toHaveLength(1)
+		expect(loggedErrors[0]).toMatch(/frame type.*totally-invalid.*reported by plugin "Frames"/)
+	})
+	test('Logs an error on invalid copy modes when rendering directly', async () => {
+		const { props, loggedErrors } = await getMetaResult('copyMode="unknown"')
+		expect(props.copyMode).toBeUndefined()
+		expect(loggedErrors).toHaveLength(1)
+		expect(loggedErrors[0]).toMatch(/copy mode.*unknown.*reported by plugin "Frames"/)
 	})
 })
 
@@ -17,11 +36,12 @@ async function getMetaResult(input: string) {
 
 	// Create an Expressive Code instance with our plugin
 	// and use it to render the test code
+	const loggedErrors: string[] = []
 	const engine = new ExpressiveCodeEngine({
 		plugins: [plugin],
 		logger: {
 			warn: () => undefined,
-			error: () => undefined,
+			error: (message) => loggedErrors.push(message),
 		},
 	})
 	const data = {
@@ -29,11 +49,14 @@ async function getMetaResult(input: string) {
 		language: 'md',
 		meta: input,
 	}
-	const { renderedGroupContents } = await engine.render(data)
+	const { renderedGroupContents, diagnostics } = await engine.render(data)
 	expect(renderedGroupContents).toHaveLength(1)
 	const codeBlock = renderedGroupContents[0].codeBlock
 
 	return {
 		meta: codeBlock.meta,
+		props: codeBlock.props,
+		diagnostics,
+		loggedErrors,
 	}
 }
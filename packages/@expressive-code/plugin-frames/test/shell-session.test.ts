@@ -0,0 +1,191 @@
+import { describe, expect, test } from 'vitest'
+import type { Element } from '@expressive-code/core/hast'
+import { select, selectAll, toText } from '@expressive-code/core/hast'
+import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes } from '@internal/test-utils'
+import { pluginFrames } from '../src'
+import { defaultShellSessionPrompts, getShellSessionCommands, parseShellSession } from '../src/shell-session'
+
+const exampleSessionCode = `
+$ npm create astro@latest
+Need to install the following packages: create-astro
+Ok to proceed? (y)
+$ docker run \\
+>   --rm \\
+>   hello-world
+Hello from Docker!
+`.trim()
+
+const exampleSessionCommands = `
+npm create astro@latest
+docker run --rm hello-world
+`.trim()
+
+describe('Parses shell sessions', () => {
+	test('Distinguishes commands, continuations and output', () => {
+		const parsedLines = parseShellSession(exampleSessionCode.split('\n'), defaultShellSessionPrompts)
+		expect(parsedLines).toEqual([
+			{ type: 'command', promptLength: 2 },
+			{ type: 'output', promptLength: 0 },
+			{ type: 'output', promptLength: 0 },
+			{ type: 'command', promptLength: 2 },
+			{ type: 'continuation', promptLength: 2 },
+			{ type: 'continuation', promptLength: 2 },
+			{ type: 'output', promptLength: 0 },
+		])
+	})
+	test('Supports PowerShell prompts and line continuations', () => {
+		const lines = ['PS> Get-ChildItem `', '  -Recurse', 'Directory: C:\\Users']
+		expect(parseShellSession(lines, defaultShellSessionPrompts)).toEqual([
+			{ type: 'command', promptLength: 4 },
+			{ type: 'continuation', promptLength: 0 },
+			{ type: 'output', promptLength: 0 },
+		])
+		expect(getShellSessionCommands(lines, defaultShellSessionPrompts)).toEqual('Get-ChildItem -Recurse')
+	})
+	test('Only recognizes the secondary prompt on continuation lines', () => {
+		const lines = ['$ npm run build', '', '> example@1.0.0 build', '> astro build', '$ echo done \\', '> && exit']
+		expect(parseShellSession(lines, defaultShellSessionPrompts)).toEqual([
+			{ type: 'command', promptLength: 2 },
+			{ type: 'output', promptLength: 0 },
+			{ type: 'output', promptLength: 0 },
+			{ type: 'output', promptLength: 0 },
+			{ type: 'command', promptLength: 2 },
+			{ type: 'continuation', promptLength: 2 },
+		])
+		expect(getShellSessionCommands(lines, defaultShellSessionPrompts)).toEqual('npm run build\necho done && exit')
+	})
+	test('Supports custom prompts', () => {
+		const lines = ['user@host:~% ls', 'file.txt', '$ not a command']
+		expect(getShellSessionCommands(lines, ['user@host:~% '])).toEqual('ls')
+	})
+	test('Extracts commands and joins continuation lines', () => {
+		expect(getShellSessionCommands(exampleSessionCode.split('\n'), defaultShellSessionPrompts)).toEqual(exampleSessionCommands)
+	})
+})
+
+describe('Renders terminal frames in shell session mode', async () => {
+	const themes = await loadTestThemes()
+
+	test('Enables shell session mode for the "shellsession" language', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleSessionCode,
+				language: 'shellsession',
+				plugins: [pluginFrames()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						prompts: ['$ ', '$ ', '> ', '> '],
+						outputLineCount: 3,
+						codeToCopy: exampleSessionCommands,
+					})
+				},
+			}),
+		})
+	})
+	test('Allows enabling shell session mode using meta information', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleSessionCode,
+				language: 'sh',
+				meta: 'shellSession',
+				plugins: [pluginFrames()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						prompts: ['$ ', '$ ', '> ', '> '],
+						outputLineCount: 3,
+						codeToCopy: exampleSessionCommands,
+					})
+				},
+			}),
+		})
+	})
+	test('Allows disabling shell session mode using meta information', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleSessionCode,
+				language: 'shellsession',
+				meta: 'shellSession=false',
+				plugins: [pluginFrames()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						prompts: [],
+						outputLineCount: 0,
+						codeToCopy: exampleSessionCode,
+					})
+				},
+			}),
+		})
+	})
+	test('Does not enable shell session mode for code frames', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleSessionCode,
+				language: 'shellsession',
+				meta: 'frame="code"',
+				plugins: [pluginFrames()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						prompts: [],
+						outputLineCount: 0,
+						codeToCopy: exampleSessionCode,
+					})
+				},
+			}),
+		})
+	})
+	test('Supports custom prompts through options', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: ['C:\\> dir', ' Volume in drive C has no label.', 'C:\\> cd Users'].join('\n'),
+				language: 'console',
+				plugins: [pluginFrames({ shellSessionPrompts: ['C:\\> '] })],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						prompts: ['C:\\> ', 'C:\\> '],
+						outputLineCount: 1,
+						codeToCopy: 'dir\ncd Users',
+					})
+				},
+			}),
+		})
+	})
+})
+
+function validateBlockAst({
+	renderedGroupAst,
+	prompts,
+	outputLineCount,
+	codeToCopy,
+}: {
+	renderedGroupAst: Element
+	prompts: string[]
+	outputLineCount: number
+	codeToCopy: string
+}) {
+	// Expect the prompts to be wrapped in prompt spans
+	const promptElements = selectAll('.ec-line .prompt', renderedGroupAst)
+	expect(promptElements.map((element) => toText(element))).toEqual(prompts)
+
+	// Expect output lines to be marked
+	expect(selectAll('.ec-line.output', renderedGroupAst)).toHaveLength(outputLineCount)
+
+	// Expect the copy button to only contain the commands
+	const copyButton = select('pre + .copy button', renderedGroupAst)
+	const actualCode = copyButton?.properties?.dataCode?.toString().replace(/\u007f/g, '\n')
+	expect(actualCode).toBe(codeToCopy)
+}
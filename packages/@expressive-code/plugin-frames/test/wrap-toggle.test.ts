@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeEngine } from '@expressive-code/core'
+import { getClassNames, getInlineStyles, select, selectAll } from '@expressive-code/core/hast'
+import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes } from '@internal/test-utils'
+import { pluginFrames } from '../src'
+
+const exampleCode = `
+function test() {
+	console.log('This line is indented')
+}
+`.trim()
+
+describe('Renders a word wrap toggle button', async () => {
+	const themes = await loadTestThemes()
+
+	test('The button is not rendered by default', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				plugins: [pluginFrames()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					expect(select('.wrap-toggle', renderedGroupAst)).toBeUndefined()
+					expect(getInlineStyles(select('pre', renderedGroupAst)!).get('--ecMaxLine')).toBeUndefined()
+				},
+			}),
+		})
+	})
+	test('The button can be enabled through options', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				plugins: [pluginFrames({ showWrapToggleButton: true })],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					// Expect the pre element to be followed by the wrap toggle and copy buttons
+					const wrapButton = select('pre + .wrap-toggle button', renderedGroupAst)
+					expect(wrapButton?.properties.title).toBe('Toggle word wrap')
+					expect(wrapButton?.properties.ariaPressed).toBe('false')
+					expect(select('pre + .wrap-toggle + .copy button', renderedGroupAst)).toBeTruthy()
+					// Expect the information required for runtime wrapping to be present
+					const pre = select('pre', renderedGroupAst)!
+					expect(getClassNames(pre)).not.toContain('wrap')
+					expect(getInlineStyles(pre).get('--ecMaxLine')).toBe('37ch')
+					const lineIndents = selectAll('.ec-line', renderedGroupAst).map((line) => getInlineStyles(line).get('--ecIndent'))
+					expect(lineIndents).toEqual([undefined, '1ch', undefined])
+				},
+			}),
+		})
+	})
+	test('The button is pressed if wrapping is enabled at build time', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				meta: 'wrap',
+				plugins: [pluginFrames({ showWrapToggleButton: true })],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					expect(select('.wrap-toggle button', renderedGroupAst)?.properties.ariaPressed).toBe('true')
+					expect(getClassNames(select('pre', renderedGroupAst)!)).toContain('wrap')
+				},
+			}),
+		})
+	})
+	test('Indent information is not added if preserveIndent is disabled', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				meta: 'preserveIndent=false',
+				plugins: [pluginFrames({ showWrapToggleButton: true })],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					const lineIndents = selectAll('.ec-line', renderedGroupAst).map((line) => getInlineStyles(line).get('--ecIndent'))
+					expect(lineIndents).toEqual([undefined, undefined, undefined])
+				},
+			}),
+		})
+	})
+})
+
+describe('Adds the wrap toggle JS module and texts', () => {
+	test('The JS module is only added if the button is enabled', async () => {
+		const engineWithout = new ExpressiveCodeEngine({ plugins: [pluginFrames()] })
+		const engineWith = new ExpressiveCodeEngine({ plugins: [pluginFrames({ showWrapToggleButton: true })] })
+		const jsModulesWithout = await engineWithout.getJsModules()
+		const jsModulesWith = await engineWith.getJsModules()
+		expect(jsModulesWithout.some((jsModule) => jsModule.includes('ec-wrap'))).toBe(false)
+		expect(jsModulesWith.some((jsModule) => jsModule.includes('ec-wrap') && jsModule.includes('.expressive-code .wrap-toggle button'))).toBe(true)
+	})
+	test('The button tooltip is localized', async () => {
+		const engine = new ExpressiveCodeEngine({ defaultLocale: 'de', plugins: [pluginFrames({ showWrapToggleButton: true })] })
+		const { renderedGroupAst } = await engine.render({ code: exampleCode, language: 'js' })
+		expect(select('.wrap-toggle button', renderedGroupAst)?.properties.title).toBe('Zeilenumbruch umschalten')
+	})
+})
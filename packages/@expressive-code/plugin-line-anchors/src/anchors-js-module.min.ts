@@ -0,0 +1,8 @@
+/*
+	GENERATED FILE - DO NOT EDIT
+	----------------------------
+	This JS module code was built from the source file "anchors-js-module.ts".
+	To change it, modify the source file and then re-run the build script.
+*/
+
+export default 'try{(()=>{function l(t,e){return`${t}-L${e}`}function d(t,e,n=e){let r=n!==e?`L${e}-L${n}`:`L${e}`;return`${t}:${r}`}function o(t){let e=t.replace(/^#/,"").match(/^(.+):L(\\d+)(?:-L(\\d+))?$/);if(!e)return;let n=[Number(e[2]),Number(e[3]??e[2])];return{blockId:e[1],startLineNumber:Math.min(...n),endLineNumber:Math.max(...n)}}var u=["highlight","mark"],s=[];function h(){s.forEach(({line:t,addedClasses:e})=>t.classList.remove(...e)),s=[]}function c(t){h();let e=o(decodeURIComponent(location.hash));if(!(!e||!document.getElementById(e.blockId))){for(let n=e.startLineNumber;n<=e.endLineNumber;n++){let r=document.getElementById(l(e.blockId,n));if(!r)continue;let i=u.filter(a=>!r.classList.contains(a));r.classList.add(...i),s.push({line:r,addedClasses:i})}t&&s[0]?.line.scrollIntoView({block:"center"})}}function m(t){let e=t.target?.closest?.(\'.expressive-code .ln a[href^="#"]\'),n=e&&o(decodeURIComponent(e.hash));if(!n)return;let r=o(decodeURIComponent(location.hash));if(!t.shiftKey||r?.blockId!==n.blockId)return;t.preventDefault();let i=Math.min(r.startLineNumber,n.startLineNumber),a=Math.max(r.endLineNumber,n.startLineNumber);location.hash=d(n.blockId,i,a)}c(!0);window.addEventListener("hashchange",()=>c(!0));document.addEventListener("click",m);document.addEventListener("astro:page-load",()=>c(!0));})();}catch(e){console.error("[EC] anchors-js-module failed:",e)}'
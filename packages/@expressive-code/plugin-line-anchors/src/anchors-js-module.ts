@@ -0,0 +1,63 @@
+import { getLineId, getLineRangeHash, parseLineRangeHash } from './utils'
+
+/**
+ * The classes added to highlighted lines. They match the classes of full-line `mark` markers
+ * rendered by the text markers plugin, so highlighted lines look like marked lines.
+ */
+const highlightClasses = ['highlight', 'mark']
+
+/**
+ * The lines highlighted by the current URL hash, together with the classes that were added
+ * to them. Classes that a line already had (e.g. from a text marker) are not tracked
+ * to avoid removing them when the highlight gets cleared.
+ */
+let highlightedLines: { line: Element; addedClasses: string[] }[] = []
+
+function clearLineHighlights() {
+	highlightedLines.forEach(({ line, addedClasses }) => line.classList.remove(...addedClasses))
+	highlightedLines = []
+}
+
+/**
+ * Highlights the line range referenced by the current URL hash (if any),
+ * and optionally scrolls the first highlighted line into view.
+ */
+function highlightLinesFromHash(scrollIntoView: boolean) {
+	clearLineHighlights()
+	const range = parseLineRangeHash(decodeURIComponent(location.hash))
+	if (!range || !document.getElementById(range.blockId)) return
+	for (let lineNumber = range.startLineNumber; lineNumber <= range.endLineNumber; lineNumber++) {
+		const line = document.getElementById(getLineId(range.blockId, lineNumber))
+		if (!line) continue
+		const addedClasses = highlightClasses.filter((className) => !line.classList.contains(className))
+		line.classList.add(...addedClasses)
+		highlightedLines.push({ line, addedClasses })
+	}
+	if (scrollIntoView) highlightedLines[0]?.line.scrollIntoView({ block: 'center' })
+}
+
+/**
+ * Handles clicks on line number links. Shift-clicking a line number
+ * in the same code block as the currently linked range extends the range.
+ */
+function handleLineNumberClick(event: MouseEvent) {
+	const link = (event.target as Element | null)?.closest?.<HTMLAnchorElement>('.expressive-code .ln a[href^="#"]')
+	const clickedRange = link && parseLineRangeHash(decodeURIComponent(link.hash))
+	if (!clickedRange) return
+	const currentRange = parseLineRangeHash(decodeURIComponent(location.hash))
+	if (!event.shiftKey || currentRange?.blockId !== clickedRange.blockId) return
+	event.preventDefault()
+	const startLineNumber = Math.min(currentRange.startLineNumber, clickedRange.startLineNumber)
+	const endLineNumber = Math.max(currentRange.endLineNumber, clickedRange.startLineNumber)
+	location.hash = getLineRangeHash(clickedRange.blockId, startLineNumber, endLineNumber)
+}
+
+// Highlight the linked lines on load and whenever the hash changes
+highlightLinesFromHash(true)
+window.addEventListener('hashchange', () => highlightLinesFromHash(true))
+
+// Use event delegation to handle line number clicks in all current and future code blocks
+document.addEventListener('click', handleLineNumberClick)
+
+// Also re-apply the highlights after view transitions initiated by popular frameworks
+document.addEventListener('astro:page-load', () => highlightLinesFromHash(true))
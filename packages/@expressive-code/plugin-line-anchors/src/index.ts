@@ -0,0 +1,113 @@
+import { AttachedPluginData, ExpressiveCodeHookContext, ExpressiveCodePlugin } from '@expressive-code/core'
+import { h, select, setProperty } from '@expressive-code/core/hast'
+// Import plugin types to access the `title` and `startLineNumber` props
+import type {} from '@expressive-code/plugin-frames'
+import type {} from '@expressive-code/plugin-line-numbers'
+import { getLineAnchorsBaseStyles } from './styles'
+import { getLineId, getLineRangeHash, slugify } from './utils'
+import anchorsJsModule from './anchors-js-module.min'
+export { getLineId, getLineRangeHash, parseLineRangeHash, slugify } from './utils'
+
+export interface PluginLineAnchorsOptions {
+	/**
+	 * The prefix of the ids assigned to code blocks that have neither an `id` nor a title.
+	 * A counter is appended to the prefix to make these ids unique within their document
+	 * (or their engine if there is no document), e.g. `code-1`, `code-2`, etc.
+	 *
+	 * @default 'code'
+	 */
+	fallbackIdPrefix?: string | undefined
+}
+
+export interface PluginLineAnchorsProps {
+	/**
+	 * The id of the code block. It is assigned to the rendered block and used as a prefix
+	 * for the ids of its lines and for links to line ranges, e.g. `#example:L12-L18`.
+	 *
+	 * If no id is given, the plugin derives one from the code block's title. If the block
+	 * does not have a title either, a fallback id like `code-1` is used. Derived ids are
+	 * made unique within their document (or their engine if there is no document)
+	 * by appending a counter if necessary.
+	 */
+	id: string
+}
+
+declare module '@expressive-code/core' {
+	export interface ExpressiveCodeBlockProps extends PluginLineAnchorsProps {}
+}
+
+export const pluginLineAnchorsData = new AttachedPluginData<{ blockId?: string | undefined }>(() => ({}))
+
+export function pluginLineAnchors(options: PluginLineAnchorsOptions = {}): ExpressiveCodePlugin {
+	const { fallbackIdPrefix = 'code' } = options
+
+	// Keep track of the ids used in each document to ensure that derived ids are unique
+	const usedIdsByDocument = new WeakMap<object, Set<string>>()
+
+	const getUsedIds = ({ codeBlock, config }: ExpressiveCodeHookContext) => {
+		// Code blocks rendered without a document (e.g. when calling the engine's `render` method
+		// directly) share the ids of their engine, which is identified by its plugins array
+		const documentRoot = codeBlock.parentDocument?.documentRoot
+		const key = documentRoot && typeof documentRoot === 'object' ? documentRoot : config.plugins
+		let usedIds = usedIdsByDocument.get(key)
+		if (!usedIds) {
+			usedIds = new Set<string>()
+			usedIdsByDocument.set(key, usedIds)
+		}
+		return usedIds
+	}
+
+	const getUniqueBlockId = (context: ExpressiveCodeHookContext) => {
+		const { codeBlock, groupContents } = context
+		const { id, title } = codeBlock.props
+		const usedIds = getUsedIds(context)
+
+		// Always use explicitly given ids as they are
+		let blockId = id
+		if (!blockId) {
+			// Prevent derived ids from colliding with the explicit ids of other blocks in the group,
+			// even if these blocks have not been processed yet
+			const reservedIds = groupContents.map((item) => item.codeBlock.props.id ?? item.codeBlock.metaOptions.getString('id'))
+			const isTaken = (candidate: string) => usedIds.has(candidate) || reservedIds.includes(candidate)
+			const baseId = (title && slugify(title)) || fallbackIdPrefix
+			const needsCounter = baseId === fallbackIdPrefix
+			let counter = 1
+			blockId = needsCounter ? `${baseId}-${counter}` : baseId
+			while (isTaken(blockId)) blockId = `${baseId}-${++counter}`
+		}
+		usedIds.add(blockId)
+		return blockId
+	}
+
+	return {
+		name: 'Line anchors',
+		baseStyles: (context) => getLineAnchorsBaseStyles(context),
+		jsModules: [anchorsJsModule],
+		hooks: {
+			preprocessMetadata: ({ codeBlock: { metaOptions, props } }) => {
+				// Transfer meta options (if any) to props
+				props.id = metaOptions.getString('id') ?? props.id
+			},
+			postprocessAnnotations: (context) => {
+				// Determine the block id now that all plugins had the chance to set a title
+				pluginLineAnchorsData.getOrCreateFor(context.codeBlock).blockId = getUniqueBlockId(context)
+			},
+			postprocessRenderedLine: ({ codeBlock, lineIndex, renderData }) => {
+				const { blockId } = pluginLineAnchorsData.getOrCreateFor(codeBlock)
+				if (!blockId) return
+				const lineNumber = lineIndex + (codeBlock.props.startLineNumber ?? 1)
+				setProperty(renderData.lineAst, 'id', getLineId(blockId, lineNumber))
+
+				// If the line has a line number, turn it into a link to the line
+				// (which is kept focusable to allow keyboard users to copy links to lines)
+				const lineNumberElement = select('.gutter .ln', renderData.lineAst)
+				if (!lineNumberElement) return
+				lineNumberElement.children = [h('a', { href: `#${getLineRangeHash(blockId, lineNumber)}` }, lineNumberElement.children)]
+			},
+			postprocessRenderedBlock: ({ codeBlock, renderData }) => {
+				const { blockId } = pluginLineAnchorsData.getOrCreateFor(codeBlock)
+				if (blockId) setProperty(renderData.blockAst, 'id', blockId)
+			},
+		},
+	}
+}
@@ -0,0 +1,19 @@
+import { ResolverContext } from '@expressive-code/core'
+
+export function getLineAnchorsBaseStyles({ cssVar }: ResolverContext) {
+	const result = `
+		.gutter .ln a {
+			color: inherit;
+			text-decoration: none;
+			cursor: pointer;
+
+			&:hover,
+			&:focus-visible {
+				color: ${cssVar('codeForeground')};
+				text-decoration: underline;
+			}
+		}
+	`
+
+	return result
+}
@@ -0,0 +1,45 @@
+/**
+ * Converts the given text (e.g. a code block title like `src/index.ts`)
+ * into a string that can be used as an id (e.g. `src-index-ts`).
+ */
+export function slugify(text: string) {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}_]+/gu, '-')
+		.replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Returns the `id` attribute value of the line with the given line number.
+ */
+export function getLineId(blockId: string, lineNumber: number) {
+	return `${blockId}-L${lineNumber}`
+}
+
+/**
+ * Returns the URL hash (without the leading `#`) that links to the given line range
+ * of a code block, e.g. `example:L12-L18`, or `example:L12` if the range only
+ * contains a single line.
+ */
+export function getLineRangeHash(blockId: string, startLineNumber: number, endLineNumber = startLineNumber) {
+	const range = endLineNumber !== startLineNumber ? `L${startLineNumber}-L${endLineNumber}` : `L${startLineNumber}`
+	return `${blockId}:${range}`
+}
+
+/**
+ * Parses a URL hash like `#example:L12-L18` into the block id and the line range it links to.
+ *
+ * Returns `undefined` if the hash does not link to a line range.
+ */
+export function parseLineRangeHash(hash: string) {
+	const match = hash.replace(/^#/, '').match(/^(.+):L(\d+)(?:-L(\d+))?$/)
+	if (!match) return
+	const lineNumbers = [Number(match[2]), Number(match[3] ?? match[2])]
+	return {
+		blockId: match[1],
+		startLineNumber: Math.min(...lineNumbers),
+		endLineNumber: Math.max(...lineNumbers),
+	}
+}
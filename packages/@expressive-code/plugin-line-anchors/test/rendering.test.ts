@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeEngine } from '@expressive-code/core'
+import type { Element } from '@expressive-code/core/hast'
+import { select, selectAll } from '@expressive-code/core/hast'
+import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes } from '@internal/test-utils'
+import { pluginFrames } from '@expressive-code/plugin-frames'
+import { pluginLineNumbers } from '@expressive-code/plugin-line-numbers'
+import { pluginTextMarkers } from '@expressive-code/plugin-text-markers'
+import { pluginLineAnchors } from '../src'
+
+const exampleCode = `
+const btn = document.getElementById('btn')
+btn.addEventListener('click', () => console.log('Hello World!'))
+`.trim()
+
+describe('Renders line anchors', async () => {
+	const themes = await loadTestThemes()
+
+	test('Uses the id from meta information', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				meta: 'id="click-handler" title="src/index.ts"',
+				plugins: [pluginFrames(), pluginTextMarkers(), pluginLineNumbers(), pluginLineAnchors()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						blockId: 'click-handler',
+						lineNumbers: [1, 2],
+						hasLinks: true,
+					})
+				},
+			}),
+		})
+	})
+	test('Derives the id from the title', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				meta: 'title="src/Index Page.ts" startLineNumber=12',
+				plugins: [pluginFrames(), pluginTextMarkers(), pluginLineNumbers(), pluginLineAnchors()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						blockId: 'src-index-page-ts',
+						lineNumbers: [12, 13],
+						hasLinks: true,
+					})
+				},
+			}),
+		})
+	})
+	test('Assigns line ids without line numbers', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: exampleCode,
+				plugins: [pluginFrames(), pluginTextMarkers(), pluginLineAnchors({ fallbackIdPrefix: 'snippet' })],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					validateBlockAst({
+						renderedGroupAst,
+						blockId: 'snippet-1',
+						lineNumbers: [1, 2],
+						hasLinks: false,
+					})
+				},
+			}),
+		})
+	})
+})
+
+describe('Generates unique block ids per document', () => {
+	test('Appends counters to derived ids', async () => {
+		const engine = new ExpressiveCodeEngine({
+			plugins: [pluginFrames(), pluginLineAnchors()],
+		})
+		const renderBlocks = async (documentRoot: object, metas: string[]) => {
+			const blockIds: (string | undefined)[] = []
+			for (const meta of metas) {
+				const { renderedGroupAst } = await engine.render({ code: exampleCode, language: 'js', meta, parentDocument: { documentRoot } })
+				blockIds.push(select('.frame', renderedGroupAst)?.properties?.id?.toString())
+			}
+			return blockIds
+		}
+
+		const metas = ['title="example.js"', '', 'title="example.js"', '', 'id="example.js"']
+		expect(await renderBlocks({}, metas)).toEqual(['example-js', 'code-1', 'example-js-2', 'code-2', 'example.js'])
+
+		// Expect ids to start over in a new document
+		expect(await renderBlocks({}, metas.slice(0, 2))).toEqual(['example-js', 'code-1'])
+	})
+	test('Tracks the ids of code blocks rendered without a document per engine', async () => {
+		const createEngine = () => new ExpressiveCodeEngine({ plugins: [pluginFrames(), pluginLineAnchors()] })
+		const renderBlockIds = async (engine: ExpressiveCodeEngine, metas: string[]) => {
+			const blockIds: (string | undefined)[] = []
+			for (const meta of metas) {
+				const { renderedGroupAst } = await engine.render({ code: exampleCode, language: 'js', meta })
+				blockIds.push(select('.frame', renderedGroupAst)?.properties?.id?.toString())
+			}
+			return blockIds
+		}
+
+		const engine = createEngine()
+		expect(await renderBlockIds(engine, ['', '', 'title="example.js"'])).toEqual(['code-1', 'code-2', 'example-js'])
+		expect(await renderBlockIds(engine, ['', 'title="example.js"'])).toEqual(['code-3', 'example-js-2'])
+
+		// Expect ids to start over in a new engine
+		expect(await renderBlockIds(createEngine(), [''])).toEqual(['code-1'])
+	})
+	test('Does not derive ids that collide with explicit ids of blocks in the same group', async () => {
+		const engine = new ExpressiveCodeEngine({ plugins: [pluginFrames(), pluginLineAnchors()] })
+		const { renderedGroupAst } = await engine.render(
+			['title="example.js"', 'id="code-1"', '', 'id="example-js"'].map((meta) => ({ code: exampleCode, language: 'js', meta, parentDocument: { documentRoot: {} } }))
+		)
+		const blockIds = selectAll('.frame', renderedGroupAst).map((frame) => frame.properties?.id?.toString())
+		expect(blockIds).toEqual(['example-js-2', 'code-1', 'code-2', 'example-js'])
+	})
+})
+
+function validateBlockAst({ renderedGroupAst, blockId, lineNumbers, hasLinks }: { renderedGroupAst: Element; blockId: string; lineNumbers: number[]; hasLinks: boolean }) {
+	// Expect the block to have the expected id
+	expect(select('.frame', renderedGroupAst)?.properties?.id).toEqual(blockId)
+
+	// Expect all lines to have ids based on their line numbers
+	const lines = selectAll('.ec-line', renderedGroupAst)
+	expect(lines.map((line) => line.properties?.id)).toEqual(lineNumbers.map((lineNumber) => `${blockId}-L${lineNumber}`))
+
+	// Expect line numbers to link to their lines (if present)
+	const links = selectAll('.ec-line .gutter .ln a', renderedGroupAst)
+	expect(links.map((link) => link.properties?.href)).toEqual(hasLinks ? lineNumbers.map((lineNumber) => `#${blockId}:L${lineNumber}`) : [])
+
+	// Expect the links to be reachable using the keyboard
+	expect(links.filter((link) => link.properties?.tabIndex !== undefined)).toEqual([])
+}
@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'vitest'
+import { getLineRangeHash, parseLineRangeHash, slugify } from '../src/utils'
+
+describe('slugify()', () => {
+	test('Converts titles to ids', () => {
+		expect(slugify('src/index.ts')).toEqual('src-index-ts')
+		expect(slugify('  My Example (Part 2)!  ')).toEqual('my-example-part-2')
+		expect(slugify('Übersicht der Größen')).toEqual('ubersicht-der-großen')
+		expect(slugify('---')).toEqual('')
+	})
+})
+
+describe('Line range hashes', () => {
+	test('Creates hashes for single lines and line ranges', () => {
+		expect(getLineRangeHash('example', 12)).toEqual('example:L12')
+		expect(getLineRangeHash('example', 12, 12)).toEqual('example:L12')
+		expect(getLineRangeHash('example', 12, 18)).toEqual('example:L12-L18')
+	})
+	test('Parses hashes with and without leading #', () => {
+		expect(parseLineRangeHash('#example:L12-L18')).toEqual({ blockId: 'example', startLineNumber: 12, endLineNumber: 18 })
+		expect(parseLineRangeHash('example:L12')).toEqual({ blockId: 'example', startLineNumber: 12, endLineNumber: 12 })
+		expect(parseLineRangeHash('#src-index-ts:L18-L12')).toEqual({ blockId: 'src-index-ts', startLineNumber: 12, endLineNumber: 18 })
+	})
+	test('Ignores hashes that do not link to line ranges', () => {
+		expect(parseLineRangeHash('#installation')).toBeUndefined()
+		expect(parseLineRangeHash('#example:12')).toBeUndefined()
+		expect(parseLineRangeHash('#:L12')).toBeUndefined()
+	})
+})
@@ -20,7 +20,7 @@ const themeCacheKeys = new WeakMap<ExpressiveCodeTheme, string>()
 /**
  * Gets a cached Shiki highlighter instance for the given configuration.
  */
-export async function getCachedHighlighter(config: { langs?: LanguageInput[] | undefined } = {}): Promise<Highlighter> {
+export async function getCachedHighlighter(config: { langs?: LanguageInput[] | undefined; lazyLoadLanguages?: boolean | undefined } = {}): Promise<Highlighter> {
 	const configCacheKey = getStableObjectHash(config)
 	let highlighterPromise = highlighterPromiseByConfig.get(configCacheKey)
 	if (highlighterPromise === undefined) {
@@ -28,9 +28,12 @@ export async function getCachedHighlighter(config: { langs?: LanguageInput[] | u
 		if (config.langs?.length) {
 			langs.push(...(config.langs as ShikiLanguageInput[]))
 		}
-		// For now, always preload all the languages because we had some strange race conditions
-		// with lazy-loading that we couldn't solve yet. This is what the old version did as well.
-		langs.push(...(Object.keys(bundledLanguages) as BundledLanguage[]))
+		// Unless lazy-loading was requested, preload all the languages because we had some strange
+		// race conditions with lazy-loading that we couldn't solve yet. This is what the old version
+		// did as well. When lazy-loading, `ensureLanguageIsLoaded` loads the languages on first use.
+		if (!config.lazyLoadLanguages) {
+			langs.push(...(Object.keys(bundledLanguages) as BundledLanguage[]))
+		}
 		highlighterPromise = getHighlighter({
 			themes: [],
 			langs,
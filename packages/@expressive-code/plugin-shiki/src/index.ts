@@ -13,6 +13,24 @@ export interface PluginShikiOptions {
 	 * See the [Shiki documentation](https://shiki.style/guide/load-lang) for more information.
 	 */
 	langs?: LanguageInput[] | undefined
+	/**
+	 * A list of code block languages that should not be highlighted by Shiki.
+	 *
+	 * This is useful if you are using a different syntax highlighting plugin for these
+	 * languages, e.g. the Tree-sitter plugin. Code blocks using these languages are skipped
+	 * without reporting a warning, even if Shiki does not know the language.
+	 */
+	excludeLangs?: string[] | undefined
+	/**
+	 * By default, all languages bundled with Shiki are loaded when the highlighter is created.
+	 *
+	 * Set this to `true` to only load bundled languages when they are first used by a code block
+	 * instead. This reduces loading times and memory usage if only a few languages are used,
+	 * e.g. when rendering code blocks in the browser.
+	 *
+	 * @default false
+	 */
+	lazyLoadLanguages?: boolean | undefined
 }
 
 /**
@@ -39,11 +57,13 @@ enum FontStyle {
 }
 
 export function pluginShiki(options: PluginShikiOptions = {}): ExpressiveCodePlugin {
-	const { langs } = options
+	const { langs, excludeLangs, lazyLoadLanguages } = options
 	return {
 		name: 'Shiki',
 		hooks: {
-			performSyntaxAnalysis: async ({ codeBlock, styleVariants, config: { logger } }) => {
+			performSyntaxAnalysis: async ({ codeBlock, styleVariants, addDiagnostic }) => {
+				if (excludeLangs?.includes(codeBlock.language)) return
+
 				const codeLines = codeBlock.getLines()
 				let code = codeBlock.code
 
@@ -58,7 +78,7 @@ export function pluginShiki(options: PluginShikiOptions = {}): ExpressiveCodePlu
 
 				let highlighter
 				try {
-					highlighter = await getCachedHighlighter({ langs })
+					highlighter = await getCachedHighlighter({ langs, lazyLoadLanguages })
 				} catch (err) {
 					/* c8 ignore next */
 					const error = err instanceof Error ? err : new Error(String(err))
@@ -69,13 +89,13 @@ export function pluginShiki(options: PluginShikiOptions = {}): ExpressiveCodePlu
 
 				// Load language if necessary
 				const loadedLanguageName = await ensureLanguageIsLoaded(highlighter, codeBlock.language)
-				// If the requested language wasn't available, log a warning
+				// If the requested language wasn't available, report a warning
+				// (which is logged unless the integration reports it to the user itself)
 				if (loadedLanguageName !== codeBlock.language) {
-					logger.warn(
-						`Found unknown code block language "${codeBlock.language}" in ${
-							codeBlock.parentDocument?.sourceFilePath ? `document "${codeBlock.parentDocument?.sourceFilePath}"` : 'markdown/MDX document'
-						}. Using "${loadedLanguageName}" instead. You can add custom languages using the "langs" config option.`
-					)
+					addDiagnostic({
+						severity: 'warning',
+						message: `Unknown code block language "${codeBlock.language}". Using "${loadedLanguageName}" instead. You can add custom languages using the "langs" config option.`,
+					})
 				}
 
 				for (let styleVariantIndex = 0; styleVariantIndex < styleVariants.length; styleVariantIndex++) {
@@ -1,7 +1,9 @@
 import { describe, test, expect } from 'vitest'
+import { ExpressiveCodeEngine } from '@expressive-code/core'
 import { toHtml } from '@expressive-code/core/hast'
 import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes, loadBundledShikiTheme } from '@internal/test-utils'
 import { pluginShiki } from '../src'
+import { getCachedHighlighter } from '../src/highlighter'
 
 const jsTestCode = `
 import { defineConfig } from 'astro/config';
@@ -249,7 +251,7 @@ describe('Language handling', async () => {
 	const themes = [await loadBundledShikiTheme('dracula')]
 
 	test(
-		'Falls back to plaintext and logs a warning for unknown languages',
+		'Falls back to plaintext and reports a warning for unknown languages',
 		async ({ task: { name: testName } }) => {
 			let colorAssertionExecuted = false
 			const warnings: string[] = []
@@ -270,9 +272,14 @@ describe('Language handling', async () => {
 								warn: (message) => warnings.push(message),
 							},
 						},
-						blockValidationFn: ({ renderedGroupAst }) => {
+						blockValidationFn: ({ renderedGroupAst, diagnostics }) => {
 							const html = toHtml(renderedGroupAst)
 
+							// Expect the unknown language to be reported as a diagnostic
+							expect(diagnostics).toHaveLength(1)
+							expect(diagnostics[0]).toMatchObject({ severity: 'warning', pluginName: 'Shiki' })
+							expect(diagnostics[0].message).toContain('unknown-test-language')
+
 							// Select all inline colors and expect them to match
 							// the default dracula theme foreground color
 							const colors = [...html.matchAll(/<span [^>]*?style="--0:([^"]*?)">/g)].map((match) => match[1])
@@ -288,7 +295,7 @@ describe('Language handling', async () => {
 
 			expect(colorAssertionExecuted).toBe(true)
 
-			// Ensure that the logger was called with a warning
+			// Expect the diagnostic to be logged as a warning, as the caller did not report it
 			expect(warnings.length).toBe(1)
 			expect(warnings[0]).toContain('unknown-test-language')
 		},
@@ -410,4 +417,33 @@ describe('Language handling', async () => {
 		},
 		{ timeout: 5 * 1000 }
 	)
+	test('Skips excluded languages without reporting warnings', async () => {
+		const warnings: string[] = []
+		const engine = new ExpressiveCodeEngine({
+			themes,
+			plugins: [pluginShiki({ excludeLangs: ['js', 'unknown-test-language'] })],
+			logger: { warn: (message) => warnings.push(message) },
+		})
+		for (const language of ['js', 'unknown-test-language']) {
+			const { renderedGroupAst, diagnostics } = await engine.render({ code: `import something from 'somewhere'`, language })
+			expect(toHtml(renderedGroupAst)).not.toContain('--0:')
+			expect(diagnostics).toEqual([])
+		}
+		expect(warnings).toEqual([])
+	})
+	test('Loads bundled languages on first use if lazy-loading is enabled', async () => {
+		const warnings: string[] = []
+		const engine = new ExpressiveCodeEngine({
+			themes,
+			plugins: [pluginShiki({ lazyLoadLanguages: true })],
+			logger: { warn: (message) => warnings.push(message) },
+		})
+		const highlighter = await getCachedHighlighter({ langs: undefined, lazyLoadLanguages: true })
+		expect(highlighter.getLoadedLanguages()).not.toContain('python')
+		const { renderedGroupAst } = await engine.render({ code: `import something from 'somewhere'`, language: 'python' })
+		expect(toHtml(renderedGroupAst)).toMatch(/<span style="--0:[^"]+">import<\/span>/)
+		expect(highlighter.getLoadedLanguages()).toContain('python')
+		expect(highlighter.getLoadedLanguages()).not.toContain('rust')
+		expect(warnings).toEqual([])
+	})
 })
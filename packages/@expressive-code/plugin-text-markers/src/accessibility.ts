@@ -0,0 +1,101 @@
+import { ExpressiveCodeBlock, PluginTexts, getStableObjectHash } from '@expressive-code/core'
+import type { Element } from '@expressive-code/core/hast'
+import { h } from '@expressive-code/core/hast'
+import { getFullLineMarker } from './annotations'
+import { MarkerType } from './marker-types'
+
+export const pluginTextMarkersTexts = new PluginTexts({
+	insertedLine: 'inserted line',
+	deletedLine: 'deleted line',
+	markedLine: 'highlighted line',
+	lineLabel: 'label {label}',
+	insertedLinesSummarySingular: '{count} line added',
+	insertedLinesSummaryPlural: '{count} lines added',
+	deletedLinesSummarySingular: '{count} line removed',
+	deletedLinesSummaryPlural: '{count} lines removed',
+	markedLinesSummarySingular: '{count} line highlighted',
+	markedLinesSummaryPlural: '{count} lines highlighted',
+	summarySeparator: ', ',
+})
+
+pluginTextMarkersTexts.addLocale('de', {
+	insertedLine: 'eingefügte Zeile',
+	deletedLine: 'gelöschte Zeile',
+	markedLine: 'hervorgehobene Zeile',
+	lineLabel: 'Beschriftung {label}',
+	insertedLinesSummarySingular: '{count} Zeile hinzugefügt',
+	insertedLinesSummaryPlural: '{count} Zeilen hinzugefügt',
+	deletedLinesSummarySingular: '{count} Zeile entfernt',
+	deletedLinesSummaryPlural: '{count} Zeilen entfernt',
+	markedLinesSummarySingular: '{count} Zeile hervorgehoben',
+	markedLinesSummaryPlural: '{count} Zeilen hervorgehoben',
+	summarySeparator: ', ',
+})
+
+type TextMarkersTexts = ReturnType<typeof pluginTextMarkersTexts.get>
+
+const lineTextKeys: { [K in MarkerType]: keyof TextMarkersTexts } = {
+	ins: 'insertedLine',
+	del: 'deletedLine',
+	mark: 'markedLine',
+}
+
+/** The order of marker types in block summaries, e.g. "3 lines added, 1 line removed". */
+const summaryMarkerTypes: { markerType: MarkerType; singular: keyof TextMarkersTexts; plural: keyof TextMarkersTexts }[] = [
+	{ markerType: 'ins', singular: 'insertedLinesSummarySingular', plural: 'insertedLinesSummaryPlural' },
+	{ markerType: 'del', singular: 'deletedLinesSummarySingular', plural: 'deletedLinesSummaryPlural' },
+	{ markerType: 'mark', singular: 'markedLinesSummarySingular', plural: 'markedLinesSummaryPlural' },
+]
+
+/**
+ * Returns the visually hidden text that announces the marker type and label
+ * of the given full-line marker to assistive technologies, e.g. "inserted line, label 1: ".
+ */
+export function getLineMarkerScreenReaderText({ markerType, label, texts }: { markerType: MarkerType; label: string | undefined; texts: TextMarkersTexts }) {
+	const parts = [texts[lineTextKeys[markerType]]]
+	if (label) parts.push(formatText(texts.lineLabel, { label }))
+	return `${parts.join(', ')}: `
+}
+
+/**
+ * Counts the marked lines of the given code block by their full-line marker type
+ * and returns a localized summary, e.g. "3 lines added, 1 line removed".
+ *
+ * Returns `undefined` if the code block does not contain any marked lines.
+ */
+export function getBlockMarkerSummary(codeBlock: ExpressiveCodeBlock, texts: TextMarkersTexts) {
+	const counts = new Map<MarkerType, number>()
+	codeBlock.getLines().forEach((line) => {
+		const markerType = getFullLineMarker(line)?.markerType
+		if (markerType) counts.set(markerType, (counts.get(markerType) ?? 0) + 1)
+	})
+	const parts = summaryMarkerTypes.flatMap(({ markerType, singular, plural }) => {
+		const count = counts.get(markerType)
+		if (!count) return []
+		return [formatText(texts[count === 1 ? singular : plural], { count: `${count}` })]
+	})
+	if (!parts.length) return undefined
+	return parts.join(texts.summarySeparator)
+}
+
+/**
+ * Adds a visually hidden summary of the marked lines to the start of the given block AST
+ * and references it using `aria-describedby`.
+ *
+ * The block AST is the `pre` element, or its wrapper element if it was already wrapped
+ * by another plugin (e.g. the `figure` element of the frames plugin).
+ */
+export function addBlockMarkerSummary({ codeBlock, blockAst, summary }: { codeBlock: ExpressiveCodeBlock; blockAst: Element; summary: string }) {
+	// Generate a stable ID that is unique for all blocks of the document
+	const id = `ec-tm-summary-${getStableObjectHash({
+		groupIndex: codeBlock.parentDocument?.positionInDocument?.groupIndex,
+		block: [codeBlock.language, codeBlock.meta, codeBlock.code],
+		summary,
+	})}`
+	blockAst.children.unshift(h('span.sr-only.tm-summary', { id }, summary))
+	blockAst.properties.ariaDescribedBy = id
+}
+
+function formatText(text: string, values: { [key: string]: string }) {
+	return text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+}
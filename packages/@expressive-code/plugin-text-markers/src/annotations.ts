@@ -1,6 +1,6 @@
-import { ExpressiveCodeAnnotation, AnnotationBaseOptions, AnnotationRenderOptions } from '@expressive-code/core'
+import { ExpressiveCodeAnnotation, AnnotationBaseOptions, AnnotationRenderOptions, AnnotationRenderPhaseOrder, ExpressiveCodeLine } from '@expressive-code/core'
 import { addClassName, h, setInlineStyle } from '@expressive-code/core/hast'
-import { MarkerType } from './marker-types'
+import { MarkerType, MarkerTypeOrder } from './marker-types'
 
 export class TextMarkerAnnotation extends ExpressiveCodeAnnotation {
 	markerType: MarkerType
@@ -47,3 +47,36 @@ export class TextMarkerAnnotation extends ExpressiveCodeAnnotation {
 		})
 	}
 }
+
+/**
+ * Returns the full-line text marker with the highest priority that was added to the given line,
+ * or `undefined` if the line is not marked.
+ *
+ * Markers with higher marker types override lower ones, and when having the same type,
+ * markers with later render phases win.
+ */
+export function getFullLineMarker(line: ExpressiveCodeLine) {
+	let fullLineMarker: TextMarkerAnnotation | undefined = undefined
+	for (const annotation of line.getAnnotations()) {
+		if (!(annotation instanceof TextMarkerAnnotation) || annotation.inlineRange) continue
+		if (fullLineMarker) {
+			if (MarkerTypeOrder.indexOf(annotation.markerType) < MarkerTypeOrder.indexOf(fullLineMarker.markerType)) continue
+			if (AnnotationRenderPhaseOrder.indexOf(annotation.renderPhase || 'normal') < AnnotationRenderPhaseOrder.indexOf(fullLineMarker.renderPhase || 'normal')) continue
+		}
+		fullLineMarker = annotation
+	}
+	return fullLineMarker
+}
+
+/**
+ * Marks a full line as focused. If a code block contains focused lines,
+ * all other lines are dimmed until the code block is hovered or focused.
+ */
+export class FocusAnnotation extends ExpressiveCodeAnnotation {
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		return nodesToTransform.map((node) => {
+			if (node.type === 'element') addClassName(node, 'focus')
+			return node
+		})
+	}
+}
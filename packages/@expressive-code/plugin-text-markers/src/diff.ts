@@ -0,0 +1,186 @@
+import type { InlineMarkerRange } from './inline-markers'
+
+export type DiffOperation = { type: 'equal' | 'ins' | 'del'; value: string }
+
+export type LineDiffResult = {
+	/**
+	 * The resulting lines, containing both unchanged and inserted lines of the new code
+	 * and deleted lines of the old code.
+	 */
+	lines: { text: string; type: DiffOperation['type'] }[]
+	/**
+	 * Inline marker ranges for changed parts of modified lines, indexed by the line index
+	 * in the `lines` array.
+	 */
+	inlineRanges: Map<number, InlineMarkerRange[]>
+}
+
+/**
+ * The minimum share of unchanged non-whitespace characters that a deleted and an inserted line
+ * must have in common to be considered a modification of the same line. Only modified lines
+ * receive inline markers, as highlighting the changes between unrelated lines adds noise.
+ */
+const minSimilarityForInlineMarkers = 0.5
+
+/**
+ * The maximum number of cells of the table used to find the longest common subsequence
+ * of two arrays. As the table grows with the product of both array lengths, larger changes
+ * are not compared in detail to limit memory usage, and their lines are considered
+ * fully replaced instead.
+ */
+const maxLcsTableSize = 4000000
+
+/**
+ * Splits the given code into lines in the same way as the `ExpressiveCodeBlock` constructor,
+ * removing whitespace from the end of all lines and fully empty lines from the start and end.
+ */
+export function splitCodeIntoLines(code: string) {
+	const lines = code.split(/\r?\n/).map((line) => line.trimEnd())
+	while (lines.length && !lines[0].length) lines.shift()
+	while (lines.length && !lines[lines.length - 1].length) lines.pop()
+	return lines
+}
+
+/**
+ * Computes the difference between two arrays of strings based on their
+ * longest common subsequence.
+ */
+export function diffArrays(before: string[], after: string[]): DiffOperation[] {
+	// Skip the common prefix and suffix to reduce the size of the LCS table
+	let prefixLength = 0
+	while (prefixLength < before.length && prefixLength < after.length && before[prefixLength] === after[prefixLength]) prefixLength++
+	let suffixLength = 0
+	while (
+		suffixLength < before.length - prefixLength &&
+		suffixLength < after.length - prefixLength &&
+		before[before.length - 1 - suffixLength] === after[after.length - 1 - suffixLength]
+	)
+		suffixLength++
+	const a = before.slice(prefixLength, before.length - suffixLength)
+	const b = after.slice(prefixLength, after.length - suffixLength)
+
+	// Compare the remaining parts in detail if their LCS table is small enough,
+	// and otherwise consider them to be fully replaced
+	const operations: DiffOperation[] = before.slice(0, prefixLength).map((value) => ({ type: 'equal', value }))
+	if ((a.length + 1) * (b.length + 1) <= maxLcsTableSize) {
+		getLcsOperations(a, b).forEach((operation) => operations.push(operation))
+	} else {
+		a.forEach((value) => operations.push({ type: 'del', value }))
+		b.forEach((value) => operations.push({ type: 'ins', value }))
+	}
+	before.slice(before.length - suffixLength).forEach((value) => operations.push({ type: 'equal', value }))
+
+	return operations
+}
+
+/**
+ * Computes the difference between two arrays of strings that do not share a common prefix
+ * or suffix by building a table of their longest common subsequence.
+ */
+function getLcsOperations(a: string[], b: string[]): DiffOperation[] {
+	// Build a table containing the LCS lengths of all suffix combinations
+	const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+		}
+	}
+
+	// Walk the table to collect the operations, preferring deletions before insertions
+	const operations: DiffOperation[] = []
+	let i = 0
+	let j = 0
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			operations.push({ type: 'equal', value: a[i] })
+			i++
+			j++
+		} else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+			operations.push({ type: 'del', value: a[i] })
+			i++
+		} else {
+			operations.push({ type: 'ins', value: b[j] })
+			j++
+		}
+	}
+
+	return operations
+}
+
+/**
+ * Computes a line-level diff between the given old and new lines of code.
+ *
+ * Runs of deleted lines that are directly followed by runs of inserted lines are considered
+ * modifications. If a deleted line and its corresponding inserted line are similar enough,
+ * their changed parts are additionally returned as inline marker ranges.
+ */
+export function getLineDiff(before: string[], after: string[]): LineDiffResult {
+	const lines = diffArrays(before, after).map(({ type, value }) => ({ type, text: value }))
+	const inlineRanges = new Map<number, InlineMarkerRange[]>()
+
+	let lineIndex = 0
+	while (lineIndex < lines.length) {
+		// Find the next run of deleted lines followed by a run of inserted lines
+		const delStart = lineIndex
+		while (lineIndex < lines.length && lines[lineIndex].type === 'del') lineIndex++
+		const insStart = lineIndex
+		while (lineIndex < lines.length && lines[lineIndex].type === 'ins') lineIndex++
+		if (lineIndex === delStart) {
+			lineIndex++
+			continue
+		}
+
+		// Pair the deleted lines with the inserted lines and add inline ranges for their changes
+		const pairCount = Math.min(insStart - delStart, lineIndex - insStart)
+		for (let pairIndex = 0; pairIndex < pairCount; pairIndex++) {
+			const delLineIndex = delStart + pairIndex
+			const insLineIndex = insStart + pairIndex
+			const inlineDiff = getInlineDiff(lines[delLineIndex].text, lines[insLineIndex].text)
+			if (!inlineDiff) continue
+			inlineRanges.set(delLineIndex, inlineDiff.del)
+			inlineRanges.set(insLineIndex, inlineDiff.ins)
+		}
+	}
+
+	return { lines, inlineRanges }
+}
+
+/**
+ * Computes a word-level diff between two versions of a line and returns the ranges
+ * of the changed parts in both versions.
+ *
+ * Returns `undefined` if the lines are not similar enough to be considered
+ * a modification of the same line.
+ */
+function getInlineDiff(before: string, after: string) {
+	const tokenize = (text: string) => text.match(/\w+|\s+|[^\w\s]/g) || []
+	const operations = diffArrays(tokenize(before), tokenize(after))
+
+	// Check if the lines are similar enough
+	const countNonWhitespace = (text: string) => text.replace(/\s+/g, '').length
+	const unchangedLength = operations.reduce((sum, { type, value }) => sum + (type === 'equal' ? countNonWhitespace(value) : 0), 0)
+	const maxLength = Math.max(countNonWhitespace(before), countNonWhitespace(after))
+	if (!maxLength || unchangedLength / maxLength < minSimilarityForInlineMarkers) return
+
+	// Collect the ranges of changed tokens, merging adjacent ones
+	const ranges: Record<'ins' | 'del', InlineMarkerRange[]> = { ins: [], del: [] }
+	const columns = { ins: 0, del: 0 }
+	operations.forEach(({ type, value }) => {
+		if (type === 'equal') {
+			columns.ins += value.length
+			columns.del += value.length
+			return
+		}
+		const start = columns[type]
+		const end = start + value.length
+		columns[type] = end
+		const prevRange = ranges[type][ranges[type].length - 1]
+		if (prevRange?.end === start) {
+			prevRange.end = end
+		} else {
+			ranges[type].push({ markerType: type, start, end })
+		}
+	})
+
+	return ranges
+}
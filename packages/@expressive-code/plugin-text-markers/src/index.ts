@@ -1,5 +1,4 @@
 import {
-	AnnotationRenderPhaseOrder,
 	ExpressiveCodePlugin,
 	InlineStyleAnnotation,
 	ensureColorContrastOnBackground,
@@ -7,14 +6,18 @@ import {
 	isInlineStyleAnnotation,
 	onBackground,
 } from '@expressive-code/core'
+import { addClassName, h } from '@expressive-code/core/hast'
 import rangeParser from 'parse-numeric-range'
 import type { MarkerType } from './marker-types'
 import { MarkerTypeOrder, markerTypeFromString } from './marker-types'
-import { getTextMarkersBaseStyles, markerBgColorPaths, textMarkersStyleSettings } from './styles'
+import { getTextMarkersBaseStyles, getTextMarkersForcedColorsStyles, getTextMarkersPrintStyles, markerBgColorPaths, textMarkersStyleSettings } from './styles'
 import { flattenInlineMarkerRanges, getInlineSearchTermMatches } from './inline-markers'
-import { TextMarkerAnnotation } from './annotations'
+import { FocusAnnotation, TextMarkerAnnotation, getFullLineMarker } from './annotations'
+import { addBlockMarkerSummary, getBlockMarkerSummary, getLineMarkerScreenReaderText, pluginTextMarkersTexts } from './accessibility'
 import { toDefinitionsArray } from './utils'
+import { getLineDiff, splitCodeIntoLines } from './diff'
 export type { TextMarkersStyleSettings } from './styles'
+export { pluginTextMarkersTexts } from './accessibility'
 
 export type MarkerLineOrRange = number | { range: string; label?: string | undefined }
 
@@ -24,6 +27,11 @@ export type MarkerLineOrRange = number | { range: string; label?: string | undef
  */
 export type MarkerDefinition = string | RegExp | MarkerLineOrRange
 
+/**
+ * A line number or line range definition that can be used in the `focus` prop.
+ */
+export type FocusLineOrRange = number | { range: string }
+
 export interface PluginTextMarkersProps {
 	/**
 	 * Defines the code block's [text & line markers](https://expressive-code.com/key-features/text-markers/)
@@ -54,6 +62,33 @@ export interface PluginTextMarkersProps {
 	 * inserted or deleted lines.
 	 */
 	useDiffSyntax: boolean
+	/**
+	 * Allows you to automatically highlight changes to the code block by providing
+	 * the previous version of its code.
+	 *
+	 * If set, the plugin computes the differences between the given code and the code
+	 * of the block. Deleted lines of the previous version are inserted into the code block
+	 * and marked as deleted, while new lines are marked as inserted. Changed parts of
+	 * modified lines are additionally highlighted using inline markers.
+	 *
+	 * To limit memory usage, very large changes (e.g. replacing thousands of lines at once)
+	 * are not compared line by line. Instead, all of their previous lines are marked as deleted
+	 * and all of their new lines as inserted.
+	 *
+	 * In markdown documents, you can use the `diff-from` meta option to reference another
+	 * code block on the same page by its `id` meta option instead.
+	 */
+	diffFrom: string
+	/**
+	 * Defines the lines of the code block that should stay in focus.
+	 *
+	 * If set, all other lines are dimmed to draw attention to the focused lines.
+	 * The full code block is revealed again when hovering over it or focusing it
+	 * using the keyboard.
+	 *
+	 * You can either pass a single line number or range definition or an array of them.
+	 */
+	focus: FocusLineOrRange | FocusLineOrRange[]
 }
 
 declare module '@expressive-code/core' {
@@ -65,6 +100,8 @@ export function pluginTextMarkers(): ExpressiveCodePlugin {
 		name: 'TextMarkers',
 		styleSettings: textMarkersStyleSettings,
 		baseStyles: (context) => getTextMarkersBaseStyles(context),
+		printStyles: getTextMarkersPrintStyles,
+		forcedColorsStyles: getTextMarkersForcedColorsStyles,
 		hooks: {
 			preprocessLanguage: ({ codeBlock }) => {
 				// If a "lang" option was given and the code block's language is "diff",
@@ -101,6 +138,10 @@ export function pluginTextMarkers(): ExpressiveCodePlugin {
 					}
 				})
 				codeBlock.props.useDiffSyntax = codeBlock.metaOptions.getBoolean('useDiffSyntax') ?? codeBlock.props.useDiffSyntax
+				codeBlock.metaOptions.list(['focus']).forEach(({ kind, value }) => {
+					if (kind !== 'range') return
+					codeBlock.props.focus = [...toDefinitionsArray(codeBlock.props.focus), { range: value }]
+				})
 
 				// Use props to create line-level annotations for full-line highlighting definitions
 				MarkerTypeOrder.forEach((markerType) => {
@@ -122,6 +163,14 @@ export function pluginTextMarkers(): ExpressiveCodePlugin {
 						})
 					})
 				})
+
+				// Use the focus prop to create line-level annotations for all focused lines
+				toDefinitionsArray(codeBlock.props.focus).forEach((definition) => {
+					const range = typeof definition === 'number' ? `${definition}` : definition.range
+					rangeParser(range).forEach((lineNumber) => {
+						codeBlock.getLine(lineNumber - 1)?.addAnnotation(new FocusAnnotation({}))
+					})
+				})
 			},
 			preprocessCode: ({ codeBlock, cssVar }) => {
 				// Perform special handling of code marked with the language "diff"
@@ -176,6 +225,38 @@ export function pluginTextMarkers(): ExpressiveCodePlugin {
 						})
 					}
 				}
+
+				// If the previous version of the code was given, compute the differences
+				// and convert them to line-level and inline annotations
+				if (codeBlock.props.diffFrom !== undefined) {
+					const { lines: diffLines, inlineRanges } = getLineDiff(
+						splitCodeIntoLines(codeBlock.props.diffFrom),
+						codeBlock.getLines().map((line) => line.text)
+					)
+					diffLines.forEach(({ type, text }, lineIndex) => {
+						// Insert deleted lines into the code block
+						const line = type === 'del' ? codeBlock.insertLine(lineIndex, text) : codeBlock.getLine(lineIndex)
+						if (!line || type === 'equal') return
+						line.addAnnotation(
+							new TextMarkerAnnotation({
+								markerType: type,
+								backgroundColor: cssVar(markerBgColorPaths[type]),
+							})
+						)
+						inlineRanges.get(lineIndex)?.forEach(({ markerType, start, end }) => {
+							line.addAnnotation(
+								new TextMarkerAnnotation({
+									markerType,
+									backgroundColor: cssVar(markerBgColorPaths[markerType]),
+									inlineRange: {
+										columnStart: start,
+										columnEnd: end,
+									},
+								})
+							)
+						})
+					})
+				}
 			},
 			annotateCode: ({ codeBlock, cssVar }) => {
 				codeBlock.getLines().forEach((line) => {
@@ -201,26 +282,38 @@ export function pluginTextMarkers(): ExpressiveCodePlugin {
 					})
 				})
 			},
+			postprocessRenderedLine: ({ line, renderData, locale }) => {
+				// Announce the type and label of full-line markers to assistive technologies
+				// as the marker styles cannot be perceived by screen reader users
+				const fullLineMarker = getFullLineMarker(line)
+				if (!fullLineMarker) return
+				const labeledMarker = line
+					.getAnnotations()
+					.find((annotation): annotation is TextMarkerAnnotation => annotation instanceof TextMarkerAnnotation && !annotation.inlineRange && !!annotation.label)
+				const screenReaderText = getLineMarkerScreenReaderText({
+					markerType: fullLineMarker.markerType,
+					label: labeledMarker?.label,
+					texts: pluginTextMarkersTexts.get(locale),
+				})
+				renderData.lineAst.children.unshift(h('span.sr-only', screenReaderText))
+			},
+			postprocessRenderedBlock: ({ codeBlock, renderData, locale }) => {
+				// Allow styles to dim all unfocused lines if the block contains focused lines
+				const hasFocusedLines = codeBlock.getLines().some((line) => line.getAnnotations().some((annotation) => annotation instanceof FocusAnnotation))
+				if (hasFocusedLines) addClassName(renderData.blockAst, 'has-focus')
+
+				// Describe the marked lines of the block to assistive technologies
+				const summary = getBlockMarkerSummary(codeBlock, pluginTextMarkersTexts.get(locale))
+				if (summary) addBlockMarkerSummary({ codeBlock, blockAst: renderData.blockAst, summary })
+			},
 			postprocessAnnotations: ({ codeBlock, styleVariants, config }) => {
 				if (config.minSyntaxHighlightingColorContrast <= 0) return
 				codeBlock.getLines().forEach((line) => {
 					const annotations = line.getAnnotations()
 					// Determine the highest-priority full line marker
 					// and collect all inline markers
-					const markers: TextMarkerAnnotation[] = []
-					let fullLineMarker: TextMarkerAnnotation | undefined = undefined
-					for (const annotation of annotations) {
-						if (!(annotation instanceof TextMarkerAnnotation)) continue
-						if (annotation.inlineRange) {
-							markers.push(annotation)
-							continue
-						}
-						if (fullLineMarker) {
-							if (MarkerTypeOrder.indexOf(annotation.markerType) < MarkerTypeOrder.indexOf(fullLineMarker.markerType)) continue
-							if (AnnotationRenderPhaseOrder.indexOf(annotation.renderPhase || 'normal') < AnnotationRenderPhaseOrder.indexOf(fullLineMarker.renderPhase || 'normal')) continue
-						}
-						fullLineMarker = annotation
-					}
+					const markers = annotations.filter((annotation): annotation is TextMarkerAnnotation => annotation instanceof TextMarkerAnnotation && !!annotation.inlineRange)
+					const fullLineMarker = getFullLineMarker(line)
 					// Prepend the highest-priority full line marker to the inline markers
 					if (fullLineMarker) markers.unshift(fullLineMarker)
 					// Ensure color contrast for all style variants
@@ -53,6 +53,18 @@ export interface TextMarkersStyleSettings {
 	 * @default '0.15rem'
 	 */
 	inlineMarkerPadding: string
+	/**
+	 * The opacity of unfocused lines in code blocks containing focused lines.
+	 * Lower values dim unfocused lines more strongly.
+	 * @default '0.5'
+	 */
+	unfocusedOpacity: string
+	/**
+	 * The blur radius applied to unfocused lines in code blocks containing focused lines.
+	 * Set this to `'0px'` to only dim unfocused lines without blurring them.
+	 * @default '0.05rem'
+	 */
+	unfocusedBlur: string
 	/**
 	 * The LCH hue to be used for marked text (text marker type `mark`).
 	 * @default '284' (a blue hue)
@@ -194,6 +206,8 @@ export const textMarkersStyleSettings = new PluginStyleSettings({
 			inlineMarkerBorderWidth: '1.5px',
 			inlineMarkerBorderRadius: '0.2rem',
 			inlineMarkerPadding: '0.15rem',
+			unfocusedOpacity: '0.5',
+			unfocusedBlur: '0.05rem',
 			// Define base colors for all markers in the LCH color space,
 			// which leads to consistent perceived brightness independent of hue
 			markHue: '284',
@@ -280,6 +294,9 @@ export function getTextMarkersBaseStyles({ cssVar }: ResolverContext) {
 					left: 0;
 					box-sizing: border-box;
 					content: var(--tmLabel, ' ');
+					/* Hide the visual indicator from assistive technologies that read
+					   the visually hidden line marker text instead */
+					content: var(--tmLabel, ' ') / '';
 					padding-inline-start: ${cssVar('textMarkers.lineDiffIndicatorMarginLeft')};
 					text-align: center;
 					/* Prevent long labels from wrapping to avoid overlapping the code */
@@ -348,11 +365,78 @@ export function getTextMarkersBaseStyles({ cssVar }: ResolverContext) {
 				}
 			}
 		}
+
+		/* Dim unfocused lines until the code block is hovered or focused */
+		.has-focus .${codeLineClass} {
+			transition-property: opacity, filter;
+			transition-duration: 0.2s;
+			&:not(.focus) {
+				opacity: ${cssVar('textMarkers.unfocusedOpacity')};
+				filter: blur(${cssVar('textMarkers.unfocusedBlur')});
+			}
+		}
+		:is(:hover, :focus-within) > .has-focus .${codeLineClass}:not(.focus) {
+			opacity: 1;
+			filter: none;
+		}
+		@media (prefers-reduced-motion: reduce) {
+			.has-focus .${codeLineClass} {
+				transition: none;
+			}
+		}
+
+		/* Prevent screen reader texts from being copied when selecting the code manually */
+		.${codeLineClass} > .sr-only,
+		.tm-summary {
+			user-select: none;
+			-webkit-user-select: none;
+		}
 	`
 
 	return result
 }
 
+export function getTextMarkersPrintStyles() {
+	return `
+		.has-focus .${codeLineClass}:not(.focus) {
+			/* Print unfocused lines without dimming them */
+			opacity: 1;
+			filter: none;
+		}
+	`
+}
+
+export function getTextMarkersForcedColorsStyles({ cssVar }: ResolverContext) {
+	return `
+		.${codeLineClass} {
+			/* Replace the background-based line markers with system-colored accents */
+			&.mark,
+			&.ins,
+			&.del {
+				& .code {
+					--ecLineBrdCol: ${cssVar('forcedColorsHighlightBackground')};
+				}
+				&.tm-label .code::before {
+					color: ${cssVar('forcedColorsHighlightForeground')};
+				}
+			}
+
+			/* Outline inline markers and distinguish inserted and deleted text */
+			& mark,
+			& ins,
+			& del {
+				--tmInlineBrdCol: ${cssVar('forcedColorsHighlightBackground')};
+			}
+			& ins {
+				text-decoration: underline;
+			}
+			& del {
+				text-decoration: line-through;
+			}
+		}
+	`
+}
+
 export const markerBgColorPaths: { [K in MarkerType]: StyleSettingPath } = {
 	mark: 'textMarkers.markBackground',
 	ins: 'textMarkers.insBackground',
@@ -1,5 +1,3 @@
-import { MarkerDefinition } from '.'
-
 /**
  * Retrieves all group indices from the given RegExp match. Group indices are ranges
  * defined by start & end positions. The first group index refers to the full match,
@@ -31,7 +29,7 @@ export function getGroupIndicesFromRegExpMatch(match: RegExpMatchArray) {
 	return groupIndices
 }
 
-export function toDefinitionsArray(value: MarkerDefinition | MarkerDefinition[] | undefined) {
+export function toDefinitionsArray<T>(value: T | T[] | undefined): T[] {
 	if (value === undefined) return []
 	return Array.isArray(value) ? value : [value]
 }
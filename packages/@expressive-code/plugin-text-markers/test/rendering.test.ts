@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest'
-import { AnnotationRenderPhase, ExpressiveCodePlugin, GutterRenderContext, InlineStyleAnnotation } from '@expressive-code/core'
+import { AnnotationRenderPhase, ExpressiveCodeEngine, ExpressiveCodePlugin, GutterRenderContext, InlineStyleAnnotation } from '@expressive-code/core'
 import { getClassNames, getInlineStyles, h, select, selectAll, setInlineStyle, toText } from '@expressive-code/core/hast'
 import { pluginShiki } from '@expressive-code/plugin-shiki'
 import { renderAndOutputHtmlSnapshot, buildThemeFixtures, TestFixture, loadTestThemes, validateColorContrast } from '@internal/test-utils'
@@ -485,6 +485,144 @@ import MyAstroComponent from '../components/MyAstroComponent.astro';
 		)
 	})
 
+	describe('Diff from previous code', () => {
+		test(`Marks inserted and deleted lines and changed parts of modified lines`, async ({ task: { name: testName } }) => {
+			const diffFrom = ['const a = 1', 'const b = 2', 'console.log(a)'].join('\n')
+			const code = ['const a = 1', 'const b = 3', 'console.log(a, b)', `console.log('done')`].join('\n')
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code,
+					plugins: [pluginTextMarkers(), pluginDiffFrom(diffFrom)],
+					blockValidationFn: buildMarkerValidationFn(
+						[
+							{ fullLine: true, markerType: 'del', text: 'const b = 2' },
+							{ markerType: 'del', text: '2' },
+							{ fullLine: true, markerType: 'del', text: 'console.log(a)' },
+							{ fullLine: true, markerType: 'ins', text: 'const b = 3' },
+							{ markerType: 'ins', text: '3' },
+							{ fullLine: true, markerType: 'ins', text: 'console.log(a, b)' },
+							{ markerType: 'ins', text: ', b' },
+							{ fullLine: true, markerType: 'ins', text: `console.log('done')` },
+						],
+						['const a = 1', 'const b = 2', 'console.log(a)', 'const b = 3', 'console.log(a, b)', `console.log('done')`].join('\n')
+					),
+				}),
+			})
+		})
+		test(`Does not add inline markers to unrelated lines`, async ({ task: { name: testName } }) => {
+			const diffFrom = ['function test() {', '  let x = 1', '}'].join('\n')
+			const code = ['function test() {', '  return fetchData()', '}'].join('\n')
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code,
+					plugins: [pluginTextMarkers(), pluginDiffFrom(diffFrom)],
+					blockValidationFn: buildMarkerValidationFn(
+						[
+							{ fullLine: true, markerType: 'del', text: '  let x = 1' },
+							{ fullLine: true, markerType: 'ins', text: '  return fetchData()' },
+						],
+						['function test() {', '  let x = 1', '  return fetchData()', '}'].join('\n')
+					),
+				}),
+			})
+		})
+		test(`Considers lines of large changes to be fully replaced`, async () => {
+			// Changes of this size are not compared in detail, so even the shared line is replaced
+			const lineNumbers = [...Array(2500).keys()]
+			const diffFrom = [...lineNumbers.map((lineNumber) => `removed(${lineNumber})`), 'shared()'].join('\n')
+			const code = [...lineNumbers.map((lineNumber) => `added(${lineNumber})`), 'shared()'].reverse().join('\n')
+			const engine = new ExpressiveCodeEngine({ plugins: [pluginTextMarkers(), pluginDiffFrom(diffFrom)] })
+			const { renderedGroupAst } = await engine.render({ code, language: 'js' })
+			const lines = selectAll('.ec-line', renderedGroupAst)
+			expect(lines).toHaveLength(5002)
+			expect(lines.slice(0, 2501).every((line) => getClassNames(line).includes('del'))).toBe(true)
+			expect(lines.slice(2501).every((line) => getClassNames(line).includes('ins'))).toBe(true)
+		})
+	})
+
+	describe('Focused lines', () => {
+		test(`Marks focused lines and dims all other lines`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					meta: `focus={4-5,7} ins={5} del={6}`,
+					plugins: [pluginTextMarkers()],
+					blockValidationFn: ({ renderedGroupAst }) => {
+						expect(getClassNames(select('pre', renderedGroupAst)!)).toContain('has-focus')
+						const focusedLines = selectAll('.ec-line.focus .code', renderedGroupAst).map((line) => toText(line, { whitespace: 'pre' }))
+						expect(focusedLines).toEqual(['  markdown: {', '    extendDefaultPlugins: false,', '    gfm: false,'])
+						// Expect other markers to still be rendered on focused and unfocused lines
+						expect(getClassNames(selectAll('.ec-line', renderedGroupAst)[4])).toEqual(expect.arrayContaining(['focus', 'ins']))
+						expect(getClassNames(selectAll('.ec-line', renderedGroupAst)[5])).not.toContain('focus')
+						expect(getClassNames(selectAll('.ec-line', renderedGroupAst)[5])).toContain('del')
+					},
+				}),
+			})
+		})
+		test(`Supports the focus prop`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					plugins: [
+						{
+							name: 'Focus Prop',
+							hooks: {
+								preprocessMetadata: ({ codeBlock }) => {
+									codeBlock.props.focus = [1, { range: '8-9' }]
+								},
+							},
+						},
+						pluginTextMarkers(),
+					],
+					blockValidationFn: ({ renderedGroupAst }) => {
+						const focusedLines = selectAll('.ec-line.focus .code', renderedGroupAst).map((line) => toText(line, { whitespace: 'pre' }))
+						expect(focusedLines).toEqual([`import { defineConfig } from 'astro/config';`, '  }', '});'])
+					},
+				}),
+			})
+		})
+		test(`Does not dim code blocks without focused lines`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					meta: `mark={2}`,
+					plugins: [pluginTextMarkers()],
+					blockValidationFn: ({ renderedGroupAst }) => {
+						expect(getClassNames(select('pre', renderedGroupAst)!)).not.toContain('has-focus')
+						expect(selectAll('.ec-line.focus', renderedGroupAst)).toHaveLength(0)
+					},
+				}),
+			})
+		})
+		test(
+			'Ensures color contrast on focused lines',
+			async ({ task: { name: testName } }) => {
+				await renderAndOutputHtmlSnapshot({
+					testName,
+					testBaseDir: __dirname,
+					fixtures: buildThemeFixtures(themes, {
+						code: complexDiffTestCode,
+						language: 'mdx',
+						meta: `${complexDiffTestMeta} focus={4-10}`,
+						plugins: [pluginTextMarkers(), pluginShiki()],
+						blockValidationFn: validateColorContrast,
+					}),
+				})
+			},
+			{ timeout: 5 * 1000 }
+		)
+	})
+
 	test(`Combined line and inline plaintext markers`, async ({ task: { name: testName } }) => {
 		await renderAndOutputHtmlSnapshot({
 			testName,
@@ -610,6 +748,97 @@ import MyAstroComponent from '../components/MyAstroComponent.astro';
 		{ timeout: 5 * 1000 }
 	)
 
+	describe('Screen reader support', () => {
+		test(`Announces the type and label of marked lines`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					meta: `{"Setup":1-2} del={5} ins={6-7}`,
+					plugins: [pluginTextMarkers()],
+					blockValidationFn: ({ renderedGroupAst }) => {
+						const lineTexts = selectAll('.ec-line', renderedGroupAst).map((line) => {
+							const screenReaderText = select(':scope > .sr-only', line)
+							return screenReaderText && toText(screenReaderText)
+						})
+						expect(lineTexts).toEqual([
+							'highlighted line, label Setup: ',
+							'highlighted line: ',
+							undefined,
+							undefined,
+							'deleted line: ',
+							'inserted line: ',
+							'inserted line: ',
+							undefined,
+							undefined,
+						])
+						// Expect the screen reader text not to be part of the code
+						expect(toText(select('.ec-line .code', renderedGroupAst)!)).toEqual(`import { defineConfig } from 'astro/config';`)
+					},
+				}),
+			})
+		})
+		test(`Prevents screen reader texts from being selected`, async () => {
+			const engine = new ExpressiveCodeEngine({ plugins: [pluginTextMarkers()] })
+			const baseStyles = await engine.getBaseStyles()
+			expect(baseStyles).toMatch(/\.ec-line > \.sr-only,[^{]*\.tm-summary\{[^}]*user-select:none/)
+
+			const { renderedGroupAst } = await engine.render({ code: lineMarkerTestCode, language: 'js', meta: 'ins={6}' })
+			expect(getClassNames(select('pre > .sr-only', renderedGroupAst)!)).toContain('tm-summary')
+		})
+		test(`Describes the marked lines of code blocks`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					meta: `del={5} ins={6-7} mark={1,2} "defineConfig"`,
+					plugins: [pluginTextMarkers()],
+					blockValidationFn: ({ renderedGroupAst }) => {
+						const pre = select('pre', renderedGroupAst)!
+						const summary = select(':scope > .sr-only', pre)
+						expect(summary).toBeDefined()
+						expect(toText(summary!)).toEqual('2 lines added, 1 line removed, 2 lines highlighted')
+						expect(summary!.properties.id).toMatch(/^ec-tm-summary-/)
+						expect(pre.properties.ariaDescribedBy).toEqual(summary!.properties.id)
+					},
+				}),
+			})
+		})
+		test(`Does not describe code blocks without marked lines`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					meta: `"defineConfig"`,
+					plugins: [pluginTextMarkers()],
+					blockValidationFn: ({ renderedGroupAst }) => {
+						expect(selectAll('.sr-only', renderedGroupAst)).toHaveLength(0)
+						expect(select('pre', renderedGroupAst)!.properties.ariaDescribedBy).toBeUndefined()
+					},
+				}),
+			})
+		})
+		test(`Localizes screen reader texts`, async ({ task: { name: testName } }) => {
+			await renderAndOutputHtmlSnapshot({
+				testName,
+				testBaseDir: __dirname,
+				fixtures: buildThemeFixtures(themes, {
+					code: lineMarkerTestCode,
+					meta: `ins={6} del={5}`,
+					plugins: [pluginTextMarkers()],
+					engineOptions: { defaultLocale: 'de-DE' },
+					blockValidationFn: ({ renderedGroupAst }) => {
+						const srTexts = selectAll('.sr-only', renderedGroupAst).map((node) => toText(node))
+						expect(srTexts).toEqual(['1 Zeile hinzugefügt, 1 Zeile entfernt', 'gelöschte Zeile: ', 'eingefügte Zeile: '])
+					},
+				}),
+			})
+		})
+	})
+
 	describe('Ensures accessible color contrast', () => {
 		test(
 			'Contrast with default settings',
@@ -854,6 +1083,17 @@ function pseudoSyntaxHighlighter(options: { highlights: { text: string; colors:
 	}
 }
 
+function pluginDiffFrom(diffFrom: string): ExpressiveCodePlugin {
+	return {
+		name: 'Diff from',
+		hooks: {
+			preprocessMetadata: ({ codeBlock }) => {
+				codeBlock.props.diffFrom = diffFrom
+			},
+		},
+	}
+}
+
 function pluginLineNumbers(): ExpressiveCodePlugin {
 	const renderLineNumber = ({ codeBlock, line }: GutterRenderContext) => {
 		const lineIdx = codeBlock.getLines().indexOf(line)
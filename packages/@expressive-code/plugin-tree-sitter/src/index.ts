@@ -0,0 +1,137 @@
+import type Parser from 'web-tree-sitter'
+import { ExpressiveCodePlugin, InlineStyleAnnotation, isInlineStyleAnnotation } from '@expressive-code/core'
+import { TreeSitterLanguage, getCachedLanguage } from './parser'
+import { CaptureScopes, defaultCaptureScopes, getCaptureStyle } from './theme-styles'
+
+export type { TreeSitterLanguage } from './parser'
+export type { CaptureScopes } from './theme-styles'
+export { defaultCaptureScopes } from './theme-styles'
+
+export interface PluginTreeSitterOptions {
+	/**
+	 * The languages that should be highlighted using Tree-sitter.
+	 *
+	 * Code blocks using any other language are left untouched, so they can be highlighted
+	 * by other plugins like Shiki.
+	 */
+	languages: TreeSitterLanguage[]
+	/**
+	 * Allows you to customize how the capture names used in highlight queries are mapped
+	 * to TextMate scopes, which are used to look up colors and font styles in the theme.
+	 *
+	 * The given mappings are merged with the default mappings, which cover the capture names
+	 * used by most Tree-sitter grammars, e.g. `keyword`, `string` or `function.method`.
+	 *
+	 * @example
+	 * ```js
+	 * pluginTreeSitter({
+	 *   languages: [...],
+	 *   captureScopes: {
+	 *     // Use the color of TextMate decorators for attribute captures
+	 *     attribute: 'meta.decorator',
+	 *   },
+	 * })
+	 * ```
+	 */
+	captureScopes?: CaptureScopes | undefined
+}
+
+export function pluginTreeSitter(options: PluginTreeSitterOptions): ExpressiveCodePlugin {
+	const captureScopes: CaptureScopes = { ...defaultCaptureScopes, ...options.captureScopes }
+	const languagesByName = new Map<string, TreeSitterLanguage>()
+	options.languages.forEach((language) => {
+		const names = [language.name, ...(language.aliases ?? [])]
+		names.forEach((name) => languagesByName.set(name, language))
+	})
+	return {
+		name: 'TreeSitter',
+		hooks: {
+			performSyntaxAnalysis: async ({ codeBlock, styleVariants }) => {
+				const language = languagesByName.get(codeBlock.language)
+				if (!language) return
+
+				const { parser, query } = await getCachedLanguage(language)
+				const code = codeBlock.code
+				const tree = parser.parse(code)
+				let captureNames: (string | undefined)[]
+				try {
+					captureNames = getCaptureNamesByIndex(query.captures(tree.rootNode), code.length)
+				} finally {
+					tree.delete()
+				}
+
+				// Remove any syntax highlighting added by previous plugins (e.g. Shiki)
+				const codeLines = codeBlock.getLines()
+				codeLines.forEach((line) => {
+					line.getAnnotations().forEach((annotation) => {
+						if (isInlineStyleAnnotation(annotation) && annotation.renderPhase === 'earliest') line.deleteAnnotation(annotation)
+					})
+				})
+
+				let lineStartIndex = 0
+				codeLines.forEach((line) => {
+					const lineCaptureNames = captureNames.slice(lineStartIndex, lineStartIndex + line.text.length)
+					lineStartIndex += line.text.length + 1
+					getCaptureTokens(lineCaptureNames).forEach(({ captureName, columnStart, columnEnd }) => {
+						styleVariants.forEach(({ theme }, styleVariantIndex) => {
+							const { color, italic, bold, underline } = getCaptureStyle({ theme, captureName, captureScopes })
+							line.addAnnotation(
+								new InlineStyleAnnotation({
+									styleVariantIndex,
+									color,
+									italic,
+									bold,
+									underline,
+									inlineRange: {
+										columnStart,
+										columnEnd,
+									},
+									renderPhase: 'earliest',
+								})
+							)
+						})
+					})
+				})
+			},
+		},
+	}
+}
+
+/**
+ * Returns the name of the capture that determines the style of each character in the code.
+ *
+ * If the same node is captured by multiple patterns, the first pattern wins.
+ * Captures of nested nodes take precedence over the captures of their parents.
+ */
+function getCaptureNamesByIndex(captures: Parser.QueryCapture[], codeLength: number) {
+	const captureNames: (string | undefined)[] = new Array<undefined>(codeLength).fill(undefined)
+	const capturedNodes = new Set<string>()
+	const relevantCaptures = captures.filter(({ name, node }) => {
+		// Ignore private captures that are only used by query predicates
+		if (name.startsWith('_')) return false
+		const nodeKey = `${node.startIndex}:${node.endIndex}`
+		if (capturedNodes.has(nodeKey)) return false
+		capturedNodes.add(nodeKey)
+		return true
+	})
+	// Apply the captures of outer nodes first to allow nested nodes to override them
+	relevantCaptures.sort((a, b) => a.node.startIndex - b.node.startIndex || b.node.endIndex - a.node.endIndex)
+	relevantCaptures.forEach(({ name, node }) => captureNames.fill(name, node.startIndex, Math.min(node.endIndex, codeLength)))
+	return captureNames
+}
+
+/**
+ * Combines consecutive characters with the same capture name into tokens.
+ */
+function getCaptureTokens(captureNames: (string | undefined)[]) {
+	const tokens: { captureName: string | undefined; columnStart: number; columnEnd: number }[] = []
+	captureNames.forEach((captureName, index) => {
+		const lastToken = tokens[tokens.length - 1]
+		if (lastToken && lastToken.captureName === captureName) {
+			lastToken.columnEnd = index + 1
+			return
+		}
+		tokens.push({ captureName, columnStart: index, columnEnd: index + 1 })
+	})
+	return tokens
+}
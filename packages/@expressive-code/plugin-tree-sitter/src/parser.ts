@@ -0,0 +1,92 @@
+import Parser from 'web-tree-sitter'
+
+export interface TreeSitterLanguage {
+	/**
+	 * The code block language that should be highlighted using this grammar, e.g. `rust`.
+	 */
+	name: string
+	/**
+	 * Additional code block languages that should be highlighted using this grammar,
+	 * e.g. `['rs']`.
+	 */
+	aliases?: string[] | undefined
+	/**
+	 * The path to the WASM file of the Tree-sitter grammar.
+	 *
+	 * Relative paths are resolved from the current working directory.
+	 */
+	grammarPath: string
+	/**
+	 * The paths to one or more highlight query files (usually named `highlights.scm`).
+	 *
+	 * If multiple files are given, their contents are combined in the given order.
+	 * This allows you to include the queries of grammars that the current grammar inherits
+	 * from, e.g. the JavaScript queries when highlighting TypeScript. As with all Tree-sitter
+	 * queries, if the same node is matched by multiple patterns, the first pattern wins.
+	 *
+	 * Relative paths are resolved from the current working directory.
+	 */
+	highlightQueryPaths: string[]
+}
+
+export type LoadedTreeSitterLanguage = {
+	parser: Parser
+	query: Parser.Query
+}
+
+let parserInitPromise: Promise<void> | undefined
+const languagePromisesByKey = new Map<string, Promise<LoadedTreeSitterLanguage>>()
+
+/**
+ * Loads the grammar and highlight queries of the given language and returns a parser
+ * and query that can be used to highlight code.
+ *
+ * The results are cached, so the files are only read once per grammar and query combination.
+ */
+export async function getCachedLanguage(language: TreeSitterLanguage): Promise<LoadedTreeSitterLanguage> {
+	const cacheKey = JSON.stringify([language.grammarPath, language.highlightQueryPaths])
+	let languagePromise = languagePromisesByKey.get(cacheKey)
+	if (languagePromise === undefined) {
+		languagePromise = loadLanguage(language)
+		languagePromisesByKey.set(cacheKey, languagePromise)
+		// Allow loading to be retried after errors, e.g. if a file was missing
+		languagePromise.catch(() => languagePromisesByKey.delete(cacheKey))
+	}
+	return languagePromise
+}
+
+async function loadLanguage({ name, grammarPath, highlightQueryPaths }: TreeSitterLanguage): Promise<LoadedTreeSitterLanguage> {
+	const { readFile } = await import('node:fs/promises')
+
+	parserInitPromise ??= Parser.init()
+	await parserInitPromise
+
+	let grammar: Parser.Language
+	try {
+		grammar = await Parser.Language.load(new Uint8Array(await readFile(grammarPath)))
+	} catch (err) {
+		const error = err instanceof Error ? err : new Error(String(err))
+		throw new Error(`Failed to load the Tree-sitter grammar of language "${name}" from "${grammarPath}".\nReceived error message: "${error.message}"`, {
+			cause: error,
+		})
+	}
+
+	let query: Parser.Query
+	try {
+		const querySources = await Promise.all(highlightQueryPaths.map((path) => readFile(path, 'utf8')))
+		query = grammar.query(querySources.join('\n'))
+	} catch (err) {
+		const error = err instanceof Error ? err : new Error(String(err))
+		throw new Error(
+			`Failed to load the Tree-sitter highlight queries of language "${name}" from ${highlightQueryPaths.map((path) => `"${path}"`).join(', ')}.\nReceived error message: "${
+				error.message
+			}"`,
+			{ cause: error }
+		)
+	}
+
+	const parser = new Parser()
+	parser.setLanguage(grammar)
+
+	return { parser, query }
+}
@@ -0,0 +1,143 @@
+import { ExpressiveCodeTheme } from '@expressive-code/core'
+
+/**
+ * Maps Tree-sitter capture names to TextMate scopes that are used to look up their colors
+ * in the token settings of a theme.
+ *
+ * If multiple scopes are given for a capture name, the first one that is styled
+ * by the theme is used.
+ */
+export type CaptureScopes = Record<string, string | string[]>
+
+/**
+ * The default mapping of common Tree-sitter capture names to TextMate scopes.
+ *
+ * Capture names that are not listed here are looked up using their parent names
+ * (e.g. `function.method.call` falls back to `function.method` and `function`),
+ * and finally by treating the capture name as a TextMate scope itself.
+ */
+export const defaultCaptureScopes: CaptureScopes = {
+	attribute: 'entity.other.attribute-name',
+	boolean: 'constant.language.boolean',
+	comment: 'comment',
+	constant: ['variable.other.constant', 'constant'],
+	'constant.builtin': 'constant.language',
+	constructor: ['entity.name.class', 'entity.name.type'],
+	embedded: 'meta.embedded',
+	escape: 'constant.character.escape',
+	function: 'entity.name.function',
+	'function.builtin': ['support.function', 'entity.name.function'],
+	keyword: ['keyword', 'storage.type'],
+	label: 'entity.name.label',
+	module: 'entity.name.namespace',
+	number: 'constant.numeric',
+	operator: 'keyword.operator',
+	property: ['variable.other.property', 'variable'],
+	punctuation: 'punctuation',
+	'punctuation.bracket': 'punctuation.section',
+	'punctuation.delimiter': 'punctuation.separator',
+	'punctuation.special': 'punctuation.definition.template-expression',
+	string: 'string',
+	'string.special': ['string.regexp', 'string'],
+	tag: 'entity.name.tag',
+	type: ['entity.name.type', 'support.type'],
+	'type.builtin': ['support.type', 'entity.name.type'],
+	variable: 'variable',
+	'variable.builtin': ['variable.language', 'variable'],
+	'variable.parameter': ['variable.parameter', 'variable'],
+}
+
+export type CaptureStyle = {
+	color: string
+	italic: boolean
+	bold: boolean
+	underline: boolean
+}
+
+type ScopeMatch = { value: string; specificity: number }
+
+const stylesByCaptureScopes = new WeakMap<CaptureScopes, WeakMap<ExpressiveCodeTheme, Map<string, CaptureStyle>>>()
+
+/**
+ * Determines the style of the given capture name in the given theme.
+ *
+ * Pass `undefined` as capture name to get the default style of uncaptured code.
+ */
+export function getCaptureStyle({ theme, captureName, captureScopes }: { theme: ExpressiveCodeTheme; captureName: string | undefined; captureScopes: CaptureScopes }) {
+	let stylesByTheme = stylesByCaptureScopes.get(captureScopes)
+	if (!stylesByTheme) {
+		stylesByTheme = new WeakMap()
+		stylesByCaptureScopes.set(captureScopes, stylesByTheme)
+	}
+	let themeStyles = stylesByTheme.get(theme)
+	if (!themeStyles) {
+		themeStyles = new Map()
+		stylesByTheme.set(theme, themeStyles)
+	}
+	const cacheKey = captureName ?? ''
+	let style = themeStyles.get(cacheKey)
+	if (!style) {
+		style = resolveCaptureStyle({ theme, captureName, captureScopes })
+		themeStyles.set(cacheKey, style)
+	}
+	return style
+}
+
+function resolveCaptureStyle({ theme, captureName, captureScopes }: { theme: ExpressiveCodeTheme; captureName: string | undefined; captureScopes: CaptureScopes }): CaptureStyle {
+	const scopes = captureName ? getCandidateScopes(captureName, captureScopes) : []
+	let foreground: string | undefined
+	let fontStyle: string | undefined
+	for (const scope of scopes) {
+		foreground ??= findThemeSetting(theme, scope, 'foreground')
+		fontStyle ??= findThemeSetting(theme, scope, 'fontStyle')
+		if (foreground !== undefined) break
+	}
+	const fontStyles = (fontStyle ?? '').split(/\s+/)
+	return {
+		color: foreground ?? theme.fg,
+		italic: fontStyles.includes('italic'),
+		bold: fontStyles.includes('bold'),
+		underline: fontStyles.includes('underline'),
+	}
+}
+
+/**
+ * Returns all TextMate scopes that may define the style of the given capture name,
+ * ordered by priority.
+ */
+function getCandidateScopes(captureName: string, captureScopes: CaptureScopes) {
+	const scopes: string[] = []
+	const nameParts = captureName.split('.')
+	for (let length = nameParts.length; length > 0; length--) {
+		const name = nameParts.slice(0, length).join('.')
+		// Only consider own properties to ignore inherited ones like `toString`
+		const mappedScopes = Object.prototype.hasOwnProperty.call(captureScopes, name) ? captureScopes[name] : undefined
+		if (mappedScopes !== undefined) scopes.push(...(Array.isArray(mappedScopes) ? mappedScopes : [mappedScopes]))
+	}
+	scopes.push(captureName)
+	return scopes
+}
+
+/**
+ * Finds the value of the given setting in the most specific theme token setting
+ * matching the given scope. If multiple settings are equally specific, the last one wins,
+ * just like in VS Code.
+ *
+ * Only simple scope selectors are supported, so selectors describing the parents
+ * of a scope (e.g. `meta.tag string`) are ignored.
+ */
+function findThemeSetting(theme: ExpressiveCodeTheme, scope: string, setting: 'foreground' | 'fontStyle') {
+	let bestMatch: ScopeMatch | undefined
+	for (const { scope: selectors, settings } of theme.settings) {
+		const value = settings[setting]
+		if (!selectors || value === undefined) continue
+		for (const selector of selectors) {
+			const trimmedSelector = selector.trim()
+			if (!trimmedSelector || /\s/.test(trimmedSelector)) continue
+			if (scope !== trimmedSelector && !scope.startsWith(`${trimmedSelector}.`)) continue
+			const specificity = trimmedSelector.split('.').length
+			if (!bestMatch || specificity >= bestMatch.specificity) bestMatch = { value, specificity }
+		}
+	}
+	return bestMatch?.value
+}
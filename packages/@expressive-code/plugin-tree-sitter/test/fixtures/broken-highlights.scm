@@ -0,0 +1 @@
+(this_node_type_does_not_exist) @keyword
@@ -0,0 +1,21 @@
+; A reduced version of the JavaScript highlight queries used for testing
+
+(comment) @comment
+(string) @string
+(template_string) @string
+(number) @number
+[(true) (false)] @boolean
+
+(function_declaration name: (identifier) @function)
+(call_expression function: (identifier) @function.call)
+(call_expression function: (member_expression property: (property_identifier) @function.method.call))
+
+(property_identifier) @property
+(identifier) @variable
+
+[
+  "const"
+  "let"
+  "function"
+  "return"
+] @keyword
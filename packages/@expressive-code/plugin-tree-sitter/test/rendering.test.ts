@@ -0,0 +1,162 @@
+import { describe, test, expect } from 'vitest'
+import { createRequire } from 'node:module'
+import { join } from 'node:path'
+import { ExpressiveCodeEngine, ExpressiveCodeEngineConfig, ExpressiveCodeTheme } from '@expressive-code/core'
+import { toHtml } from '@expressive-code/core/hast'
+import { renderAndOutputHtmlSnapshot, buildThemeFixtures, loadTestThemes } from '@internal/test-utils'
+import { pluginShiki } from '@expressive-code/plugin-shiki'
+import { PluginTreeSitterOptions, TreeSitterLanguage, pluginTreeSitter } from '../src'
+
+const require = createRequire(import.meta.url)
+
+const javascript: TreeSitterLanguage = {
+	name: 'javascript',
+	aliases: ['js'],
+	grammarPath: require.resolve('tree-sitter-wasms/out/tree-sitter-javascript.wasm'),
+	highlightQueryPaths: [join(__dirname, 'fixtures', 'javascript-highlights.scm')],
+}
+
+const testCode = `
+// Greets the user
+function greet(name) {
+  const message = \`Hello \${name}!\`
+  console.log(message, 42, true)
+  return message.length
+}
+`.trim()
+
+const testTheme = new ExpressiveCodeTheme({
+	name: 'tree-sitter-test',
+	type: 'dark',
+	fg: '#eeeeee',
+	bg: '#000000',
+	settings: [
+		{ scope: ['comment'], settings: { foreground: '#888888', fontStyle: 'italic' } },
+		{ scope: ['keyword', 'storage.type'], settings: { foreground: '#ff0000' } },
+		{ scope: ['string'], settings: { foreground: '#00ff00' } },
+		{ scope: ['constant.numeric', 'constant.language'], settings: { foreground: '#ffff00' } },
+		{ scope: ['entity.name.function'], settings: { foreground: '#00ffff', fontStyle: 'bold' } },
+		{ scope: ['variable'], settings: { foreground: '#ff00ff' } },
+		{ scope: ['variable.other.property'], settings: { foreground: '#ffaa00' } },
+	],
+})
+
+describe('Highlights code using Tree-sitter grammars', async () => {
+	const themes = await loadTestThemes()
+
+	test('Highlights configured languages in all style variants', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: testCode,
+				language: 'js',
+				plugins: [pluginTreeSitter({ languages: [javascript] })],
+				blockValidationFn: ({ renderedGroupAst, styleVariants }) => {
+					const html = toHtml(renderedGroupAst)
+					styleVariants.forEach((_, styleVariantIndex) => {
+						expect(html).toContain(`--${styleVariantIndex}:`)
+					})
+				},
+			}),
+		})
+	})
+	test('Maps capture names to theme token colors', async () => {
+		const tokens = await renderTokens({ code: testCode, language: 'javascript', options: { languages: [javascript] } })
+		expect(tokens).toEqual([
+			['// Greets the user', '#888888', 'italic'],
+			['function', '#ff0000', ''],
+			['greet', '#00ffff', 'bold'],
+			['name', '#ff00ff', ''],
+			['const', '#ff0000', ''],
+			['message', '#ff00ff', ''],
+			// Expect nested captures to take precedence over their parents
+			['`Hello ${', '#00ff00', ''],
+			['name', '#ff00ff', ''],
+			['}!`', '#00ff00', ''],
+			['console', '#ff00ff', ''],
+			['log', '#00ffff', 'bold'],
+			['message', '#ff00ff', ''],
+			['42', '#ffff00', ''],
+			['true', '#ffff00', ''],
+			['return', '#ff0000', ''],
+			['message', '#ff00ff', ''],
+			['length', '#ffaa00', ''],
+		])
+	})
+	test('Allows customizing the scopes of capture names', async () => {
+		const tokens = await renderTokens({
+			code: 'const answer = 42',
+			language: 'js',
+			options: { languages: [javascript], captureScopes: { variable: 'string', number: 'comment' } },
+		})
+		expect(tokens).toEqual([
+			['const', '#ff0000', ''],
+			['answer', '#00ff00', ''],
+			['42', '#888888', 'italic'],
+		])
+	})
+	test('Leaves other languages untouched', async () => {
+		const tokens = await renderTokens({ code: 'const answer = 42', language: 'ts', options: { languages: [javascript] } })
+		expect(tokens).toEqual([])
+	})
+	test('Replaces syntax highlighting of previous plugins for configured languages', async () => {
+		const tokensOfConfiguredLanguage = await renderTokens({
+			code: 'const answer = 42',
+			language: 'js',
+			options: { languages: [javascript] },
+			plugins: [pluginShiki()],
+		})
+		expect(tokensOfConfiguredLanguage).toEqual([
+			['const', '#ff0000', ''],
+			['answer', '#ff00ff', ''],
+			['42', '#ffff00', ''],
+		])
+		const tokensOfOtherLanguage = await renderTokens({
+			code: 'const answer = 42',
+			language: 'ts',
+			options: { languages: [javascript] },
+			plugins: [pluginShiki()],
+		})
+		expect(tokensOfOtherLanguage.length).toBeGreaterThan(0)
+	})
+})
+
+describe('Handles invalid configurations', () => {
+	test('Throws an error if the grammar cannot be loaded', async () => {
+		const invalidGrammar: TreeSitterLanguage = { ...javascript, name: 'missing', grammarPath: join(__dirname, 'fixtures', 'missing.wasm') }
+		await expect(renderTokens({ code: 'test', language: 'missing', options: { languages: [invalidGrammar] } })).rejects.toThrow(/grammar of language "missing"/)
+	})
+	test('Throws an error if the highlight queries are invalid', async () => {
+		const invalidQueries: TreeSitterLanguage = { ...javascript, name: 'broken', highlightQueryPaths: [join(__dirname, 'fixtures', 'broken-highlights.scm')] }
+		await expect(renderTokens({ code: 'test', language: 'broken', options: { languages: [invalidQueries] } })).rejects.toThrow(/highlight queries of language "broken"/)
+	})
+})
+
+/**
+ * Renders the given code using the test theme and returns the text, color and font style
+ * of all highlighted tokens, ignoring tokens using the default foreground color.
+ */
+async function renderTokens({
+	code,
+	language,
+	options,
+	plugins = [],
+}: {
+	code: string
+	language: string
+	options: PluginTreeSitterOptions
+	plugins?: ExpressiveCodeEngineConfig['plugins'] | undefined
+}) {
+	const engine = new ExpressiveCodeEngine({
+		themes: [testTheme],
+		minSyntaxHighlightingColorContrast: 0,
+		plugins: [...plugins, pluginTreeSitter(options)],
+	})
+	const { renderedGroupAst } = await engine.render({ code, language })
+	const html = toHtml(renderedGroupAst)
+	const tokens = [...html.matchAll(/<span style="--0:([^;"]*)(?:;--0fs:([^;"]*))?(?:;--0fw:([^;"]*))?[^"]*">(.*?)<\/span>/g)]
+	return tokens
+		.map(([, color, fontStyle = '', fontWeight = '', text]) => [text.replace(/&#x3C;/g, '<'), color.toLowerCase(), fontStyle || (fontWeight ? 'bold' : '')])
+		.filter(([, color]) => color !== testTheme.fg)
+}
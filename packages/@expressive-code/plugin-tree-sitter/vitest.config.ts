@@ -0,0 +1,17 @@
+import { defineConfig, mergeConfig } from 'vitest/config'
+import rootConfig from '../../../vitest.config'
+
+export default mergeConfig(
+	rootConfig,
+	defineConfig({
+		test: {
+			server: {
+				deps: {
+					// Vitest would otherwise transform the minified CommonJS module of web-tree-sitter,
+					// which breaks its static `Language` property that is only assigned during `init()`
+					external: ['web-tree-sitter'],
+				},
+			},
+		},
+	})
+)
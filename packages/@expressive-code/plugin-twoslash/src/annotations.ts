@@ -0,0 +1,42 @@
+import { ExpressiveCodeAnnotation, AnnotationBaseOptions, AnnotationRenderOptions } from '@expressive-code/core'
+import { h } from '@expressive-code/core/hast'
+
+/**
+ * Wraps the targeted code in an element that displays a popup
+ * with type information when hovered.
+ */
+export class TwoslashHoverAnnotation extends ExpressiveCodeAnnotation {
+	name = 'Twoslash hover'
+	text: string
+	docs: string
+
+	constructor({ text, docs, ...baseOptions }: { text: string; docs: string } & AnnotationBaseOptions) {
+		super({ renderPhase: 'later', ...baseOptions })
+		this.text = text
+		this.docs = docs
+	}
+
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		return nodesToTransform.map((node, idx) => {
+			// Only add the popup once, even if the targeted code was split into multiple nodes
+			if (idx < nodesToTransform.length - 1) return h('span.twoslash-hover', node)
+			const popup = h('span.twoslash-popup', [h('span.twoslash-popup-type', this.text), this.docs ? h('span.twoslash-popup-docs', this.docs) : undefined])
+			return h('span.twoslash-hover', [node, popup])
+		})
+	}
+}
+
+/**
+ * Underlines the targeted code to indicate a compiler error.
+ */
+export class TwoslashErrorAnnotation extends ExpressiveCodeAnnotation {
+	name = 'Twoslash error'
+
+	constructor(baseOptions: AnnotationBaseOptions) {
+		super({ renderPhase: 'later', ...baseOptions })
+	}
+
+	render({ nodesToTransform }: AnnotationRenderOptions) {
+		return nodesToTransform.map((node) => h('span.twoslash-error', node))
+	}
+}
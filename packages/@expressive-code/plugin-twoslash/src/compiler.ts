@@ -0,0 +1,161 @@
+import ts from 'typescript'
+
+export type TwoslashLanguage = 'ts' | 'tsx' | 'js' | 'jsx'
+
+export type QuickInfo = {
+	/**
+	 * The offset of the first character of the identifier that the info belongs to.
+	 */
+	start: number
+	/**
+	 * The length of the identifier that the info belongs to.
+	 */
+	length: number
+	/**
+	 * The type information of the identifier, e.g. `const answer: 42`.
+	 */
+	text: string
+	/**
+	 * The documentation of the identifier (if any).
+	 */
+	docs: string
+}
+
+export type CompilerError = {
+	start: number
+	length: number
+	code: number
+	message: string
+}
+
+export type AnalysisResult = {
+	quickInfos: QuickInfo[]
+	queryResults: (QuickInfo | undefined)[]
+	errors: CompilerError[]
+}
+
+/**
+ * The compiler options used by default. They can be overridden
+ * using the `compilerOptions` plugin option.
+ */
+export const defaultCompilerOptions: ts.CompilerOptions = {
+	target: ts.ScriptTarget.ES2022,
+	module: ts.ModuleKind.ESNext,
+	moduleResolution: ts.ModuleResolutionKind.Bundler,
+	jsx: ts.JsxEmit.Preserve,
+	strict: true,
+	allowJs: true,
+	checkJs: true,
+	esModuleInterop: true,
+	skipLibCheck: true,
+	noEmit: true,
+}
+
+const languagesByAlias: Record<string, TwoslashLanguage> = {
+	ts: 'ts',
+	mts: 'ts',
+	cts: 'ts',
+	typescript: 'ts',
+	tsx: 'tsx',
+	js: 'js',
+	mjs: 'js',
+	cjs: 'js',
+	javascript: 'js',
+	jsx: 'jsx',
+}
+
+/**
+ * Returns the Twoslash language to use for the given code block language,
+ * or `undefined` if the language is not supported.
+ */
+export function getTwoslashLanguage(language: string) {
+	return languagesByAlias[language.toLowerCase()]
+}
+
+/**
+ * Creates an analyzer that runs the TypeScript language service on code snippets.
+ *
+ * All snippets analyzed by the same analyzer share a single language service. It only
+ * contains the snippet that is currently being analyzed, so the files of previous snippets
+ * are released, while parsed library files (e.g. `lib.d.ts`) are reused between snippets.
+ */
+export function createAnalyzer(compilerOptions: ts.CompilerOptions) {
+	// The snippet that is currently being analyzed
+	let snippet = { fileName: '', code: '', version: 0 }
+
+	const readFile = (path: string) => (path === snippet.fileName ? snippet.code : ts.sys.readFile(path))
+	const host: ts.LanguageServiceHost = {
+		getCompilationSettings: () => compilerOptions,
+		getScriptFileNames: () => [snippet.fileName],
+		getScriptVersion: (path) => (path === snippet.fileName ? `${snippet.version}` : '0'),
+		getScriptSnapshot: (path) => {
+			const text = readFile(path)
+			return text !== undefined ? ts.ScriptSnapshot.fromString(text) : undefined
+		},
+		getCurrentDirectory: () => ts.sys.getCurrentDirectory(),
+		getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+		fileExists: (path) => path === snippet.fileName || ts.sys.fileExists(path),
+		readFile,
+		readDirectory: (...args) => ts.sys.readDirectory(...args),
+		directoryExists: (path) => ts.sys.directoryExists(path),
+		getDirectories: (path) => ts.sys.getDirectories(path),
+		realpath: (path) => ts.sys.realpath?.(path) ?? path,
+	}
+	const service = ts.createLanguageService(host, ts.createDocumentRegistry())
+
+	return function analyzeCode({
+		code,
+		language,
+		directory,
+		queryOffsets,
+	}: {
+		code: string
+		language: TwoslashLanguage
+		directory: string
+		queryOffsets: number[]
+	}): AnalysisResult {
+		// Place the snippet inside the given directory to allow resolving imports
+		const fileName = ts.sys.resolvePath(`${directory}/__ec-twoslash__.${language}`).replace(/\\/g, '/')
+		snippet = { fileName, code, version: snippet.version + 1 }
+		const sourceFile = service.getProgram()?.getSourceFile(fileName)
+		if (!sourceFile) throw new Error('Failed to create a TypeScript source file for the code snippet.')
+
+		const getQuickInfo = (offset: number): QuickInfo | undefined => {
+			const info = service.getQuickInfoAtPosition(fileName, offset)
+			const text = info && ts.displayPartsToString(info.displayParts)
+			if (!info || !text) return
+			return {
+				start: info.textSpan.start,
+				length: info.textSpan.length,
+				text,
+				docs: ts.displayPartsToString(info.documentation),
+			}
+		}
+
+		// Collect type information for all identifiers
+		const quickInfos: QuickInfo[] = []
+		const visitNode = (node: ts.Node) => {
+			if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+				const quickInfo = getQuickInfo(node.getStart(sourceFile))
+				if (quickInfo) quickInfos.push(quickInfo)
+			}
+			ts.forEachChild(node, visitNode)
+		}
+		visitNode(sourceFile)
+
+		// Run the requested queries
+		const queryResults = queryOffsets.map((offset) => getQuickInfo(offset))
+
+		// Collect all compiler errors
+		const errors = [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)]
+			.filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error && diagnostic.start !== undefined)
+			.map((diagnostic) => ({
+				start: diagnostic.start ?? 0,
+				length: diagnostic.length ?? 0,
+				code: diagnostic.code,
+				message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+			}))
+
+		return { quickInfos, queryResults, errors }
+	}
+}
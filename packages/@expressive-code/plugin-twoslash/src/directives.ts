@@ -0,0 +1,69 @@
+export type TwoslashQuery = {
+	/**
+	 * The index of the line containing the queried code.
+	 */
+	lineIndex: number
+	/**
+	 * The column of the queried character, as indicated by the `^` character
+	 * of the query directive.
+	 */
+	column: number
+}
+
+export type TwoslashDirectives = {
+	/**
+	 * The indices of all lines containing directives. These lines must be removed
+	 * from the code before running the compiler.
+	 */
+	directiveLineIndices: number[]
+	/**
+	 * The error codes listed in `// @errors: ...` directives.
+	 */
+	expectedErrors: number[]
+	queries: TwoslashQuery[]
+}
+
+const errorsDirectiveRegExp = /^\s*\/\/\s*@errors:(.*)$/
+const queryDirectiveRegExp = /^(\s*\/\/\s*)\^\?\s*$/
+
+/**
+ * Finds Twoslash directives in the given lines of code.
+ *
+ * Supported directives:
+ * - `// @errors: 2322 2588` lists the codes of expected compiler errors
+ * - `// ^?` queries the type of the code above the `^` character
+ */
+export function parseDirectives(lines: string[]): TwoslashDirectives {
+	const directives: TwoslashDirectives = {
+		directiveLineIndices: [],
+		expectedErrors: [],
+		queries: [],
+	}
+	let lastCodeLineIndex: number | undefined
+
+	lines.forEach((line, lineIndex) => {
+		const errorsMatch = line.match(errorsDirectiveRegExp)
+		if (errorsMatch) {
+			directives.directiveLineIndices.push(lineIndex)
+			const codes = errorsMatch[1].split(/[\s,]+/).filter((code) => code.length)
+			codes.forEach((code) => {
+				const errorCode = Number(code)
+				if (!Number.isInteger(errorCode)) throw new Error(`Invalid error code "${code}" found in Twoslash directive "${line.trim()}".`)
+				directives.expectedErrors.push(errorCode)
+			})
+			return
+		}
+
+		const queryMatch = line.match(queryDirectiveRegExp)
+		if (queryMatch) {
+			directives.directiveLineIndices.push(lineIndex)
+			if (lastCodeLineIndex === undefined) throw new Error(`The Twoslash query in line ${lineIndex + 1} must be placed below the code it refers to.`)
+			directives.queries.push({ lineIndex: lastCodeLineIndex, column: queryMatch[1].length })
+			return
+		}
+
+		lastCodeLineIndex = lineIndex
+	})
+
+	return directives
+}
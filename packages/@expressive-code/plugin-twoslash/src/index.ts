@@ -0,0 +1,176 @@
+import { dirname } from 'node:path'
+import type ts from 'typescript'
+import { AttachedPluginData, ExpressiveCodeLine, ExpressiveCodePlugin } from '@expressive-code/core'
+import type { Element } from '@expressive-code/core/hast'
+import { addClassName, h, setInlineStyle, SKIP, visit } from '@expressive-code/core/hast'
+import { TwoslashErrorAnnotation, TwoslashHoverAnnotation } from './annotations'
+import { createAnalyzer, defaultCompilerOptions, getTwoslashLanguage } from './compiler'
+import { parseDirectives } from './directives'
+import { getTwoslashBaseStyles, TwoslashStyleSettings, twoslashStyleSettings } from './styles'
+import popupJsModule from './popup-js-module.min'
+
+export { TwoslashStyleSettings }
+
+declare module '@expressive-code/core' {
+	export interface StyleSettings {
+		twoslash: TwoslashStyleSettings
+	}
+}
+
+export interface PluginTwoslashOptions {
+	/**
+	 * TypeScript compiler options used to analyze the code. These options are merged
+	 * with the plugin's default options, which enable strict mode and support
+	 * TypeScript, JavaScript and JSX code.
+	 */
+	compilerOptions?: ts.CompilerOptions | undefined
+}
+
+export interface PluginTwoslashProps {
+	/**
+	 * Whether to run the TypeScript compiler on the current code block to add type information
+	 * popups, query results and compiler errors. This is only supported for TypeScript
+	 * and JavaScript code blocks (including JSX).
+	 *
+	 * The default value of this prop can be changed using the `defaultProps` option
+	 * in your Expressive Code configuration.
+	 *
+	 * @default false
+	 */
+	twoslash: boolean
+}
+
+declare module '@expressive-code/core' {
+	export interface ExpressiveCodeBlockProps extends PluginTwoslashProps {}
+}
+
+type LineMessage = {
+	type: 'query' | 'error'
+	text: string
+	column: number
+	errorCode?: number | undefined
+}
+
+export const pluginTwoslashData = new AttachedPluginData<{
+	messagesByLine: Map<ExpressiveCodeLine, LineMessage[]>
+	lineAsts: Map<Element, LineMessage[]>
+}>(() => ({ messagesByLine: new Map(), lineAsts: new Map() }))
+
+export function pluginTwoslash(options: PluginTwoslashOptions = {}): ExpressiveCodePlugin {
+	let analyzer: ReturnType<typeof createAnalyzer> | undefined
+	return {
+		name: 'Twoslash',
+		styleSettings: twoslashStyleSettings,
+		baseStyles: (context) => getTwoslashBaseStyles(context),
+		jsModules: [popupJsModule],
+		hooks: {
+			preprocessMetadata: ({ codeBlock: { metaOptions, props } }) => {
+				// Transfer meta options (if any) to props
+				props.twoslash = metaOptions.getBoolean('twoslash') ?? props.twoslash
+			},
+			performSyntaxAnalysis: ({ codeBlock }) => {
+				const language = getTwoslashLanguage(codeBlock.language)
+				if (!codeBlock.props.twoslash || !language) return
+
+				// Find and remove all directives from the code
+				const lines = codeBlock.getLines()
+				const directives = parseDirectives(lines.map((line) => line.text))
+				const codeLines = lines.filter((_, lineIndex) => !directives.directiveLineIndices.includes(lineIndex))
+				if (directives.directiveLineIndices.length) codeBlock.deleteLines(directives.directiveLineIndices)
+
+				// Determine the offsets of all lines in the remaining code
+				const lineOffsets: number[] = []
+				let offset = 0
+				codeLines.forEach((line) => {
+					lineOffsets.push(offset)
+					offset += line.text.length + 1
+				})
+				const getPosition = (offset: number) => {
+					let lineIndex = lineOffsets.length - 1
+					while (lineIndex > 0 && lineOffsets[lineIndex] > offset) lineIndex--
+					return { line: codeLines[lineIndex], column: offset - lineOffsets[lineIndex] }
+				}
+
+				// Run the TypeScript compiler on the code
+				// (the analyzer is created on first use to avoid slowing down sites that do not use Twoslash)
+				if (!analyzer) analyzer = createAnalyzer({ ...defaultCompilerOptions, ...options.compilerOptions })
+				const sourceFilePath = codeBlock.parentDocument?.sourceFilePath
+				const { quickInfos, queryResults, errors } = analyzer({
+					code: codeLines.map((line) => line.text).join('\n'),
+					language,
+					directory: sourceFilePath ? dirname(sourceFilePath) : process.cwd(),
+					queryOffsets: directives.queries.map(({ lineIndex, column }) => lineOffsets[codeLines.indexOf(lines[lineIndex])] + column),
+				})
+
+				// Ensure that all errors are expected
+				const unexpectedErrors = errors.filter((error) => !directives.expectedErrors.includes(error.code))
+				if (unexpectedErrors.length) {
+					const errorList = unexpectedErrors.map((error) => `- [${error.code}] ${error.message}`).join('\n')
+					const errorCodes = [...new Set(unexpectedErrors.map((error) => error.code))].join(' ')
+					throw new Error(
+						`Twoslash found unexpected compiler errors in the code block.
+						If these errors are intended, add the directive "// @errors: ${errorCodes}" to the code.`.replace(/\s+/g, ' ') + `\n${errorList}`
+					)
+				}
+
+				// Add popups with type information to all identifiers
+				quickInfos.forEach(({ start, length, text, docs }) => {
+					const { line, column } = getPosition(start)
+					line.addAnnotation(new TwoslashHoverAnnotation({ text, docs, inlineRange: { columnStart: column, columnEnd: column + length } }))
+				})
+
+				// Underline all errors and remember their messages to render them beneath their lines
+				const data = pluginTwoslashData.getOrCreateFor(codeBlock)
+				const addMessage = (line: ExpressiveCodeLine, message: LineMessage) => {
+					const messages = data.messagesByLine.get(line) ?? []
+					messages.push(message)
+					data.messagesByLine.set(line, messages)
+				}
+				errors.forEach(({ start, length, code, message }) => {
+					const startPos = getPosition(start)
+					const endPos = getPosition(start + length)
+					const startLineIndex = codeLines.indexOf(startPos.line)
+					const endLineIndex = codeLines.indexOf(endPos.line)
+					for (let lineIndex = startLineIndex; lineIndex <= endLineIndex; lineIndex++) {
+						const line = codeLines[lineIndex]
+						const columnStart = lineIndex === startLineIndex ? startPos.column : 0
+						const columnEnd = lineIndex === endLineIndex ? endPos.column : line.text.length
+						if (columnEnd > columnStart) line.addAnnotation(new TwoslashErrorAnnotation({ inlineRange: { columnStart, columnEnd } }))
+					}
+					addMessage(startPos.line, { type: 'error', text: message, column: startPos.column, errorCode: code })
+				})
+
+				// Remember all query results to render them beneath their lines
+				directives.queries.forEach((query, queryIndex) => {
+					const queryResult = queryResults[queryIndex]
+					if (!queryResult) throw new Error(`The Twoslash query targeting line ${codeLines.indexOf(lines[query.lineIndex]) + 1} did not return any type information.`)
+					addMessage(lines[query.lineIndex], { type: 'query', text: queryResult.text, column: query.column })
+				})
+			},
+			postprocessRenderedLine: ({ codeBlock, line, renderData }) => {
+				const data = pluginTwoslashData.getOrCreateFor(codeBlock)
+				const messages = data.messagesByLine.get(line)
+				if (messages) data.lineAsts.set(renderData.lineAst, messages)
+			},
+			postprocessRenderedBlock: ({ codeBlock, renderData, renderEmptyLine }) => {
+				const data = pluginTwoslashData.getOrCreateFor(codeBlock)
+				if (!data.lineAsts.size) return
+				// Render all messages beneath their lines
+				visit(renderData.blockAst, 'element', (node, index, parent) => {
+					const messages = data.lineAsts.get(node)
+					if (!messages || !parent || index === undefined) return
+					const messageLines = messages.map(({ type, text, column, errorCode }) => {
+						const { lineAst, codeWrapper } = renderEmptyLine()
+						addClassName(lineAst, type === 'query' ? 'twoslash-query' : 'twoslash-error-message')
+						const message = h('span.twoslash-message', [text, errorCode !== undefined ? h('span.twoslash-error-code', ` ts(${errorCode})`) : undefined])
+						setInlineStyle(message, '--twoslashIndent', `${column}ch`)
+						codeWrapper.children.push(message)
+						return lineAst
+					})
+					parent.children.splice(index + 1, 0, ...messageLines)
+					return [SKIP, index + 1 + messageLines.length]
+				})
+			},
+		},
+	}
+}
@@ -0,0 +1,8 @@
+/*
+	GENERATED FILE - DO NOT EDIT
+	----------------------------
+	This JS module code was built from the source file "popup-js-module.ts".
+	To change it, modify the source file and then re-run the build script.
+*/
+
+export default 'try{(()=>{function c(s){let o=s.target?.closest?.(".expressive-code .twoslash-hover"),t=o?.querySelector(":scope > .twoslash-popup");if(!o||!t)return;let e=o.getBoundingClientRect(),n=t.getBoundingClientRect(),i=e.bottom+n.height<=window.innerHeight?e.bottom:Math.max(0,e.top-n.height),p=Math.max(0,Math.min(e.left,window.innerWidth-n.width));t.style.top=`${i}px`,t.style.left=`${p}px`}document.addEventListener("mouseover",c);})();}catch(e){console.error("[EC] popup-js-module failed:",e)}'
@@ -0,0 +1,22 @@
+/**
+ * Positions the type information popup of a hovered element next to it.
+ *
+ * Popups use fixed positioning to prevent them from being clipped by their scrollable
+ * code block, so we need to calculate their position in the viewport. If there is not
+ * enough space below the hovered element, the popup is displayed above it instead.
+ */
+function positionPopup(event: Event) {
+	const hover = (event.target as Element | null)?.closest?.('.expressive-code .twoslash-hover')
+	const popup = hover?.querySelector<HTMLElement>(':scope > .twoslash-popup')
+	if (!hover || !popup) return
+	const hoverRect = hover.getBoundingClientRect()
+	const popupRect = popup.getBoundingClientRect()
+	const fitsBelow = hoverRect.bottom + popupRect.height <= window.innerHeight
+	const top = fitsBelow ? hoverRect.bottom : Math.max(0, hoverRect.top - popupRect.height)
+	const left = Math.max(0, Math.min(hoverRect.left, window.innerWidth - popupRect.width))
+	popup.style.top = `${top}px`
+	popup.style.left = `${left}px`
+}
+
+// Use event delegation to handle all current and future code blocks
+document.addEventListener('mouseover', positionPopup)
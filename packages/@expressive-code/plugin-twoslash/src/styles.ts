@@ -0,0 +1,131 @@
+import { PluginStyleSettings, ResolverContext, codeLineClass, setAlpha } from '@expressive-code/core'
+
+export interface TwoslashStyleSettings {
+	/**
+	 * The background color of type information popups and query results.
+	 * @default
+	 * ({ theme }) => theme.colors['editorHoverWidget.background']
+	 */
+	popupBackground: string
+	/**
+	 * The text color of type information popups and query results.
+	 * @default
+	 * ({ theme }) => theme.colors['editorHoverWidget.foreground']
+	 */
+	popupForeground: string
+	/**
+	 * The border color of type information popups and query results.
+	 * @default
+	 * ({ theme }) => theme.colors['editorHoverWidget.border']
+	 */
+	popupBorderColor: string
+	/**
+	 * The font size of type information popups and query results.
+	 * @default '0.9em'
+	 */
+	popupFontSize: string
+	/**
+	 * The color used to underline code causing compiler errors.
+	 * @default
+	 * ({ theme }) => theme.colors['editorError.foreground']
+	 */
+	errorUnderlineColor: string
+	/**
+	 * The background color of error messages displayed beneath lines.
+	 * @default
+	 * ({ theme }) => setAlpha(theme.colors['editorError.foreground'], 0.15)
+	 */
+	errorMessageBackground: string
+	/**
+	 * The text color of error messages displayed beneath lines.
+	 * @default 'inherit'
+	 */
+	errorMessageForeground: string
+}
+
+export const twoslashStyleSettings = new PluginStyleSettings({
+	defaultValues: {
+		twoslash: {
+			popupBackground: ({ theme }) => theme.colors['editorHoverWidget.background'],
+			popupForeground: ({ theme }) => theme.colors['editorHoverWidget.foreground'],
+			popupBorderColor: ({ theme }) => theme.colors['editorHoverWidget.border'],
+			popupFontSize: '0.9em',
+			errorUnderlineColor: ({ theme }) => theme.colors['editorError.foreground'],
+			errorMessageBackground: ({ theme }) => setAlpha(theme.colors['editorError.foreground'], 0.15),
+			errorMessageForeground: 'inherit',
+		},
+	},
+})
+
+export function getTwoslashBaseStyles({ cssVar }: ResolverContext) {
+	const result = `
+		.twoslash-hover {
+			position: relative;
+			border-bottom: 1px dotted transparent;
+
+			&:hover {
+				border-bottom-color: currentColor;
+
+				& > .twoslash-popup {
+					display: flex;
+				}
+			}
+		}
+
+		.twoslash-popup,
+		.twoslash-query .twoslash-message {
+			flex-direction: column;
+			gap: 0.25rem;
+			padding: 0.25rem 0.5rem;
+			border: 1px solid ${cssVar('twoslash.popupBorderColor')};
+			border-radius: ${cssVar('borderRadius')};
+			background: ${cssVar('twoslash.popupBackground')};
+			color: ${cssVar('twoslash.popupForeground')};
+			font-size: ${cssVar('twoslash.popupFontSize')};
+			white-space: pre-wrap;
+		}
+
+		.twoslash-popup {
+			/* Use fixed positioning to prevent the popup from being clipped by the code block */
+			display: none;
+			position: fixed;
+			z-index: 1;
+			max-width: min(40rem, 90vw);
+			pointer-events: none;
+		}
+
+		.twoslash-popup-docs {
+			font-family: ${cssVar('uiFontFamily')};
+		}
+
+		.${codeLineClass}.twoslash-query,
+		.${codeLineClass}.twoslash-error-message {
+			user-select: none;
+			-webkit-user-select: none;
+
+			.twoslash-message {
+				display: inline-block;
+				margin-inline-start: var(--twoslashIndent, 0);
+			}
+		}
+
+		.${codeLineClass}.twoslash-error-message .code {
+			background: ${cssVar('twoslash.errorMessageBackground')};
+			color: ${cssVar('twoslash.errorMessageForeground')};
+			border-inline-start: 2px solid ${cssVar('twoslash.errorUnderlineColor')};
+			white-space: pre-wrap;
+
+			.twoslash-error-code {
+				opacity: 0.75;
+			}
+		}
+
+		.twoslash-error {
+			text-decoration: wavy underline ${cssVar('twoslash.errorUnderlineColor')};
+			text-decoration-skip-ink: none;
+			text-underline-offset: 0.2em;
+		}
+	`
+
+	return result
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest'
+import { parseDirectives } from '../src/directives'
+
+describe('Parses Twoslash directives', () => {
+	test('Finds expected error codes', () => {
+		const directives = parseDirectives(['// @errors: 2322 2588', 'const a: string = 1', '//   @errors:2304, 1005'])
+		expect(directives.directiveLineIndices).toEqual([0, 2])
+		expect(directives.expectedErrors).toEqual([2322, 2588, 2304, 1005])
+	})
+
+	test('Finds queries and their target positions', () => {
+		const directives = parseDirectives(['const answer = 42', '//    ^?', '', 'const greeting = `Hi!`', '//      ^?'])
+		expect(directives.directiveLineIndices).toEqual([1, 4])
+		expect(directives.queries).toEqual([
+			{ lineIndex: 0, column: 6 },
+			{ lineIndex: 3, column: 8 },
+		])
+	})
+
+	test('Skips other directives when finding query targets', () => {
+		const directives = parseDirectives(['const a = 1', '// ^?', '   // ^?'])
+		expect(directives.queries).toEqual([
+			{ lineIndex: 0, column: 3 },
+			{ lineIndex: 0, column: 6 },
+		])
+	})
+
+	test('Ignores regular comments', () => {
+		const directives = parseDirectives(['// This is ^ not a query', '// @ts-expect-error', 'const a = 1 // ^?'])
+		expect(directives.directiveLineIndices).toEqual([])
+		expect(directives.queries).toEqual([])
+	})
+
+	test('Throws on invalid directives', () => {
+		expect(() => parseDirectives(['// @errors: abc'])).toThrow(/Invalid error code "abc"/)
+		expect(() => parseDirectives(['// ^?', 'const a = 1'])).toThrow(/must be placed below the code/)
+	})
+})
@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeEngine } from '@expressive-code/core'
+import type { Element } from '@expressive-code/core/hast'
+import { select, selectAll, toText, visit, SKIP } from '@expressive-code/core/hast'
+import { pluginShiki } from '@expressive-code/plugin-shiki'
+import { buildThemeFixtures, loadTestThemes, renderAndOutputHtmlSnapshot } from '@internal/test-utils'
+import { pluginTwoslash } from '../src'
+
+const twoslashTestCode = `
+// @errors: 2322
+interface User {
+  /** The user's display name */
+  name: string
+  age: number
+}
+
+const user: User = { name: 'Ada', age: '36' }
+const greeting = \`Hello, \${user.name}!\`
+//    ^?
+`.trim()
+
+describe('Renders Twoslash annotations', async () => {
+	const themes = await loadTestThemes()
+
+	test('Renders type popups, queries and errors', async ({ task: { name: testName } }) => {
+		await renderAndOutputHtmlSnapshot({
+			testName,
+			testBaseDir: __dirname,
+			fixtures: buildThemeFixtures(themes, {
+				code: twoslashTestCode,
+				language: 'ts',
+				meta: 'twoslash',
+				plugins: [pluginShiki(), pluginTwoslash()],
+				blockValidationFn: ({ renderedGroupAst }) => {
+					// Expect the directives to be removed
+					const codeAst = select('pre > code', renderedGroupAst)
+					expect(codeAst).toBeDefined()
+					expect(getVisibleText(codeAst!)).not.toContain('@errors')
+					expect(getVisibleText(codeAst!)).not.toContain('^?')
+					// Expect the query result to be rendered beneath the queried line
+					const queryLine = select('.ec-line.twoslash-query', renderedGroupAst)
+					expect(queryLine && toText(queryLine)).toEqual('const greeting: string')
+					// Expect the error to be underlined and its message rendered beneath the line
+					expect(selectAll('.twoslash-error', renderedGroupAst).map((node) => getVisibleText(node))).toEqual(['age'])
+					const errorLine = select('.ec-line.twoslash-error-message', renderedGroupAst)
+					expect(errorLine && toText(errorLine)).toEqual(`Type 'string' is not assignable to type 'number'. ts(2322)`)
+				},
+			}),
+		})
+	})
+})
+
+describe('Analyzes code using the TypeScript compiler', () => {
+	test('Adds type popups to all identifiers', async () => {
+		const { codeAst } = await renderTwoslash({ code: 'const answer = 42\nconst double = answer * 2' })
+		const popups = selectAll('.twoslash-hover', codeAst).map((hover) => ({
+			code: getVisibleText(hover),
+			type: toText(select('.twoslash-popup-type', hover)!),
+		}))
+		expect(popups).toEqual([
+			{ code: 'answer', type: 'const answer: 42' },
+			{ code: 'double', type: 'const double: number' },
+			{ code: 'answer', type: 'const answer: 42' },
+		])
+	})
+
+	test('Includes documentation in type popups', async () => {
+		const { codeAst } = await renderTwoslash({ code: '/** The answer */\nconst answer = 42' })
+		expect(toText(select('.twoslash-popup-docs', codeAst)!)).toEqual('The answer')
+	})
+
+	test('Supports JavaScript code', async () => {
+		const { codeAst } = await renderTwoslash({ code: 'const items = [1, 2]\n//    ^?', language: 'js' })
+		expect(toText(select('.twoslash-query', codeAst)!)).toEqual('const items: number[]')
+	})
+
+	test('Renders multiple messages beneath the same line in order', async () => {
+		const { codeAst } = await renderTwoslash({ code: '// @errors: 2304\nconst a = b\n//    ^?' })
+		const lines = selectAll('.ec-line', codeAst).map((line) => getVisibleText(line))
+		expect(lines).toEqual(['const a = b', "Cannot find name 'b'. ts(2304)", 'const a: any'])
+	})
+
+	test('Throws on unexpected errors', async () => {
+		await expect(renderTwoslash({ code: 'const a: number = "1"' })).rejects.toThrow(/"\/\/ @errors: 2322"/)
+	})
+
+	test('Analyzes every code block on its own', async () => {
+		await renderTwoslash({ code: 'const first = 1' })
+		await expect(renderTwoslash({ code: 'const second = first' })).rejects.toThrow(/Cannot find name 'first'/)
+		const { codeAst } = await renderTwoslash({ code: 'const first = "1"\n//    ^?' })
+		expect(toText(select('.twoslash-query', codeAst)!)).toEqual('const first: "1"')
+	})
+
+	test('Leaves code blocks without the `twoslash` prop unchanged', async () => {
+		const code = 'const a: number = "1"\n//    ^?'
+		const { codeAst } = await renderTwoslash({ code, meta: '' })
+		expect(selectAll('.twoslash-hover, .twoslash-error, .twoslash-query', codeAst)).toHaveLength(0)
+		expect(toText(codeAst, { whitespace: 'pre' })).toEqual(code)
+	})
+
+	test('Ignores unsupported languages', async () => {
+		const code = 'const a: number = "1"'
+		const { codeAst } = await renderTwoslash({ code, language: 'python' })
+		expect(selectAll('.twoslash-hover', codeAst)).toHaveLength(0)
+	})
+})
+
+// Share one plugin instance between tests to allow reusing parsed TypeScript library files
+const twoslash = pluginTwoslash()
+
+async function renderTwoslash({ code, language = 'ts', meta = 'twoslash' }: { code: string; language?: string | undefined; meta?: string | undefined }) {
+	const engine = new ExpressiveCodeEngine({
+		plugins: [twoslash],
+	})
+	const { renderedGroupAst } = await engine.render({ code, language, meta })
+	const codeAst = select('pre > code', renderedGroupAst)
+	if (!codeAst) throw new Error('Failed to find the rendered code')
+	return { codeAst }
+}
+
+/**
+ * Returns the text of the given element without the contents of type popups.
+ */
+function getVisibleText(element: Element) {
+	const clone = structuredClone(element)
+	visit(clone, 'element', (node, index, parent) => {
+		if (!parent || index === undefined || !select(':scope.twoslash-popup', node)) return
+		parent.children.splice(index, 1)
+		return [SKIP, index]
+	})
+	return toText(clone, { whitespace: 'pre' })
+}
@@ -0,0 +1,169 @@
+import type { ExpressiveCodeEngine } from '@expressive-code/core'
+import { toHtml } from '@expressive-code/core/hast'
+import { getGroupLayout } from './layout'
+import { createSettingResolver, toPx } from './settings'
+import { getSvgAst, SvgFontFace } from './svg'
+
+export type SvgEmbeddedFont = {
+	/**
+	 * The font family name to use for the embedded font.
+	 *
+	 * This name is added in front of the configured `codeFontFamily` style setting,
+	 * so the remaining font families are still used as fallbacks.
+	 */
+	family: string
+	/**
+	 * The font file contents, either as binary data or as a base64-encoded string.
+	 */
+	data: Uint8Array | string
+	/**
+	 * The format of the font file.
+	 *
+	 * @default 'woff2'
+	 */
+	format?: 'woff2' | 'woff' | 'truetype' | 'opentype' | undefined
+}
+
+export type RenderToSvgOptions = {
+	/**
+	 * The engine instance used to render the code block(s).
+	 *
+	 * The engine's plugins determine which features are available in the resulting image.
+	 * Frames (title bars), line numbers and text markers are supported.
+	 */
+	engine: ExpressiveCodeEngine
+	/**
+	 * The code block(s) to render. Accepts the same input as `ExpressiveCodeEngine.render`.
+	 *
+	 * If multiple code blocks are given, they are stacked vertically in the resulting image.
+	 */
+	input: Parameters<ExpressiveCodeEngine['render']>[0]
+	/**
+	 * The index of the style variant (theme) to use for the image.
+	 *
+	 * @default 0
+	 */
+	styleVariantIndex?: number | undefined
+	/**
+	 * The font size used to calculate relative lengths like `1rem`.
+	 *
+	 * @default 16
+	 */
+	rootFontSize?: number | undefined
+	/**
+	 * The font size of the code in pixels.
+	 *
+	 * Defaults to the resolved `codeFontSize` style setting.
+	 */
+	fontSize?: number | undefined
+	/**
+	 * The line height of the code in pixels.
+	 *
+	 * Defaults to the resolved `codeLineHeight` style setting.
+	 */
+	lineHeight?: number | undefined
+	/**
+	 * The width of a single character of the monospace code font in pixels.
+	 *
+	 * As SVG images cannot measure text before it is rendered, all text positions
+	 * are calculated based on this width. If you embed a font, set this value to the
+	 * font's advance width multiplied by the font size for best results.
+	 *
+	 * Defaults to `0.6` times the font size, which matches most monospace fonts.
+	 */
+	charWidth?: number | undefined
+	/**
+	 * The number of spaces used to render tab characters.
+	 *
+	 * @default 4
+	 */
+	tabWidth?: number | undefined
+	/**
+	 * Allows embedding a font file into the SVG image to make it render identically
+	 * on all systems, regardless of the installed fonts.
+	 */
+	embedFont?: SvgEmbeddedFont | undefined
+}
+
+export type RenderToSvgResult = {
+	/**
+	 * The SVG image markup.
+	 */
+	svg: string
+	/**
+	 * The width of the SVG image in pixels.
+	 */
+	width: number
+	/**
+	 * The height of the SVG image in pixels.
+	 */
+	height: number
+}
+
+/**
+ * Renders the given code block(s) to a standalone SVG image.
+ *
+ * The code blocks are rendered using the given engine, and the resulting HAST is converted
+ * to SVG elements. All styles are resolved using the selected style variant, so the image
+ * does not depend on any external CSS and can be used anywhere (e.g. in social cards,
+ * slides or README files).
+ */
+export async function renderToSvg(options: RenderToSvgOptions): Promise<RenderToSvgResult> {
+	const { engine, input, styleVariantIndex = 0, rootFontSize = 16, tabWidth = 4, embedFont } = options
+
+	const styleVariant = engine.styleVariants[styleVariantIndex]
+	if (!styleVariant) {
+		throw new Error(`Invalid style variant index ${styleVariantIndex}. The engine only has ${engine.styleVariants.length} style variants.`)
+	}
+
+	const settings = createSettingResolver({ styleVariant, rootFontSize })
+	const fontSize = options.fontSize ?? toPx(settings.get('codeFontSize'), { fontSize: rootFontSize, rootFontSize }) ?? rootFontSize
+	const lineHeight = options.lineHeight ?? getLineHeight(settings.get('codeLineHeight'), { fontSize, rootFontSize })
+	const charWidth = options.charWidth ?? fontSize * 0.6
+
+	const { renderedGroupAst } = await engine.render(input)
+	const blocks = getGroupLayout({ renderedGroupAst, styleVariantIndex, tabWidth })
+
+	const svgAst = getSvgAst({
+		blocks,
+		settings,
+		metrics: { fontSize, lineHeight, charWidth, rootFontSize },
+		fontFace: embedFont && getFontFace(embedFont),
+	})
+
+	return {
+		svg: toHtml(svgAst, { space: 'svg', closeEmptyElements: true }),
+		width: Number(svgAst.properties.width),
+		height: Number(svgAst.properties.height),
+	}
+}
+
+function getLineHeight(value: string, { fontSize, rootFontSize }: { fontSize: number; rootFontSize: number }) {
+	// Unitless line heights are multiplied by the font size
+	const factor = Number(value)
+	if (value && !isNaN(factor)) return factor * fontSize
+	return toPx(value, { fontSize, rootFontSize }) ?? fontSize * 1.65
+}
+
+function getFontFace({ family, data, format = 'woff2' }: SvgEmbeddedFont): SvgFontFace {
+	const base64 = typeof data === 'string' ? data : toBase64(data)
+	const mimeTypes = { woff2: 'font/woff2', woff: 'font/woff', truetype: 'font/ttf', opentype: 'font/otf' }
+	return { family, dataUrl: `data:${mimeTypes[format]};base64,${base64}`, format }
+}
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * Encodes the given binary data as base64 without depending on Node.js or browser APIs.
+ */
+function toBase64(data: Uint8Array) {
+	let result = ''
+	for (let i = 0; i < data.length; i += 3) {
+		const [a, b = 0, c = 0] = [data[i], data[i + 1], data[i + 2]]
+		const triplet = (a << 16) | (b << 8) | c
+		result += base64Chars[(triplet >> 18) & 63] + base64Chars[(triplet >> 12) & 63]
+		result += i + 1 < data.length ? base64Chars[(triplet >> 6) & 63] : '='
+		result += i + 2 < data.length ? base64Chars[triplet & 63] : '='
+	}
+	return result
+}
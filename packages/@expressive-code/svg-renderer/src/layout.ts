@@ -0,0 +1,116 @@
+import type { Element, ElementContent } from '@expressive-code/core/hast'
+import { getClassNames, getInlineStyles, select, selectAll, SKIP, toText, visitParents } from '@expressive-code/core/hast'
+
+export type MarkerType = 'mark' | 'ins' | 'del'
+
+export type TextRun = {
+	text: string
+	column: number
+	color?: string | undefined
+	fontStyle?: string | undefined
+	fontWeight?: string | undefined
+	textDecoration?: string | undefined
+}
+
+export type InlineMarker = {
+	markerType: MarkerType
+	columnStart: number
+	columnEnd: number
+}
+
+export type LineLayout = {
+	lineNumber?: string | undefined
+	markerType?: MarkerType | undefined
+	isHighlighted: boolean
+	isTerminalOutput: boolean
+	runs: TextRun[]
+	inlineMarkers: InlineMarker[]
+	columns: number
+}
+
+export type BlockLayout = {
+	frameType: 'editor' | 'terminal' | 'none'
+	title?: string | undefined
+	lines: LineLayout[]
+}
+
+const markerTypes: MarkerType[] = ['mark', 'ins', 'del']
+
+/**
+ * Collects the information required to draw the code blocks contained in the given
+ * rendered group AST, using the syntax highlighting colors of the given style variant.
+ */
+export function getGroupLayout({ renderedGroupAst, styleVariantIndex, tabWidth }: { renderedGroupAst: Element; styleVariantIndex: number; tabWidth: number }): BlockLayout[] {
+	const blocks: BlockLayout[] = []
+	visitParents(renderedGroupAst, 'element', (pre, ancestors) => {
+		if (pre.tagName !== 'pre') return
+		// Find the frame (if any) that surrounds the rendered code block
+		const frame = [...ancestors].reverse().find((ancestor): ancestor is Element => ancestor.type === 'element' && getClassNames(ancestor).includes('frame'))
+		const frameClassNames = frame ? getClassNames(frame) : []
+		const titleElement = frame && select('figcaption .title', frame)
+		blocks.push({
+			frameType: !frame ? 'none' : frameClassNames.includes('is-terminal') ? 'terminal' : 'editor',
+			title: titleElement ? toText(titleElement, { whitespace: 'pre' }) : undefined,
+			lines: selectAll('.ec-line', pre).map((line) => getLineLayout({ line, styleVariantIndex, tabWidth })),
+		})
+		return SKIP
+	})
+	return blocks
+}
+
+function getLineLayout({ line, styleVariantIndex, tabWidth }: { line: Element; styleVariantIndex: number; tabWidth: number }): LineLayout {
+	const classNames = getClassNames(line)
+	const lineNumberElement = select('.gutter .ln', line)
+	const layout: LineLayout = {
+		lineNumber: lineNumberElement ? toText(lineNumberElement, { whitespace: 'pre' }).trim() : undefined,
+		markerType: markerTypes.find((markerType) => classNames.includes(markerType)),
+		isHighlighted: classNames.includes('highlight'),
+		isTerminalOutput: classNames.includes('output'),
+		runs: [],
+		inlineMarkers: [],
+		columns: 0,
+	}
+
+	const code = select('.code', line)
+	if (!code) return layout
+
+	// Walk the code contents, keeping track of the current column
+	// and the text styles inherited from parent elements
+	const walk = (node: ElementContent, inheritedStyle: Omit<TextRun, 'text' | 'column'>) => {
+		if (node.type === 'text') {
+			const text = node.value.replace(/\n/g, '').replace(/\t/g, ' '.repeat(tabWidth))
+			if (!text.length) return
+			layout.runs.push({ text, column: layout.columns, ...inheritedStyle })
+			layout.columns += [...text].length
+			return
+		}
+		if (node.type !== 'element') return
+		const style = { ...inheritedStyle, ...getTokenStyle(node, styleVariantIndex) }
+		const markerType = markerTypes.find((markerType) => node.tagName === markerType)
+		const columnStart = layout.columns
+		node.children.forEach((child) => walk(child, style))
+		if (markerType) layout.inlineMarkers.push({ markerType, columnStart, columnEnd: layout.columns })
+	}
+	code.children.forEach((child) => walk(child, {}))
+
+	return layout
+}
+
+/**
+ * Returns the syntax highlighting styles that the given element defines for the given
+ * style variant using inline CSS variables (e.g. `--0:#e1e4e8;--0fs:italic`).
+ */
+function getTokenStyle(element: Element, styleVariantIndex: number): Omit<TextRun, 'text' | 'column'> {
+	const inlineStyles = getInlineStyles(element)
+	const prefix = `--${styleVariantIndex}`
+	const tokenStyle: Omit<TextRun, 'text' | 'column'> = {}
+	const color = inlineStyles.get(prefix)
+	const fontStyle = inlineStyles.get(`${prefix}fs`)
+	const fontWeight = inlineStyles.get(`${prefix}fw`)
+	const textDecoration = inlineStyles.get(`${prefix}td`)
+	if (color) tokenStyle.color = color
+	if (fontStyle) tokenStyle.fontStyle = fontStyle
+	if (fontWeight) tokenStyle.fontWeight = fontWeight
+	if (textDecoration) tokenStyle.textDecoration = textDecoration
+	return tokenStyle
+}
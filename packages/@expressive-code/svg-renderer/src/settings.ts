@@ -0,0 +1,51 @@
+import type { StyleSettingPath, StyleVariant } from '@expressive-code/core'
+import { getCssVarName } from '@expressive-code/core'
+
+export type SettingResolver = ReturnType<typeof createSettingResolver>
+
+/**
+ * Creates a helper that reads resolved style settings of the given style variant
+ * and converts them to values that can be used in SVG attributes.
+ *
+ * As SVG images are rendered without the Expressive Code stylesheet, any references to
+ * other style settings (e.g. `var(--ec-codeBg)`) are replaced by their resolved values.
+ */
+export function createSettingResolver({ styleVariant, rootFontSize }: { styleVariant: StyleVariant; rootFontSize: number }) {
+	const resolveValue = (value: string | undefined, depth = 0): string | undefined => {
+		if (value === undefined || depth > 10) return
+		const varMatch = value.trim().match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.*))?\)$/)
+		if (!varMatch) return value.trim()
+		const [, varName, fallback] = varMatch
+		return resolveValue(styleVariant.cssVarDeclarations.get(varName), depth + 1) ?? resolveValue(fallback, depth + 1)
+	}
+
+	const get = (path: string, fallback?: string) => {
+		const value = resolveValue(styleVariant.resolvedStyleSettings.get(path as StyleSettingPath) ?? styleVariant.cssVarDeclarations.get(getCssVarName(path as StyleSettingPath)))
+		// Values like `inherit` cannot be resolved without the stylesheet, so use the fallback
+		if (value === undefined || value === '' || value === 'inherit' || value === 'initial' || value === 'unset') return fallback ?? ''
+		return value
+	}
+
+	const getPx = (path: string, { fontSize = rootFontSize, fallback = 0 }: { fontSize?: number | undefined; fallback?: number | undefined } = {}) => {
+		return toPx(get(path), { fontSize, rootFontSize }) ?? fallback
+	}
+
+	return { get, getPx }
+}
+
+/**
+ * Converts the given CSS length to pixels. Supports `px`, `rem`, `em` and unitless zero values.
+ *
+ * Returns `undefined` if the value cannot be converted.
+ */
+export function toPx(value: string, { fontSize, rootFontSize }: { fontSize: number; rootFontSize: number }) {
+	const match = value.trim().match(/^(-?[\d.]+)(px|rem|em)?$/)
+	if (!match) return
+	const [, amount, unit] = match
+	const number = Number(amount)
+	if (isNaN(number)) return
+	if (unit === 'rem') return number * rootFontSize
+	if (unit === 'em') return number * fontSize
+	if (!unit && number !== 0) return
+	return number
+}
@@ -0,0 +1,362 @@
+import type { Element } from '@expressive-code/core/hast'
+import { s } from '@expressive-code/core/hast'
+import type { BlockLayout, LineLayout, MarkerType } from './layout'
+import type { SettingResolver } from './settings'
+
+export type SvgMetrics = {
+	fontSize: number
+	lineHeight: number
+	charWidth: number
+	rootFontSize: number
+}
+
+export type SvgFontFace = {
+	family: string
+	dataUrl: string
+	format: string
+}
+
+/**
+ * Draws the given code blocks as a standalone SVG image, stacking them vertically.
+ */
+export function getSvgAst({
+	blocks,
+	settings,
+	metrics,
+	fontFace,
+}: {
+	blocks: BlockLayout[]
+	settings: SettingResolver
+	metrics: SvgMetrics
+	fontFace?: SvgFontFace | undefined
+}): Element {
+	const { fontSize, charWidth, rootFontSize } = metrics
+	const codeFontFamily = [fontFace && `'${fontFace.family}'`, settings.get('codeFontFamily', 'monospace')].filter(Boolean).join(',')
+	const uiFontSize = settings.getPx('uiFontSize', { fallback: rootFontSize * 0.9 })
+	const uiLineHeight = Number(settings.get('uiLineHeight', '1.65')) || 1.65
+	const uiPaddingBlock = settings.getPx('uiPaddingBlock', { fontSize: uiFontSize })
+	const uiPaddingInline = settings.getPx('uiPaddingInline', { fontSize: uiFontSize })
+	const codePaddingBlock = settings.getPx('codePaddingBlock', { fontSize })
+	const codePaddingInline = settings.getPx('codePaddingInline', { fontSize })
+	const borderWidth = settings.getPx('borderWidth')
+	const borderRadius = settings.getPx('borderRadius')
+	const headerHeight = uiFontSize * uiLineHeight + 2 * uiPaddingBlock
+	// UI texts are not rendered in a monospace font, so this is only an estimate
+	const uiCharWidth = uiFontSize * 0.55
+	const blockGap = rootFontSize
+
+	const context: DrawContext = {
+		settings,
+		metrics,
+		codeFontFamily,
+		uiFontFamily: settings.get('uiFontFamily', 'sans-serif'),
+		uiFontSize,
+		uiPaddingInline,
+		uiCharWidth,
+		headerHeight,
+		codePaddingBlock,
+		codePaddingInline,
+		borderWidth,
+		borderRadius,
+		width: 0,
+	}
+
+	// All blocks share the same width, which is determined by the widest block contents
+	context.width = Math.max(
+		...blocks.map((block) => {
+			const codeWidth = getGutterWidth(block, charWidth) + 2 * codePaddingInline + Math.max(0, ...block.lines.map((line) => line.columns)) * charWidth
+			const titleWidth = block.title ? block.title.length * uiCharWidth + 2 * uiPaddingInline + (block.frameType === 'terminal' ? 2 * terminalDotsWidth : 0) : 0
+			return Math.max(codeWidth, titleWidth) + 2 * borderWidth
+		})
+	)
+
+	let y = 0
+	const blockElements = blocks.map((block, blockIndex) => {
+		if (blockIndex > 0) y += blockGap
+		const { element, height } = drawBlock({ block, blockIndex, y, context })
+		y += height
+		return element
+	})
+
+	const width = round(context.width)
+	const height = round(y)
+	const defs = fontFace ? [s('defs', [s('style', `@font-face{font-family:'${fontFace.family}';src:url(${fontFace.dataUrl}) format('${fontFace.format}')}`)])] : []
+
+	return s(
+		'svg',
+		{
+			xmlns: 'http://www.w3.org/2000/svg',
+			width,
+			height,
+			viewBox: `0 0 ${width} ${height}`,
+		},
+		[...defs, ...blockElements]
+	)
+}
+
+type DrawContext = {
+	settings: SettingResolver
+	metrics: SvgMetrics
+	codeFontFamily: string
+	uiFontFamily: string
+	uiFontSize: number
+	uiPaddingInline: number
+	uiCharWidth: number
+	headerHeight: number
+	codePaddingBlock: number
+	codePaddingInline: number
+	borderWidth: number
+	borderRadius: number
+	width: number
+}
+
+const terminalDotsWidth = 60 * 0.6
+
+function drawBlock({ block, blockIndex, y, context }: { block: BlockLayout; blockIndex: number; y: number; context: DrawContext }) {
+	const { settings, metrics, headerHeight, codePaddingBlock, borderWidth, borderRadius, width } = context
+	const hasHeader = block.frameType === 'terminal' || (block.frameType === 'editor' && block.title !== undefined)
+	const contentHeight = (hasHeader ? headerHeight : 0) + 2 * codePaddingBlock + block.lines.length * metrics.lineHeight
+	const height = contentHeight + 2 * borderWidth
+	const clipPathId = `ec-clip-${blockIndex}`
+
+	let background = settings.get('codeBackground')
+	if (block.frameType === 'editor') background = settings.get('frames.editorBackground', background)
+	if (block.frameType === 'terminal') background = settings.get('frames.terminalBackground', background)
+
+	const innerX = borderWidth
+	const innerY = y + borderWidth
+	const innerWidth = width - 2 * borderWidth
+	const children: Element[] = []
+
+	if (block.frameType === 'editor' && hasHeader) children.push(...drawEditorTabBar({ title: block.title ?? '', x: innerX, y: innerY, width: innerWidth, context }))
+	if (block.frameType === 'terminal') children.push(...drawTerminalTitleBar({ title: block.title ?? '', x: innerX, y: innerY, width: innerWidth, context }))
+
+	const gutterWidth = getGutterWidth(block, metrics.charWidth)
+	const linesY = innerY + (hasHeader ? headerHeight : 0) + codePaddingBlock
+	block.lines.forEach((line, lineIndex) => {
+		children.push(...drawLine({ line, isTerminal: block.frameType === 'terminal', gutterWidth, x: innerX, y: linesY + lineIndex * metrics.lineHeight, width: innerWidth, context }))
+	})
+
+	const element = s('g', [
+		s('clipPath', { id: clipPathId }, [
+			s('rect', { x: round(innerX), y: round(innerY), width: round(innerWidth), height: round(contentHeight), rx: round(Math.max(0, borderRadius - borderWidth)) }),
+		]),
+		s('rect', {
+			x: round(borderWidth / 2),
+			y: round(y + borderWidth / 2),
+			width: round(width - borderWidth),
+			height: round(height - borderWidth),
+			rx: round(borderRadius),
+			fill: background,
+			stroke: settings.get('borderColor', 'transparent'),
+			strokeWidth: round(borderWidth),
+		}),
+		s('g', { clipPath: `url(#${clipPathId})` }, children),
+	])
+
+	return { element, height }
+}
+
+function drawEditorTabBar({ title, x, y, width, context }: { title: string; x: number; y: number; width: number; context: DrawContext }) {
+	const { settings, headerHeight, uiPaddingInline, uiCharWidth } = context
+	const tabWidth = title.length * uiCharWidth + 2 * uiPaddingInline
+	const indicatorHeight = settings.getPx('frames.editorActiveTabIndicatorHeight')
+	return [
+		s('rect', { x: round(x), y: round(y), width: round(width), height: round(headerHeight), fill: settings.get('frames.editorTabBarBackground', 'transparent') }),
+		s('rect', { x: round(x), y: round(y), width: round(tabWidth), height: round(headerHeight), fill: settings.get('frames.editorActiveTabBackground', 'transparent') }),
+		s('rect', { x: round(x), y: round(y), width: round(tabWidth), height: round(indicatorHeight), fill: settings.get('frames.editorActiveTabIndicatorTopColor', 'transparent') }),
+		drawUiText({ text: title, x: x + uiPaddingInline, y: y + headerHeight / 2, fill: settings.get('frames.editorActiveTabForeground', settings.get('codeForeground')), context }),
+	]
+}
+
+function drawTerminalTitleBar({ title, x, y, width, context }: { title: string; x: number; y: number; width: number; context: DrawContext }) {
+	const { settings, headerHeight, uiPaddingInline } = context
+	const borderBottomWidth = settings.getPx('borderWidth')
+	// Draw the three window dots, scaled down from their 60x16 source dimensions
+	const dotsScale = 0.6
+	const dotsY = y + headerHeight / 2
+	const dots = [8, 30, 52].map((cx) => s('circle', { cx: round(x + uiPaddingInline + cx * dotsScale), cy: round(dotsY), r: round(8 * dotsScale) }))
+	return [
+		s('rect', { x: round(x), y: round(y), width: round(width), height: round(headerHeight), fill: settings.get('frames.terminalTitlebarBackground', 'transparent') }),
+		s('rect', {
+			x: round(x),
+			y: round(y + headerHeight - borderBottomWidth),
+			width: round(width),
+			height: round(borderBottomWidth),
+			fill: settings.get('frames.terminalTitlebarBorderBottomColor', 'transparent'),
+		}),
+		s('g', { fill: settings.get('frames.terminalTitlebarDotsForeground', 'currentColor'), fillOpacity: settings.get('frames.terminalTitlebarDotsOpacity', '0.15') }, dots),
+		drawUiText({ text: title, x: x + width / 2, y: dotsY, textAnchor: 'middle', fill: settings.get('frames.terminalTitlebarForeground', settings.get('codeForeground')), context }),
+	]
+}
+
+function drawLine({
+	line,
+	isTerminal,
+	gutterWidth,
+	x,
+	y,
+	width,
+	context,
+}: {
+	line: LineLayout
+	isTerminal: boolean
+	gutterWidth: number
+	x: number
+	y: number
+	width: number
+	context: DrawContext
+}) {
+	const { settings, metrics, codePaddingInline } = context
+	const { lineHeight, charWidth } = metrics
+	const elements: Element[] = []
+	const codeX = x + gutterWidth
+	const textX = codeX + codePaddingInline
+
+	// Line-level text markers
+	const { markerType } = line
+	if (markerType) {
+		elements.push(s('rect', { x: round(x), y: round(y), width: round(width), height: round(lineHeight), fill: settings.get(`textMarkers.${markerType}Background`, 'transparent') }))
+	}
+
+	// Border on the start of the code line (either the gutter border or the marker accent bar)
+	const borderColor = markerType ? settings.get(`textMarkers.${markerType}BorderColor`) : gutterWidth > 0 ? settings.get('gutterBorderColor') : ''
+	if (borderColor) {
+		const borderWidth = markerType ? settings.getPx('textMarkers.lineMarkerAccentWidth') : settings.getPx('gutterBorderWidth')
+		elements.push(s('rect', { x: round(codeX), y: round(y), width: round(borderWidth), height: round(lineHeight), fill: borderColor }))
+	}
+
+	// Diff indicators of inserted and deleted lines
+	if (markerType === 'ins' || markerType === 'del') {
+		const indicator = getDiffIndicator(markerType, settings)
+		if (indicator) {
+			const indicatorX = codeX + settings.getPx('textMarkers.lineDiffIndicatorMarginLeft', { fontSize: metrics.fontSize })
+			elements.push(drawCodeText({ runs: [{ text: indicator, x: indicatorX }], y, fill: settings.get(`textMarkers.${markerType}DiffIndicatorColor`), context }))
+		}
+	}
+
+	// Inline text markers
+	const inlineMarkerPadding = settings.getPx('textMarkers.inlineMarkerPadding', { fontSize: metrics.fontSize })
+	const inlineMarkerBorderWidth = settings.getPx('textMarkers.inlineMarkerBorderWidth')
+	line.inlineMarkers.forEach((marker) => {
+		elements.push(
+			s('rect', {
+				x: round(textX + marker.columnStart * charWidth - inlineMarkerPadding + inlineMarkerBorderWidth / 2),
+				y: round(y + inlineMarkerBorderWidth / 2),
+				width: round((marker.columnEnd - marker.columnStart) * charWidth + 2 * inlineMarkerPadding - inlineMarkerBorderWidth),
+				height: round(lineHeight - inlineMarkerBorderWidth),
+				rx: round(settings.getPx('textMarkers.inlineMarkerBorderRadius', { fontSize: metrics.fontSize })),
+				fill: settings.get(`textMarkers.${marker.markerType}Background`, 'transparent'),
+				stroke: settings.get(`textMarkers.${marker.markerType}BorderColor`, 'transparent'),
+				strokeWidth: round(inlineMarkerBorderWidth),
+			})
+		)
+	})
+
+	// Line numbers, right-aligned and followed by a padding of 2 characters
+	if (line.lineNumber !== undefined) {
+		const gutterForeground = line.isHighlighted
+			? settings.get('lineNumbers.highlightForeground', settings.get('gutterHighlightForeground'))
+			: settings.get('lineNumbers.foreground', settings.get('gutterForeground'))
+		elements.push(drawCodeText({ runs: [{ text: line.lineNumber, x: codeX - 2 * charWidth }], y, fill: gutterForeground, textAnchor: 'end', context }))
+	}
+
+	// Code contents
+	if (line.runs.length) {
+		const defaultForeground = isTerminal && line.isTerminalOutput ? settings.get('frames.terminalOutputForeground', settings.get('codeForeground')) : settings.get('codeForeground')
+		elements.push(
+			drawCodeText({
+				runs: line.runs.map((run) => ({ ...run, x: textX + run.column * charWidth })),
+				y,
+				fill: defaultForeground,
+				context,
+			})
+		)
+	}
+
+	return elements
+}
+
+type PositionedRun = {
+	text: string
+	x: number
+	color?: string | undefined
+	fontStyle?: string | undefined
+	fontWeight?: string | undefined
+	textDecoration?: string | undefined
+}
+
+function drawCodeText({ runs, y, fill, textAnchor, context }: { runs: PositionedRun[]; y: number; fill: string; textAnchor?: string | undefined; context: DrawContext }) {
+	const { metrics, codeFontFamily, settings } = context
+	return s(
+		'text',
+		{
+			y: round(getBaseline(y, metrics.lineHeight, metrics.fontSize)),
+			fill,
+			fontFamily: codeFontFamily,
+			fontSize: round(metrics.fontSize),
+			fontWeight: settings.get('codeFontWeight') || undefined,
+			textAnchor,
+			xmlSpace: 'preserve',
+		},
+		runs.map((run) =>
+			s(
+				'tspan',
+				{
+					x: round(run.x),
+					fill: run.color,
+					fontStyle: run.fontStyle,
+					fontWeight: run.fontWeight,
+					textDecoration: run.textDecoration,
+				},
+				run.text
+			)
+		)
+	)
+}
+
+function drawUiText({ text, x, y, fill, textAnchor, context }: { text: string; x: number; y: number; fill: string; textAnchor?: string | undefined; context: DrawContext }) {
+	const { uiFontFamily, uiFontSize, settings } = context
+	return s(
+		'text',
+		{
+			x: round(x),
+			y: round(y + uiFontSize * 0.35),
+			fill,
+			fontFamily: uiFontFamily,
+			fontSize: round(uiFontSize),
+			fontWeight: settings.get('uiFontWeight') || undefined,
+			textAnchor,
+			xmlSpace: 'preserve',
+		},
+		text
+	)
+}
+
+/**
+ * Returns the width of the line number gutter. Just like the line numbers plugin,
+ * the gutter is at least 2 characters wide and has an inline padding of 2 characters.
+ */
+function getGutterWidth(block: BlockLayout, charWidth: number) {
+	const lineNumberLengths = block.lines.map((line) => line.lineNumber?.length ?? -1)
+	const maxLength = Math.max(-1, ...lineNumberLengths)
+	if (maxLength < 0) return 0
+	return (Math.max(2, maxLength) + 4) * charWidth
+}
+
+function getDiffIndicator(markerType: Exclude<MarkerType, 'mark'>, settings: SettingResolver) {
+	const content = settings.get(`textMarkers.${markerType}DiffIndicatorContent`, markerType === 'ins' ? '+' : '-')
+	// The setting contains a CSS string value, so remove any surrounding quotes
+	return content.replace(/^(['"])(.*)\1$/, '$2')
+}
+
+/**
+ * Returns the baseline of a text vertically centered in a line box.
+ */
+function getBaseline(lineY: number, lineHeight: number, fontSize: number) {
+	return lineY + lineHeight / 2 + fontSize * 0.35
+}
+
+function round(value: number) {
+	return Math.round(value * 100) / 100
+}
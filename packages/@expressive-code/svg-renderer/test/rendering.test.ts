@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest'
+import { ExpressiveCodeEngine, ExpressiveCodeTheme } from '@expressive-code/core'
+import { pluginShiki } from '@expressive-code/plugin-shiki'
+import { pluginTextMarkers } from '@expressive-code/plugin-text-markers'
+import { pluginFrames } from '@expressive-code/plugin-frames'
+import { pluginLineNumbers } from '@expressive-code/plugin-line-numbers'
+import { loadTestThemes } from '@internal/test-utils'
+import { renderToSvg } from '../src'
+
+const exampleCode = `
+const greeting = 'Hello'
+console.log(greeting)
+`.trim()
+
+function createEngine(themes?: ExpressiveCodeTheme[]) {
+	return new ExpressiveCodeEngine({
+		themes,
+		plugins: [pluginShiki(), pluginTextMarkers(), pluginFrames(), pluginLineNumbers()],
+	})
+}
+
+describe('Renders code blocks to SVG', () => {
+	test('Creates a standalone SVG image', async () => {
+		const engine = createEngine()
+		const { svg, width, height } = await renderToSvg({ engine, input: { code: exampleCode, language: 'js' } })
+		expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="[\d.]+" height="[\d.]+" viewBox="0 0 [\d.]+ [\d.]+">/)
+		expect(svg).toContain('>const</tspan>')
+		expect(svg).toContain(`>'Hello'</tspan>`)
+		expect(width).toBeGreaterThan(0)
+		expect(height).toBeGreaterThan(0)
+		// Expect no unresolved CSS variables
+		expect(svg).not.toContain('var(')
+	})
+	test('Renders editor titles and line numbers', async () => {
+		const engine = createEngine()
+		const { svg } = await renderToSvg({ engine, input: { code: exampleCode, language: 'js', meta: 'title="greeting.js"' } })
+		expect(svg).toContain('>greeting.js</text>')
+		expect(svg).toMatch(/text-anchor="end"[^>]*><tspan[^>]*>1<\/tspan>/)
+		expect(svg).toMatch(/text-anchor="end"[^>]*><tspan[^>]*>2<\/tspan>/)
+	})
+	test('Renders terminal frames with window dots', async () => {
+		const engine = createEngine()
+		const { svg } = await renderToSvg({ engine, input: { code: 'npm install', language: 'sh', meta: 'title="Installation"' } })
+		expect(svg).toContain('>Installation</text>')
+		expect(svg.match(/<circle /g)).toHaveLength(3)
+	})
+	test('Renders text markers', async () => {
+		const engine = createEngine()
+		const styleVariant = engine.styleVariants[0]
+		const { svg } = await renderToSvg({ engine, input: { code: exampleCode, language: 'js', meta: 'ins={2} "greeting"' } })
+		expect(svg).toContain(`fill="${styleVariant.resolvedStyleSettings.get('textMarkers.insBackground')}"`)
+		expect(svg).toContain(`stroke="${styleVariant.resolvedStyleSettings.get('textMarkers.markBorderColor')}"`)
+		expect(svg).toContain('>+</tspan>')
+	})
+	test('Uses the colors of the selected style variant', async () => {
+		const themes = await loadTestThemes()
+		const engine = createEngine(themes.slice(0, 2))
+		for (const styleVariantIndex of [0, 1]) {
+			const { svg } = await renderToSvg({ engine, input: { code: exampleCode, language: 'js' }, styleVariantIndex })
+			const codeBackground = engine.styleVariants[styleVariantIndex].resolvedStyleSettings.get('codeBackground')
+			expect(svg).toContain(`fill="${codeBackground}"`)
+		}
+		await expect(renderToSvg({ engine, input: { code: exampleCode, language: 'js' }, styleVariantIndex: 2 })).rejects.toThrow(/Invalid style variant index 2/)
+	})
+	test('Positions text using the configured character width', async () => {
+		const engine = createEngine()
+		const input = { code: 'a  b', language: 'txt', props: { frame: 'none' as const, showLineNumbers: false } }
+		const { svg: narrowSvg, width: narrowWidth } = await renderToSvg({ engine, input, charWidth: 5 })
+		const { width: wideWidth } = await renderToSvg({ engine, input, charWidth: 10 })
+		expect(wideWidth - narrowWidth).toBeCloseTo(4 * 5)
+		const xPositions = [...narrowSvg.matchAll(/<tspan x="([\d.]+)"/g)].map((match) => Number(match[1]))
+		expect(xPositions).toHaveLength(1)
+	})
+	test('Embeds fonts', async () => {
+		const engine = createEngine()
+		const { svg } = await renderToSvg({
+			engine,
+			input: { code: exampleCode, language: 'js' },
+			embedFont: { family: 'Test Mono', data: new Uint8Array([1, 2, 3]) },
+		})
+		expect(svg).toContain(`@font-face{font-family:'Test Mono';src:url(data:font/woff2;base64,AQID) format('woff2')}`)
+		expect(svg).toContain('font-family="&#x27;Test Mono&#x27;,')
+	})
+})
@@ -0,0 +1,49 @@
+/**
+ * Keeps track of additional files that code blocks in Markdown & MDX documents depend on
+ * (e.g. source files that their code was imported from), and of the documents that need
+ * to be re-rendered when any of these files change.
+ */
+export type FileDependencies = {
+	/**
+	 * Registers the given file as a dependency of the given document.
+	 */
+	add: (filePath: string, documentPath: string | undefined) => void
+	/**
+	 * Returns the paths of all documents that depend on the given file.
+	 */
+	getDependentDocuments: (filePath: string) => string[]
+	/**
+	 * Returns the paths of all registered files.
+	 */
+	getFiles: () => string[]
+	/**
+	 * An optional callback that is called whenever a new file gets registered.
+	 */
+	onNewFile?: ((filePath: string) => void) | undefined
+}
+
+/**
+ * Normalizes the given file path to use forward slashes, matching the format used by Vite.
+ */
+export function normalizeFilePath(filePath: string) {
+	return filePath.replace(/\\/g, '/')
+}
+
+export function createFileDependencies(): FileDependencies {
+	const documentsByFile = new Map<string, Set<string>>()
+	const fileDependencies: FileDependencies = {
+		add: (filePath, documentPath) => {
+			const normalizedPath = normalizeFilePath(filePath)
+			let documents = documentsByFile.get(normalizedPath)
+			if (!documents) {
+				documents = new Set()
+				documentsByFile.set(normalizedPath, documents)
+				fileDependencies.onNewFile?.(normalizedPath)
+			}
+			if (documentPath) documents.add(normalizeFilePath(documentPath))
+		},
+		getDependentDocuments: (filePath) => [...(documentsByFile.get(normalizeFilePath(filePath)) ?? [])],
+		getFiles: () => [...documentsByFile.keys()],
+	}
+	return fileDependencies
+}
@@ -4,6 +4,7 @@ import rehypeExpressiveCode from 'rehype-expressive-code'
 import { ConfigSetupHookArgs, PartialAstroConfig } from './astro-config'
 import { AstroExpressiveCodeOptions, CustomConfigPreprocessors, ConfigPreprocessorFn, getEcConfigFileUrl, loadEcConfigFile } from './ec-config'
 import { createAstroRenderer } from './renderer'
+import { createFileDependencies } from './file-dependencies'
 import { vitePluginAstroExpressiveCode } from './vite-plugin'
 
 export * from 'rehype-expressive-code'
@@ -62,6 +63,10 @@ export function astroExpressiveCode(integrationOptions: AstroExpressiveCodeOptio
 
 				const { hashedStyles, hashedScripts, ...renderer } = await (customCreateAstroRenderer ?? createAstroRenderer)({ astroConfig, ecConfig: processedEcConfig, logger })
 
+				// Keep track of files that code blocks depend on (e.g. imported source files)
+				// to allow re-rendering their documents when these files change
+				const fileDependencies = createFileDependencies()
+
 				const rehypeExpressiveCodeOptions: RehypeExpressiveCodeOptions = {
 					// Even though we have created a custom renderer, some options are used
 					// by the rehype integration itself (e.g. `tabWidth`, `getBlockLocale`),
@@ -69,6 +74,11 @@ export function astroExpressiveCode(integrationOptions: AstroExpressiveCodeOptio
 					...processedEcConfig,
 					// Pass our custom renderer to the rehype integration
 					customCreateRenderer: () => renderer,
+					// Register files that code blocks depend on
+					addWatchFile: (args) => {
+						fileDependencies.add(args.filePath, args.file.path)
+						processedEcConfig.addWatchFile?.(args)
+					},
 				}
 
 				updateConfig({
@@ -80,6 +90,7 @@ export function astroExpressiveCode(integrationOptions: AstroExpressiveCodeOptio
 								ecIntegrationOptions: integrationOptions,
 								astroConfig,
 								command,
+								fileDependencies,
 							}),
 						],
 					},
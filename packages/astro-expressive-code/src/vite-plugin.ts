@@ -3,12 +3,16 @@ import { stableStringify } from 'rehype-expressive-code'
 import { getEcConfigFileUrl } from './ec-config'
 import { PartialAstroConfig, serializePartialAstroConfig } from './astro-config'
 import { AstroExpressiveCodeOptions } from './ec-config'
+import { FileDependencies } from './file-dependencies'
 
 /**
  * This Vite plugin provides access to page-wide styles & scripts that the Astro integration
  * extracted from its `RehypeExpressiveCodeRenderer`. We extract these contents from the renderer
  * to prevent the rehype plugin from repeatedly injecting them into the HTML output of every page
  * while still allowing pages to load them on demand if they contain code blocks.
+ *
+ * In dev mode, it also watches files that code blocks depend on (e.g. imported source files)
+ * and reloads the page when any of these files change.
  */
 export function vitePluginAstroExpressiveCode({
 	styles,
@@ -16,12 +20,14 @@ export function vitePluginAstroExpressiveCode({
 	ecIntegrationOptions,
 	astroConfig,
 	command,
+	fileDependencies,
 }: {
 	styles: [string, string][]
 	scripts: [string, string][]
 	ecIntegrationOptions: AstroExpressiveCodeOptions
 	astroConfig: PartialAstroConfig
 	command: 'dev' | 'build' | 'preview'
+	fileDependencies?: FileDependencies | undefined
 }): NonNullable<ViteUserConfig['plugins']>[number] {
 	const modules: Record<string, string> = {}
 
@@ -82,9 +88,30 @@ export function vitePluginAstroExpressiveCode({
 			if (getVirtualModuleContents(source)) return `\0${source}`
 		},
 		load: (id) => (id?.[0] === '\0' ? getVirtualModuleContents(id.slice(1)) : undefined),
-		// If any file imported by the EC config file changes, restart the server
-		async handleHotUpdate({ modules, server }) {
-			if (!modules || !server) return
+		configureServer(server) {
+			if (!fileDependencies) return
+			// Watch all files that code blocks depend on, including any files
+			// outside of the project root that Vite would not watch by default
+			const files = fileDependencies.getFiles()
+			if (files.length) server.watcher.add(files)
+			fileDependencies.onNewFile = (filePath) => server.watcher.add(filePath)
+		},
+		async handleHotUpdate({ file, modules, server }) {
+			if (!server) return
+			// If any file that code blocks depend on changes, invalidate the modules
+			// of all documents containing these code blocks and reload the page
+			const dependentDocuments = fileDependencies?.getDependentDocuments(file) ?? []
+			if (dependentDocuments.length) {
+				dependentDocuments.forEach((documentPath) => {
+					server.moduleGraph.getModulesByFile(documentPath)?.forEach((module) => server.moduleGraph.invalidateModule(module))
+				})
+				// Keep using `ws` as `hot` is not available in Vite versions used by Astro 3
+				// eslint-disable-next-line deprecation/deprecation
+				server.ws.send({ type: 'full-reload' })
+				return []
+			}
+			// If any file imported by the EC config file changes, restart the server
+			if (!modules) return
 			const isImportedByEcConfig = (module: (typeof modules)[0], depth: number = 0) => {
 				if (!module || !module.importers || depth >= 6) return false
 				for (const importingModule of module.importers) {
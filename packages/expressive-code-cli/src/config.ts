@@ -0,0 +1,34 @@
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { RehypeExpressiveCodeOptions } from 'rehype-expressive-code'
+
+export const defaultConfigFileName = 'ec.config.mjs'
+
+/**
+ * Attempts to import the EC config file at the given path and returns its default export.
+ *
+ * If no path is given, the CLI looks for an `ec.config.mjs` file in the current working
+ * directory and returns an empty object if it does not exist. If a path is given,
+ * the file must exist.
+ */
+export async function loadEcConfigFile(configPath?: string): Promise<RehypeExpressiveCodeOptions> {
+	const absolutePath = resolve(configPath ?? defaultConfigFileName)
+	if (!existsSync(absolutePath)) {
+		if (configPath === undefined) return {}
+		throw new Error(`The Expressive Code config file "${configPath}" does not exist.`)
+	}
+	try {
+		const module = (await import(pathToFileURL(absolutePath).href)) as { default: RehypeExpressiveCodeOptions }
+		if (!module.default) {
+			throw new Error(`Missing or invalid default export. Please export your Expressive Code config object as the default export.`)
+		}
+		return module.default
+	} catch (error) {
+		const message = error instanceof Error ? error.message : (error as string)
+		throw new Error(
+			`The Expressive Code config file "${absolutePath}" could not be loaded due to the following error: ${message}`,
+			error instanceof Error ? { cause: error } : undefined
+		)
+	}
+}
@@ -0,0 +1,32 @@
+import type { RehypeExpressiveCodeOptions } from 'rehype-expressive-code'
+
+export * from 'rehype-expressive-code'
+export * from './config'
+export * from './render'
+export * from './render-files'
+export * from './run-cli'
+
+/**
+ * A utility function that helps you define an Expressive Code configuration object. It is meant
+ * to be used inside the config file `ec.config.mjs` passed to the `expressive-code` CLI command,
+ * and its return value to be exported as the default export.
+ *
+ * Using this function is recommended, but not required. It just passes through the given object,
+ * but it also provides type information for your editor's auto-completion and type checking.
+ *
+ * @example
+ * ```js
+ * // ec.config.mjs
+ * import { defineEcConfig } from 'expressive-code-cli'
+ *
+ * export default defineEcConfig({
+ *   themes: ['dracula', 'github-light'],
+ *   styleOverrides: {
+ *     borderRadius: '0.5rem',
+ *   },
+ * })
+ * ```
+ */
+export function defineEcConfig(config: RehypeExpressiveCodeOptions) {
+	return config
+}
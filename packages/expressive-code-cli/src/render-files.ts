@@ -0,0 +1,124 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, extname, isAbsolute, join, relative, resolve } from 'node:path'
+import type { RehypeExpressiveCodeOptions } from 'rehype-expressive-code'
+import { createCliRenderer, getInputType, renderDocument } from './render'
+
+export type RenderFilesOptions = {
+	/**
+	 * The paths of the Markdown, HTML or source code files to render.
+	 */
+	inputFiles: string[]
+	/**
+	 * The directory to write the rendered HTML files and the CSS and JS files to.
+	 */
+	outDir: string
+	/**
+	 * The directory that the paths of the output HTML files are relative to.
+	 * All input files must be located inside this directory.
+	 *
+	 * For example, if `rootDir` is `docs`, the input file `docs/guides/intro.md` will be
+	 * written to `<outDir>/guides/intro.html`.
+	 *
+	 * Defaults to the current working directory.
+	 */
+	rootDir?: string | undefined
+	/**
+	 * The Expressive Code configuration used to render all code blocks.
+	 */
+	config?: RehypeExpressiveCodeOptions | undefined
+	/**
+	 * The language used to render raw source code files.
+	 * Defaults to the file extension of each source code file.
+	 */
+	language?: string | undefined
+	/**
+	 * The meta string used to render raw source code files (e.g. `title="example.js" {2-3}`).
+	 */
+	meta?: string | undefined
+	/**
+	 * The file name of the CSS file containing the base and theme styles,
+	 * relative to `outDir`.
+	 *
+	 * @default 'ec.css'
+	 */
+	cssFileName?: string | undefined
+	/**
+	 * The file name of the JS file containing all JS modules, relative to `outDir`.
+	 *
+	 * @default 'ec.js'
+	 */
+	jsFileName?: string | undefined
+}
+
+export type RenderFilesResult = {
+	/**
+	 * The paths of all written HTML files.
+	 */
+	htmlFiles: string[]
+	/**
+	 * The path of the written CSS file.
+	 */
+	cssFile: string
+	/**
+	 * The path of the written JS file.
+	 */
+	jsFile: string
+}
+
+/**
+ * Renders all code blocks in the given input files and writes the output HTML files,
+ * together with a CSS file containing the deduplicated base and theme styles
+ * and a JS file containing all JS modules, to the output directory.
+ *
+ * The styles and scripts are not inlined into the HTML files, so you need to include
+ * the CSS and JS files in all pages containing code blocks yourself.
+ */
+export async function renderFiles(options: RenderFilesOptions): Promise<RenderFilesResult> {
+	const { inputFiles, outDir, rootDir = '.', config = {}, language, meta, cssFileName = 'ec.css', jsFileName = 'ec.js' } = options
+	const renderer = await createCliRenderer(config)
+
+	const htmlFiles: string[] = []
+	for (const inputFile of inputFiles) {
+		const contents = await readFile(inputFile, 'utf8')
+		const inputType = getInputType(inputFile)
+		const html = await renderDocument({ contents, filePath: resolve(inputFile), inputType, language, meta, renderer, options: config })
+		const htmlFile = join(outDir, getOutputPath({ inputFile, rootDir, inputType }))
+		await writeOutputFile(htmlFile, html)
+		htmlFiles.push(htmlFile)
+	}
+
+	const cssFile = join(outDir, cssFileName)
+	await writeOutputFile(cssFile, renderer.externalStyles.join(''))
+	const jsFile = join(outDir, jsFileName)
+	await writeOutputFile(jsFile, renderer.externalJsModules.join('\n'))
+
+	// If the render cache is enabled, log how many code block groups were reused
+	if (renderer.cache) {
+		const { hits, misses } = renderer.cache.stats
+		const hitRate = hits + misses ? Math.round((hits / (hits + misses)) * 100) : 0
+		renderer.ec.logger.info(`Render cache: ${hits} hits, ${misses} misses (${hitRate}% hit rate)`)
+	}
+
+	return { htmlFiles, cssFile, jsFile }
+}
+
+/**
+ * Returns the path of the HTML file for the given input file, relative to the output directory.
+ *
+ * Markdown files replace their extension with `.html`, HTML files keep their name,
+ * and source code files get `.html` appended to their name (e.g. `index.ts.html`).
+ */
+function getOutputPath({ inputFile, rootDir, inputType }: { inputFile: string; rootDir: string; inputType: ReturnType<typeof getInputType> }) {
+	const relativePath = relative(resolve(rootDir), resolve(inputFile))
+	if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+		throw new Error(`The input file "${inputFile}" is not located inside the root directory "${rootDir}".`)
+	}
+	if (inputType === 'markdown') return relativePath.slice(0, -extname(relativePath).length) + '.html'
+	if (inputType === 'html') return relativePath
+	return `${relativePath}.html`
+}
+
+async function writeOutputFile(filePath: string, contents: string) {
+	await mkdir(dirname(filePath), { recursive: true })
+	await writeFile(filePath, contents, 'utf8')
+}
@@ -0,0 +1,129 @@
+import { basename, extname } from 'node:path'
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkRehype from 'remark-rehype'
+import rehypeParse from 'rehype-parse'
+import rehypeStringify from 'rehype-stringify'
+import rehypeExpressiveCode, { RehypeExpressiveCodeOptions, RehypeExpressiveCodeRenderer, createRenderer } from 'rehype-expressive-code'
+import type { Root } from 'rehype-expressive-code/hast'
+import { h } from 'rehype-expressive-code/hast'
+
+export type InputType = 'markdown' | 'html' | 'code'
+
+export type CliRenderer = RehypeExpressiveCodeRenderer & {
+	/**
+	 * The base and theme styles that are written to the external CSS file
+	 * instead of being inlined into the rendered HTML.
+	 */
+	externalStyles: string[]
+	/**
+	 * The JS modules that are written to the external JS file
+	 * instead of being inlined into the rendered HTML.
+	 */
+	externalJsModules: string[]
+}
+
+const markdownExtensions = ['.md', '.markdown', '.mdown', '.mkd']
+const htmlExtensions = ['.html', '.htm']
+
+/**
+ * Determines how the given input file should be processed based on its file extension.
+ *
+ * Markdown and HTML files are searched for code blocks, while all other files
+ * are treated as raw source code that is rendered as a single code block.
+ */
+export function getInputType(filePath: string): InputType {
+	const extension = extname(filePath).toLowerCase()
+	if (markdownExtensions.includes(extension)) return 'markdown'
+	if (htmlExtensions.includes(extension)) return 'html'
+	return 'code'
+}
+
+/**
+ * Returns the language of a raw source code file based on its file extension
+ * (e.g. `ts` for `index.ts`). Files without an extension use their lowercase
+ * file name instead (e.g. `dockerfile` for `Dockerfile`).
+ */
+export function getCodeLanguage(filePath: string) {
+	return extname(filePath).slice(1) || basename(filePath).toLowerCase()
+}
+
+/**
+ * Creates a renderer using the given `options` that does not inline the base styles,
+ * theme styles and JS modules into the rendered HTML. Instead, they are made available
+ * through the `externalStyles` and `externalJsModules` properties, allowing them to be
+ * written to separate files.
+ */
+export async function createCliRenderer(options: RehypeExpressiveCodeOptions = {}): Promise<CliRenderer> {
+	const { customCreateRenderer, ...rest } = options
+	const renderer = (await (customCreateRenderer ?? createRenderer)(rest)) as CliRenderer
+
+	// Move the base and theme styles and all JS modules from the inline renderer
+	// into the external assets
+	renderer.externalStyles = [...new Set([renderer.baseStyles, renderer.themeStyles].filter((styles) => styles.length))]
+	renderer.externalJsModules = [...new Set(renderer.jsModules)]
+	renderer.baseStyles = ''
+	renderer.themeStyles = ''
+	renderer.jsModules = []
+
+	return renderer
+}
+
+/**
+ * Renders all code blocks contained in the given document contents and returns the resulting HTML.
+ *
+ * Depending on the `inputType`, the contents are processed as follows:
+ * - `markdown`: The Markdown document is converted to HTML, rendering all fenced code blocks.
+ *   Any raw HTML contained in the document is passed through unchanged.
+ * - `html`: All `<pre><code class="language-...">` elements in the HTML document are rendered.
+ *   Meta information can be passed using the `metastring` attribute of the `<code>` element.
+ * - `code`: The contents are rendered as a single code block using the given `language`
+ *   and `meta` string.
+ */
+export async function renderDocument({
+	contents,
+	filePath,
+	inputType = getInputType(filePath),
+	language = getCodeLanguage(filePath),
+	meta = '',
+	renderer,
+	options = {},
+}: {
+	contents: string
+	filePath: string
+	inputType?: InputType | undefined
+	language?: string | undefined
+	meta?: string | undefined
+	renderer: CliRenderer
+	options?: RehypeExpressiveCodeOptions | undefined
+}): Promise<string> {
+	const rehypeOptions: RehypeExpressiveCodeOptions = {
+		...options,
+		customCreateRenderer: () => renderer,
+	}
+	const file = { path: filePath, value: contents }
+
+	if (inputType === 'markdown') {
+		const processor = unified()
+			.use(remarkParse)
+			.use(remarkRehype, { allowDangerousHtml: true })
+			.use(rehypeExpressiveCode, rehypeOptions)
+			.use(rehypeStringify, { allowDangerousHtml: true })
+		return (await processor.process(file)).toString()
+	}
+
+	if (inputType === 'html') {
+		const isFullDocument = /^\s*(<!--[\s\S]*?-->\s*)*<(!doctype|html)[\s>]/i.test(contents)
+		const processor = unified().use(rehypeParse, { fragment: !isFullDocument }).use(rehypeExpressiveCode, rehypeOptions).use(rehypeStringify)
+		return (await processor.process(file)).toString()
+	}
+
+	// Wrap raw source code in a code block element and render it
+	const tree: Root = {
+		type: 'root',
+		children: [h('pre', [h('code', { className: [`language-${language}`], metastring: meta }, contents)])],
+	}
+	const processor = unified().use(rehypeExpressiveCode, rehypeOptions).use(rehypeStringify)
+	const renderedTree = await processor.run(tree, file)
+	return processor.stringify(renderedTree, file)
+}
@@ -0,0 +1,83 @@
+import { parseArgs } from 'node:util'
+import { defaultConfigFileName, loadEcConfigFile } from './config'
+import { RenderFilesOptions, renderFiles } from './render-files'
+
+export const cliHelpText = `
+Usage: expressive-code [options] <files...>
+
+Renders all code blocks in the given Markdown (.md), HTML (.html) or source code files
+and writes the resulting HTML files, a CSS file and a JS file to the output directory.
+
+Options:
+  -c, --config <path>    Expressive Code config file (default: ./${defaultConfigFileName} if it exists)
+  -o, --out-dir <path>   Output directory (default: ./dist)
+  -r, --root-dir <path>  Directory that output paths are relative to (default: current directory)
+  -l, --language <lang>  Language of source code files (default: file extension)
+  -m, --meta <meta>      Meta string used to render source code files
+      --css-file <name>  Name of the CSS output file (default: ec.css)
+      --js-file <name>   Name of the JS output file (default: ec.js)
+  -h, --help             Show this help text
+`.trim()
+
+export type CliArgs = Omit<RenderFilesOptions, 'config'> & {
+	configPath?: string | undefined
+	help: boolean
+}
+
+/**
+ * Parses the given command line arguments (without the leading `node` and script paths).
+ *
+ * Throws an error if unknown options are passed or if no input files are given
+ * (unless `--help` is used).
+ */
+export function parseCliArgs(args: string[]): CliArgs {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			config: { type: 'string', short: 'c' },
+			'out-dir': { type: 'string', short: 'o' },
+			'root-dir': { type: 'string', short: 'r' },
+			language: { type: 'string', short: 'l' },
+			meta: { type: 'string', short: 'm' },
+			'css-file': { type: 'string' },
+			'js-file': { type: 'string' },
+			help: { type: 'boolean', short: 'h' },
+		},
+	})
+	const help = values.help ?? false
+	if (!help && !positionals.length) throw new Error('No input files given.')
+	return {
+		inputFiles: positionals,
+		outDir: values['out-dir'] ?? 'dist',
+		rootDir: values['root-dir'],
+		configPath: values.config,
+		language: values.language,
+		meta: values.meta,
+		cssFileName: values['css-file'],
+		jsFileName: values['js-file'],
+		help,
+	}
+}
+
+/**
+ * Runs the CLI with the given command line arguments and returns the process exit code.
+ */
+// eslint-disable-next-line no-console
+export async function runCli(args: string[], { log = console.log, logError = console.error } = {}): Promise<number> {
+	try {
+		const { configPath, help, ...renderOptions } = parseCliArgs(args)
+		if (help) {
+			log(cliHelpText)
+			return 0
+		}
+		const config = await loadEcConfigFile(configPath)
+		const { htmlFiles, cssFile, jsFile } = await renderFiles({ ...renderOptions, config })
+		log(`Rendered ${htmlFiles.length} file${htmlFiles.length === 1 ? '' : 's'} to "${renderOptions.outDir}" (styles: "${cssFile}", scripts: "${jsFile}").`)
+		return 0
+	} catch (error) {
+		logError(`expressive-code: ${error instanceof Error ? error.message : String(error)}`)
+		logError(`Run "expressive-code --help" for usage information.`)
+		return 1
+	}
+}
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { cliHelpText, loadEcConfigFile, parseCliArgs, runCli } from '../src'
+
+const fixturesDir = join(__dirname, 'fixtures')
+
+describe('parseCliArgs()', () => {
+	test('Parses input files and options', () => {
+		expect(parseCliArgs(['-c', 'my.config.mjs', '--out-dir', 'public', '-l', 'ts', '--meta', 'wrap', 'a.md', 'b.ts'])).toEqual({
+			inputFiles: ['a.md', 'b.ts'],
+			outDir: 'public',
+			rootDir: undefined,
+			configPath: 'my.config.mjs',
+			language: 'ts',
+			meta: 'wrap',
+			cssFileName: undefined,
+			jsFileName: undefined,
+			help: false,
+		})
+	})
+	test('Uses "dist" as the default output directory', () => {
+		expect(parseCliArgs(['a.md']).outDir).toEqual('dist')
+	})
+	test('Throws on missing input files and unknown options', () => {
+		expect(() => parseCliArgs([])).toThrow(/No input files/)
+		expect(() => parseCliArgs(['--unknown', 'a.md'])).toThrow()
+	})
+})
+
+describe('loadEcConfigFile()', () => {
+	test('Loads the default export of the given config file', async () => {
+		const config = await loadEcConfigFile(join(fixturesDir, 'ec.config.mjs'))
+		expect(config.themes).toEqual(['dracula'])
+	})
+	test('Throws if an explicitly given config file does not exist', async () => {
+		await expect(loadEcConfigFile(join(fixturesDir, 'missing.config.mjs'))).rejects.toThrow(/does not exist/)
+	})
+})
+
+describe('runCli()', () => {
+	test('Prints the help text', async () => {
+		const output: string[] = []
+		const exitCode = await runCli(['--help'], { log: (message: string) => output.push(message) })
+		expect(exitCode).toEqual(0)
+		expect(output).toEqual([cliHelpText])
+	})
+	test('Renders the given files using the given config file', async () => {
+		const outDir = await mkdtemp(join(tmpdir(), 'ec-cli-'))
+		try {
+			const output: string[] = []
+			const exitCode = await runCli(['-c', join(fixturesDir, 'ec.config.mjs'), '-o', outDir, '-r', fixturesDir, join(fixturesDir, 'docs', 'index.md')], {
+				log: (message: string) => output.push(message),
+			})
+			expect(exitCode).toEqual(0)
+			expect(output).toHaveLength(1)
+			expect(output[0]).toMatch(/^Rendered 1 file to/)
+			const html = await readFile(join(outDir, 'docs', 'index.html'), 'utf8')
+			expect(html).toContain('example.js')
+			expect(html).toContain('<p class="note">Raw HTML is passed through.</p>')
+		} finally {
+			await rm(outDir, { recursive: true, force: true })
+		}
+	})
+	test('Reports errors and returns a non-zero exit code', async () => {
+		const errors: string[] = []
+		const exitCode = await runCli([join(fixturesDir, 'missing.md')], { logError: (message: string) => errors.push(message) })
+		expect(exitCode).toEqual(1)
+		expect(errors[0]).toMatch(/^expressive-code: .*missing\.md/)
+	})
+})
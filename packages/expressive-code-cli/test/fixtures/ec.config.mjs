@@ -0,0 +1,7 @@
+/** @type {import('../../src').RehypeExpressiveCodeOptions} */
+export default {
+	themes: ['dracula'],
+	styleOverrides: {
+		borderRadius: '7px',
+	},
+}
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CliRenderer, createCliRenderer, getInputType, loadEcConfigFile, renderDocument, renderFiles } from '../src'
+
+const fixturesDir = join(__dirname, 'fixtures')
+
+describe('renderDocument()', () => {
+	test('Renders Markdown code blocks without inlining styles and scripts', async () => {
+		const renderer = await createCliRenderer()
+		const html = await renderDocument({
+			contents: ['# Example', '', '```js title="test.js"', 'const a = 1', '```'].join('\n'),
+			filePath: 'example.md',
+			renderer,
+		})
+		expect(html).toMatch(/^<h1>Example<\/h1>\s*<div class="expressive-code">\s*<figure/)
+		expect(html).toContain('test.js')
+		validateExternalAssets(html, renderer)
+	})
+	test('Renders HTML fragments and passes the metastring attribute as meta', async () => {
+		const renderer = await createCliRenderer()
+		const html = await renderDocument({
+			contents: '<p>Intro</p>\n<pre><code class="language-js" metastring="title=&quot;test.js&quot;">const a = 1</code></pre>',
+			filePath: 'example.html',
+			renderer,
+		})
+		expect(html).toMatch(/^<p>Intro<\/p>\s*<div class="expressive-code">/)
+		expect(html).toMatch(/<figcaption[^>]*>.*?test\.js.*?<\/figcaption>/)
+		validateExternalAssets(html, renderer)
+	})
+	test('Keeps the document structure of full HTML documents', async () => {
+		const renderer = await createCliRenderer()
+		const html = await renderDocument({
+			contents: await readFile(join(fixturesDir, 'docs', 'guides', 'page.html'), 'utf8'),
+			filePath: 'page.html',
+			renderer,
+		})
+		expect(html).toMatch(/^<!doctype html>\s*<html>\s*<head>\s*<title>Guide<\/title>/)
+		expect(html).toMatch(/<body>\s*<div class="expressive-code">\s*<figure class="frame is-terminal/)
+		validateExternalAssets(html, renderer)
+	})
+	test('Renders source code files as a single code block', async () => {
+		const renderer = await createCliRenderer()
+		const html = await renderDocument({
+			contents: 'const a = 1\nconst b = 2',
+			filePath: 'example.js',
+			meta: 'title="example.js" {2}',
+			renderer,
+		})
+		expect(html).toMatch(/^<div class="expressive-code">\s*<figure/)
+		expect(html).toMatch(/<figcaption[^>]*>.*?example\.js.*?<\/figcaption>/)
+		expect(html).toContain('<div class="ec-line highlight mark">')
+		validateExternalAssets(html, renderer)
+	})
+	test('Determines the input type by file extension', () => {
+		expect(getInputType('docs/index.md')).toEqual('markdown')
+		expect(getInputType('README.markdown')).toEqual('markdown')
+		expect(getInputType('page.HTML')).toEqual('html')
+		expect(getInputType('src/index.ts')).toEqual('code')
+		expect(getInputType('Dockerfile')).toEqual('code')
+	})
+})
+
+describe('renderFiles()', () => {
+	test('Writes HTML, CSS and JS files to the output directory', async () => {
+		const outDir = await mkdtemp(join(tmpdir(), 'ec-cli-'))
+		try {
+			const config = await loadEcConfigFile(join(fixturesDir, 'ec.config.mjs'))
+			const { htmlFiles, cssFile, jsFile } = await renderFiles({
+				inputFiles: ['index.md', 'guides/page.html', 'guides/example.ts'].map((file) => join(fixturesDir, 'docs', file)),
+				rootDir: join(fixturesDir, 'docs'),
+				outDir,
+				config,
+			})
+
+			// Expect the output paths to mirror the input paths
+			expect(htmlFiles).toEqual(['index.html', 'guides/page.html', 'guides/example.ts.html'].map((file) => join(outDir, file)))
+			expect(cssFile).toEqual(join(outDir, 'ec.css'))
+			expect(jsFile).toEqual(join(outDir, 'ec.js'))
+
+			// Expect all code blocks to be rendered without inline styles or scripts
+			for (const htmlFile of htmlFiles) {
+				const html = await readFile(htmlFile, 'utf8')
+				expect(html).toContain('<div class="expressive-code">')
+				expect(html).not.toMatch(/<style|<script/)
+			}
+
+			// Expect the CSS file to use the config file options
+			const css = await readFile(cssFile, 'utf8')
+			expect(css).toContain('7px')
+			expect(css.toLowerCase()).toContain('#282a36')
+
+			// Expect the JS file to contain the JS modules
+			const js = await readFile(jsFile, 'utf8')
+			expect(js).toContain('navigator.clipboard')
+		} finally {
+			await rm(outDir, { recursive: true, force: true })
+		}
+	})
+	test('Throws an error if an input file is outside the root directory', async () => {
+		await expect(
+			renderFiles({
+				inputFiles: [join(fixturesDir, 'docs', 'index.md')],
+				rootDir: join(fixturesDir, 'docs', 'guides'),
+				outDir: join(tmpdir(), 'ec-cli-never-written'),
+			})
+		).rejects.toThrow(/not located inside the root directory/)
+	})
+})
+
+function validateExternalAssets(html: string, renderer: CliRenderer) {
+	// Expect no styles or scripts to be inlined into the HTML
+	expect(html).not.toMatch(/<style|<script/)
+
+	// Expect the base and theme styles and the JS modules to be available as external assets
+	expect(renderer.externalStyles).toHaveLength(2)
+	expect(renderer.externalStyles.join('')).toContain('.expressive-code')
+	expect(renderer.externalJsModules.length).toBeGreaterThan(0)
+}
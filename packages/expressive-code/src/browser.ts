@@ -0,0 +1,232 @@
+import { ExpressiveCodeBlockOptions, ExpressiveCodeTheme, ExpressiveCodeThemeInput } from '@expressive-code/core'
+import { toHtml } from '@expressive-code/core/hast'
+import { BundledShikiTheme, loadShikiTheme } from '@expressive-code/plugin-shiki'
+import { ExpressiveCode, ExpressiveCodeConfig } from './index'
+
+export type BrowserRendererOptions = Omit<ExpressiveCodeConfig, 'themes'> & {
+	/**
+	 * The color themes that should be available for your code blocks.
+	 *
+	 * In addition to theme objects, you can pass the names of any themes bundled with Shiki
+	 * (e.g. `dracula`). Only the themes given here are downloaded, and only when the first
+	 * code block gets rendered.
+	 *
+	 * Defaults to `['github-dark', 'github-light']`, two themes bundled with Shiki.
+	 */
+	themes?: (BundledShikiTheme | ExpressiveCodeTheme | ExpressiveCodeThemeInput)[] | undefined
+	/**
+	 * The number of spaces that should be used to render tabs. Defaults to 2.
+	 *
+	 * If you want to preserve tabs in your code blocks, set this option to 0.
+	 */
+	tabWidth?: number | undefined
+	/**
+	 * The document that the styles and JS modules required by the rendered code blocks
+	 * are added to. Defaults to the global `document` if available.
+	 */
+	document?: Document | undefined
+}
+
+export type BrowserRendererInput = ExpressiveCodeBlockOptions | ExpressiveCodeBlockOptions[]
+
+/**
+ * A code block that can be updated with new code, e.g. while its code is being streamed in.
+ */
+export type LiveCodeBlock = {
+	/**
+	 * The container element that the rendered code block is placed in.
+	 */
+	container: Element
+	/**
+	 * Renders the code block using the given code and replaces the contents of the container
+	 * element with the result.
+	 *
+	 * If this is called again while the previous code is still being rendered, only the latest
+	 * code is rendered afterwards, skipping any intermediate versions. The returned promise
+	 * resolves to the rendered element as soon as the given code or any newer code is visible.
+	 */
+	update: (code: string) => Promise<Element | undefined>
+}
+
+// The assets already added to each document, shared by all renderers to prevent duplicates
+const addedAssetsByDocument = new WeakMap<Document, Set<string>>()
+
+/**
+ * Creates a renderer that renders code blocks in the browser, e.g. to display code
+ * that is only available at runtime like user input or streamed responses.
+ *
+ * The Expressive Code engine is created when the first code block gets rendered.
+ * Syntax highlighting grammars are only loaded when a code block uses their language.
+ *
+ * The base styles, theme styles and JS modules required by the rendered code blocks are
+ * added to the `<head>` of the document once, no matter how many code blocks get rendered.
+ *
+ * @example
+ * ```js
+ * import { createBrowserRenderer } from 'expressive-code/browser'
+ *
+ * const renderer = createBrowserRenderer({ themes: ['dracula'] })
+ * const element = await renderer.renderToElement({ code: 'const a = 1', language: 'js' })
+ * document.body.append(element)
+ * ```
+ */
+export function createBrowserRenderer(options: BrowserRendererOptions = {}) {
+	const { themes, tabWidth = 2, document: targetDocument, shiki, ...ecOptions } = options
+
+	let asyncRenderer: Promise<{ ec: ExpressiveCode; baseStyles: string; themeStyles: string; jsModules: string[] }> | undefined
+
+	/**
+	 * Creates the `ExpressiveCode` instance and the assets required by all code blocks
+	 * on first use, and returns them on subsequent calls.
+	 */
+	const getRenderer = async () => {
+		if (asyncRenderer === undefined) {
+			const rendererPromise = (async () => {
+				const loadedThemes =
+					themes &&
+					(await Promise.all(
+						themes.map(async (theme) => (theme instanceof ExpressiveCodeTheme ? theme : new ExpressiveCodeTheme(typeof theme === 'string' ? await loadShikiTheme(theme) : theme)))
+					))
+				const ec = new ExpressiveCode({
+					themes: loadedThemes,
+					// Only load the grammars of languages that are actually used
+					shiki: shiki === false ? false : { lazyLoadLanguages: true, ...(shiki === true ? {} : shiki) },
+					...ecOptions,
+				})
+				return { ec, baseStyles: await ec.getBaseStyles(), themeStyles: await ec.getThemeStyles(), jsModules: await ec.getJsModules() }
+			})()
+			// Allow retrying after errors (e.g. after a failed theme download)
+			rendererPromise.catch(() => {
+				if (asyncRenderer === rendererPromise) asyncRenderer = undefined
+			})
+			asyncRenderer = rendererPromise
+		}
+		return await asyncRenderer
+	}
+
+	/**
+	 * Returns the `ExpressiveCode` instance used by the renderer, creating it on first use.
+	 */
+	const getExpressiveCode = async () => (await getRenderer()).ec
+
+	const getDocument = () => targetDocument ?? (typeof document !== 'undefined' ? document : undefined)
+
+	/**
+	 * Adds the given styles and JS modules to the `<head>` of the document,
+	 * skipping any assets that were already added.
+	 */
+	const addAssets = ({ styles, jsModules }: { styles: string[]; jsModules: string[] }) => {
+		const doc = getDocument()
+		if (!doc) return
+		const addedAssets = addedAssetsByDocument.get(doc) ?? new Set<string>()
+		addedAssetsByDocument.set(doc, addedAssets)
+		const stylesToAdd = styles.filter((style) => style && !addedAssets.has(style))
+		const jsModulesToAdd = jsModules.filter((moduleCode) => !addedAssets.has(moduleCode))
+		// Combine all styles we collected (if any) into a single style element
+		if (stylesToAdd.length) {
+			const styleElement = doc.createElement('style')
+			styleElement.textContent = stylesToAdd.join('')
+			doc.head.append(styleElement)
+		}
+		// Scripts created using `createElement` are executed when they are added to the document
+		jsModulesToAdd.forEach((moduleCode) => {
+			const scriptElement = doc.createElement('script')
+			scriptElement.type = 'module'
+			scriptElement.textContent = moduleCode
+			doc.head.append(scriptElement)
+		})
+		;[...stylesToAdd, ...jsModulesToAdd].forEach((asset) => addedAssets.add(asset))
+	}
+
+	/**
+	 * Adds the base styles, theme styles and JS modules required by all code blocks
+	 * to the document if they haven't been added yet.
+	 *
+	 * This is done automatically when rendering code blocks, but you can also call it
+	 * in advance to prevent layout shifts.
+	 */
+	const injectAssets = async () => {
+		const { baseStyles, themeStyles, jsModules } = await getRenderer()
+		addAssets({ styles: [baseStyles, themeStyles], jsModules })
+	}
+
+	/**
+	 * Renders the given code block (or group of code blocks) to an HTML string.
+	 *
+	 * The styles and JS modules required by the code blocks are added to the document.
+	 * Outside of browsers (e.g. in web workers), you need to ensure that they are available
+	 * by other means.
+	 */
+	const renderToHtml = async (input: BrowserRendererInput) => {
+		const { ec } = await getRenderer()
+		await injectAssets()
+		const normalizeInput = (blockInput: ExpressiveCodeBlockOptions) => ({
+			...blockInput,
+			code: tabWidth > 0 ? blockInput.code.replace(/\t/g, ' '.repeat(tabWidth)) : blockInput.code,
+		})
+		const { renderedGroupAst, styles } = await ec.render(Array.isArray(input) ? input.map(normalizeInput) : normalizeInput(input))
+		addAssets({ styles: [...styles], jsModules: [] })
+		return toHtml(renderedGroupAst)
+	}
+
+	/**
+	 * Renders the given code block (or group of code blocks) to a DOM element.
+	 *
+	 * The styles and JS modules required by the code blocks are added to the document.
+	 */
+	const renderToElement = async (input: BrowserRendererInput) => {
+		const doc = getDocument()
+		if (!doc) throw new Error('Rendering code blocks to DOM elements requires a document.')
+		const template = doc.createElement('template')
+		template.innerHTML = await renderToHtml(input)
+		const element = template.content.firstElementChild
+		if (!element) throw new Error('Failed to render the code block to a DOM element.')
+		return doc.importNode(element, true)
+	}
+
+	/**
+	 * Creates a code block inside the given container element that can be updated
+	 * with new code, e.g. while its code is being streamed in.
+	 *
+	 * The required styles and JS modules are only added to the document once,
+	 * so the code block can be updated as often as necessary.
+	 */
+	const createLiveBlock = (container: Element, input: Omit<ExpressiveCodeBlockOptions, 'code'>): LiveCodeBlock => {
+		let latestCode: string | undefined
+		let renderingPromise: Promise<Element | undefined> | undefined
+
+		const renderLatestCode = async (): Promise<Element | undefined> => {
+			try {
+				let element: Element | undefined
+				while (latestCode !== undefined) {
+					const code = latestCode
+					latestCode = undefined
+					element = await renderToElement({ ...input, code })
+					// Skip outdated results if newer code arrived while rendering
+					if (latestCode === undefined) container.replaceChildren(element)
+				}
+				return element
+			} finally {
+				renderingPromise = undefined
+			}
+		}
+
+		const update = (code: string) => {
+			latestCode = code
+			renderingPromise ??= renderLatestCode()
+			return renderingPromise
+		}
+
+		return { container, update }
+	}
+
+	return {
+		getExpressiveCode,
+		injectAssets,
+		renderToHtml,
+		renderToElement,
+		createLiveBlock,
+	}
+}
+
+export type BrowserRenderer = ReturnType<typeof createBrowserRenderer>
@@ -0,0 +1,87 @@
+// @vitest-environment happy-dom
+import { describe, test, expect, beforeEach } from 'vitest'
+import { createBrowserRenderer } from '../src/browser'
+
+// Use a new document for every test, as assets are only added once per document
+let document: Document
+beforeEach(() => {
+	document = globalThis.document.implementation.createHTMLDocument()
+})
+
+const getHeadElements = (tagName: string) => [...document.head.querySelectorAll(tagName)]
+
+describe('Browser renderer', () => {
+	test('Renders code blocks to DOM elements', async () => {
+		const renderer = createBrowserRenderer({ document })
+		const element = await renderer.renderToElement({ code: 'const a = 1', language: 'js', meta: 'title="test.js"' })
+		expect(element.classList.contains('expressive-code')).toBe(true)
+		expect(element.querySelector('.title')?.textContent).toBe('test.js')
+		expect(element.querySelector('pre')?.dataset.language).toBe('js')
+	})
+
+	test('Renders code blocks to HTML strings', async () => {
+		const renderer = createBrowserRenderer({ document, tabWidth: 4 })
+		const html = await renderer.renderToHtml({ code: 'if (a) {\n\tb()\n}', language: 'js' })
+		expect(html).toMatch(/^<div class="expressive-code">/)
+		expect(html).toMatch(/<span class="indent">(<span[^>]*>)? {4}</)
+	})
+
+	test('Adds the required styles and JS modules to the document only once', async () => {
+		const renderer = createBrowserRenderer({ document })
+		const otherRenderer = createBrowserRenderer({ document })
+		await renderer.renderToElement({ code: 'const a = 1', language: 'js' })
+		await renderer.renderToHtml({ code: 'let b = 2', language: 'js' })
+		await otherRenderer.renderToElement({ code: 'npm install', language: 'sh' })
+		const jsModules = await (await renderer.getExpressiveCode()).getJsModules()
+		expect(getHeadElements('style')).toHaveLength(1)
+		expect(getHeadElements('style')[0].textContent).toContain('.expressive-code')
+		expect(getHeadElements('script').map((script) => script.textContent)).toEqual(jsModules)
+		expect(getHeadElements('script').every((script) => script.getAttribute('type') === 'module')).toBe(true)
+	})
+
+	test('Loads themes bundled with Shiki by name', async () => {
+		const renderer = createBrowserRenderer({ document, themes: ['dracula'] })
+		await renderer.injectAssets()
+		expect(getHeadElements('style')[0].textContent?.toLowerCase()).toContain('#282a36')
+	})
+
+	test('Allows disabling syntax highlighting', async () => {
+		const ec = await createBrowserRenderer({ document }).getExpressiveCode()
+		const ecWithoutShiki = await createBrowserRenderer({ document, shiki: false }).getExpressiveCode()
+		expect(ec.plugins.map(({ name }) => name)).toContain('Shiki')
+		expect(ecWithoutShiki.plugins.map(({ name }) => name)).not.toContain('Shiki')
+	})
+})
+
+describe('Live code blocks', () => {
+	test('Updates the rendered code block while code streams in', async () => {
+		const renderer = createBrowserRenderer({ document })
+		const container = document.createElement('div')
+		document.body.append(container)
+		const liveBlock = renderer.createLiveBlock(container, { language: 'js' })
+		await liveBlock.update('const a')
+		expect(container.querySelector('code')?.textContent).toBe('const a')
+		await liveBlock.update('const a = 1')
+		expect(container.children).toHaveLength(1)
+		expect(container.querySelector('code')?.textContent).toBe('const a = 1')
+		expect(getHeadElements('style')).toHaveLength(1)
+	})
+
+	test('Skips intermediate versions when updates arrive faster than rendering', async () => {
+		const renderer = createBrowserRenderer({ document })
+		const ec = await renderer.getExpressiveCode()
+		const renderedCodes: string[] = []
+		const render = ec.render.bind(ec)
+		ec.render = async (input, options) => {
+			if (!Array.isArray(input)) renderedCodes.push(input.code)
+			return await render(input, options)
+		}
+		const container = document.createElement('div')
+		const liveBlock = renderer.createLiveBlock(container, { language: 'js' })
+		const updates = ['a', 'a(', 'a()', 'a();'].map((code) => liveBlock.update(code))
+		const elements = await Promise.all(updates)
+		expect(renderedCodes).toEqual(['a', 'a();'])
+		expect(elements.every((element) => element === elements[0])).toBe(true)
+		expect(container.querySelector('code')?.textContent).toBe('a();')
+	})
+})
@@ -0,0 +1,20 @@
+import { describe, expect, test } from 'vitest'
+import * as core from '@expressive-code/core'
+import * as pluginFrames from '@expressive-code/plugin-frames'
+import * as pluginShiki from '@expressive-code/plugin-shiki'
+import * as pluginTextMarkers from '@expressive-code/plugin-text-markers'
+
+// Import the built package using a dynamic path to test the actual build output
+// instead of the sources (requires running the build first)
+const distEntry = '../dist/index.js'
+
+describe('Built package', () => {
+	test('Re-exports all exports of the included packages', async () => {
+		const dist = (await import(distEntry)) as typeof import('../src/index')
+		const includedExports = [core, pluginFrames, pluginShiki, pluginTextMarkers].flatMap((pkg) => Object.keys(pkg))
+		expect(Object.keys(dist).sort()).toEqual([...new Set([...includedExports, 'ExpressiveCode'])].sort())
+		expect(typeof dist.getStableObjectHash).toBe('function')
+		expect(typeof dist.MetaOptions).toBe('function')
+		expect(typeof dist.pluginFrames).toBe('function')
+	})
+})
@@ -0,0 +1,346 @@
+import type { ExpressiveCodeDiagnostic, MetaOptionString, RehypeExpressiveCodeRenderer } from 'rehype-expressive-code'
+import { ExpressiveCodeBlock, ExpressiveCodeBlockOptions, MetaOptions, createRenderer, getDiagnosticDocumentPosition } from 'rehype-expressive-code'
+import type { Element } from 'rehype-expressive-code/hast'
+import { toHtml } from 'rehype-expressive-code/hast'
+import type { MarkdownIt, MarkdownItEnv, MarkdownItRenderRule, MarkdownItToken } from './markdown-it'
+import type { MarkdownItExpressiveCodeOptions } from './types'
+
+export * from 'rehype-expressive-code'
+
+export type { MarkdownIt, MarkdownItCoreRule, MarkdownItCoreState, MarkdownItEnv, MarkdownItRenderRule, MarkdownItToken } from './markdown-it'
+export type { MarkdownItExpressiveCodeOptions } from './types'
+
+/**
+ * A markdown-it instance that the Expressive Code plugin has been added to.
+ */
+export type MarkdownItWithExpressiveCode = MarkdownIt & {
+	/**
+	 * Renders the given Markdown source to HTML, including all code blocks rendered by
+	 * Expressive Code. Use this instead of `md.render()`, which cannot wait for
+	 * asynchronous rendering.
+	 */
+	renderAsync: (src: string, env?: MarkdownItEnv) => Promise<string>
+	/**
+	 * Renders all code blocks of the given Markdown source in advance, allowing
+	 * `md.render()` to output them synchronously.
+	 *
+	 * Use this if `md.render()` is called by other tools (e.g. static site generators),
+	 * and call it in an asynchronous step that runs before rendering the page.
+	 * Rendered code blocks are identified by their language, meta string and code, so the
+	 * given source may differ from the one passed to `md.render()` in other places.
+	 */
+	prerender: (src: string, env?: MarkdownItEnv) => Promise<void>
+}
+
+type FenceInfo = {
+	token: MarkdownItToken
+	lang: string
+	meta: string
+	code: string
+	diffFrom?: string | undefined
+	/**
+	 * The `diff-from` meta option of the fence if it does not reference any other fence.
+	 */
+	unresolvedDiffFrom?: MetaOptionString | undefined
+}
+
+type FenceGroup = {
+	/**
+	 * Identifies the rendering result of the group by the contents of all its fences.
+	 */
+	key: string
+	fences: FenceInfo[]
+}
+
+type RenderedGroup = {
+	renderedGroupAst: Element
+	styles: Set<string>
+}
+
+/**
+ * markdown-it plugin that renders fenced code blocks using Expressive Code.
+ *
+ * As markdown-it renders synchronously, code blocks are rendered in a separate pass before
+ * the document itself. To allow this, the plugin adds the asynchronous method
+ * `md.renderAsync(src, env)`, which can be used instead of `md.render(src, env)`.
+ *
+ * If `md.render(src, env)` is called by other tools, call `await md.prerender(src, env)`
+ * before to render all code blocks in advance.
+ *
+ * Like the rehype transformer, the plugin adds the base styles, theme styles and JS modules
+ * required by the rendered code blocks to the first code block group of every page,
+ * and skips any assets that were already added to the current page.
+ *
+ * @example
+ * ```js
+ * import MarkdownIt from 'markdown-it'
+ * import markdownItExpressiveCode from 'markdown-it-expressive-code'
+ *
+ * const md = MarkdownIt().use(markdownItExpressiveCode, { themes: ['dracula'] })
+ * const html = await md.renderAsync(markdown)
+ * ```
+ */
+export function markdownItExpressiveCode(md: MarkdownIt, options: MarkdownItExpressiveCodeOptions = {}) {
+	const { tabWidth = 2, getBlockLocale, customCreateRenderer, customCreateBlock, ...rendererOptions } = options
+
+	let asyncRenderer: Promise<RehypeExpressiveCodeRenderer> | RehypeExpressiveCodeRenderer | undefined
+	// The renderer is also needed synchronously to add page-wide assets while rendering
+	let renderer: RehypeExpressiveCodeRenderer | undefined
+
+	// The code block groups rendered in advance by `md.prerender()`, stored by their key
+	const prerenderedGroups = new Map<string, RenderedGroup>()
+
+	// The HTML of all code block groups ready for output, stored by their first fence token
+	// (the other fence tokens of a group are mapped to an empty string)
+	const fenceHtml = new WeakMap<MarkdownItToken, string>()
+
+	// Normalize the code coming from the Markdown document
+	const normalizeCode = (code: string) => {
+		if (tabWidth > 0) return code.replace(/\t/g, ' '.repeat(tabWidth))
+		return code
+	}
+
+	/**
+	 * Creates an inline style or script element containing the given code.
+	 */
+	const createAssetElement = (tagName: 'style' | 'script', innerHTML: string): Element => ({
+		type: 'element',
+		tagName,
+		properties: tagName === 'script' ? { type: 'module' } : {},
+		children: [{ type: 'text', value: innerHTML }],
+	})
+
+	/**
+	 * Creates style and script elements for all assets required by rendered code
+	 * that have not been added to the current page yet.
+	 */
+	const getAssetElements = ({
+		styles,
+		renderer,
+		addedStyles,
+		addedJsModules,
+	}: {
+		styles: Set<string>
+		renderer: RehypeExpressiveCodeRenderer
+		addedStyles: Set<string>
+		addedJsModules: Set<string>
+	}) => {
+		const { baseStyles, themeStyles, jsModules } = renderer
+		const stylesToPrepend = [baseStyles, themeStyles, ...styles].filter((style) => style && !addedStyles.has(style))
+		stylesToPrepend.forEach((style) => addedStyles.add(style))
+		const jsModulesToPrepend = jsModules.filter((moduleCode) => !addedJsModules.has(moduleCode))
+		jsModulesToPrepend.forEach((moduleCode) => addedJsModules.add(moduleCode))
+
+		return [
+			// Combine all styles we collected (if any) into a single style element
+			...(stylesToPrepend.length ? [createAssetElement('style', stylesToPrepend.join(''))] : []),
+			...jsModulesToPrepend.map((moduleCode) => createAssetElement('script', moduleCode)),
+		]
+	}
+
+	/**
+	 * Collects all fenced code blocks in the given tokens and combines them into groups.
+	 */
+	const getFenceGroups = (tokens: MarkdownItToken[]): FenceGroup[] => {
+		const fences = tokens.flatMap((token, index) => {
+			if (token.type !== 'fence') return []
+			// Split the info string into the language and meta string
+			const info = token.info ? md.utils.unescapeAll(token.info).trim() : ''
+			const [lang = '', ...metaParts] = info.split(/(\s+)/g)
+			const fenceInfo: FenceInfo = { token, lang, meta: metaParts.join('').trim(), code: normalizeCode(token.content) }
+			return [{ index, fenceInfo }]
+		})
+
+		// Collect the code of all code blocks with an `id` meta option,
+		// allowing other code blocks to reference them using the `diff-from` meta option
+		const codeById = new Map<string, string>()
+		for (const { fenceInfo } of fences) {
+			const id = new MetaOptions(fenceInfo.meta).getString('id')
+			if (id !== undefined) codeById.set(id, fenceInfo.code)
+		}
+
+		// Combine adjacent code blocks sharing the same `group` meta option into groups
+		const groups: { groupKey: string | undefined; lastIndex: number; fences: FenceInfo[] }[] = []
+		for (const { index, fenceInfo } of fences) {
+			// Resolve any reference to a code block containing the previous version of the code
+			const diffFromOption = new MetaOptions(fenceInfo.meta).list('diff-from', 'string').pop()
+			if (diffFromOption) {
+				fenceInfo.diffFrom = codeById.get(diffFromOption.value)
+				if (fenceInfo.diffFrom === undefined) fenceInfo.unresolvedDiffFrom = diffFromOption
+			}
+
+			const groupKey = new MetaOptions(fenceInfo.meta).getString('group')
+			const prevGroup = groups[groups.length - 1]
+			if (groupKey && prevGroup?.groupKey === groupKey && prevGroup.lastIndex === index - 1) {
+				prevGroup.fences.push(fenceInfo)
+				prevGroup.lastIndex = index
+				continue
+			}
+			groups.push({ groupKey, lastIndex: index, fences: [fenceInfo] })
+		}
+
+		return groups.map(({ fences }) => ({
+			key: JSON.stringify(fences.map(({ lang, meta, code, diffFrom }) => [lang, meta, code, diffFrom])),
+			fences,
+		}))
+	}
+
+	/**
+	 * Renders all given code block groups that are not contained in `renderedGroups` yet
+	 * and adds them to it.
+	 */
+	const renderGroups = async ({
+		src,
+		tokens,
+		env,
+		groups,
+		renderedGroups,
+	}: {
+		src: string
+		tokens: MarkdownItToken[]
+		env: MarkdownItEnv
+		groups: FenceGroup[]
+		renderedGroups: Map<string, RenderedGroup>
+	}) => {
+		if (groups.every(({ key }) => renderedGroups.has(key))) return
+
+		// We found at least one code block, so we need to ensure our renderer is available
+		// and wait for its initialization if necessary
+		if (asyncRenderer === undefined) {
+			asyncRenderer = (customCreateRenderer ?? createRenderer)({ ...rendererOptions, tabWidth })
+		}
+		renderer = await asyncRenderer
+
+		const documentLines = src.split(/\r?\n/)
+		for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+			const { key, fences } = groups[groupIndex]
+			if (renderedGroups.has(key)) continue
+			const codeBlocks: ExpressiveCodeBlock[] = []
+			// Keep track of problems found by the plugin itself, which are reported
+			// together with the diagnostics of the rendered group
+			const integrationDiagnostics: ExpressiveCodeDiagnostic[] = []
+
+			for (const { lang, meta, code, diffFrom, unresolvedDiffFrom } of fences) {
+				// Build the ExpressiveCodeBlockOptions object that we will pass either
+				// to the ExpressiveCodeBlock constructor or the customCreateBlock function
+				const input: ExpressiveCodeBlockOptions = {
+					code,
+					language: lang,
+					meta,
+					parentDocument: {
+						documentRoot: tokens,
+						positionInDocument: {
+							groupIndex,
+							totalGroups: groups.length,
+						},
+					},
+				}
+				if (diffFrom !== undefined) input.props = { diffFrom }
+
+				// Allow the user to customize the locale for this code block
+				if (getBlockLocale) {
+					input.locale = await getBlockLocale({ input, env })
+				}
+
+				// Allow the user to customize the ExpressiveCodeBlock instance
+				const codeBlock = customCreateBlock ? await customCreateBlock({ input, env }) : new ExpressiveCodeBlock(input)
+				codeBlocks.push(codeBlock)
+
+				// Render code blocks referencing an unknown diff source without a diff
+				if (unresolvedDiffFrom) {
+					const { value, index, raw } = unresolvedDiffFrom
+					integrationDiagnostics.push({
+						severity: 'warning',
+						message: `The meta option \`diff-from="${value}"\` does not match any code block with the meta option \`id="${value}"\`, so the code block is rendered without a diff.`,
+						location: { source: 'meta', column: index + raw.length - raw.trimStart().length + 1 },
+						codeBlock,
+					})
+				}
+			}
+
+			const renderResult = await renderer.ec.render(codeBlocks, { logDiagnostics: false })
+			const { renderedGroupAst, styles } = renderResult
+			const diagnostics = [...integrationDiagnostics, ...renderResult.diagnostics]
+
+			// Fail on errors and log warnings, pointing to their position in the Markdown document
+			const formatDiagnostic = (diagnostic: ExpressiveCodeDiagnostic) => {
+				const token = fences[codeBlocks.indexOf(diagnostic.codeBlock)]?.token
+				const fenceLineText = token?.map ? documentLines[token.map[0]] : undefined
+				const fenceStart = token?.map && fenceLineText !== undefined ? { line: token.map[0] + 1, column: fenceLineText.indexOf(token.markup) + 1 } : undefined
+				const place = fenceStart ? getDiagnosticDocumentPosition({ diagnostic, fenceStart, fenceLineText }) : undefined
+				return `${place ? `${place.line}:${place.column}: ` : ''}${diagnostic.message}`
+			}
+			const error = diagnostics.find((diagnostic) => diagnostic.severity === 'error')
+			if (error) throw new Error(formatDiagnostic(error))
+			for (const diagnostic of diagnostics) {
+				if (diagnostic.severity === 'warning') renderer.ec.logger.warn(formatDiagnostic(diagnostic))
+			}
+
+			renderedGroups.set(key, { renderedGroupAst, styles })
+		}
+	}
+
+	/**
+	 * Stores the HTML of all given code block groups found in `renderedGroups`
+	 * for use by the fence rule.
+	 */
+	const prepareFenceHtml = ({ groups, renderedGroups }: { groups: FenceGroup[]; renderedGroups: Map<string, RenderedGroup> }) => {
+		if (!renderer) return
+
+		// Keep track of the assets we already added to the current page
+		const addedStyles = new Set<string>()
+		const addedJsModules = new Set<string>()
+
+		for (const { key, fences } of groups) {
+			const renderedGroup = renderedGroups.get(key)
+			if (!renderedGroup) continue
+			const { renderedGroupAst, styles } = renderedGroup
+
+			// Prepend any assets to the children of the renderedGroupAst wrapper,
+			// which keeps them inside the wrapper and reduces the chance of CSS issues
+			// caused by selectors like `* + *` on the parent level
+			const assetElements = getAssetElements({ styles, renderer, addedStyles, addedJsModules })
+			const html = toHtml({ ...renderedGroupAst, children: [...assetElements, ...renderedGroupAst.children] })
+
+			// Output the rendered group in place of its first fence and skip all others
+			fences.forEach(({ token }, index) => fenceHtml.set(token, index === 0 ? `${html}\n` : ''))
+		}
+	}
+
+	// After parsing a document, prepare the output of all code block groups
+	// that were rendered in advance
+	md.core.ruler.push('expressive_code', (state) => {
+		if (!prerenderedGroups.size) return
+		prepareFenceHtml({ groups: getFenceGroups(state.tokens), renderedGroups: prerenderedGroups })
+	})
+
+	// Override the fence rule to output the rendered code blocks
+	const fenceRule: MarkdownItRenderRule = (tokens, idx) => {
+		const html = fenceHtml.get(tokens[idx])
+		if (html === undefined) {
+			throw new Error(
+				`Expressive Code cannot render code blocks synchronously.
+				Please use \`await md.renderAsync(src, env)\` instead of \`md.render(src, env)\`,
+				or call \`await md.prerender(src, env)\` before \`md.render(src, env)\`.`.replace(/\s+/g, ' ')
+			)
+		}
+		return html
+	}
+	md.renderer.rules.fence = fenceRule
+
+	const mdWithExpressiveCode = md as MarkdownItWithExpressiveCode
+	mdWithExpressiveCode.renderAsync = async (src: string, env: MarkdownItEnv = {}) => {
+		const tokens = md.parse(src, env)
+		const groups = getFenceGroups(tokens)
+		const renderedGroups = new Map<string, RenderedGroup>()
+		await renderGroups({ src, tokens, env, groups, renderedGroups })
+		prepareFenceHtml({ groups, renderedGroups })
+		return md.renderer.render(tokens, md.options, env)
+	}
+	mdWithExpressiveCode.prerender = async (src: string, env: MarkdownItEnv = {}) => {
+		const tokens = md.parse(src, env)
+		await renderGroups({ src, tokens, env, groups: getFenceGroups(tokens), renderedGroups: prerenderedGroups })
+	}
+}
+
+export default markdownItExpressiveCode
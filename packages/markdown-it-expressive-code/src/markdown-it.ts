@@ -0,0 +1,53 @@
+/**
+ * The subset of the markdown-it API used by this plugin.
+ *
+ * These structural types allow the plugin to work with any compatible markdown-it version
+ * without depending on it at runtime or requiring its type definitions to be installed.
+ */
+
+export type MarkdownItToken = {
+	type: string
+	tag: string
+	info: string
+	markup: string
+	content: string
+	map: [number, number] | null
+	level: number
+}
+
+export type MarkdownItRenderRule = (tokens: MarkdownItToken[], idx: number, options: unknown, env: MarkdownItEnv, self: unknown) => string
+
+/**
+ * The environment object that markdown-it passes to all rules during parsing and rendering.
+ * It allows users and plugins to pass arbitrary data like the current page's locale.
+ */
+export type MarkdownItEnv = { [key: string]: unknown }
+
+/**
+ * The state passed to core rules, which run after the Markdown source has been parsed.
+ */
+export type MarkdownItCoreState = {
+	src: string
+	env: MarkdownItEnv
+	tokens: MarkdownItToken[]
+}
+
+export type MarkdownItCoreRule = (state: MarkdownItCoreState) => void
+
+export type MarkdownIt = {
+	options: unknown
+	parse(src: string, env: MarkdownItEnv): MarkdownItToken[]
+	core: {
+		ruler: {
+			push(ruleName: string, rule: MarkdownItCoreRule): void
+		}
+	}
+	renderer: {
+		// Rules are only assigned, so their types are not required to match
+		rules: { [type: string]: unknown }
+		render(tokens: MarkdownItToken[], options: unknown, env: MarkdownItEnv): string
+	}
+	utils: {
+		unescapeAll: (str: string) => string
+	}
+}
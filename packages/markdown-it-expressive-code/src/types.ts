@@ -0,0 +1,29 @@
+import type { ExpressiveCodeBlock, ExpressiveCodeBlockOptions, RehypeExpressiveCodeOptions } from 'rehype-expressive-code'
+import type { MarkdownItEnv } from './markdown-it'
+
+export type MarkdownItExpressiveCodeOptions = Omit<RehypeExpressiveCodeOptions, 'getBlockLocale' | 'customCreateBlock' | 'addWatchFile' | 'inlineCode' | 'strict' | 'cache'> & {
+	/**
+	 * This optional function provides support for multi-language sites by allowing you
+	 * to customize the locale used for a given code block.
+	 *
+	 * The function is called with an object containing the following properties:
+	 * - `input`: Block data for the `ExpressiveCodeBlock` constructor.
+	 * - `env`: The environment object passed to `md.renderAsync()` or `md.prerender()`.
+	 *
+	 * If the function returns `undefined`, the default locale provided in the
+	 * Expressive Code configuration is used.
+	 */
+	getBlockLocale?: (({ input, env }: { input: ExpressiveCodeBlockOptions; env: MarkdownItEnv }) => string | undefined | Promise<string | undefined>) | undefined
+	/**
+	 * This optional function allows you to customize how `ExpressiveCodeBlock`
+	 * instances are created from code blocks found in the Markdown document.
+	 *
+	 * The function is called with an object containing the following properties:
+	 * - `input`: Block data for the `ExpressiveCodeBlock` constructor.
+	 * - `env`: The environment object passed to `md.renderAsync()` or `md.prerender()`.
+	 *
+	 * The function is expected to return an `ExpressiveCodeBlock` instance
+	 * or a promise resolving to one.
+	 */
+	customCreateBlock?: (({ input, env }: { input: ExpressiveCodeBlockOptions; env: MarkdownItEnv }) => ExpressiveCodeBlock | Promise<ExpressiveCodeBlock>) | undefined
+}
@@ -0,0 +1,146 @@
+import { describe, test, expect } from 'vitest'
+import markdownIt from 'markdown-it'
+import type { MarkdownItExpressiveCodeOptions, MarkdownItWithExpressiveCode } from '../src'
+import { ExpressiveCodeBlock, markdownItExpressiveCode } from '../src'
+
+function createMarkdownIt(options: MarkdownItExpressiveCodeOptions = {}) {
+	return markdownIt().use(markdownItExpressiveCode, options) as ReturnType<typeof markdownIt> & MarkdownItWithExpressiveCode
+}
+
+const exampleMarkdown = `
+# Example
+
+\`\`\`js title="example.js" {2}
+const a = 1
+	console.log(a)
+\`\`\`
+
+Some text.
+
+\`\`\`sh
+npm install
+\`\`\`
+`
+
+describe('Renders fenced code blocks', () => {
+	test('Replaces fenced code blocks with the rendered HTML', async () => {
+		const html = await createMarkdownIt().renderAsync(exampleMarkdown)
+		expect(html).toContain('<h1>Example</h1>')
+		expect(html).toContain('<p>Some text.</p>')
+		expect(html.match(/<div class="expressive-code">/g)).toHaveLength(2)
+		expect(html).not.toContain('<code class="language-js">')
+	})
+	test('Parses the info string into language and meta', async () => {
+		const html = await createMarkdownIt().renderAsync(exampleMarkdown)
+		expect(html).toContain('<pre data-language="js"')
+		expect(html).toContain('<span class="title">example.js</span>')
+		expect(html).toMatch(/<div class="ec-line highlight mark">/)
+		expect(html).toContain('<pre data-language="sh"')
+	})
+	test('Replaces tabs with the configured number of spaces', async () => {
+		expect(await createMarkdownIt().renderAsync(exampleMarkdown)).toMatch(/<span class="indent"><span[^>]*> {2}<\/span><\/span>/)
+		expect(await createMarkdownIt({ tabWidth: 4 }).renderAsync(exampleMarkdown)).toMatch(/<span class="indent"><span[^>]*> {4}<\/span><\/span>/)
+	})
+	test('Renders code blocks inside other block elements', async () => {
+		const html = await createMarkdownIt().renderAsync('> ```js\n> const a = 1\n> ```\n')
+		expect(html).toMatch(/^<blockquote>\n<div class="expressive-code">/)
+	})
+	test('Combines adjacent code blocks with the same group into a single group', async () => {
+		const html = await createMarkdownIt().renderAsync(
+			['```js group="a"', 'one()', '```', '```js group="a"', 'two()', '```', '', 'Text', '', '```js group="a"', 'three()', '```'].join('\n')
+		)
+		expect(html.match(/<div class="expressive-code[ "]/g)).toHaveLength(2)
+		expect(html.match(/<div class="ec-tab-panel"/g)).toHaveLength(2)
+		expect(html.match(/<figure/g)).toHaveLength(3)
+	})
+	test('Throws a helpful error when using the synchronous render method', () => {
+		expect(() => createMarkdownIt().render(exampleMarkdown)).toThrow(/md\.renderAsync.*md\.prerender/)
+	})
+	test('Supports the synchronous render method after rendering code blocks in advance', async () => {
+		const md = createMarkdownIt()
+		const expectedHtml = await md.renderAsync(exampleMarkdown)
+		await md.prerender(exampleMarkdown)
+		expect(md.render(exampleMarkdown)).toEqual(expectedHtml)
+		// Expect page-wide assets to be added to every rendered page
+		expect(md.render(exampleMarkdown)).toEqual(expectedHtml)
+	})
+	test('Identifies code blocks rendered in advance by their contents', async () => {
+		const md = createMarkdownIt()
+		// Simulate a static site generator that preprocesses the source before rendering
+		await md.prerender(`{% include "header.md" %}\n${exampleMarkdown}`)
+		const html = md.render(`# Included header\n${exampleMarkdown}`)
+		expect(html).toContain('<h1>Included header</h1>')
+		expect(html.match(/<div class="expressive-code">/g)).toHaveLength(2)
+		expect(html.match(/<style>/g)).toHaveLength(1)
+
+		// Expect code blocks that were not rendered in advance to throw an error
+		expect(() => md.render(exampleMarkdown.replace('npm install', 'pnpm install'))).toThrow(/md\.prerender/)
+	})
+	test('Throws errors reported by plugins with their document position', async () => {
+		const md = createMarkdownIt({
+			plugins: [
+				{
+					name: 'TestPlugin',
+					hooks: {
+						annotateCode: ({ addDiagnostic }) => {
+							addDiagnostic({ severity: 'error', message: 'Invalid code', location: { source: 'code', line: 2, column: 3 } })
+						},
+					},
+				},
+			],
+		})
+		await expect(md.renderAsync('# Title\n\n> ```js\n> const a = 1\n> const b = 2\n> ```')).rejects.toThrow('5:5: Invalid code')
+	})
+	test('Logs warnings reported by plugins with their document position', async () => {
+		const warnings: string[] = []
+		const md = createMarkdownIt({ logger: { warn: (message) => warnings.push(message) } })
+		await md.renderAsync('# Title\n\n```unknown-language\nconst a = 1\n```')
+		expect(warnings).toHaveLength(1)
+		expect(warnings[0]).toMatch(/^3:1: .*unknown-language/)
+	})
+	test('Renders code blocks referencing an unknown diff source without a diff', async () => {
+		const warnings: string[] = []
+		const md = createMarkdownIt({ logger: { warn: (message) => warnings.push(message) } })
+		const html = await md.renderAsync('```js title="a.js" diff-from="missing"\na()\n```')
+		expect(html).toContain('a()')
+		expect(html).not.toMatch(/class="ec-line [^"]*\bdel\b/)
+		expect(warnings).toHaveLength(1)
+		expect(warnings[0]).toMatch(/^1:20: .*diff-from="missing"/)
+	})
+})
+
+describe('Adds page-wide assets', () => {
+	test('Adds styles and JS modules to the first group of every page only', async () => {
+		const md = createMarkdownIt()
+		for (let page = 0; page < 2; page++) {
+			const html = await md.renderAsync(exampleMarkdown)
+			const [firstGroup, secondGroup] = html.split('<div class="expressive-code">').slice(1)
+			expect(firstGroup).toContain('<style>')
+			expect(firstGroup).toContain('<script type="module">')
+			expect(secondGroup).not.toContain('<style>')
+			expect(secondGroup).not.toContain('<script')
+		}
+	})
+	test('Adds group-level styles only once per page', async () => {
+		const md = createMarkdownIt({ themes: ['github-dark', 'dracula'] })
+		const markdown = ['```js', 'a()', '```', '', '```js theme="dracula"', 'b()', '```', '', '```js theme="dracula"', 'c()', '```'].join('\n')
+		const groups = (await md.renderAsync(markdown)).split('<div class="expressive-code">').slice(1)
+		expect(groups[1]).toContain('<style>')
+		expect(groups[2]).not.toContain('<style>')
+	})
+})
+
+describe('Supports customization functions', () => {
+	test('getBlockLocale', async () => {
+		const md = createMarkdownIt({ getBlockLocale: ({ env }) => env.locale as string | undefined })
+		const markdown = '```sh\nnpm install\n```'
+		expect(await md.renderAsync(markdown, { locale: 'de' })).toContain('In die Zwischenablage kopieren')
+		expect(await md.renderAsync(markdown)).toContain('Copy to clipboard')
+	})
+	test('customCreateBlock', async () => {
+		const md = createMarkdownIt({
+			customCreateBlock: ({ input, env }) => new ExpressiveCodeBlock({ ...input, meta: `${input.meta} title="${env.title as string}"` }),
+		})
+		expect(await md.renderAsync('```js\na()\n```', { title: 'custom.js' })).toContain('<span class="title">custom.js</span>')
+	})
+})
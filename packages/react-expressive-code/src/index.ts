@@ -0,0 +1,151 @@
+import { Fragment, createElement } from 'react'
+import { jsx, jsxs } from 'react/jsx-runtime'
+import type { Jsx } from 'hast-util-to-jsx-runtime'
+import { toJsxRuntime } from 'hast-util-to-jsx-runtime'
+import type { RehypeExpressiveCodeRenderer } from 'rehype-expressive-code'
+import { createRenderer } from 'rehype-expressive-code'
+import type { Element } from 'rehype-expressive-code/hast'
+import { addClassName } from 'rehype-expressive-code/hast'
+import { getRequestData } from './request-data'
+import type { CodeProps, ReactExpressiveCodeOptions } from './types'
+
+export * from 'rehype-expressive-code'
+
+export type { CodeProps, PartialAllowUndefined, ReactExpressiveCodeOptions } from './types'
+
+/**
+ * Creates the `<Code>` and `<ExpressiveCodeStyles>` React Server Components
+ * using the given options.
+ *
+ * All components returned by the same call share a single Expressive Code renderer,
+ * which is created when the first component gets rendered.
+ *
+ * @example
+ * ```ts
+ * // components/code.ts
+ * import { createExpressiveCode } from 'react-expressive-code'
+ *
+ * export const { Code, ExpressiveCodeStyles } = createExpressiveCode({
+ *   themes: ['dracula', 'solarized-light'],
+ * })
+ * ```
+ */
+export function createExpressiveCode(options: ReactExpressiveCodeOptions = {}) {
+	let asyncRenderer: Promise<RehypeExpressiveCodeRenderer> | RehypeExpressiveCodeRenderer | undefined
+
+	const getRenderer = async () => {
+		if (asyncRenderer === undefined) {
+			asyncRenderer = (options.customCreateRenderer ?? createRenderer)(options)
+		}
+		return await asyncRenderer
+	}
+
+	/**
+	 * Renders a code block to HTML using [Expressive Code](https://expressive-code.com/).
+	 *
+	 * The code to be rendered must be passed to the `code` prop.
+	 *
+	 * To get syntax highlighted output, also set the `lang` prop to a valid
+	 * [language identifier](https://expressive-code.com/key-features/syntax-highlighting/#supported-languages)
+	 * (e.g. `js`, `ts`, `jsx`, `html`, `bash`, or many others).
+	 *
+	 * You can also set the `meta` prop to a string. It supports the same syntax that you would use
+	 * in fenced code blocks in markdown/MDX files after the language identifier.
+	 *
+	 * The base styles, theme styles and JS modules required by all code blocks are not included
+	 * in the output. Render the `<ExpressiveCodeStyles>` component once per page to add them.
+	 */
+	async function Code({ code, lang = '', meta = '', locale, className, ...props }: CodeProps) {
+		try {
+			if (!code || !code.trim().length) {
+				throw new Error('Missing code to render. The `code` prop must be set to a non-empty string.')
+			}
+
+			const requestData = getRequestData()
+			// Note: It's important to store the incremented index in a local variable immediately,
+			// as the `requestData` object is shared between all components of the current request
+			// and can be changed by other Code components during the `await` calls below
+			const groupIndex = ++requestData.blockGroupIndex
+
+			const renderer = await getRenderer()
+
+			const { renderedGroupAst, styles } = await renderer.ec.render({
+				code,
+				language: lang,
+				meta,
+				locale,
+				parentDocument: {
+					positionInDocument: {
+						groupIndex,
+					},
+				},
+				props,
+			})
+
+			if (className) {
+				const classNames = className.split(' ')
+				classNames.forEach((className) => addClassName(renderedGroupAst, className))
+			}
+
+			// Prepend any group-level styles that we haven't added yet to the children
+			// of the renderedGroupAst wrapper
+			const stylesToPrepend = [...styles].filter((style) => !requestData.addedStyles.has(style))
+			stylesToPrepend.forEach((style) => requestData.addedStyles.add(style))
+			if (stylesToPrepend.length) {
+				renderedGroupAst.children.unshift({
+					type: 'element',
+					tagName: 'style',
+					properties: {},
+					children: [{ type: 'text', value: stylesToPrepend.join('') }],
+				} satisfies Element)
+			}
+
+			return toJsxRuntime(renderedGroupAst, {
+				Fragment,
+				// The React types expect a more specific element type than the generic JSX runtime
+				jsx: jsx as Jsx,
+				jsxs: jsxs as Jsx,
+				components: {
+					// React escapes text children, so pass styles as raw HTML instead
+					style: ({ children }: { children?: unknown | undefined }) => createElement('style', { dangerouslySetInnerHTML: { __html: String(children ?? '') } }),
+				},
+			})
+		} catch (err) {
+			const error = err instanceof Error ? err : new Error(String(err))
+			throw new Error(`Failed to render a \`<Code>\` component:\n\n${error.message}`, { cause: error })
+		}
+	}
+
+	/**
+	 * Renders the base styles, theme styles and JS modules required by all code blocks
+	 * rendered by the `<Code>` component.
+	 *
+	 * Add this component once to the `<head>` of your pages, e.g. in your root layout.
+	 * Any assets that were already added during the current request are skipped.
+	 */
+	async function ExpressiveCodeStyles() {
+		const { baseStyles, themeStyles, jsModules } = await getRenderer()
+		const requestData = getRequestData()
+
+		const stylesToAdd = [baseStyles, themeStyles].filter((style) => style && !requestData.addedStyles.has(style))
+		stylesToAdd.forEach((style) => requestData.addedStyles.add(style))
+		const jsModulesToAdd = jsModules.filter((moduleCode) => !requestData.addedJsModules.has(moduleCode))
+		jsModulesToAdd.forEach((moduleCode) => requestData.addedJsModules.add(moduleCode))
+
+		return createElement(
+			Fragment,
+			null,
+			stylesToAdd.length ? createElement('style', { dangerouslySetInnerHTML: { __html: stylesToAdd.join('') } }) : null,
+			...jsModulesToAdd.map((moduleCode) => createElement('script', { type: 'module', dangerouslySetInnerHTML: { __html: moduleCode } }))
+		)
+	}
+
+	return { Code, ExpressiveCodeStyles }
+}
+
+/**
+ * The `<Code>` and `<ExpressiveCodeStyles>` components using the default options.
+ *
+ * To customize the options, use {@link createExpressiveCode} instead.
+ */
+export const { Code, ExpressiveCodeStyles } = createExpressiveCode()
@@ -0,0 +1,25 @@
+import * as React from 'react'
+
+export type RequestData = {
+	blockGroupIndex: number
+	addedStyles: Set<string>
+	addedJsModules: Set<string>
+}
+
+type CacheFn = <T extends (...args: never[]) => unknown>(fn: T) => T
+
+// React's `cache` function is only available in React Server Components environments
+// (e.g. the Next.js App Router), where it memoizes the result for the current request.
+// In other environments, every call creates new data and assets are not deduplicated
+const cache: CacheFn = (React as unknown as { cache?: CacheFn | undefined }).cache ?? ((fn) => fn)
+
+/**
+ * Returns data that is shared between all components rendered during the current request.
+ */
+export const getRequestData = cache(
+	(): RequestData => ({
+		blockGroupIndex: -1,
+		addedStyles: new Set(),
+		addedJsModules: new Set(),
+	})
+)
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { Code, ExpressiveCodeStyles, createExpressiveCode } from '../src'
+
+const exampleCode = `const isTest = a > b && b < c
+console.log('Done!')`
+
+describe('Code', () => {
+	test('Renders the code block to HTML', async () => {
+		const html = renderToStaticMarkup(await Code({ code: exampleCode, lang: 'js' }))
+		expect(html).toMatch(/^<div class="expressive-code"><figure class="frame[^"]*"/)
+		expect(html).toContain('<pre data-language="js">')
+		expect(html).toContain('Done!')
+	})
+	test('Supports meta strings and props', async () => {
+		const metaHtml = renderToStaticMarkup(await Code({ code: exampleCode, lang: 'js', meta: 'title="example.js"' }))
+		expect(metaHtml).toContain('<span class="title">example.js</span>')
+		const propHtml = renderToStaticMarkup(await Code({ code: exampleCode, lang: 'js', title: 'example.js' }))
+		expect(propHtml).toContain('<span class="title">example.js</span>')
+	})
+	test('Adds the given class names to the container element', async () => {
+		const html = renderToStaticMarkup(await Code({ code: exampleCode, lang: 'js', className: 'first second' }))
+		expect(html).toMatch(/^<div class="expressive-code first second">/)
+	})
+	test('Prepends group-level styles to the container element', async () => {
+		const html = renderToStaticMarkup(await Code({ code: exampleCode, lang: 'js', theme: 'github-light' }))
+		expect(html).toMatch(/^<div class="expressive-code"><style>[^<]*\.ec-themes-1[^<]*<\/style><figure/)
+	})
+	test('Throws a helpful error if the code is missing', async () => {
+		await expect(Code({ code: ' ' })).rejects.toThrow(/Failed to render a `<Code>` component:\s+Missing code to render/)
+	})
+})
+
+describe('ExpressiveCodeStyles', () => {
+	test('Renders the base styles, theme styles and JS modules', async () => {
+		const html = renderToStaticMarkup(await ExpressiveCodeStyles())
+		expect(html).toMatch(/^<style>.*\.expressive-code.*<\/style>(<script type="module">.*?<\/script>)+$/s)
+		// Expect the styles to be emitted as raw text without HTML escaping
+		expect(html).not.toContain('&gt;')
+	})
+	test('Uses the options passed to createExpressiveCode', async () => {
+		const { Code: CustomCode, ExpressiveCodeStyles: CustomStyles } = createExpressiveCode({
+			themes: ['dracula'],
+			frames: { showCopyToClipboardButton: false },
+		})
+		const codeHtml = renderToStaticMarkup(await CustomCode({ code: exampleCode, lang: 'js' }))
+		expect(codeHtml).not.toContain('class="copy"')
+		const stylesHtml = renderToStaticMarkup(await CustomStyles())
+		expect(stylesHtml.toLowerCase()).toContain('#282a36')
+	})
+})
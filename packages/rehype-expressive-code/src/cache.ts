@@ -0,0 +1,318 @@
+import { mkdir, readdir, readFile, realpath, rm, stat, utimes, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { ExpressiveCode, ExpressiveCodeDiagnostic } from 'expressive-code'
+import { getStableObjectHash, stableStringify } from 'expressive-code'
+import type { Element } from 'expressive-code/hast'
+import type { PositionInDocument } from './utils'
+
+/**
+ * Increase this version whenever the format of cache entries changes
+ * or rendering results of older versions must no longer be used.
+ */
+const cacheFormatVersion = 3
+
+export type RenderCacheOptions = {
+	/**
+	 * The directory used to store cached rendering results.
+	 *
+	 * Relative paths are resolved from the current working directory.
+	 *
+	 * @default 'node_modules/.cache/expressive-code'
+	 */
+	dir?: string | undefined
+	/**
+	 * The number of days after which cached results of other configurations are removed
+	 * if they have not been used anymore.
+	 *
+	 * Results of the current configuration are always kept. Keeping the results of other
+	 * configurations allows switching between them (e.g. when checking out different
+	 * branches) without having to render all code blocks again.
+	 *
+	 * Set this to `false` to never remove any cached results.
+	 *
+	 * @default 30
+	 */
+	pruneAfterDays?: number | false | undefined
+}
+
+export type RenderCacheStats = {
+	hits: number
+	misses: number
+}
+
+export type CachedRenderResult = {
+	renderedGroupAst: Element
+	styles: string[]
+	/**
+	 * The paths of all files that the rendered code blocks depend on
+	 * (e.g. source files that code was imported from).
+	 */
+	dependencies: string[]
+	/**
+	 * The diagnostics reported while rendering the code blocks, allowing them
+	 * to be reported again when the result is taken from the cache.
+	 */
+	diagnostics: CachedRenderDiagnostic[]
+	/**
+	 * The properties of the group's position in the document that were read while rendering.
+	 * Results depending on their position are only reused at the same position.
+	 */
+	positionInDocument?: Partial<PositionInDocument> | undefined
+}
+
+/**
+ * A serializable version of a diagnostic that references its code block
+ * by its index inside the rendered group.
+ */
+export type CachedRenderDiagnostic = Omit<ExpressiveCodeDiagnostic, 'codeBlock'> & {
+	blockIndex: number
+}
+
+type CacheEntry = Omit<CachedRenderResult, 'dependencies'> & {
+	key: string
+	dependencies: { path: string; hash: string }[]
+}
+
+type PackageJson = {
+	name?: string | undefined
+	version?: string | undefined
+	dependencies?: { [name: string]: string } | undefined
+	devDependencies?: { [name: string]: string } | undefined
+	peerDependencies?: { [name: string]: string } | undefined
+}
+
+/**
+ * A persistent cache for the rendering results of code block groups.
+ *
+ * To use it, pass a new instance to the `cache` option of `rehype-expressive-code`.
+ * The cache is kept in a separate entry point (`rehype-expressive-code/cache`) because
+ * it requires access to the file system, so it is only supported in Node.js and
+ * compatible runtimes.
+ *
+ * Results are stored on disk in a `render-<hash>` subdirectory of the cache directory,
+ * where `<hash>` is a hash of the engine configuration (including the source code
+ * of all plugin hooks) and the installed versions of all Expressive Code packages.
+ * When the configuration or any package changes, a new subdirectory is used, and
+ * subdirectories that have not been used for a while are removed.
+ */
+export class RenderCache {
+	readonly options: RenderCacheOptions
+	/**
+	 * The number of cache hits and misses since the cache was initialized.
+	 */
+	readonly stats: RenderCacheStats = { hits: 0, misses: 0 }
+	#dir: string | undefined
+	#logger: ExpressiveCode['logger'] | undefined
+
+	constructor(options: RenderCacheOptions = {}) {
+		this.options = options
+	}
+
+	/**
+	 * The subdirectory storing the results of the current configuration.
+	 * Only available after the cache was initialized.
+	 */
+	get dir() {
+		return this.#dir
+	}
+
+	/**
+	 * Prepares the cache for the given engine configuration. This is called automatically
+	 * when a renderer is created, so you do not need to call it yourself.
+	 *
+	 * Marks the subdirectory of the given configuration as used and removes the
+	 * subdirectories of other configurations that have not been used for a while.
+	 */
+	async initialize({ config, logger, projectDir = process.cwd() }: { config: unknown; logger: ExpressiveCode['logger']; projectDir?: string | undefined }) {
+		const { pruneAfterDays = 30 } = this.options
+		const baseDir = resolve(this.options.dir ?? 'node_modules/.cache/expressive-code')
+		const packageVersions = await getPackageVersions(projectDir)
+		const configHash = getStableObjectHash({ cacheFormatVersion, config, packageVersions }, { includeFunctionContents: true, hashLength: 8 })
+
+		// Mark the results of the current configuration as used
+		const dirName = `render-${configHash}`
+		const dir = join(baseDir, dirName)
+		await mkdir(dir, { recursive: true })
+		const now = new Date()
+		await utimes(dir, now, now)
+
+		// Remove cached results of other configurations that have not been used for a while
+		if (pruneAfterDays !== false) {
+			const otherDirs = (await readdir(baseDir)).filter((entry) => /^render-[0-9a-z]+$/.test(entry) && entry !== dirName)
+			await Promise.all(
+				otherDirs.map(async (entry) => {
+					const otherDir = join(baseDir, entry)
+					// Skip directories that were already removed by another process
+					const stats = await stat(otherDir).catch(() => undefined)
+					if (!stats || now.getTime() - stats.mtimeMs < pruneAfterDays * 24 * 60 * 60 * 1000) return
+					await rm(otherDir, { recursive: true, force: true })
+				})
+			)
+		}
+
+		this.#dir = dir
+		this.#logger = logger
+	}
+
+	/**
+	 * Returns the cached rendering result for the given key if it exists and all of its
+	 * dependencies are unchanged. Otherwise, calls the given `render` function
+	 * and stores its result in the cache.
+	 *
+	 * If the cached result depends on the position of the group in the document,
+	 * it is only reused if the given `positionInDocument` matches.
+	 *
+	 * The returned `cacheHit` property indicates whether the result was taken from the cache.
+	 */
+	async getOrRender({
+		key,
+		positionInDocument,
+		render,
+	}: {
+		key: unknown
+		positionInDocument?: PositionInDocument | undefined
+		render: () => Promise<CachedRenderResult>
+	}): Promise<CachedRenderResult & { cacheHit: boolean }> {
+		if (this.#dir === undefined) throw new Error('The render cache must be initialized before it can be used.')
+		const keyString = stableStringify(key)
+		const entryPath = join(this.#dir, `${getStableObjectHash(keyString, { hashLength: 8 })}.json`)
+
+		const cachedResult = await this.#read(entryPath, keyString, positionInDocument)
+		if (cachedResult) {
+			this.stats.hits++
+			return { ...cachedResult, cacheHit: true }
+		}
+
+		this.stats.misses++
+		const result = await render()
+		await this.#write(entryPath, keyString, result)
+		return { ...result, cacheHit: false }
+	}
+
+	async #read(entryPath: string, keyString: string, positionInDocument: PositionInDocument | undefined): Promise<CachedRenderResult | undefined> {
+		let entry: CacheEntry
+		try {
+			entry = JSON.parse(await readFile(entryPath, 'utf8')) as CacheEntry
+		} catch (error) {
+			// Treat missing or corrupted entries as cache misses
+			return
+		}
+		// Ignore entries with a colliding hash
+		if (entry.key !== keyString) return
+		// Ignore entries that were rendered at a different position they depend on
+		const cachedPosition = entry.positionInDocument ?? {}
+		for (const key of Object.keys(cachedPosition) as (keyof PositionInDocument)[]) {
+			if (cachedPosition[key] !== positionInDocument?.[key]) return
+		}
+		// Ignore entries whose dependencies have changed
+		for (const dependency of entry.dependencies) {
+			if ((await getFileHash(dependency.path)) !== dependency.hash) return
+		}
+		return {
+			renderedGroupAst: entry.renderedGroupAst,
+			styles: entry.styles,
+			dependencies: entry.dependencies.map((dependency) => dependency.path),
+			diagnostics: entry.diagnostics,
+			positionInDocument: entry.positionInDocument,
+		}
+	}
+
+	async #write(entryPath: string, keyString: string, result: CachedRenderResult) {
+		try {
+			const dependencies: CacheEntry['dependencies'] = []
+			for (const path of new Set(result.dependencies)) {
+				const hash = await getFileHash(path)
+				if (hash === undefined) return
+				dependencies.push({ path, hash })
+			}
+			const entry: CacheEntry = {
+				key: keyString,
+				renderedGroupAst: result.renderedGroupAst,
+				styles: result.styles,
+				dependencies,
+				diagnostics: result.diagnostics,
+				positionInDocument: result.positionInDocument,
+			}
+			await writeFile(entryPath, JSON.stringify(entry), 'utf8')
+		} catch (error) {
+			// Failing to write to the cache must not break rendering
+			const message = error instanceof Error ? error.message : String(error)
+			this.#logger?.warn(`Failed to write render cache entry "${entryPath}": ${message}`)
+		}
+	}
+}
+
+async function getFileHash(path: string) {
+	try {
+		return getStableObjectHash(await readFile(path, 'utf8'), { hashLength: 8 })
+	} catch (error) {
+		return undefined
+	}
+}
+
+/**
+ * Returns the names and versions of all installed packages that can affect rendering results,
+ * allowing the cache to be invalidated when any of them gets updated.
+ *
+ * This includes this package, all Expressive Code packages and plugins that it or the
+ * project depend on, and the direct dependencies of these packages (e.g. Shiki).
+ */
+async function getPackageVersions(projectDir: string) {
+	const readPackageJson = async (packageDir: string) => {
+		try {
+			return JSON.parse(await readFile(join(packageDir, 'package.json'), 'utf8')) as PackageJson
+		} catch (error) {
+			return undefined
+		}
+	}
+
+	// Resolve packages the same way as Node.js, following symlinks created by package managers
+	const resolvePackageDir = async (name: string, fromDir: string) => {
+		for (let dir = fromDir; ; dir = dirname(dir)) {
+			const packageDir = join(dir, 'node_modules', name)
+			if (await readPackageJson(packageDir)) return await realpath(packageDir)
+			if (dirname(dir) === dir) return undefined
+		}
+	}
+
+	const isExpressiveCodePackage = (name: string) => name.includes('expressive-code')
+	const getDependencyNames = (packageJson: PackageJson, includeDevDependencies = false) => [
+		...Object.keys(packageJson.dependencies ?? {}),
+		...Object.keys(packageJson.peerDependencies ?? {}),
+		...(includeDevDependencies ? Object.keys(packageJson.devDependencies ?? {}) : []),
+	]
+
+	const packageDirsToVisit: string[] = []
+	try {
+		packageDirsToVisit.push(fileURLToPath(new URL('..', import.meta.url)))
+	} catch (error) {
+		// Bundled code may not be able to locate its own package
+	}
+	const projectPackageJson = await readPackageJson(projectDir)
+	for (const name of getDependencyNames(projectPackageJson ?? {}, true).filter(isExpressiveCodePackage)) {
+		const packageDir = await resolvePackageDir(name, projectDir)
+		if (packageDir) packageDirsToVisit.push(packageDir)
+	}
+
+	const versions = new Set<string>()
+	const visitedDirs = new Set<string>()
+	for (const packageDir of packageDirsToVisit) {
+		if (visitedDirs.has(packageDir)) continue
+		visitedDirs.add(packageDir)
+		const packageJson = await readPackageJson(packageDir)
+		if (!packageJson?.name) continue
+		versions.add(`${packageJson.name}@${packageJson.version ?? ''}`)
+		for (const name of getDependencyNames(packageJson)) {
+			const dependencyDir = await resolvePackageDir(name, packageDir)
+			if (!dependencyDir) continue
+			if (isExpressiveCodePackage(name)) {
+				packageDirsToVisit.push(dependencyDir)
+				continue
+			}
+			const dependencyPackageJson = await readPackageJson(dependencyDir)
+			versions.add(`${name}@${dependencyPackageJson?.version ?? ''}`)
+		}
+	}
+	return [...versions].sort()
+}
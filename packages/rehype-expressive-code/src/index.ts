@@ -9,14 +9,19 @@ import {
 	ExpressiveCodeBlockOptions,
 	ExpressiveCodeBlock,
 	ExpressiveCodeThemeInput,
+	MetaOptions,
+	getDiagnosticDocumentPosition,
 } from 'expressive-code'
 import type { Root, Parents, Element } from 'expressive-code/hast'
 import { visit } from 'expressive-code/hast'
-import { CodeBlockInfo, createInlineAssetElement, getCodeBlockInfo } from './utils'
+import { CodeBlockInfo, PositionInDocument, areAdjacentSiblings, createInlineAssetElement, getCodeBlockInfo, getFollowingOrderedList, trackPositionReads } from './utils'
+import type { CachedRenderDiagnostic, CachedRenderResult, RenderCache } from './cache'
+import { InlineCodeInfo, InlineCodeOptions, getInlineCodeInfo, renderInlineCode } from './inline-code'
 
 type AnyVFile = VFile | VFileWithOutput<null>
 
 export * from 'expressive-code'
+export type { InlineCodeOptions } from './inline-code'
 
 export type RehypeExpressiveCodeOptions = Omit<ExpressiveCodeConfig, 'themes'> & {
 	/**
@@ -66,6 +71,80 @@ export type RehypeExpressiveCodeOptions = Omit<ExpressiveCodeConfig, 'themes'> &
 	 * or a promise resolving to one.
 	 */
 	customCreateBlock?: (({ input, file }: { input: ExpressiveCodeBlockOptions; file: AnyVFile }) => ExpressiveCodeBlock | Promise<ExpressiveCodeBlock>) | undefined
+	/**
+	 * This optional function is called whenever a plugin registers an additional file
+	 * that a code block in the Markdown document depends on (e.g. a source file that
+	 * its code was imported from).
+	 *
+	 * Integrations can use this to re-render the Markdown document when the registered
+	 * file changes.
+	 */
+	addWatchFile?: (({ filePath, file }: { filePath: string; file: AnyVFile }) => void) | undefined
+	/**
+	 * Enables a persistent cache for rendered code blocks, allowing unchanged code blocks
+	 * to be reused across builds instead of rendering them again.
+	 *
+	 * To enable it, import `RenderCache` from the separate entry point
+	 * `rehype-expressive-code/cache` and pass a new instance to this option,
+	 * e.g. `cache: new RenderCache()`. By default, the cache is stored in the directory
+	 * `node_modules/.cache/expressive-code`, which can be changed using the `dir` option.
+	 *
+	 * Cached results are identified by the code, language, meta string, props and locale
+	 * of all code blocks in a group. Results that depend on the position of the group
+	 * in the document (e.g. generated IDs) are only reused at the same position.
+	 * The cache is invalidated automatically when the configuration, the source code
+	 * of any plugin or the version of any Expressive Code package changes, or when a file
+	 * that a code block depends on (e.g. an imported source file) is modified.
+	 * Cached results of other configurations are removed after they have not been used
+	 * for 30 days (configurable using the `pruneAfterDays` option).
+	 *
+	 * Please note that no plugin hooks run for cached results, so any side effects
+	 * of plugins are skipped. For example, the line anchors plugin cannot ensure that
+	 * the generated line IDs of cached code blocks are unique within their document.
+	 * If you rely on such side effects, give the affected code blocks an explicit `id`
+	 * or disable the cache.
+	 *
+	 * The number of cache hits and misses per document is logged at the debug level,
+	 * and the total numbers are available in the `stats` property of the cache.
+	 *
+	 * The cache requires access to the file system, so it is only supported in Node.js
+	 * and compatible runtimes. Keeping it in a separate entry point ensures that
+	 * this package can still be used in other runtimes.
+	 *
+	 * @default undefined
+	 */
+	cache?: RenderCache | undefined
+	/**
+	 * Enables syntax highlighting of inline code containing a language hint,
+	 * e.g. `` `const x = 1{:ts}` ``.
+	 *
+	 * Matching inline code is highlighted using the same themes as your code blocks,
+	 * but rendered without any block-level elements like frames or line numbers.
+	 * The language hint is removed from the output. Inline code without a language hint
+	 * is left unchanged.
+	 *
+	 * Inline code is also highlighted inside the explanations of the callouts plugin.
+	 *
+	 * This option is only supported by `rehype-expressive-code` and integrations based on it.
+	 * The deprecated `remark-expressive-code` integration leaves all inline code unchanged.
+	 *
+	 * Set this to `true` to use the default language hint syntax, or to an object
+	 * to customize how language hints are detected.
+	 *
+	 * @default false
+	 */
+	inlineCode?: InlineCodeOptions | boolean | undefined
+	/**
+	 * Problems found while rendering code blocks (e.g. unknown languages or invalid
+	 * meta options) are reported as messages of the processed file, pointing to
+	 * their position in the Markdown document. This allows editors and CI tools
+	 * to display them inline.
+	 *
+	 * Errors always cause processing to fail. Set this to `true` to also fail on warnings.
+	 *
+	 * @default false
+	 */
+	strict?: boolean | undefined
 	/**
 	 * This advanced option allows you to influence the rendering process by creating
 	 * your own `ExpressiveCode` instance or processing the base styles and JS modules
@@ -90,6 +169,11 @@ export type RehypeExpressiveCodeRenderer = {
 	baseStyles: string
 	themeStyles: string
 	jsModules: string[]
+	/**
+	 * The persistent render cache used to reuse rendering results across builds.
+	 * Only available if the `cache` option is set.
+	 */
+	cache?: RenderCache | undefined
 }
 
 /**
@@ -106,7 +190,7 @@ export async function createRenderer(options: RehypeExpressiveCodeOptions = {}):
 		options.themes = Array.isArray(deprecatedOptions.theme) ? deprecatedOptions.theme : [deprecatedOptions.theme]
 		delete deprecatedOptions.theme
 	}
-	const { themes, ...ecOptions } = options
+	const { themes, cache, ...ecOptions } = options
 
 	const loadedThemes =
 		themes &&
@@ -125,39 +209,69 @@ export async function createRenderer(options: RehypeExpressiveCodeOptions = {}):
 	const themeStyles = await ec.getThemeStyles()
 	const jsModules = await ec.getJsModules()
 
+	// Initialize the optional render cache, identifying the configuration by the given options
+	// and the resolved engine properties (excluding the loggers, which are irrelevant
+	// for the rendering results and may contain large object graphs)
+	await cache?.initialize({
+		config: { options: { ...ecOptions, logger: undefined }, engine: { ...ec, logger: undefined } },
+		logger: ec.logger,
+	})
+
 	return {
 		ec,
 		baseStyles,
 		themeStyles,
 		jsModules,
+		cache,
 	}
 }
 
+/**
+ * Returns the data used to identify the rendering result of the given code block group
+ * in the render cache.
+ *
+ * The position of the group in the document is not part of the key, as most results
+ * do not depend on it. Instead, the render cache keeps track of the position properties
+ * read while rendering and only reuses such results at the same position.
+ */
+function getRenderCacheKey(codeBlocks: ExpressiveCodeBlock[]) {
+	return codeBlocks.map(({ code, language, meta, props, locale, parentDocument }) => ({
+		code,
+		language,
+		meta,
+		props,
+		locale,
+		sourceFilePath: parentDocument?.sourceFilePath,
+	}))
+}
+
 function rehypeExpressiveCode(options: RehypeExpressiveCodeOptions = {}) {
-	const { tabWidth = 2, getBlockLocale, customCreateRenderer, customCreateBlock } = options
+	const { tabWidth = 2, getBlockLocale, customCreateRenderer, customCreateBlock, addWatchFile, inlineCode, strict = false } = options
+	const inlineCodeOptions = inlineCode === true ? {} : inlineCode || undefined
 
 	let asyncRenderer: Promise<RehypeExpressiveCodeRenderer> | RehypeExpressiveCodeRenderer | undefined
 
-	const renderBlockToHast = async ({
-		codeBlock,
+	/**
+	 * Creates style and script elements for all assets required by rendered code
+	 * that have not been added to the current document yet.
+	 */
+	const getAssetElements = ({
+		styles,
 		renderer,
 		addedStyles,
 		addedJsModules,
 		useMdxJsx,
+		includeJsModules,
 	}: {
-		codeBlock: ExpressiveCodeBlock
+		styles: string[]
 		renderer: RehypeExpressiveCodeRenderer
 		addedStyles: Set<string>
 		addedJsModules: Set<string>
 		useMdxJsx: boolean
-	}): Promise<Element> => {
-		const { ec, baseStyles, themeStyles, jsModules } = renderer
-
-		// Try to render the current code block
-		const { renderedGroupAst, styles } = await ec.render(codeBlock)
-
-		// Collect any style and script elements that we need to add to the output
-		const extraElements: Element['children'] = []
+		includeJsModules: boolean
+	}) => {
+		const { baseStyles, themeStyles, jsModules } = renderer
+		const assetElements: Element['children'] = []
 		const stylesToPrepend: string[] = []
 
 		// Add any styles that we haven't added yet
@@ -179,7 +293,7 @@ function rehypeExpressiveCode(options: RehypeExpressiveCodeOptions = {}) {
 		}
 		// Combine all styles we collected (if any) into a single style element
 		if (stylesToPrepend.length) {
-			extraElements.push(
+			assetElements.push(
 				createInlineAssetElement({
 					tagName: 'style',
 					innerHTML: stylesToPrepend.join(''),
@@ -189,37 +303,119 @@ function rehypeExpressiveCode(options: RehypeExpressiveCodeOptions = {}) {
 		}
 
 		// Create script elements for all JS modules we haven't added yet
-		jsModules.forEach((moduleCode) => {
-			if (addedJsModules.has(moduleCode)) return
-			addedJsModules.add(moduleCode)
-			extraElements.push(
-				createInlineAssetElement({
-					tagName: 'script',
-					properties: { type: 'module' },
-					innerHTML: moduleCode,
-					useMdxJsx,
-				})
-			)
-		})
+		if (includeJsModules) {
+			jsModules.forEach((moduleCode) => {
+				if (addedJsModules.has(moduleCode)) return
+				addedJsModules.add(moduleCode)
+				assetElements.push(
+					createInlineAssetElement({
+						tagName: 'script',
+						properties: { type: 'module' },
+						innerHTML: moduleCode,
+						useMdxJsx,
+					})
+				)
+			})
+		}
+
+		return assetElements
+	}
+
+	const renderGroupToHast = async ({
+		codeBlocks,
+		renderer,
+		addedStyles,
+		addedJsModules,
+		useMdxJsx,
+		dependencies,
+		positionInDocument,
+		readPosition,
+		file,
+	}: {
+		codeBlocks: ExpressiveCodeBlock[]
+		renderer: RehypeExpressiveCodeRenderer
+		addedStyles: Set<string>
+		addedJsModules: Set<string>
+		useMdxJsx: boolean
+		dependencies: string[]
+		positionInDocument: PositionInDocument
+		readPosition: Partial<PositionInDocument>
+		file: AnyVFile
+	}): Promise<Pick<CachedRenderResult, 'renderedGroupAst' | 'diagnostics'>> => {
+		const { ec, cache } = renderer
+
+		// Try to render the current code block group, or reuse a cached result if possible
+		const renderUncached = async (): Promise<CachedRenderResult> => {
+			const { renderedGroupAst, styles, diagnostics } = await ec.render(codeBlocks, { logDiagnostics: false })
+			return {
+				renderedGroupAst,
+				styles: [...styles],
+				dependencies,
+				diagnostics: diagnostics.map(({ codeBlock, ...diagnostic }) => ({ ...diagnostic, blockIndex: codeBlocks.indexOf(codeBlock) })),
+				positionInDocument: Object.keys(readPosition).length ? { ...readPosition } : undefined,
+			}
+		}
+		const result = cache
+			? await cache.getOrRender({ key: getRenderCacheKey(codeBlocks), positionInDocument, render: renderUncached })
+			: { ...(await renderUncached()), cacheHit: false }
+		const { renderedGroupAst, styles, diagnostics } = result
+
+		// Plugins do not run for cached results, so register their dependencies again
+		if (result.cacheHit && addWatchFile) {
+			result.dependencies.forEach((filePath) => addWatchFile({ filePath, file }))
+		}
+
+		const extraElements = getAssetElements({ styles, renderer, addedStyles, addedJsModules, useMdxJsx, includeJsModules: true })
 
 		// Prepend any extra elements to the children of the renderedGroupAst wrapper,
 		// which keeps them inside the wrapper and reduces the chance of CSS issues
 		// caused by selectors like `* + *` on the parent level
 		renderedGroupAst.children.unshift(...extraElements)
 
-		return renderedGroupAst
+		return { renderedGroupAst, diagnostics }
+	}
+
+	/**
+	 * Reports the given diagnostics as messages of the processed file,
+	 * using the positions of their code blocks in the Markdown document.
+	 */
+	const reportDiagnostics = ({
+		diagnostics,
+		codes,
+		codeBlocks,
+		file,
+	}: {
+		diagnostics: CachedRenderDiagnostic[]
+		codes: CodeBlockInfo[]
+		codeBlocks: ExpressiveCodeBlock[]
+		file: AnyVFile
+	}) => {
+		const documentLines = file.value !== undefined ? String(file.value).split(/\r?\n/) : []
+		return diagnostics.map(({ blockIndex, ...diagnostic }) => {
+			const codeBlock = codeBlocks[blockIndex]
+			const fenceStart = codes[blockIndex]?.pre.position?.start
+			const fenceLineText = fenceStart && documentLines[fenceStart.line - 1]
+			const place = fenceStart && codeBlock ? getDiagnosticDocumentPosition({ diagnostic: { ...diagnostic, codeBlock }, fenceStart, fenceLineText }) : undefined
+			const origin = `expressive-code:${diagnostic.pluginName ?? 'core'}`
+			const message = file.message(diagnostic.message, place, origin)
+			message.fatal = diagnostic.severity === 'error' ? true : diagnostic.severity === 'warning' ? false : undefined
+			return message
+		})
 	}
 
 	const transformer = async (tree: Root, file: AnyVFile) => {
 		const nodesToProcess: [Parents, CodeBlockInfo][] = []
+		const inlineCodesToProcess: [Parents, InlineCodeInfo][] = []
 
 		visit(tree, 'element', (element, index, parent) => {
 			if (index === null || !parent) return
 			const codeBlockInfo = getCodeBlockInfo(element)
 			if (codeBlockInfo) nodesToProcess.push([parent, codeBlockInfo])
+			const inlineCodeInfo = inlineCodeOptions && getInlineCodeInfo(element, parent, inlineCodeOptions)
+			if (inlineCodeInfo) inlineCodesToProcess.push([parent, inlineCodeInfo])
 		})
 
-		if (nodesToProcess.length === 0) return
+		if (nodesToProcess.length === 0 && inlineCodesToProcess.length === 0) return
 
 		// We found at least one code node, so we need to ensure our renderer is available
 		// and wait for its initialization if necessary
@@ -234,45 +430,163 @@ function rehypeExpressiveCode(options: RehypeExpressiveCodeOptions = {}) {
 		const isMdx = file.path?.endsWith('.mdx') ?? false
 		const useMdxJsx = !isAstro && isMdx
 
-		// Render all code blocks on the page while keeping track of the assets we already added
+		// Normalize the code coming from the Markdown/MDX document
+		const normalizeCode = (code: string) => {
+			if (tabWidth > 0) return code.replace(/\t/g, ' '.repeat(tabWidth))
+			return code
+		}
+
+		// Keep track of the assets we already added to the document
 		const addedStyles = new Set<string>()
 		const addedJsModules = new Set<string>()
 
-		for (let groupIndex = 0; groupIndex < nodesToProcess.length; groupIndex++) {
-			const [parent, code] = nodesToProcess[groupIndex]
-
-			// Normalize the code coming from the Markdown/MDX document
-			let normalizedCode = code.text
-			if (tabWidth > 0) normalizedCode = normalizedCode.replace(/\t/g, ' '.repeat(tabWidth))
-
-			// Build the ExpressiveCodeBlockOptions object that we will pass either
-			// to the ExpressiveCodeBlock constructor or the customCreateBlock function
+		// Render all inline code with a language hint first, as rendering code blocks
+		// can move parts of the document into their props (e.g. callout explanations)
+		for (const [parent, inlineCode] of inlineCodesToProcess) {
 			const input: ExpressiveCodeBlockOptions = {
-				code: normalizedCode,
-				language: code.lang || '',
-				meta: code.meta || '',
+				code: normalizeCode(inlineCode.text),
+				language: inlineCode.lang,
+				meta: '',
 				parentDocument: {
 					sourceFilePath: file.path,
 					documentRoot: tree,
-					positionInDocument: {
-						groupIndex,
-						totalGroups: nodesToProcess.length,
-					},
 				},
 			}
-
-			// Allow the user to customize the locale for this code block
 			if (getBlockLocale) {
-				input.locale = await getBlockLocale({ input: input, file })
+				input.locale = await getBlockLocale({ input, file })
+			}
+			const { renderedInlineAst, styles } = await renderInlineCode({ input, ec: renderer.ec })
+			renderedInlineAst.children.unshift(...getAssetElements({ styles, renderer, addedStyles, addedJsModules, useMdxJsx, includeJsModules: false }))
+			parent.children.splice(parent.children.indexOf(inlineCode.code), 1, renderedInlineAst)
+		}
+
+		// Collect the code of all code blocks with an `id` meta option,
+		// allowing other code blocks to reference them using the `diff-from` meta option
+		const codeById = new Map<string, string>()
+		for (const [, code] of nodesToProcess) {
+			const id = new MetaOptions(code.meta).getString('id')
+			if (id !== undefined) codeById.set(id, normalizeCode(code.text))
+		}
+
+		// Combine adjacent code blocks sharing the same `group` meta option into groups
+		const groupsToProcess: { parent: Parents; groupKey: string | undefined; codes: CodeBlockInfo[] }[] = []
+		for (const [parent, code] of nodesToProcess) {
+			const groupKey = new MetaOptions(code.meta).getString('group')
+			const prevGroup = groupsToProcess[groupsToProcess.length - 1]
+			const prevCode = prevGroup?.codes[prevGroup.codes.length - 1]
+			if (groupKey && prevGroup?.groupKey === groupKey && prevGroup.parent === parent && areAdjacentSiblings(parent, prevCode.pre, code.pre)) {
+				prevGroup.codes.push(code)
+				continue
+			}
+			groupsToProcess.push({ parent, groupKey, codes: [code] })
+		}
+
+		// Render all code block groups on the page
+		const { hits: prevCacheHits = 0, misses: prevCacheMisses = 0 } = renderer.cache?.stats ?? {}
+		const reportedMessages: ReturnType<typeof reportDiagnostics> = []
+
+		for (let groupIndex = 0; groupIndex < groupsToProcess.length; groupIndex++) {
+			const { parent, codes } = groupsToProcess[groupIndex]
+			const codeBlocks: ExpressiveCodeBlock[] = []
+			// Keep track of the files that plugins registered as dependencies of this group,
+			// allowing the render cache to detect when they change
+			const dependencies: string[] = []
+			const addDependency = (filePath: string) => {
+				dependencies.push(filePath)
+				addWatchFile?.({ filePath, file })
+			}
+			// Keep track of the position properties read by plugins, allowing the render cache
+			// to reuse results that do not depend on the position of the group
+			const positionInDocument = { groupIndex, totalGroups: groupsToProcess.length }
+			const { trackedPosition, readPosition } = trackPositionReads(positionInDocument)
+			// Keep track of problems found by the integration itself, which are reported
+			// together with the diagnostics of the rendered group
+			const integrationDiagnostics: CachedRenderDiagnostic[] = []
+
+			for (const code of codes) {
+				// Build the ExpressiveCodeBlockOptions object that we will pass either
+				// to the ExpressiveCodeBlock constructor or the customCreateBlock function
+				const input: ExpressiveCodeBlockOptions = {
+					code: normalizeCode(code.text),
+					language: code.lang || '',
+					meta: code.meta || '',
+					parentDocument: {
+						sourceFilePath: file.path,
+						documentRoot: tree,
+						positionInDocument: trackedPosition,
+						addWatchFile: addWatchFile || renderer.cache ? addDependency : undefined,
+					},
+				}
+
+				// Resolve any reference to a code block containing the previous version of the code,
+				// rendering the code block without a diff if the reference cannot be resolved
+				const diffFromOption = new MetaOptions(code.meta).list('diff-from', 'string').pop()
+				if (diffFromOption) {
+					const diffFrom = codeById.get(diffFromOption.value)
+					if (diffFrom !== undefined) {
+						input.props = { diffFrom }
+					} else {
+						integrationDiagnostics.push({
+							severity: 'warning',
+							message: `The meta option \`diff-from="${diffFromOption.value}"\` does not match any code block with the meta option \`id="${diffFromOption.value}"\`, so the code block is rendered without a diff.`,
+							location: { source: 'meta', column: diffFromOption.index + diffFromOption.raw.length - diffFromOption.raw.trimStart().length + 1 },
+							blockIndex: codeBlocks.length,
+						})
+					}
+				}
+
+				// If the code block has the `callouts` meta option, move the ordered list
+				// directly following it into the code block to explain its callouts
+				if (new MetaOptions(code.meta).getBoolean('callouts')) {
+					const list = getFollowingOrderedList(parent, code.pre)
+					if (!list) {
+						throw new Error(
+							`A code block in ${file.path ?? 'the document'} uses the meta option \`callouts\`,
+							but it is not directly followed by an ordered list containing the callout explanations.`.replace(/\s+/g, ' ')
+						)
+					}
+					parent.children.splice(parent.children.indexOf(list), 1)
+					const callouts = list.children.flatMap((item) => (item.type === 'element' && item.tagName === 'li' ? [item.children] : []))
+					Object.assign((input.props ??= {}), { callouts })
+				}
+
+				// Allow the user to customize the locale for this code block
+				if (getBlockLocale) {
+					input.locale = await getBlockLocale({ input: input, file })
+				}
+
+				// Allow the user to customize the ExpressiveCodeBlock instance
+				codeBlocks.push(customCreateBlock ? await customCreateBlock({ input, file }) : new ExpressiveCodeBlock(input))
 			}
 
-			// Allow the user to customize the ExpressiveCodeBlock instance
-			const codeBlock = customCreateBlock ? await customCreateBlock({ input, file }) : new ExpressiveCodeBlock(input)
+			// Render the code block group and use it to replace the found `<pre>` elements
+			// (including any whitespace between them)
+			const { renderedGroupAst, diagnostics } = await renderGroupToHast({
+				codeBlocks,
+				renderer,
+				addedStyles,
+				addedJsModules,
+				useMdxJsx,
+				dependencies,
+				positionInDocument,
+				readPosition,
+				file,
+			})
+			reportedMessages.push(...reportDiagnostics({ diagnostics: [...integrationDiagnostics, ...diagnostics], codes, codeBlocks, file }))
+			const firstIndex = parent.children.indexOf(codes[0].pre)
+			const lastIndex = parent.children.indexOf(codes[codes.length - 1].pre)
+			parent.children.splice(firstIndex, lastIndex - firstIndex + 1, renderedGroupAst)
+		}
 
-			// Render the code block and use it to replace the found `<pre>` element
-			const renderedBlock = await renderBlockToHast({ codeBlock, renderer, addedStyles, addedJsModules, useMdxJsx })
-			parent.children.splice(parent.children.indexOf(code.pre), 1, renderedBlock)
+		// Log the render cache statistics of the current document
+		if (renderer.cache) {
+			const { hits, misses } = renderer.cache.stats
+			renderer.ec.logger.debug(`Render cache for ${file.path ?? 'document'}: ${hits - prevCacheHits} hits, ${misses - prevCacheMisses} misses`)
 		}
+
+		// Fail on errors, and also on warnings in strict mode
+		const failingMessage = reportedMessages.find((message) => message.fatal === true) ?? (strict ? reportedMessages.find((message) => message.fatal === false) : undefined)
+		if (failingMessage) throw failingMessage
 	}
 
 	return transformer
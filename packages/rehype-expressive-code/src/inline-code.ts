@@ -0,0 +1,77 @@
+import type { Element, Parents } from 'expressive-code/hast'
+import { addClassName, h, selectAll } from 'expressive-code/hast'
+import type { ExpressiveCode, ExpressiveCodeBlockOptions } from 'expressive-code'
+import { ExpressiveCodeBlock, codeLineClass, inlineCodeClass } from 'expressive-code'
+
+export type InlineCodeOptions = {
+	/**
+	 * A regular expression that matches the text of inline code containing a language hint.
+	 * Inline code that does not match this expression is left unchanged.
+	 *
+	 * The expression must contain the named capture groups `code` and `language`.
+	 *
+	 * By default, a language hint in curly braces is expected at the end of the
+	 * inline code, e.g. `` `const x = 1{:ts}` ``. To use a prefix instead, you could
+	 * set this option to `/^(?<language>[\w#+.-]+):\s+(?<code>.+)$/s`, which matches
+	 * inline code like `` `ts: const x = 1` ``.
+	 *
+	 * @default /^(?<code>.+?)\{:(?<language>[\w#+.-]+)\}$/s
+	 */
+	pattern?: RegExp | undefined
+}
+
+export type InlineCodeInfo = {
+	code: Element
+	text: string
+	lang: string
+}
+
+const defaultInlineCodePattern = /^(?<code>.+?)\{:(?<language>[\w#+.-]+)\}$/s
+
+/**
+ * Checks if the given element is an inline `code` element containing a language hint
+ * and returns its code and language.
+ */
+export function getInlineCodeInfo(code: Element, parent: Parents, options: InlineCodeOptions): InlineCodeInfo | undefined {
+	if (code.tagName !== 'code' || (parent.type === 'element' && parent.tagName === 'pre')) return
+	if (code.children.length !== 1) return
+	const text = code.children[0]
+	if (text.type !== 'text') return
+	const match = text.value.match(options.pattern ?? defaultInlineCodePattern)
+	const { code: codeText, language } = match?.groups ?? {}
+	if (!codeText || !language) return
+	return {
+		code,
+		text: codeText,
+		lang: language,
+	}
+}
+
+/**
+ * Renders the given inline code using the syntax highlighting of the engine,
+ * but without any block-level elements like frames or gutters.
+ *
+ * Returns an inline element using the same group wrapper class as code blocks,
+ * which allows the theme styles (including all theme selectors) to apply to it,
+ * and the group-level styles required by the rendered code.
+ */
+export async function renderInlineCode({ input, ec }: { input: ExpressiveCodeBlockOptions; ec: ExpressiveCode }) {
+	const codeBlock = new ExpressiveCodeBlock({
+		...input,
+		// Prevent the frames plugin from adding a frame or extracting a title from the code
+		props: { ...input.props, frame: 'none' },
+	})
+	const { renderedGroupAst, styles } = await ec.render(codeBlock)
+
+	// Collect the rendered contents of all code lines, separating them by spaces
+	const children: Element['children'] = []
+	selectAll(`.${codeLineClass} .code`, renderedGroupAst).forEach((lineCode, index) => {
+		if (index > 0) children.push({ type: 'text', value: ' ' })
+		children.push(...lineCode.children)
+	})
+
+	const renderedInlineAst = h('span', { ...renderedGroupAst.properties }, [h('code', { className: [codeLineClass] }, children)])
+	addClassName(renderedInlineAst, inlineCodeClass)
+
+	return { renderedInlineAst, styles: [...styles] }
+}
@@ -1,4 +1,4 @@
-import type { Element } from 'expressive-code/hast'
+import type { Element, Parents } from 'expressive-code/hast'
 import type { MdxJsxFlowElementHast, MdxJsxAttribute } from 'mdast-util-mdx-jsx'
 import { getClassNames } from 'expressive-code/hast'
 
@@ -22,6 +22,27 @@ export function getCodeBlockInfo(pre: Element) {
 	}
 }
 
+/**
+ * Checks if the element `b` directly follows the element `a` inside the given `parent`,
+ * only allowing whitespace text nodes between them.
+ */
+export function areAdjacentSiblings(parent: Parents, a: Element, b: Element) {
+	const indexA = parent.children.indexOf(a)
+	const indexB = parent.children.indexOf(b)
+	if (indexA < 0 || indexB <= indexA) return false
+	return parent.children.slice(indexA + 1, indexB).every((node) => node.type === 'text' && !node.value.trim().length)
+}
+
+/**
+ * Returns the ordered list element directly following the given element inside
+ * the given `parent`, only allowing whitespace text nodes between them.
+ */
+export function getFollowingOrderedList(parent: Parents, element: Element) {
+	const index = parent.children.indexOf(element)
+	const nextNode = parent.children.slice(index + 1).find((node) => node.type !== 'text' || node.value.trim().length)
+	if (nextNode?.type === 'element' && nextNode.tagName === 'ol') return nextNode
+}
+
 export function createInlineAssetElement({
 	tagName,
 	properties = {},
@@ -101,3 +122,29 @@ function createMdxJsxElementWithInnerHTML(tagName: string, properties: Record<st
 		children: [],
 	}
 }
+
+export type PositionInDocument = {
+	groupIndex: number
+	totalGroups?: number | undefined
+}
+
+/**
+ * Returns a copy of the given position in the document that keeps track of all properties
+ * being read, e.g. by plugins generating IDs based on the position of a code block.
+ *
+ * The properties read so far are available in the returned `readPosition` object.
+ */
+export function trackPositionReads(position: PositionInDocument) {
+	const readPosition: Partial<PositionInDocument> = {}
+	const trackedPosition = {} as PositionInDocument
+	for (const key of Object.keys(position) as (keyof PositionInDocument)[]) {
+		Object.defineProperty(trackedPosition, key, {
+			enumerable: true,
+			get: () => {
+				Object.assign(readPosition, { [key]: position[key] })
+				return position[key]
+			},
+		})
+	}
+	return { trackedPosition, readPosition }
+}
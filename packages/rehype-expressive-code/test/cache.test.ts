@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkRehype from 'remark-rehype'
+import toHtml from 'rehype-stringify'
+import rehypeExpressiveCode, { ExpressiveCode, ExpressiveCodePlugin, RehypeExpressiveCodeOptions } from '../src'
+import { RenderCache } from '../src/cache'
+
+const sampleMarkdown = `
+# Cached code
+
+\`\`\`js title="first.js"
+const a = 1
+\`\`\`
+
+\`\`\`js title="second.js"
+const b = 2
+\`\`\`
+`
+
+let cacheDir: string
+
+beforeEach(async () => {
+	cacheDir = await mkdtemp(join(tmpdir(), 'ec-cache-'))
+})
+
+afterEach(async () => {
+	await rm(cacheDir, { recursive: true, force: true })
+})
+
+describe('Render cache', () => {
+	test('Reuses rendering results across renderer instances', async () => {
+		const firstRun = await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+		expect(firstRun.debugMessages).toEqual(['Render cache for document: 0 hits, 2 misses'])
+
+		const secondRun = await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+		expect(secondRun.debugMessages).toEqual(['Render cache for document: 2 hits, 0 misses'])
+		expect(secondRun.html).toEqual(firstRun.html)
+	})
+	test('Renders changed code blocks again', async () => {
+		await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+
+		const { html, debugMessages } = await processMarkdown(sampleMarkdown.replace('const b = 2', 'const b = 3'), { cache: new RenderCache({ dir: cacheDir }) })
+		expect(debugMessages).toEqual(['Render cache for document: 1 hits, 1 misses'])
+		expect(html).toContain('>3<')
+	})
+	test('Invalidates all results when the configuration changes', async () => {
+		await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+		const [firstConfigDir] = await readdir(cacheDir)
+		expect(firstConfigDir).toMatch(/^render-[0-9a-z]+$/)
+
+		const { html, debugMessages } = await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }), styleOverrides: { borderRadius: '13px' } })
+		expect(debugMessages).toEqual(['Render cache for document: 0 hits, 2 misses'])
+		expect(html).toContain('13px')
+
+		// Expect the results of the previous configuration to be kept
+		const configDirs = await readdir(cacheDir)
+		expect(configDirs).toHaveLength(2)
+		expect(configDirs).toContain(firstConfigDir)
+
+		// Expect switching back to the previous configuration to reuse its results
+		const { debugMessages: switchedBackMessages } = await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+		expect(switchedBackMessages).toEqual(['Render cache for document: 2 hits, 0 misses'])
+	})
+	test('Invalidates all results when a package version changes', async () => {
+		const projectDir = join(cacheDir, 'project')
+		const pluginDir = join(projectDir, 'node_modules', 'expressive-code-plugin-test')
+		await mkdir(pluginDir, { recursive: true })
+		await writeFile(join(projectDir, 'package.json'), JSON.stringify({ dependencies: { 'expressive-code-plugin-test': '^1.0.0' } }), 'utf8')
+		const createCache = async (version: string) => {
+			await writeFile(join(pluginDir, 'package.json'), JSON.stringify({ name: 'expressive-code-plugin-test', version }), 'utf8')
+			const cache = new RenderCache({ dir: cacheDir })
+			await cache.initialize({ config: {}, logger: new ExpressiveCode().logger, projectDir })
+			return cache
+		}
+		const firstCache = await createCache('1.0.0')
+		expect((await createCache('1.0.0')).dir).toEqual(firstCache.dir)
+		expect((await createCache('1.0.1')).dir).not.toEqual(firstCache.dir)
+	})
+	test('Removes results of configurations that have not been used for a while', async () => {
+		const unusedDir = join(cacheDir, 'render-unused')
+		const recentDir = join(cacheDir, 'render-recent')
+		await mkdir(unusedDir)
+		await mkdir(recentDir)
+		const unusedDate = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000)
+		await utimes(unusedDir, unusedDate, unusedDate)
+
+		// Expect nothing to be removed if pruning is disabled
+		await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir, pruneAfterDays: false }) })
+		expect(await readdir(cacheDir)).toEqual(expect.arrayContaining(['render-unused', 'render-recent']))
+
+		await processMarkdown(sampleMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+		const configDirs = await readdir(cacheDir)
+		expect(configDirs).toHaveLength(2)
+		expect(configDirs).toContain('render-recent')
+		expect(configDirs).not.toContain('render-unused')
+	})
+	test('Only reuses position-dependent results at the same position', async () => {
+		// Text markers generate IDs based on the position of the code block in the document
+		const markdown = sampleMarkdown.replace('title="second.js"', 'title="second.js" {1}')
+		await processMarkdown(markdown, { cache: new RenderCache({ dir: cacheDir }) })
+
+		// Insert a new code block at the start, moving the other code blocks
+		const movedMarkdown = markdown.replace('# Cached code\n', '# Cached code\n\n```js\nconst c = 3\n```\n')
+		const { debugMessages } = await processMarkdown(movedMarkdown, { cache: new RenderCache({ dir: cacheDir }) })
+		expect(debugMessages).toEqual(['Render cache for document: 1 hits, 2 misses'])
+	})
+	test('Invalidates results when a dependency changes', async () => {
+		const dependencyPath = join(cacheDir, 'dependency.txt')
+		await writeFile(dependencyPath, 'first version', 'utf8')
+		const watchedFiles: string[] = []
+		const options: RehypeExpressiveCodeOptions = {
+			cache: new RenderCache({ dir: cacheDir }),
+			plugins: [getDependencyPlugin(dependencyPath)],
+			addWatchFile: ({ filePath }) => watchedFiles.push(filePath),
+		}
+		await processMarkdown(sampleMarkdown, options)
+		expect(watchedFiles).toEqual([dependencyPath, dependencyPath])
+
+		// Expect cached results to still register their dependencies
+		watchedFiles.length = 0
+		const cachedRun = await processMarkdown(sampleMarkdown, options)
+		expect(cachedRun.debugMessages).toEqual(['Render cache for document: 2 hits, 0 misses'])
+		expect(watchedFiles).toEqual([dependencyPath, dependencyPath])
+
+		await writeFile(dependencyPath, 'second version', 'utf8')
+		const { html, debugMessages } = await processMarkdown(sampleMarkdown, options)
+		expect(debugMessages).toEqual(['Render cache for document: 0 hits, 2 misses'])
+		expect(html).toContain('second version')
+	})
+	test('Reports diagnostics of cached results again', async () => {
+		const markdown = sampleMarkdown.replace('title="second.js"', 'title="second.js" pattern=/(\\d+/')
+		const firstRun = await processMarkdown(markdown, { cache: new RenderCache({ dir: cacheDir }) })
+		const cachedRun = await processMarkdown(markdown, { cache: new RenderCache({ dir: cacheDir }) })
+		expect(cachedRun.debugMessages).toEqual(['Render cache for document: 2 hits, 0 misses'])
+		expect(cachedRun.messages).toHaveLength(1)
+		expect(cachedRun.messages).toEqual(firstRun.messages)
+		expect(cachedRun.messages[0]).toMatchObject({ line: 8, column: 25 })
+	})
+	test('Is disabled by default', async () => {
+		const { debugMessages } = await processMarkdown(sampleMarkdown, {})
+		expect(debugMessages).toEqual([])
+	})
+	test('Is not imported by the main entry point', async () => {
+		// The main entry point must not depend on Node.js modules to support other runtimes
+		const srcDir = join(__dirname, '..', 'src')
+		const visitedModules = new Set<string>()
+		const nodeImports: string[] = []
+		const visitModule = async (fileName: string) => {
+			if (visitedModules.has(fileName)) return
+			visitedModules.add(fileName)
+			const contents = await readFile(join(srcDir, fileName), 'utf8')
+			for (const [, isTypeImport, source] of contents.matchAll(/^import (type )?[^']*?'([^']+)'/gm)) {
+				if (isTypeImport) continue
+				if (source.startsWith('node:')) nodeImports.push(`${fileName}: ${source}`)
+				if (source.startsWith('./')) await visitModule(`${source.slice(2)}.ts`)
+			}
+		}
+		await visitModule('index.ts')
+		expect(visitedModules).not.toContain('cache.ts')
+		expect(nodeImports).toEqual([])
+	})
+})
+
+async function processMarkdown(markdown: string, options: RehypeExpressiveCodeOptions) {
+	const debugMessages: string[] = []
+	const processor = unified()
+		.use(remarkParse)
+		.use(remarkRehype)
+		.use(rehypeExpressiveCode, { ...options, logger: { debug: (message) => debugMessages.push(message) } })
+		.use(toHtml)
+	const file = await processor.process(markdown)
+	const html = file.toString()
+	const messages = file.messages.map(({ reason, line, column }) => ({ reason, line, column }))
+	return { html, debugMessages, messages }
+}
+
+/**
+ * Returns a plugin that appends the contents of the given file to every code block
+ * and registers the file as a dependency.
+ */
+function getDependencyPlugin(dependencyPath: string): ExpressiveCodePlugin {
+	return {
+		name: 'TestDependency',
+		hooks: {
+			preprocessCode: async ({ codeBlock }) => {
+				const { readFile } = await import('node:fs/promises')
+				codeBlock.insertLine(codeBlock.getLines().length, `// ${await readFile(dependencyPath, 'utf8')}`)
+				codeBlock.parentDocument?.addWatchFile?.(dependencyPath)
+			},
+		},
+	}
+}
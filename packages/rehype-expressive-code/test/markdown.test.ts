@@ -5,6 +5,7 @@ import remarkRehype from 'remark-rehype'
 import toHtml from 'rehype-stringify'
 import draculaRaw from 'shiki/themes/dracula.mjs'
 import { ThemeRegistration } from 'shiki/types.mjs'
+import type { Element, ElementContent } from 'expressive-code/hast'
 import { toText, selectAll } from 'expressive-code/hast'
 import { fromHtml, getCoreJsModules, outputHtmlSnapshot, showAllThemesInRenderedBlockHtml } from '@internal/test-utils'
 import rehypeExpressiveCode, { ExpressiveCodeTheme, RehypeExpressiveCodeOptions, StyleSettingPath, getCssVarName } from '../src'
@@ -281,6 +282,226 @@ describe('Usage inside unified/rehype', () => {
 		expect(code, `Code contained unexpected newlines: ${code}`).not.toContain('\n')
 		expect(styles, `Styles contained unexpected newlines: ${styles}`).not.toContain('\n')
 	})
+	describe('Combines adjacent code blocks with the same `group` into tabbed groups', () => {
+		const groupMarkdown = `
+\`\`\`sh group="install" tab="npm"
+npm install expressive-code
+\`\`\`
+
+\`\`\`sh group="install" tab="pnpm"
+pnpm add expressive-code
+\`\`\`
+`
+
+		test('Renders adjacent blocks sharing a group key as one group with tabs', async () => {
+			const processor = createMarkdownProcessor()
+			const result = await processor.process(groupMarkdown)
+			const html = result.value.toString()
+			const groups = selectAll('div.expressive-code', fromHtml(html, { fragment: true }))
+			expect(groups).toHaveLength(1)
+			expect(groups[0].properties.dataTabGroup).toEqual('install')
+			const tabs = selectAll('[role="tablist"] > [role="tab"]', groups[0])
+			expect(tabs.map((tab) => toText(tab))).toEqual(['npm', 'pnpm'])
+			expect(selectAll('[role="tabpanel"] pre', groups[0])).toHaveLength(2)
+		})
+		test('Does not combine blocks with different group keys', async () => {
+			const processor = createMarkdownProcessor()
+			const result = await processor.process(groupMarkdown.replace('group="install" tab="pnpm"', 'group="other" tab="pnpm"'))
+			const html = result.value.toString()
+			const groups = selectAll('div.expressive-code', fromHtml(html, { fragment: true }))
+			expect(groups).toHaveLength(2)
+			groups.forEach((group) => expect(selectAll('[role="tablist"]', group)).toHaveLength(0))
+		})
+		test('Does not combine blocks separated by other content', async () => {
+			const processor = createMarkdownProcessor()
+			const result = await processor.process(groupMarkdown.replace('\n\n```sh group="install" tab="pnpm"', '\n\nSome text\n\n```sh group="install" tab="pnpm"'))
+			const html = result.value.toString()
+			const groups = selectAll('div.expressive-code', fromHtml(html, { fragment: true }))
+			expect(groups).toHaveLength(2)
+			groups.forEach((group) => expect(selectAll('[role="tablist"]', group)).toHaveLength(0))
+		})
+	})
+	describe('Resolves `diff-from` references to other code blocks', () => {
+		const diffMarkdown = `
+\`\`\`js id="step-1"
+const a = 1
+\`\`\`
+
+\`\`\`js diff-from="step-1"
+const a = 2
+\`\`\`
+`
+
+		test('Passes the referenced code to the `diffFrom` prop', async () => {
+			const processor = createMarkdownProcessor()
+			const result = await processor.process(diffMarkdown)
+			const html = result.value.toString()
+			const groups = selectAll('div.expressive-code', fromHtml(html, { fragment: true }))
+			expect(groups).toHaveLength(2)
+			expect(selectAll('.ec-line.del .code', groups[1]).map((line) => toText(line))).toEqual(['const a = 1'])
+			expect(selectAll('.ec-line.ins .code', groups[1]).map((line) => toText(line))).toEqual(['const a = 2'])
+		})
+		test('Reports unknown references and renders the code block without a diff', async () => {
+			const processor = createMarkdownProcessor()
+			const file = await processor.process(diffMarkdown.replace('id="step-1"', 'id="other"'))
+			expect(file.messages).toHaveLength(1)
+			expect(file.messages[0]).toMatchObject({ line: 6, column: 7, fatal: false })
+			expect(file.messages[0].reason).toContain('diff-from="step-1"')
+			const groups = selectAll('div.expressive-code', fromHtml(file.value.toString(), { fragment: true }))
+			expect(groups).toHaveLength(2)
+			expect(selectAll('.ec-line.del, .ec-line.ins', groups[1])).toHaveLength(0)
+		})
+	})
+	describe('Passes ordered lists following code blocks with the `callouts` meta option to the `callouts` prop', () => {
+		const calloutsMarkdown = `
+\`\`\`js callouts
+const a = 1 // (1)
+\`\`\`
+
+1. Declares \`a\`.
+
+Some text.
+`
+
+		test('Moves the list items into the code block', async () => {
+			const receivedCallouts: string[][] = []
+			const processor = createMarkdownProcessor({
+				plugins: [
+					{
+						name: 'TestPlugin',
+						hooks: {
+							preprocessMetadata: ({ codeBlock }) => {
+								const { callouts = [] } = codeBlock.props as { callouts?: ElementContent[][] | undefined }
+								receivedCallouts.push(callouts.map((children) => toText({ type: 'element', tagName: 'li', properties: {}, children })))
+							},
+						},
+					},
+				],
+			})
+			const result = await processor.process(calloutsMarkdown)
+			const html = result.value.toString()
+			expect(receivedCallouts).toEqual([['Declares a.']])
+			expect(selectAll('ol', fromHtml(html, { fragment: true }))).toHaveLength(0)
+			expect(html).toContain('<p>Some text.</p>')
+		})
+		test('Throws if no ordered list follows the code block', async () => {
+			const processor = createMarkdownProcessor()
+			await expect(processor.process(calloutsMarkdown.replace('1. Declares', 'Declares'))).rejects.toThrow(/`callouts`/)
+		})
+	})
+	test('Forwards files registered by plugins to the `addWatchFile` option', async () => {
+		const watchFiles: { filePath: string; documentPath: string | undefined }[] = []
+		const processor = createMarkdownProcessor({
+			plugins: [
+				{
+					name: 'TestPlugin',
+					hooks: {
+						preprocessCode: ({ codeBlock }) => {
+							codeBlock.parentDocument?.addWatchFile?.('/examples/imported.js')
+						},
+					},
+				},
+			],
+			addWatchFile: ({ filePath, file }) => watchFiles.push({ filePath, documentPath: file.path }),
+		})
+		await processor.process({ path: '/docs/page.md', value: '```js\nconsole.log(1)\n```' })
+		expect(watchFiles).toEqual([{ filePath: '/examples/imported.js', documentPath: '/docs/page.md' }])
+	})
+	describe('Highlights inline code with a language hint if `inlineCode` is enabled', () => {
+		const inlineCodeMarkdown = `Call \`console.log('Hi'){:js}\` to log \`plain text\`.`
+
+		test('Leaves inline code unchanged by default', async () => {
+			const processor = createMarkdownProcessor()
+			const html = (await processor.process(inlineCodeMarkdown)).value.toString()
+			expect(html).toContain(`<code>console.log('Hi'){:js}</code>`)
+			expect(html).not.toContain('<style>')
+		})
+		test('Renders themed inline elements without frames', async () => {
+			const processor = createMarkdownProcessor({ inlineCode: true })
+			const html = (await processor.process(inlineCodeMarkdown)).value.toString()
+			const inlineElements = selectAll('.expressive-code.ec-inline', fromHtml(html))
+			expect(inlineElements).toHaveLength(1)
+			expect(toText(inlineElements[0].children[inlineElements[0].children.length - 1])).toEqual(`console.log('Hi')`)
+			expect(html).toMatch(/<span class="expressive-code ec-inline"><style>.+?<\/style><code class="ec-line"><span style="--0:#.*?<\/code><\/span>/)
+			expect(html).not.toContain('<figure')
+			expect(html).not.toContain('<script')
+			expect(html).toContain('<code>plain text</code>')
+		})
+		test('Does not repeat styles across inline code and code blocks', async () => {
+			const processor = createMarkdownProcessor({ inlineCode: true })
+			const html = (await processor.process(`${sampleCodeMarkdown}\n${inlineCodeMarkdown}\n\n${sampleCodeMarkdown}`)).value.toString()
+			expect(html.match(/<style>/g)).toHaveLength(1)
+			expect(html).toContain('<span class="expressive-code ec-inline"><style>')
+		})
+		test('Renders inline code inside callout explanations', async () => {
+			const receivedCallouts: ElementContent[][][] = []
+			const processor = createMarkdownProcessor({
+				inlineCode: true,
+				plugins: [
+					{
+						name: 'TestPlugin',
+						hooks: {
+							preprocessMetadata: ({ codeBlock }) => {
+								const { callouts = [] } = codeBlock.props as { callouts?: ElementContent[][] | undefined }
+								// Ignore the inline code, which is also rendered by the engine
+								if (callouts.length) receivedCallouts.push(callouts)
+							},
+						},
+					},
+				],
+			})
+			await processor.process('```js callouts\nconst a = 1 // (1)\n```\n\n1. Declares `a{:js}`.\n')
+			expect(receivedCallouts).toHaveLength(1)
+			const explanation: Element = { type: 'element', tagName: 'li', properties: {}, children: receivedCallouts[0][0] }
+			expect(selectAll('.ec-inline', explanation)).toHaveLength(1)
+			expect(toText(explanation)).not.toContain('{:js}')
+		})
+		test('Supports custom language hint patterns', async () => {
+			const processor = createMarkdownProcessor({ inlineCode: { pattern: /^(?<language>[\w#+.-]+):\s+(?<code>.+)$/s } })
+			const html = (await processor.process('Use `ts: const x: number = 1` or `const y = 2{:js}`.')).value.toString()
+			const inlineElements = selectAll('.ec-inline', fromHtml(html))
+			expect(inlineElements.map((element) => toText(element.children[element.children.length - 1]))).toEqual(['const x: number = 1'])
+			expect(html).toContain('<code>const y = 2{:js}</code>')
+		})
+	})
+	describe('Reports diagnostics as messages of the processed file', () => {
+		const silentLogger = { warn: () => undefined }
+
+		test('Reports warnings at the position of the code block', async () => {
+			const processor = createMarkdownProcessor({ logger: silentLogger })
+			const file = await processor.process('Some text\n\n```unknown-language\nconst a = 1\n```')
+			expect(file.messages).toHaveLength(1)
+			expect(file.messages[0]).toMatchObject({ line: 3, column: 1, fatal: false, source: 'expressive-code', ruleId: 'Shiki' })
+			expect(file.messages[0].reason).toContain('unknown-language')
+		})
+		test('Reports meta string problems at their position inside the fence line', async () => {
+			const processor = createMarkdownProcessor()
+			const file = await processor.process('```js title="x" pattern=/(\\d+/\nconst a = 1\n```')
+			expect(file.messages).toHaveLength(1)
+			expect(file.messages[0]).toMatchObject({ line: 1, column: 17, fatal: false })
+			expect(file.messages[0].reason).toContain('pattern=/(\\d+/')
+		})
+		test('Fails on errors and reports them at their position inside the code', async () => {
+			const processor = createMarkdownProcessor({
+				plugins: [
+					{
+						name: 'TestPlugin',
+						hooks: {
+							annotateCode: ({ addDiagnostic }) => {
+								addDiagnostic({ severity: 'error', message: 'Invalid code', location: { source: 'code', line: 2, column: 3 } })
+							},
+						},
+					},
+				],
+			})
+			const error: unknown = await processor.process('# Title\n\n```js\nconst a = 1\nconst b = 2\n```').catch((error: unknown) => error)
+			expect(error).toMatchObject({ reason: 'Invalid code', line: 5, column: 3, fatal: true, ruleId: 'TestPlugin' })
+		})
+		test('Fails on warnings in strict mode', async () => {
+			const processor = createMarkdownProcessor({ logger: silentLogger, strict: true })
+			await expect(processor.process('```unknown-language\nconst a = 1\n```')).rejects.toThrow(/unknown-language/)
+		})
+	})
 	describe('Normalizes tabs in code', () => {
 		const codeWithTabs = `\`\`\`js
 function test() {
@@ -9,6 +9,8 @@ import {
 	ExpressiveCodeBlockOptions,
 	ExpressiveCodeBlock,
 	ExpressiveCodeThemeInput,
+	ExpressiveCodeDiagnostic,
+	getDiagnosticDocumentPosition,
 } from 'expressive-code'
 import type { Element } from 'expressive-code/hast'
 import { toHtml, visit } from 'expressive-code/hast'
@@ -63,6 +65,16 @@ export type RemarkExpressiveCodeOptions = Omit<ExpressiveCodeConfig, 'themes'> &
 	 * or a promise resolving to one.
 	 */
 	customCreateBlock?: (({ input, file }: { input: ExpressiveCodeBlockOptions; file: VFileWithOutput<null> }) => ExpressiveCodeBlock | Promise<ExpressiveCodeBlock>) | undefined
+	/**
+	 * Problems found while rendering code blocks (e.g. unknown languages or invalid
+	 * meta options) are reported as messages of the processed file, pointing to
+	 * their position in the Markdown document.
+	 *
+	 * Errors always cause processing to fail. Set this to `true` to also fail on warnings.
+	 *
+	 * @default false
+	 */
+	strict?: boolean | undefined
 	/**
 	 * This advanced option allows you to influence the rendering process by creating
 	 * your own `ExpressiveCode` instance or processing the base styles and JS modules
@@ -136,7 +148,7 @@ export async function createRenderer(options: RemarkExpressiveCodeOptions = {}):
  */
 const remarkExpressiveCode: Plugin<[RemarkExpressiveCodeOptions] | unknown[], Root> = (...settings) => {
 	const options: RemarkExpressiveCodeOptions = settings[0] ?? {}
-	const { tabWidth = 2, getBlockLocale, customCreateRenderer, customCreateBlock } = options
+	const { tabWidth = 2, getBlockLocale, customCreateRenderer, customCreateBlock, strict = false } = options
 
 	let asyncRenderer: Promise<RemarkExpressiveCodeRenderer> | RemarkExpressiveCodeRenderer | undefined
 
@@ -150,11 +162,11 @@ const remarkExpressiveCode: Plugin<[RemarkExpressiveCodeOptions] | unknown[], Ro
 		renderer: RemarkExpressiveCodeRenderer
 		addedStyles: Set<string>
 		addedJsModules: Set<string>
-	}): Promise<string> => {
+	}): Promise<{ htmlContent: string; diagnostics: ExpressiveCodeDiagnostic[] }> => {
 		const { ec, baseStyles, themeStyles, jsModules } = renderer
 
 		// Try to render the current code block
-		const { renderedGroupAst, styles } = await ec.render(codeBlock)
+		const { renderedGroupAst, styles, diagnostics } = await ec.render(codeBlock, { logDiagnostics: false })
 
 		// Collect any style and script elements that we need to add to the output
 		const extraElements: Element[] = []
@@ -207,7 +219,7 @@ const remarkExpressiveCode: Plugin<[RemarkExpressiveCodeOptions] | unknown[], Ro
 		// Render the group AST to HTML
 		const htmlContent = toHtml(renderedGroupAst)
 
-		return htmlContent
+		return { htmlContent, diagnostics }
 	}
 
 	const transformer: Transformer<Root, Root> = async (tree, file) => {
@@ -229,6 +241,8 @@ const remarkExpressiveCode: Plugin<[RemarkExpressiveCodeOptions] | unknown[], Ro
 
 		const addedStyles = new Set<string>()
 		const addedJsModules = new Set<string>()
+		const documentLines = file.value !== undefined ? String(file.value).split(/\r?\n/) : []
+		const reportedMessages: ReturnType<typeof file.message>[] = []
 
 		for (let groupIndex = 0; groupIndex < nodesToProcess.length; groupIndex++) {
 			const [parent, code] = nodesToProcess[groupIndex]
@@ -262,7 +276,17 @@ const remarkExpressiveCode: Plugin<[RemarkExpressiveCodeOptions] | unknown[], Ro
 			const codeBlock = customCreateBlock ? await customCreateBlock({ input, file }) : new ExpressiveCodeBlock(input)
 
 			// Render the code block to HTML
-			const blockHtml = await renderBlockToHtml({ codeBlock, renderer, addedStyles, addedJsModules })
+			const { htmlContent: blockHtml, diagnostics } = await renderBlockToHtml({ codeBlock, renderer, addedStyles, addedJsModules })
+
+			// Report any diagnostics as messages of the processed file
+			for (const diagnostic of diagnostics) {
+				const fenceStart = code.position?.start
+				const place = fenceStart ? getDiagnosticDocumentPosition({ diagnostic, fenceStart, fenceLineText: documentLines[fenceStart.line - 1] }) : undefined
+				const origin = `expressive-code:${diagnostic.pluginName ?? 'core'}`
+				const message = file.message(diagnostic.message, place, origin)
+				message.fatal = diagnostic.severity === 'error' ? true : diagnostic.severity === 'warning' ? false : undefined
+				reportedMessages.push(message)
+			}
 
 			// Replace current node with a new HTML node that contains the rendered block
 			const html: HTML = {
@@ -271,6 +295,10 @@ const remarkExpressiveCode: Plugin<[RemarkExpressiveCodeOptions] | unknown[], Ro
 			}
 			parent.children.splice(parent.children.indexOf(code), 1, html)
 		}
+
+		// Fail on errors, and also on warnings in strict mode
+		const failingMessage = reportedMessages.find((message) => message.fatal === true) ?? (strict ? reportedMessages.find((message) => message.fatal === false) : undefined)
+		if (failingMessage) throw failingMessage
 	}
 
 	return transformer
@@ -282,6 +282,19 @@ describe('Usage inside unified/remark', () => {
 		expect(code, `Code contained unexpected newlines: ${code}`).not.toContain('\n')
 		expect(styles, `Styles contained unexpected newlines: ${styles}`).not.toContain('\n')
 	})
+	describe('Reports diagnostics as messages of the processed file', () => {
+		test('Reports warnings at their position in the document', async () => {
+			const processor = createRemarkProcessor()
+			const file = await processor.process('Some text\n\n```js title="x" pattern=/(\\d+/\nconst a = 1\n```')
+			expect(file.messages).toHaveLength(1)
+			const { line, column, fatal, source } = file.messages[0]
+			expect({ line, column, fatal, source }).toEqual({ line: 3, column: 17, fatal: false, source: 'expressive-code' })
+		})
+		test('Fails on warnings in strict mode', async () => {
+			const processor = createRemarkProcessor({ strict: true })
+			await expect(processor.process('```js pattern=/(\\d+/\nconst a = 1\n```')).rejects.toThrow(/pattern=/)
+		})
+	})
 	describe('Normalizes tabs in code', () => {
 		const codeWithTabs = `\`\`\`js
 function test() {
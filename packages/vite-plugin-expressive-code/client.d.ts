@@ -0,0 +1,15 @@
+declare module '*?ec' {
+	/**
+	 * The HTML of the code block rendered by Expressive Code.
+	 */
+	const html: string
+	export default html
+}
+
+declare module '*&ec' {
+	/**
+	 * The HTML of the code block rendered by Expressive Code.
+	 */
+	const html: string
+	export default html
+}
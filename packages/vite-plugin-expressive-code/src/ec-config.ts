@@ -0,0 +1,38 @@
+import { existsSync } from 'node:fs'
+import { pathToFileURL } from 'node:url'
+import type { VitePluginExpressiveCodeOptions } from './types'
+
+export const ecConfigFileName = 'ec.config.mjs'
+
+/**
+ * Returns the path of the optional EC config file in the given Vite project root.
+ */
+export function getEcConfigFilePath(root: string) {
+	return `${root.replace(/\/$/, '')}/${ecConfigFileName}`
+}
+
+/**
+ * Attempts to import the EC config file in the given Vite project root
+ * and returns its default export.
+ *
+ * If no config file is found, an empty object is returned.
+ */
+export async function loadEcConfigFile(root: string): Promise<VitePluginExpressiveCodeOptions> {
+	const configFilePath = getEcConfigFilePath(root)
+	if (!existsSync(configFilePath)) return {}
+	try {
+		// Add a timestamp to bypass the module cache when reloading the changed config file
+		// (using a custom query parameter as Vite strips the `t` parameter from module IDs)
+		const module = (await import(/* @vite-ignore */ `${pathToFileURL(configFilePath).href}?update=${Date.now()}`)) as { default: VitePluginExpressiveCodeOptions }
+		if (!module.default) {
+			throw new Error(`Missing or invalid default export. Please export your Expressive Code config object as the default export.`)
+		}
+		return module.default
+	} catch (error) {
+		const message = error instanceof Error ? error.message : (error as string)
+		throw new Error(
+			`The Expressive Code config file "${configFilePath}" could not be loaded due to the following error: ${message}`,
+			error instanceof Error ? { cause: error } : undefined
+		)
+	}
+}
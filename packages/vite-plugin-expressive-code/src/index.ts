@@ -0,0 +1,143 @@
+import type { Plugin, ModuleNode } from 'vite'
+import type { RehypeExpressiveCodeRenderer } from 'rehype-expressive-code'
+import { createRenderer, getStableObjectHash } from 'rehype-expressive-code'
+import { getEcConfigFilePath, loadEcConfigFile } from './ec-config'
+import { Snippet, getCodeLanguage, parseSnippetImport, renderSnippet } from './snippets'
+import type { VitePluginExpressiveCodeOptions } from './types'
+
+export * from 'rehype-expressive-code'
+
+export type { VitePluginExpressiveCodeOptions } from './types'
+export { loadEcConfigFile } from './ec-config'
+
+export const stylesModuleId = 'virtual:expressive-code/styles.css'
+export const scriptsModuleId = 'virtual:expressive-code/scripts.js'
+const snippetModuleIdPrefix = 'virtual:expressive-code/snippets/'
+
+/**
+ * Framework-agnostic Vite plugin that makes Expressive Code available to any Vite-based project
+ * (e.g. SvelteKit, Vue or React). It provides the following modules:
+ *
+ * - `virtual:expressive-code/styles.css`: The base and theme styles required by all code blocks.
+ *   Import it once in your app to let Vite emit it as an external, cacheable CSS file.
+ * - `virtual:expressive-code/scripts.js`: The JS modules required by all code blocks
+ *   (e.g. for the "Copy to clipboard" button). Import it once in your client-side code.
+ * - Any source code file imported with the `ec` query parameter (e.g.
+ *   `import snippet from './example.ts?ec&lang=ts&meta=title%3D%22example.ts%22'`) is rendered
+ *   at build time, and its default export is the resulting HTML string. The optional `lang`
+ *   and `meta` query parameters default to the file extension and an empty meta string.
+ *
+ * Options passed to the plugin are merged with the options exported by an optional
+ * `ec.config.mjs` file in the Vite project root. In dev mode, changing the config file
+ * or any rendered source code file reloads the affected modules.
+ */
+export function vitePluginExpressiveCode(options: VitePluginExpressiveCodeOptions = {}): Plugin {
+	let root = process.cwd()
+	let asyncRenderer: Promise<RehypeExpressiveCodeRenderer> | undefined
+	// The snippets imported so far, including all files they depend on, by virtual module ID
+	const snippets = new Map<string, { snippet: Snippet; dependencies: Set<string> }>()
+
+	const getRenderer = async () => {
+		if (asyncRenderer === undefined) {
+			const rendererPromise = loadEcConfigFile(root).then((ecConfigFileOptions) => {
+				const mergedOptions = { ...ecConfigFileOptions, ...options }
+				return (mergedOptions.customCreateRenderer ?? createRenderer)(mergedOptions)
+			})
+			// Allow retrying after errors (e.g. after fixing a broken config file)
+			rendererPromise.catch(() => {
+				if (asyncRenderer === rendererPromise) asyncRenderer = undefined
+			})
+			asyncRenderer = rendererPromise
+		}
+		return await asyncRenderer
+	}
+
+	return {
+		name: 'vite-plugin-expressive-code',
+		enforce: 'pre',
+		configResolved(config) {
+			root = config.root
+		},
+		async resolveId(source, importer) {
+			if (source === stylesModuleId || source === scriptsModuleId) return `\0${source}`
+			// Resolve snippet imports to virtual modules with a `.js` extension
+			// to prevent other plugins from processing them based on their original file type
+			const snippetImport = parseSnippetImport(source)
+			if (!snippetImport) return
+			const resolved = await this.resolve(snippetImport.path, importer, { skipSelf: true })
+			if (!resolved) return
+			const filePath = resolved.id.split('?')[0]
+			const snippet: Snippet = {
+				filePath,
+				language: snippetImport.language ?? getCodeLanguage(filePath),
+				meta: snippetImport.meta,
+			}
+			const snippetModuleId = `${snippetModuleIdPrefix}${getStableObjectHash(snippet)}.js`
+			if (!snippets.has(snippetModuleId)) snippets.set(snippetModuleId, { snippet, dependencies: new Set([filePath]) })
+			return `\0${snippetModuleId}`
+		},
+		async load(id) {
+			if (id[0] !== '\0') return
+			const moduleId = id.slice(1)
+			if (moduleId === stylesModuleId) {
+				const { baseStyles, themeStyles } = await getRenderer()
+				return `${baseStyles}${themeStyles}`
+			}
+			if (moduleId === scriptsModuleId) {
+				const { jsModules } = await getRenderer()
+				return [...new Set(jsModules)].join('\n')
+			}
+			const snippetData = snippets.get(moduleId)
+			if (!snippetData) return
+			const { snippet, dependencies } = snippetData
+			const addWatchFile = (filePath: string) => {
+				dependencies.add(filePath)
+				this.addWatchFile(filePath)
+			}
+			addWatchFile(snippet.filePath)
+			const html = await renderSnippet({ snippet, renderer: await getRenderer(), tabWidth: options.tabWidth ?? 2, addWatchFile })
+			return `export default ${JSON.stringify(html)}`
+		},
+		handleHotUpdate({ file, server, modules }) {
+			const getModules = (moduleIds: string[]) => moduleIds.map((moduleId) => server.moduleGraph.getModuleById(`\0${moduleId}`)).filter((module): module is ModuleNode => !!module)
+
+			// If the EC config file changes, recreate the renderer and reload all of our modules
+			if (file === getEcConfigFilePath(root)) {
+				asyncRenderer = undefined
+				getModules([stylesModuleId, scriptsModuleId, ...snippets.keys()]).forEach((module) => server.moduleGraph.invalidateModule(module))
+				// Keep using `ws` as `hot` is not available in Vite 4
+				// eslint-disable-next-line deprecation/deprecation
+				server.ws.send({ type: 'full-reload' })
+				return []
+			}
+
+			// If any file that snippets depend on changes, update the snippet modules
+			const dependentSnippetIds = [...snippets].filter(([, { dependencies }]) => dependencies.has(file)).map(([moduleId]) => moduleId)
+			if (dependentSnippetIds.length) return [...modules, ...getModules(dependentSnippetIds)]
+		},
+	}
+}
+
+/**
+ * A utility function that helps you define an Expressive Code configuration object. It is meant
+ * to be used inside the optional config file `ec.config.mjs` in your Vite project root,
+ * and its return value to be exported as the default export.
+ *
+ * Using this function is recommended, but not required. It just passes through the given object,
+ * but it also provides type information for your editor's auto-completion and type checking.
+ *
+ * @example
+ * ```js
+ * // ec.config.mjs
+ * import { defineEcConfig } from 'vite-plugin-expressive-code'
+ *
+ * export default defineEcConfig({
+ *   themes: ['dracula', 'github-light'],
+ * })
+ * ```
+ */
+export function defineEcConfig(config: VitePluginExpressiveCodeOptions) {
+	return config
+}
+
+export default vitePluginExpressiveCode
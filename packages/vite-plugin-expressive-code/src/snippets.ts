@@ -0,0 +1,90 @@
+import { readFile } from 'node:fs/promises'
+import { basename, extname } from 'node:path'
+import type { RehypeExpressiveCodeRenderer } from 'rehype-expressive-code'
+import type { Element } from 'rehype-expressive-code/hast'
+import { toHtml } from 'rehype-expressive-code/hast'
+
+export type Snippet = {
+	/**
+	 * The absolute path of the imported source code file.
+	 */
+	filePath: string
+	/**
+	 * The language used to render the code, taken from the `lang` query parameter.
+	 * Defaults to the file extension (e.g. `ts` for `index.ts`).
+	 */
+	language: string
+	/**
+	 * The meta string used to render the code, taken from the `meta` query parameter.
+	 */
+	meta: string
+}
+
+/**
+ * Checks if the given import source contains the `ec` query parameter
+ * (e.g. `./example.ts?ec&lang=ts&meta=title%3D%22example.ts%22`).
+ *
+ * If so, returns the import path without query and the parsed query parameters.
+ */
+export function parseSnippetImport(source: string) {
+	const queryStart = source.indexOf('?')
+	if (queryStart < 0) return
+	const params = new URLSearchParams(source.slice(queryStart + 1))
+	if (!params.has('ec')) return
+	return {
+		path: source.slice(0, queryStart),
+		language: params.get('lang') ?? undefined,
+		meta: params.get('meta') ?? '',
+	}
+}
+
+/**
+ * Returns the language of the given source code file based on its file extension
+ * (e.g. `ts` for `index.ts`). Files without an extension use their lowercase
+ * file name instead (e.g. `dockerfile` for `Dockerfile`).
+ */
+export function getCodeLanguage(filePath: string) {
+	return extname(filePath).slice(1) || basename(filePath).toLowerCase()
+}
+
+/**
+ * Reads the snippet's source code file and renders it to HTML.
+ *
+ * Page-wide styles and JS modules are not included because they are provided
+ * by the `virtual:expressive-code/styles.css` and `virtual:expressive-code/scripts.js`
+ * modules. Group-level styles are prepended to the children of the rendered wrapper element.
+ */
+export async function renderSnippet({
+	snippet,
+	renderer,
+	tabWidth,
+	addWatchFile,
+}: {
+	snippet: Snippet
+	renderer: RehypeExpressiveCodeRenderer
+	tabWidth: number
+	addWatchFile: (filePath: string) => void
+}) {
+	const { filePath, language, meta } = snippet
+	let code = await readFile(filePath, 'utf8')
+	if (tabWidth > 0) code = code.replace(/\t/g, ' '.repeat(tabWidth))
+
+	const { renderedGroupAst, styles } = await renderer.ec.render({
+		code,
+		language,
+		meta,
+		parentDocument: {
+			sourceFilePath: filePath,
+			addWatchFile,
+		},
+	})
+	if (styles.size) {
+		renderedGroupAst.children.unshift({
+			type: 'element',
+			tagName: 'style',
+			properties: {},
+			children: [{ type: 'text', value: [...styles].join('') }],
+		} satisfies Element)
+	}
+	return toHtml(renderedGroupAst)
+}
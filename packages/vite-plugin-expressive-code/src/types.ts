@@ -0,0 +1,3 @@
+import type { RehypeExpressiveCodeOptions } from 'rehype-expressive-code'
+
+export type VitePluginExpressiveCodeOptions = Omit<RehypeExpressiveCodeOptions, 'getBlockLocale' | 'customCreateBlock' | 'addWatchFile' | 'inlineCode' | 'strict' | 'cache'>
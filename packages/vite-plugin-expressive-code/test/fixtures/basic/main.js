@@ -0,0 +1,5 @@
+import 'virtual:expressive-code/styles.css'
+import 'virtual:expressive-code/scripts.js'
+import snippet from './example.ts?ec&meta=title%3D%22example.ts%22%20%7B2%7D'
+
+export default snippet
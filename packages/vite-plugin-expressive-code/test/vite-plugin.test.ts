@@ -0,0 +1,105 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { cp, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { HmrContext, ModuleNode, Plugin, Rollup, ViteDevServer } from 'vite'
+import { build, createServer } from 'vite'
+import { vitePluginExpressiveCode } from '../src'
+
+const fixturesDir = join(__dirname, 'fixtures')
+
+async function buildFixture(plugin: Plugin) {
+	const output = (await build({
+		root: join(fixturesDir, 'basic'),
+		configFile: false,
+		logLevel: 'silent',
+		plugins: [plugin],
+		build: {
+			write: false,
+			lib: { entry: 'main.js', formats: ['es'], fileName: 'main' },
+		},
+	})) as Rollup.RollupOutput[]
+	const files = output.flatMap(({ output }) => output)
+	const getContents = (extension: string) =>
+		files.map((file) => (file.type === 'chunk' ? file.code : file.source.toString())).filter((_, index) => files[index].fileName.endsWith(extension))
+	return { css: getContents('.css').join(''), js: getContents('.js').join('') }
+}
+
+describe('Builds projects using the plugin', () => {
+	test('Emits the styles as external CSS file', async () => {
+		const { css } = await buildFixture(vitePluginExpressiveCode())
+		expect(css).toContain('.expressive-code')
+		// Expect the default themes to be included
+		expect(css).toContain('#24292e')
+	})
+	test('Includes the JS modules in the bundle', async () => {
+		const { js } = await buildFixture(vitePluginExpressiveCode())
+		expect(js).toContain('navigator.clipboard')
+	})
+	test('Renders source files imported with the "ec" query parameter to HTML', async () => {
+		const { js } = await buildFixture(vitePluginExpressiveCode())
+		expect(js).toContain('<div class="expressive-code">')
+		expect(js).toContain('<span class="title">example.ts</span>')
+		expect(js).toContain('<pre data-language="ts"')
+		// Expect the second line to be marked and its tab to be replaced with 2 spaces
+		expect(js).toMatch(/<div class="ec-line highlight mark">.*?<div class="code"><span class="indent"> {2}<\/span>/)
+		// Expect the page-wide styles not to be inlined
+		expect(js).not.toContain('<style>')
+	})
+	test('Passes the plugin options to the renderer', async () => {
+		const { css, js } = await buildFixture(vitePluginExpressiveCode({ themes: ['dracula'], tabWidth: 4 }))
+		expect(css.toLowerCase()).toContain('#282a36')
+		expect(js).toMatch(/<span class="indent"> {4}<\/span>/)
+	})
+})
+
+describe('Supports hot reloading in dev mode', () => {
+	let projectDir: string | undefined
+	let server: ViteDevServer | undefined
+
+	afterEach(async () => {
+		await server?.close()
+		if (projectDir) await rm(projectDir, { recursive: true, force: true })
+		server = undefined
+		projectDir = undefined
+	})
+
+	async function startServer() {
+		projectDir = await mkdtemp(join(tmpdir(), 'vite-plugin-ec-'))
+		await cp(join(fixturesDir, 'basic'), projectDir, { recursive: true })
+		await writeFile(join(projectDir, 'ec.config.mjs'), `export default { themes: ['dracula'] }`)
+		const plugin = vitePluginExpressiveCode()
+		server = await createServer({
+			root: projectDir,
+			configFile: false,
+			logLevel: 'silent',
+			plugins: [plugin],
+			server: { middlewareMode: true, hmr: false, watch: null },
+			appType: 'custom',
+		})
+		const handleHotUpdate = plugin.handleHotUpdate as (ctx: Partial<HmrContext>) => Promise<ModuleNode[] | void> | ModuleNode[] | void
+		const triggerHotUpdate = async (file: string) => await handleHotUpdate({ file: `${server!.config.root}/${file}`, server: server!, modules: [] })
+		const loadStyles = async () => (await server!.pluginContainer.load('\0virtual:expressive-code/styles.css'))?.toString().toLowerCase() ?? ''
+		return { projectDir, server, triggerHotUpdate, loadStyles }
+	}
+
+	test('Uses the options from the EC config file and reloads them on change', async () => {
+		const { projectDir, triggerHotUpdate, loadStyles } = await startServer()
+		expect(await loadStyles()).toContain('#282a36')
+
+		await writeFile(join(projectDir, 'ec.config.mjs'), `export default { themes: ['solarized-light'] }`)
+		// Expect the plugin to handle the config file change without returning any modules
+		expect(await triggerHotUpdate('ec.config.mjs')).toEqual([])
+		const styles = await loadStyles()
+		expect(styles).toContain('#fdf6e3')
+		expect(styles).not.toContain('#282a36')
+	})
+
+	test('Updates snippet modules when their source files change', async () => {
+		const { server, triggerHotUpdate } = await startServer()
+		await server.transformRequest('/main.js')
+		const updatedModules = (await triggerHotUpdate('example.ts')) ?? []
+		expect(updatedModules.map((module) => module.id)).toEqual([expect.stringMatching(/^\0virtual:expressive-code\/snippets\/.*\.js$/)])
+		expect(await triggerHotUpdate('main.js')).toBeUndefined()
+	})
+})